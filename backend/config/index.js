@@ -22,6 +22,8 @@ const config = {
       interval: 3000,
       maxAttempts: 10,
     },
+    // 服务调用默认超时（毫秒）
+    serviceTimeout: parseInt(process.env.ROS2_SERVICE_TIMEOUT || '10000', 10),
     // 订阅的ROS2话题列表
     topics: process.env.ROS2_TOPICS 
       ? process.env.ROS2_TOPICS.split(',')
@@ -44,6 +46,23 @@ const config = {
     pingInterval: 25000,
   },
 
+  // 多操作员控制锁配置
+  controlLock: {
+    // 所有发布、服务调用和动作目标都需要控制权，观察者只能通过急停话题/服务触发急停（data为true），解除急停也需要控制权
+    emergencyStopTopic: process.env.CONTROL_LOCK_ESTOP_TOPIC || '/emergency_stop',
+    emergencyStopService: process.env.CONTROL_LOCK_ESTOP_SERVICE || '',
+    // 控制请求等待持有者处理的超时（毫秒）
+    requestTimeout: parseInt(process.env.CONTROL_LOCK_REQUEST_TIMEOUT || '15000', 10),
+    // 持有者断开后保留控制权的宽限期（毫秒）
+    disconnectGrace: parseInt(process.env.CONTROL_LOCK_DISCONNECT_GRACE || '3000', 10),
+    // 无人持有时第一个发出指令的客户端自动获得控制权
+    autoAcquire: process.env.CONTROL_LOCK_AUTO_ACQUIRE !== 'false',
+    // 是否允许强制接管
+    allowForceTake: process.env.CONTROL_LOCK_ALLOW_FORCE !== 'false',
+    // 身份令牌签名密钥（未设置时每次启动随机生成，重启后客户端重新分配身份）
+    secret: process.env.CONTROL_LOCK_SECRET,
+  },
+
   // 显示模式配置
   display: {
     // 显示模式：'single' | 'multi'
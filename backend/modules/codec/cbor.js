@@ -0,0 +1,249 @@
+/**
+ * CBOR编解码（RFC 8949）
+ * 用于与rosbridge（cbor/cbor-raw压缩）和前端之间的二进制话题数据
+ * 数值数组按RFC 8746编码为类型化数组，与前端 services/cbor.ts 保持一致
+ */
+
+// 主类型
+const MT_UINT = 0;
+const MT_NEGINT = 1;
+const MT_BYTES = 2;
+const MT_TEXT = 3;
+const MT_ARRAY = 4;
+const MT_MAP = 5;
+const MT_TAG = 6;
+const MT_SIMPLE = 7;
+
+// RFC 8746 类型化数组标签（小端和单字节类型）
+const TYPED_ARRAY_TAGS = {
+  64: Uint8Array,
+  68: Uint8ClampedArray,
+  69: Uint16Array,
+  70: Uint32Array,
+  71: BigUint64Array,
+  72: Int8Array,
+  77: Int16Array,
+  78: Int32Array,
+  79: BigInt64Array,
+  85: Float32Array,
+  86: Float64Array,
+};
+
+// ========== 编码 ==========
+
+function encodeHead(chunks, majorType, value) {
+  const major = majorType << 5;
+  let head;
+  if (value < 24) {
+    head = Buffer.from([major | value]);
+  } else if (value < 0x100) {
+    head = Buffer.from([major | 24, value]);
+  } else if (value < 0x10000) {
+    head = Buffer.alloc(3);
+    head[0] = major | 25;
+    head.writeUInt16BE(value, 1);
+  } else if (value < 0x100000000) {
+    head = Buffer.alloc(5);
+    head[0] = major | 26;
+    head.writeUInt32BE(value, 1);
+  } else {
+    head = Buffer.alloc(9);
+    head[0] = major | 27;
+    head.writeBigUInt64BE(BigInt(value), 1);
+  }
+  chunks.push(head);
+}
+
+function getTypedArrayTag(value) {
+  for (const [tag, ctor] of Object.entries(TYPED_ARRAY_TAGS)) {
+    if (value.constructor === ctor) return Number(tag);
+  }
+  return null;
+}
+
+function encodeItem(chunks, value) {
+  if (value === null) {
+    chunks.push(Buffer.from([(MT_SIMPLE << 5) | 22]));
+  } else if (value === undefined) {
+    chunks.push(Buffer.from([(MT_SIMPLE << 5) | 23]));
+  } else if (typeof value === 'boolean') {
+    chunks.push(Buffer.from([(MT_SIMPLE << 5) | (value ? 21 : 20)]));
+  } else if (typeof value === 'number') {
+    if (Number.isSafeInteger(value)) {
+      if (value >= 0) {
+        encodeHead(chunks, MT_UINT, value);
+      } else {
+        encodeHead(chunks, MT_NEGINT, -1 - value);
+      }
+    } else {
+      const buffer = Buffer.alloc(9);
+      buffer[0] = (MT_SIMPLE << 5) | 27;
+      buffer.writeDoubleBE(value, 1);
+      chunks.push(buffer);
+    }
+  } else if (typeof value === 'bigint') {
+    encodeItem(chunks, Number(value));
+  } else if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    encodeHead(chunks, MT_TEXT, bytes.length);
+    chunks.push(bytes);
+  } else if (Buffer.isBuffer(value) || value instanceof Uint8Array) {
+    encodeHead(chunks, MT_BYTES, value.length);
+    chunks.push(Buffer.from(value.buffer, value.byteOffset, value.byteLength));
+  } else if (value instanceof ArrayBuffer) {
+    encodeItem(chunks, new Uint8Array(value));
+  } else if (ArrayBuffer.isView(value)) {
+    // 类型化数组按RFC 8746编码：标签 + 字节串
+    const tag = getTypedArrayTag(value);
+    if (tag !== null) {
+      encodeHead(chunks, MT_TAG, tag);
+    }
+    encodeHead(chunks, MT_BYTES, value.byteLength);
+    chunks.push(Buffer.from(value.buffer, value.byteOffset, value.byteLength));
+  } else if (Array.isArray(value)) {
+    encodeHead(chunks, MT_ARRAY, value.length);
+    value.forEach(item => encodeItem(chunks, item));
+  } else if (typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    encodeHead(chunks, MT_MAP, entries.length);
+    entries.forEach(([key, item]) => {
+      encodeItem(chunks, key);
+      encodeItem(chunks, item);
+    });
+  } else {
+    throw new Error(`CBOR: unsupported type ${typeof value}`);
+  }
+}
+
+/**
+ * 编码为CBOR
+ * @param {*} value
+ * @returns {Buffer}
+ */
+function encode(value) {
+  const chunks = [];
+  encodeItem(chunks, value);
+  return Buffer.concat(chunks);
+}
+
+// ========== 解码 ==========
+
+function decodeFloat16(half) {
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * Math.pow(2, -14) * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * Math.pow(2, exponent - 15) * (1 + fraction / 1024);
+}
+
+function toTypedArray(ctor, bytes) {
+  const elementSize = ctor.BYTES_PER_ELEMENT;
+  // 未对齐时复制一份，否则直接共享底层缓冲区
+  if (bytes.byteOffset % elementSize !== 0) {
+    bytes = Buffer.from(bytes);
+  }
+  return new ctor(bytes.buffer, bytes.byteOffset, bytes.byteLength / elementSize);
+}
+
+function decodeItem(state) {
+  const { buffer } = state;
+  if (state.offset >= buffer.length) {
+    throw new Error('CBOR: unexpected end of data');
+  }
+
+  const initial = buffer[state.offset++];
+  const majorType = initial >> 5;
+  const info = initial & 0x1f;
+
+  if (info === 31 && majorType !== MT_SIMPLE) {
+    throw new Error('CBOR: indefinite-length items are not supported');
+  }
+
+  const readLength = () => {
+    let value;
+    if (info < 24) return info;
+    switch (info) {
+      case 24: value = buffer.readUInt8(state.offset); state.offset += 1; return value;
+      case 25: value = buffer.readUInt16BE(state.offset); state.offset += 2; return value;
+      case 26: value = buffer.readUInt32BE(state.offset); state.offset += 4; return value;
+      case 27: value = Number(buffer.readBigUInt64BE(state.offset)); state.offset += 8; return value;
+      default: throw new Error(`CBOR: unsupported length encoding ${info}`);
+    }
+  };
+
+  const readBytes = (length) => {
+    if (state.offset + length > buffer.length) {
+      throw new Error('CBOR: unexpected end of data');
+    }
+    const bytes = buffer.subarray(state.offset, state.offset + length);
+    state.offset += length;
+    return bytes;
+  };
+
+  switch (majorType) {
+    case MT_UINT:
+      return readLength();
+    case MT_NEGINT:
+      return -1 - readLength();
+    case MT_BYTES:
+      return readBytes(readLength());
+    case MT_TEXT:
+      return readBytes(readLength()).toString('utf8');
+    case MT_ARRAY: {
+      const length = readLength();
+      const items = new Array(length);
+      for (let i = 0; i < length; i++) {
+        items[i] = decodeItem(state);
+      }
+      return items;
+    }
+    case MT_MAP: {
+      const length = readLength();
+      const result = {};
+      for (let i = 0; i < length; i++) {
+        const key = decodeItem(state);
+        result[String(key)] = decodeItem(state);
+      }
+      return result;
+    }
+    case MT_TAG: {
+      const tag = readLength();
+      const content = decodeItem(state);
+      const ctor = TYPED_ARRAY_TAGS[tag];
+      if (ctor && content instanceof Uint8Array) {
+        return toTypedArray(ctor, content);
+      }
+      // 其他标签（如时间戳）直接返回内容
+      return content;
+    }
+    default: {
+      let value;
+      switch (info) {
+        case 20: return false;
+        case 21: return true;
+        case 22: return null;
+        case 23: return undefined;
+        case 25: value = decodeFloat16(buffer.readUInt16BE(state.offset)); state.offset += 2; return value;
+        case 26: value = buffer.readFloatBE(state.offset); state.offset += 4; return value;
+        case 27: value = buffer.readDoubleBE(state.offset); state.offset += 8; return value;
+        default: throw new Error(`CBOR: unsupported simple value ${info}`);
+      }
+    }
+  }
+}
+
+/**
+ * 解码CBOR数据
+ * @param {Buffer|Uint8Array|ArrayBuffer} data
+ */
+function decode(data) {
+  const buffer = Buffer.isBuffer(data)
+    ? data
+    : data instanceof ArrayBuffer
+      ? Buffer.from(data)
+      : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  return decodeItem({ buffer, offset: 0 });
+}
+
+module.exports = { encode, decode };
@@ -0,0 +1,388 @@
+/**
+ * 控制锁模块
+ * 每台机器人同一时间只有一个客户端持有驾驶控制权，其他客户端只能观察
+ * - 客户端身份由服务器签发：首次登记时分配clientId并返回签名令牌，客户端之后凭令牌登记；
+ *   同一浏览器的多个屏幕窗口共用一个令牌，共享控制权。clientId只发给本人，其他客户端只看到名称
+ * - 未登记的连接不能发出受控指令
+ * - 请求/批准：控制权被占用时向持有者发出请求，持有者批准后移交，超时未处理视为拒绝
+ * - 强制接管：立即移交并通知原持有者
+ * - 持有者的全部连接断开超过宽限期后自动释放（刷新页面不会丢失控制权）
+ * 是否允许发布/调用由 WebSocketService 在处理客户端请求时检查
+ */
+
+const crypto = require('crypto');
+const EventEmitter = require('events');
+
+const DEFAULT_ROBOT_ID = 'default';
+
+const NOT_REGISTERED = { success: false, error: '未登记控制身份' };
+
+class ControlLock extends EventEmitter {
+  constructor(config = {}) {
+    super();
+    this.config = {
+      // 默认所有指令都需要控制权，观察者只能在急停话题/服务上触发急停（data为true）
+      emergencyStopTopic: config.emergencyStopTopic || '/emergency_stop',
+      emergencyStopService: config.emergencyStopService || '',
+      requestTimeout: config.requestTimeout || 15000,
+      disconnectGrace: config.disconnectGrace ?? 3000,
+      // 无人持有时，第一个发出受控指令的客户端自动获得控制权
+      autoAcquire: config.autoAcquire !== false,
+      allowForceTake: config.allowForceTake !== false,
+    };
+
+    // 令牌签名密钥：未配置时每次启动随机生成（重启后客户端重新分配身份）
+    this.secret = config.secret || crypto.randomBytes(32).toString('hex');
+
+    // robotId -> { holder: {clientId, name, since}, request: {clientId, name, requestedAt, timer}, releaseTimer }
+    this.locks = new Map();
+    // socketId -> { clientId, name, robotId }
+    this.sessions = new Map();
+  }
+
+  /**
+   * 控制策略（注册时下发给客户端，客户端据此提前拦截观察者的指令）
+   */
+  getPolicy() {
+    const { emergencyStopTopic, emergencyStopService, autoAcquire, allowForceTake } = this.config;
+    return { emergencyStopTopic, emergencyStopService, autoAcquire, allowForceTake };
+  }
+
+  /**
+   * 客户端登记身份和要控制的机器人
+   * 令牌有效时沿用其身份，否则分配新身份；返回的会话含令牌，只回传给登记的连接
+   */
+  register(socketId, { token, name, robotId } = {}) {
+    const previous = this.sessions.get(socketId);
+    let clientId = this.verifyToken(token);
+    if (!clientId) {
+      clientId = `client_${crypto.randomBytes(8).toString('hex')}`;
+      token = this.signToken(clientId);
+    }
+    const session = {
+      clientId,
+      token,
+      name: (typeof name === 'string' && name.trim()) || `操作员 ${clientId.slice(-4)}`,
+      robotId: robotId || DEFAULT_ROBOT_ID,
+    };
+    this.sessions.set(socketId, session);
+
+    // 切换了机器人或身份：按离开原机器人处理
+    if (previous && (previous.robotId !== session.robotId || previous.clientId !== session.clientId)) {
+      this.handleClientLeft(previous);
+    }
+
+    // 持有者在宽限期内重新连接，保留控制权
+    const lock = this.locks.get(session.robotId);
+    if (lock && lock.holder?.clientId === session.clientId) {
+      this.clearReleaseTimer(lock);
+      lock.holder.name = session.name;
+      this.emitChange(session.robotId);
+    }
+
+    return session;
+  }
+
+  /**
+   * 连接断开
+   */
+  unregister(socketId) {
+    const session = this.sessions.get(socketId);
+    if (!session) return;
+    this.sessions.delete(socketId);
+    this.handleClientLeft(session);
+  }
+
+  /**
+   * 连接的登记信息（未登记时为null）
+   */
+  getSession(socketId) {
+    return this.sessions.get(socketId) || null;
+  }
+
+  /**
+   * 登记在该机器人上的全部连接
+   * @returns {Array<[string, object]>} [socketId, session]
+   */
+  getRobotSessions(robotId) {
+    return Array.from(this.sessions).filter(([, session]) => session.robotId === robotId);
+  }
+
+  /**
+   * 指令是否需要控制权
+   * 观察者只读：除触发急停（急停话题/服务且data为true）外都需要控制权，解除急停同样需要
+   * @param {'topic'|'service'|'action'} kind
+   * @param {object} message - 发布的消息或服务请求参数
+   */
+  requiresControl(kind, name, message) {
+    const { emergencyStopTopic, emergencyStopService } = this.config;
+    const isEmergencyStop = (kind === 'topic' && name === emergencyStopTopic) ||
+      (kind === 'service' && !!emergencyStopService && name === emergencyStopService);
+    return !(isEmergencyStop && message?.data === true);
+  }
+
+  /**
+   * 检查客户端是否可以发出受控指令（无人持有且允许自动获取时直接获得控制权）
+   */
+  canControl(socketId) {
+    const session = this.getSession(socketId);
+    if (!session) return false;
+    const lock = this.getLock(session.robotId);
+
+    if (lock.holder) {
+      return lock.holder.clientId === session.clientId;
+    }
+    if (!this.config.autoAcquire) {
+      return false;
+    }
+
+    this.grant(session.robotId, session, 'auto');
+    return true;
+  }
+
+  /**
+   * 请求控制权
+   * @returns {{success: boolean, granted?: boolean, error?: string}}
+   */
+  request(socketId) {
+    const session = this.getSession(socketId);
+    if (!session) return NOT_REGISTERED;
+    const lock = this.getLock(session.robotId);
+
+    if (!lock.holder) {
+      this.grant(session.robotId, session, 'request');
+      return { success: true, granted: true };
+    }
+    if (lock.holder.clientId === session.clientId) {
+      return { success: true, granted: true };
+    }
+    if (lock.request && lock.request.clientId !== session.clientId) {
+      return { success: false, error: `${lock.request.name} 的请求正在等待处理` };
+    }
+
+    this.clearRequest(lock);
+    lock.request = {
+      clientId: session.clientId,
+      name: session.name,
+      requestedAt: Date.now(),
+      timer: setTimeout(() => {
+        if (lock.request?.clientId !== session.clientId) return;
+        this.log('info', `Control request from ${session.name} for ${session.robotId} timed out`);
+        lock.request = null;
+        this.emitNotice(session.robotId, session.clientId, 'request_denied', `${lock.holder?.name || '持有者'} 未响应控制请求`);
+        this.emitChange(session.robotId);
+      }, this.config.requestTimeout),
+    };
+
+    this.log('info', `${session.name} requested control of ${session.robotId} (holder: ${lock.holder.name})`);
+    this.emitChange(session.robotId);
+    return { success: true, granted: false };
+  }
+
+  /**
+   * 持有者处理控制请求
+   */
+  respond(socketId, approve) {
+    const session = this.getSession(socketId);
+    if (!session) return NOT_REGISTERED;
+    const lock = this.getLock(session.robotId);
+
+    if (lock.holder?.clientId !== session.clientId) {
+      return { success: false, error: '只有控制权持有者可以处理请求' };
+    }
+    if (!lock.request) {
+      return { success: false, error: '没有待处理的请求' };
+    }
+
+    const requester = lock.request;
+    this.clearRequest(lock);
+
+    if (approve) {
+      this.grant(session.robotId, requester, 'approved');
+      this.emitNotice(session.robotId, requester.clientId, 'request_approved', `${session.name} 已移交控制权`);
+    } else {
+      this.log('info', `${session.name} denied control request from ${requester.name}`);
+      this.emitNotice(session.robotId, requester.clientId, 'request_denied', `${session.name} 拒绝了控制请求`);
+      this.emitChange(session.robotId);
+    }
+    return { success: true };
+  }
+
+  /**
+   * 强制接管
+   */
+  forceTake(socketId) {
+    const session = this.getSession(socketId);
+    if (!session) return NOT_REGISTERED;
+    const lock = this.getLock(session.robotId);
+
+    if (!this.config.allowForceTake) {
+      return { success: false, error: '不允许强制接管' };
+    }
+
+    const previous = lock.holder;
+    if (previous && previous.clientId !== session.clientId) {
+      this.emitNotice(session.robotId, previous.clientId, 'control_taken', `${session.name} 强制接管了控制权`);
+    }
+    this.grant(session.robotId, session, 'forced');
+    return { success: true };
+  }
+
+  /**
+   * 释放控制权（有待处理的请求时直接移交给请求者）
+   */
+  release(socketId) {
+    const session = this.getSession(socketId);
+    if (!session) return NOT_REGISTERED;
+    return this.releaseClient(session.robotId, session.clientId, 'released');
+  }
+
+  releaseClient(robotId, clientId, reason) {
+    const lock = this.locks.get(robotId);
+    if (!lock || lock.holder?.clientId !== clientId) {
+      return { success: false, error: '未持有控制权' };
+    }
+
+    this.log('info', `${lock.holder.name} released control of ${robotId} (${reason})`);
+    this.clearReleaseTimer(lock);
+    lock.holder = null;
+
+    if (lock.request) {
+      const requester = lock.request;
+      this.clearRequest(lock);
+      this.grant(robotId, requester, 'handover');
+      this.emitNotice(robotId, requester.clientId, 'request_approved', '控制权已释放并移交给你');
+    } else {
+      this.emitChange(robotId);
+    }
+    return { success: true };
+  }
+
+  /**
+   * 机器人的控制锁状态（不含clientId，isSelf表示是否为viewerClientId本人）
+   */
+  getState(robotId, viewerClientId = null) {
+    const lock = this.locks.get(robotId);
+    const holder = lock?.holder;
+    const request = lock?.request;
+    return {
+      robotId,
+      holder: holder ? { name: holder.name, since: holder.since, isSelf: holder.clientId === viewerClientId } : null,
+      request: request ? { name: request.name, requestedAt: request.requestedAt, isSelf: request.clientId === viewerClientId } : null,
+      releasing: !!lock?.releaseTimer,
+    };
+  }
+
+  /**
+   * 客户端的全部连接
+   */
+  getClientSockets(robotId, clientId) {
+    const sockets = [];
+    for (const [socketId, session] of this.sessions) {
+      if (session.robotId === robotId && session.clientId === clientId) {
+        sockets.push(socketId);
+      }
+    }
+    return sockets;
+  }
+
+  // ========== 内部方法 ==========
+
+  getLock(robotId) {
+    let lock = this.locks.get(robotId);
+    if (!lock) {
+      lock = { holder: null, request: null, releaseTimer: null };
+      this.locks.set(robotId, lock);
+    }
+    return lock;
+  }
+
+  grant(robotId, client, reason) {
+    const lock = this.getLock(robotId);
+    this.clearReleaseTimer(lock);
+    if (lock.request?.clientId === client.clientId) {
+      this.clearRequest(lock);
+    }
+
+    lock.holder = { clientId: client.clientId, name: client.name, since: Date.now() };
+    this.log('info', `${client.name} acquired control of ${robotId} (${reason})`);
+    this.emitChange(robotId);
+  }
+
+  /**
+   * 客户端在该机器人上已没有连接：持有者在宽限期后释放，待处理的请求立即取消
+   */
+  handleClientLeft(session) {
+    const { robotId, clientId } = session;
+    if (this.getClientSockets(robotId, clientId).length > 0) return;
+
+    const lock = this.locks.get(robotId);
+    if (!lock) return;
+
+    if (lock.request?.clientId === clientId) {
+      this.clearRequest(lock);
+      this.emitChange(robotId);
+    }
+
+    if (lock.holder?.clientId === clientId && !lock.releaseTimer) {
+      this.log('info', `${lock.holder.name} disconnected, releasing control of ${robotId} in ${this.config.disconnectGrace}ms`);
+      lock.releaseTimer = setTimeout(() => {
+        lock.releaseTimer = null;
+        this.releaseClient(robotId, clientId, 'disconnected');
+      }, this.config.disconnectGrace);
+      this.emitChange(robotId);
+    }
+  }
+
+  clearRequest(lock) {
+    if (lock.request) {
+      clearTimeout(lock.request.timer);
+      lock.request = null;
+    }
+  }
+
+  signToken(clientId) {
+    const signature = crypto.createHmac('sha256', this.secret).update(clientId).digest('hex');
+    return `${clientId}.${signature}`;
+  }
+
+  /**
+   * 校验令牌
+   * @returns {string|null} 令牌中的clientId，无效时为null
+   */
+  verifyToken(token) {
+    if (typeof token !== 'string') return null;
+    const separator = token.lastIndexOf('.');
+    if (separator <= 0) return null;
+    const clientId = token.slice(0, separator);
+
+    const expected = Buffer.from(this.signToken(clientId));
+    const actual = Buffer.from(token);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual) ? clientId : null;
+  }
+
+  clearReleaseTimer(lock) {
+    if (lock.releaseTimer) {
+      clearTimeout(lock.releaseTimer);
+      lock.releaseTimer = null;
+    }
+  }
+
+  emitChange(robotId) {
+    this.emit('change', this.getState(robotId));
+  }
+
+  emitNotice(robotId, clientId, type, message) {
+    this.emit('notice', { robotId, clientId, type, message });
+  }
+
+  /**
+   * 日志记录
+   */
+  log(level, message) {
+    const timestamp = new Date().toISOString();
+    console.log(`[${timestamp}] [ControlLock] [${level.toUpperCase()}] ${message}`);
+  }
+}
+
+module.exports = ControlLock;
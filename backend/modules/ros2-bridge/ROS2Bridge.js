@@ -6,6 +6,7 @@
 
 const WebSocket = require('ws');
 const EventEmitter = require('events');
+const cbor = require('../codec/cbor');
 
 class ROS2Bridge extends EventEmitter {
   constructor(config) {
@@ -16,6 +17,8 @@ class ROS2Bridge extends EventEmitter {
     this.reconnectTimer = null;
     this.reconnectAttempts = 0;
     this.subscriptions = new Map(); // 存储订阅ID和话题的映射
+    this.pendingServiceCalls = new Map(); // 服务调用ID -> { resolve, reject, timer, service }
+    this.actionGoals = new Map(); // 动作目标ID -> { action, onFeedback, onResult }
   }
 
   /**
@@ -35,8 +38,8 @@ class ROS2Bridge extends EventEmitter {
         this.handleOpen();
       });
 
-      this.ws.on('message', (data) => {
-        this.handleMessage(data);
+      this.ws.on('message', (data, isBinary) => {
+        this.handleMessage(data, isBinary);
       });
 
       this.ws.on('error', (error) => {
@@ -68,11 +71,12 @@ class ROS2Bridge extends EventEmitter {
 
   /**
    * 处理WebSocket消息
+   * 订阅时指定了cbor/cbor-raw压缩的话题以CBOR二进制帧下发
    */
-  handleMessage(data) {
+  handleMessage(data, isBinary = false) {
     try {
-      const message = JSON.parse(data.toString());
-      this.processMessage(message);
+      const message = isBinary ? cbor.decode(data) : JSON.parse(data.toString());
+      this.processMessage(message, isBinary);
     } catch (error) {
       this.log('error', `Failed to parse ROS2 Bridge message: ${error.message}`);
     }
@@ -81,18 +85,29 @@ class ROS2Bridge extends EventEmitter {
   /**
    * 处理ROS2 Bridge消息
    */
-  processMessage(message) {
+  processMessage(message, isBinary = false) {
     // rosbridge_suite的消息格式
     if (message.op === 'publish') {
-      // 收到话题发布消息
+      // 收到话题发布消息（二进制帧附带订阅时的压缩方式）
       this.emit('topic', {
         topic: message.topic,
         msg: message.msg,
         timestamp: Date.now(),
+        compression: isBinary ? this.getTopicCompression(message.topic) : null,
       });
     } else if (message.op === 'service_response') {
       // 服务响应
+      this.handleServiceResponse(message);
       this.emit('service_response', message);
+    } else if (message.op === 'action_feedback') {
+      // 动作反馈
+      const goal = this.actionGoals.get(message.id);
+      if (goal && goal.onFeedback) {
+        goal.onFeedback(message.values);
+      }
+    } else if (message.op === 'action_result') {
+      // 动作结果
+      this.handleActionResult(message);
     } else if (message.op === 'status') {
       // 状态消息
       this.log('debug', `ROS2 Bridge status: ${message.level} - ${message.msg}`);
@@ -101,16 +116,39 @@ class ROS2Bridge extends EventEmitter {
 
   /**
    * 订阅ROS2话题
+   * 未连接时只登记，连接建立后自动发送
    * @param {string} topic - 话题名称
    * @param {string} type - 消息类型（可选）
+   * @param {object} options - 订阅选项（可选）
+   * @param {string} options.compression - 压缩方式：cbor、cbor-raw
+   * @param {number} options.throttleRate - 两条消息的最小间隔（毫秒）
+   * @param {number} options.queueLength - 节流期间缓存的消息数
+   * @returns {string} 订阅ID
    */
-  subscribe(topic, type = null) {
-    if (!this.isConnected) {
-      this.log('warn', `Cannot subscribe to ${topic}: not connected`);
-      return;
+  subscribe(topic, type = null, options = {}) {
+    const id = `sub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const subscription = {
+      topic,
+      type,
+      compression: options.compression || null,
+      throttleRate: options.throttleRate || 0,
+      queueLength: options.queueLength || 0,
+    };
+    this.subscriptions.set(id, subscription);
+
+    if (this.isConnected) {
+      this.sendSubscribe(id, subscription);
+    } else {
+      this.log('warn', `Not connected, subscription to ${topic} will be sent after connecting`);
     }
 
-    const id = `sub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return id;
+  }
+
+  /**
+   * 发送订阅请求（rosbridge协议）
+   */
+  sendSubscribe(id, { topic, type, compression, throttleRate, queueLength }) {
     const message = {
       op: 'subscribe',
       id: id,
@@ -121,11 +159,20 @@ class ROS2Bridge extends EventEmitter {
       message.type = type;
     }
 
-    this.send(message);
-    this.subscriptions.set(id, { topic, type });
-    this.log('info', `Subscribed to topic: ${topic} (id: ${id})`);
+    if (compression) {
+      message.compression = compression;
+    }
 
-    return id;
+    if (throttleRate) {
+      message.throttle_rate = throttleRate;
+    }
+
+    if (queueLength) {
+      message.queue_length = queueLength;
+    }
+
+    this.send(message);
+    this.log('info', `Subscribed to topic: ${topic} (id: ${id}, throttle: ${throttleRate}ms, queue: ${queueLength})`);
   }
 
   /**
@@ -133,16 +180,17 @@ class ROS2Bridge extends EventEmitter {
    * @param {string} subscriptionId - 订阅ID
    */
   unsubscribe(subscriptionId) {
-    if (!this.isConnected) {
-      return;
-    }
-
     const subscription = this.subscriptions.get(subscriptionId);
     if (!subscription) {
       this.log('warn', `Subscription ${subscriptionId} not found`);
       return;
     }
 
+    this.subscriptions.delete(subscriptionId);
+    if (!this.isConnected) {
+      return;
+    }
+
     const message = {
       op: 'unsubscribe',
       id: subscriptionId,
@@ -150,7 +198,6 @@ class ROS2Bridge extends EventEmitter {
     };
 
     this.send(message);
-    this.subscriptions.delete(subscriptionId);
     this.log('info', `Unsubscribed from topic: ${subscription.topic}`);
   }
 
@@ -184,11 +231,13 @@ class ROS2Bridge extends EventEmitter {
    * @param {string} service - 服务名称
    * @param {object} args - 服务参数
    * @param {string} type - 服务类型
+   * @param {number} timeout - 超时时间（毫秒）
+   * @returns {Promise<object>} 服务响应内容
    */
-  callService(service, args, type) {
+  callService(service, args, type, timeout = this.config.serviceTimeout || 10000) {
     if (!this.isConnected) {
       this.log('warn', `Cannot call service ${service}: not connected`);
-      return;
+      return Promise.reject(new Error(`Cannot call service ${service}: not connected`));
     }
 
     const id = `srv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -196,17 +245,135 @@ class ROS2Bridge extends EventEmitter {
       op: 'call_service',
       id: id,
       service: service,
-      args: args,
+      args: args || {},
     };
 
     if (type) {
       message.type = type;
     }
 
-    this.send(message);
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingServiceCalls.delete(id);
+        reject(new Error(`Service call ${service} timed out after ${timeout}ms`));
+      }, timeout);
+
+      this.pendingServiceCalls.set(id, { resolve, reject, timer, service });
+      this.send(message);
+    });
+  }
+
+  /**
+   * 处理服务响应
+   */
+  handleServiceResponse(message) {
+    const pending = this.pendingServiceCalls.get(message.id);
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.pendingServiceCalls.delete(message.id);
+
+    if (message.result === false) {
+      const reason = typeof message.values === 'string' ? message.values : JSON.stringify(message.values);
+      pending.reject(new Error(`Service call ${pending.service} failed: ${reason}`));
+    } else {
+      pending.resolve(message.values);
+    }
+  }
+
+  /**
+   * 发送ROS2动作目标
+   * @param {string} action - 动作名称
+   * @param {string} actionType - 动作类型
+   * @param {object} args - 目标内容
+   * @param {object} handlers - { onFeedback(values), onResult({ status, values, success }) }
+   * @returns {string} 目标ID（用于取消）
+   */
+  sendActionGoal(action, actionType, args, handlers = {}) {
+    if (!this.isConnected) {
+      this.log('warn', `Cannot send goal to action ${action}: not connected`);
+      return null;
+    }
+
+    const id = `act_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    this.actionGoals.set(id, {
+      action,
+      onFeedback: handlers.onFeedback,
+      onResult: handlers.onResult,
+    });
+
+    this.send({
+      op: 'send_action_goal',
+      id: id,
+      action: action,
+      action_type: actionType,
+      args: args || {},
+      feedback: true,
+    });
+    this.log('info', `Sent goal to action: ${action} (id: ${id})`);
+
     return id;
   }
 
+  /**
+   * 取消ROS2动作目标
+   * @param {string} goalId - 目标ID
+   */
+  cancelActionGoal(goalId) {
+    const goal = this.actionGoals.get(goalId);
+    if (!goal) {
+      this.log('warn', `Action goal ${goalId} not found`);
+      return;
+    }
+
+    this.send({
+      op: 'cancel_action_goal',
+      id: goalId,
+      action: goal.action,
+    });
+    this.log('info', `Canceled goal ${goalId} of action: ${goal.action}`);
+  }
+
+  /**
+   * 处理动作结果
+   */
+  handleActionResult(message) {
+    const goal = this.actionGoals.get(message.id);
+    if (!goal) {
+      return;
+    }
+
+    this.actionGoals.delete(message.id);
+    if (goal.onResult) {
+      goal.onResult({
+        status: message.status,
+        values: message.values,
+        success: message.result !== false,
+      });
+    }
+  }
+
+  /**
+   * 使所有未完成的服务调用和动作目标失败（连接断开时）
+   */
+  failPendingRequests(reason) {
+    for (const [id, pending] of this.pendingServiceCalls) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error(`Service call ${pending.service} failed: ${reason}`));
+      this.pendingServiceCalls.delete(id);
+    }
+
+    for (const [id, goal] of this.actionGoals) {
+      if (goal.onResult) {
+        // 6 = action_msgs/GoalStatus.STATUS_ABORTED
+        goal.onResult({ status: 6, values: reason, success: false });
+      }
+      this.actionGoals.delete(id);
+    }
+  }
+
   /**
    * 发送消息到ROS2 Bridge
    */
@@ -228,9 +395,22 @@ class ROS2Bridge extends EventEmitter {
    * 重新订阅所有话题
    */
   resubscribeAll() {
-    for (const [id, { topic, type }] of this.subscriptions) {
-      this.subscribe(topic, type);
+    // 沿用原订阅ID，调用方持有的ID保持有效
+    for (const [id, subscription] of this.subscriptions) {
+      this.sendSubscribe(id, subscription);
+    }
+  }
+
+  /**
+   * 获取话题订阅时使用的压缩方式
+   */
+  getTopicCompression(topic) {
+    for (const subscription of this.subscriptions.values()) {
+      if (subscription.topic === topic && subscription.compression) {
+        return subscription.compression;
+      }
     }
+    return null;
   }
 
   /**
@@ -247,6 +427,7 @@ class ROS2Bridge extends EventEmitter {
   handleClose() {
     this.isConnected = false;
     this.log('warn', 'ROS2 Bridge connection closed');
+    this.failPendingRequests('connection closed');
     this.emit('disconnected');
 
     if (this.config.reconnect.enabled) {
@@ -5,12 +5,25 @@
  */
 
 const EventEmitter = require('events');
+const cbor = require('../codec/cbor');
+const ControlLock = require('../control-lock/ControlLock');
+
+// 支持的二进制话题编码（连接时告知客户端）
+const SUPPORTED_CODECS = ['cbor', 'cbor-raw'];
+
+// 驾驶舱内部的多屏同步话题：只转发给其他屏幕，不发布到ROS（机器人上没有对应的消息类型）
+const LOCAL_TOPICS = ['robot_3d_command', 'robot_3d_move'];
 
 class WebSocketService extends EventEmitter {
-  constructor(io) {
+  constructor(io, options = {}) {
     super();
     this.io = io;
     this.clients = new Map(); // 存储客户端信息：socketId -> {screenId, connectedAt}
+    // 话题订阅：topic -> { type, clients: Map<socketId, {compression, throttleRate, queueLength}>, merged }
+    this.topicSubscriptions = new Map();
+    // 多操作员控制锁：受控的发布、服务调用和动作目标只接受控制权持有者
+    this.controlLock = new ControlLock(options.controlLock);
+    this.setupControlLockEvents();
     this.setupSocketHandlers();
   }
 
@@ -35,6 +48,9 @@ class WebSocketService extends EventEmitter {
 
     this.log('info', `Client connected: ${socket.id}`);
 
+    // 告知客户端支持的编码，客户端据此决定发布时是否使用二进制
+    socket.emit('capabilities', { codecs: SUPPORTED_CODECS });
+
     // 客户端注册屏幕ID
     socket.on('register_screen', (data) => {
       this.handleRegisterScreen(socket, data);
@@ -55,6 +71,21 @@ class WebSocketService extends EventEmitter {
       this.handlePublishTopic(socket, data);
     });
 
+    // 客户端调用ROS2服务
+    socket.on('call_service', (data) => {
+      this.handleCallService(socket, data);
+    });
+
+    // 客户端发送ROS2动作目标
+    socket.on('send_action_goal', (data) => {
+      this.handleSendActionGoal(socket, data);
+    });
+
+    // 客户端取消ROS2动作目标
+    socket.on('cancel_action_goal', (data) => {
+      this.handleCancelActionGoal(socket, data);
+    });
+
     // 监听机器人选择事件
     socket.on('select_robot', (data) => {
       const { robotId, timestamp } = data;
@@ -68,6 +99,11 @@ class WebSocketService extends EventEmitter {
     socket.on('user_logout', (data) => {
       const { timestamp } = data;
       this.log('info', `Client ${socket.id} logged out`);
+      // 退出登录时释放控制权
+      const session = this.controlLock.getSession(socket.id);
+      if (session) {
+        this.controlLock.releaseClient(session.robotId, session.clientId, 'logout');
+      }
       // 广播退出登录事件到所有客户端
       this.io.emit('user_logged_out', { timestamp });
       this.log('info', `Broadcasted user_logged_out to all clients`);
@@ -82,6 +118,30 @@ class WebSocketService extends EventEmitter {
       this.log('info', `Broadcasted robot_deselected to all clients`);
     });
     
+    // ========== 多操作员控制锁 ==========
+
+    // 客户端登记身份（服务器签发的令牌、名称）和要控制的机器人
+    socket.on('control_register', (data) => {
+      this.handleControlRegister(socket, data);
+    });
+
+    // 请求、处理请求、强制接管、释放控制权
+    socket.on('control_request', () => {
+      this.handleControlAction(socket, 'request', () => this.controlLock.request(socket.id));
+    });
+
+    socket.on('control_respond', (data) => {
+      this.handleControlAction(socket, 'respond', () => this.controlLock.respond(socket.id, !!data?.approve));
+    });
+
+    socket.on('control_force', () => {
+      this.handleControlAction(socket, 'force', () => this.controlLock.forceTake(socket.id));
+    });
+
+    socket.on('control_release', () => {
+      this.handleControlAction(socket, 'release', () => this.controlLock.release(socket.id));
+    });
+
     // ========== WebRTC信令处理（新增，不影响现有功能） ==========
     
     // WebRTC客户端/机器人注册
@@ -112,8 +172,9 @@ class WebSocketService extends EventEmitter {
     });
 
     // 心跳检测
-    socket.on('ping', () => {
-      socket.emit('pong', { timestamp: Date.now() });
+    socket.on('ping', (data) => {
+      // 回传客户端时间戳，供客户端计算往返时延
+      socket.emit('pong', { timestamp: Date.now(), clientTimestamp: data?.timestamp });
     });
 
     this.emit('client_connected', { socketId: socket.id, clientInfo });
@@ -141,8 +202,25 @@ class WebSocketService extends EventEmitter {
    */
   handleSubscribeTopic(socket, data) {
     const { topic, type } = data;
-    this.log('info', `Client ${socket.id} requested subscription to topic: ${topic}`);
-    this.emit('subscribe_topic', { socketId: socket.id, topic, type });
+    const compression = SUPPORTED_CODECS.includes(data.compression) ? data.compression : null;
+    const options = {
+      compression,
+      throttleRate: Math.max(0, Number(data.throttleRate) || 0),
+      queueLength: Math.max(0, Number(data.queueLength) || 0),
+    };
+    this.log('info', `Client ${socket.id} requested subscription to topic: ${topic}${compression ? ` (${compression})` : ''}`);
+
+    let entry = this.topicSubscriptions.get(topic);
+    if (!entry) {
+      entry = { type: null, clients: new Map(), merged: null };
+      this.topicSubscriptions.set(topic, entry);
+    }
+    if (type) entry.type = type;
+
+    // 同一客户端再次订阅时覆盖其原有选项（并移到末尾，表示最近订阅）
+    entry.clients.delete(socket.id);
+    entry.clients.set(socket.id, options);
+    this.updateTopicSubscription(topic, socket.id);
   }
 
   /**
@@ -151,29 +229,139 @@ class WebSocketService extends EventEmitter {
   handleUnsubscribeTopic(socket, data) {
     const { topic } = data;
     this.log('info', `Client ${socket.id} requested unsubscription from topic: ${topic}`);
-    this.emit('unsubscribe_topic', { socketId: socket.id, topic });
+
+    const entry = this.topicSubscriptions.get(topic);
+    if (entry && entry.clients.delete(socket.id)) {
+      this.updateTopicSubscription(topic, socket.id);
+    }
+  }
+
+  /**
+   * 合并各客户端对话题的订阅选项，变化时通知上层更新ROS2订阅
+   * - compression：取最近订阅且请求了压缩的客户端的格式，剩余客户端都未请求时不压缩
+   * - throttleRate：任一客户端不节流则不节流，否则取最小值
+   * - queueLength：取最大值
+   * 最后一个客户端退订时通知上层取消订阅
+   */
+  updateTopicSubscription(topic, socketId) {
+    const entry = this.topicSubscriptions.get(topic);
+    if (!entry) return;
+
+    if (entry.clients.size === 0) {
+      this.topicSubscriptions.delete(topic);
+      this.emit('unsubscribe_topic', { socketId, topic });
+      return;
+    }
+
+    const clientOptions = Array.from(entry.clients.values());
+    const compressed = clientOptions.filter(options => options.compression);
+    const merged = {
+      compression: compressed.length > 0 ? compressed[compressed.length - 1].compression : null,
+      throttleRate: clientOptions.some(options => options.throttleRate === 0)
+        ? 0
+        : Math.min(...clientOptions.map(options => options.throttleRate)),
+      queueLength: Math.max(...clientOptions.map(options => options.queueLength)),
+    };
+
+    const previous = entry.merged;
+    if (previous &&
+        previous.compression === merged.compression &&
+        previous.throttleRate === merged.throttleRate &&
+        previous.queueLength === merged.queueLength) {
+      return;
+    }
+
+    entry.merged = merged;
+    this.emit('subscribe_topic', { socketId, topic, type: entry.type, ...merged });
   }
 
   /**
    * 处理发布消息请求
    */
   handlePublishTopic(socket, data) {
-    const { topic, message, type } = data;
+    const { topic, message, type, encoding } = data;
     this.log('debug', `Client ${socket.id} requested publish to topic: ${topic}`);
+
+    // CBOR编码的消息解码后再交给ROS2Bridge（rosbridge只接收JSON）
+    let decoded = message;
+    if (encoding === 'cbor') {
+      try {
+        decoded = cbor.decode(message);
+      } catch (error) {
+        this.log('warn', `Failed to decode CBOR message for ${topic}: ${error.message}`);
+        return;
+      }
+    }
+
+    // 按解码后的内容检查控制权（观察者只能触发急停）
+    if (!this.checkControl(socket, 'topic', topic, decoded)) {
+      return;
+    }
     
     // 触发内部事件（给ROS2Bridge等模块使用）
-    this.emit('publish_topic', { socketId: socket.id, topic, message, type });
+    if (!LOCAL_TOPICS.includes(topic)) {
+      this.emit('publish_topic', { socketId: socket.id, topic, message: decoded, type });
+    }
     
     // 对于需要跨屏幕共享的话题，直接转发给所有订阅该话题的客户端
     // 包括：音频流、视频流、3D机器人控制命令等
     if (topic === '/robot/audio/stream' || 
         topic.includes('/audio/') || 
         topic.includes('/video/') ||
-        topic === 'robot_3d_command' ||
-        topic === 'robot_3d_move') {
+        LOCAL_TOPICS.includes(topic)) {
       this.log('debug', `Broadcasting real-time data for topic: ${topic}`);
-      this.broadcastTopicData(topic, message);
+      // 二进制数据原样转发，不重新编码
+      this.broadcastTopicData(topic, message, encoding);
+    }
+  }
+
+  /**
+   * 处理服务调用请求
+   * 响应通过 service_response 事件按 requestId 回传给发起的客户端
+   */
+  handleCallService(socket, data) {
+    const { requestId, service, args, type, timeout } = data || {};
+    if (!requestId || !service) {
+      socket.emit('service_response', { requestId, success: false, error: 'Missing requestId or service' });
+      return;
+    }
+
+    if (!this.checkControl(socket, 'service', service, args)) {
+      socket.emit('service_response', { requestId, success: false, error: 'Control lock held by another operator' });
+      return;
     }
+
+    this.log('info', `Client ${socket.id} called service: ${service} (request: ${requestId})`);
+    this.emit('call_service', { socketId: socket.id, requestId, service, args, type, timeout });
+  }
+
+  /**
+   * 处理动作目标请求
+   * 反馈和结果通过 action_feedback / action_result 事件按 goalId 回传
+   */
+  handleSendActionGoal(socket, data) {
+    const { goalId, action, actionType, goal } = data || {};
+    if (!goalId || !action) {
+      socket.emit('action_result', { goalId, success: false, status: 6, values: 'Missing goalId or action' });
+      return;
+    }
+
+    if (!this.checkControl(socket, 'action', action)) {
+      socket.emit('action_result', { goalId, success: false, status: 6, values: 'Control lock held by another operator' });
+      return;
+    }
+
+    this.log('info', `Client ${socket.id} sent goal to action: ${action} (goal: ${goalId})`);
+    this.emit('send_action_goal', { socketId: socket.id, goalId, action, actionType, goal });
+  }
+
+  /**
+   * 处理取消动作目标请求
+   */
+  handleCancelActionGoal(socket, data) {
+    const { goalId } = data || {};
+    this.log('info', `Client ${socket.id} canceled action goal: ${goalId}`);
+    this.emit('cancel_action_goal', { socketId: socket.id, goalId });
   }
 
   /**
@@ -182,21 +370,115 @@ class WebSocketService extends EventEmitter {
   handleDisconnect(socket) {
     const clientInfo = this.clients.get(socket.id);
     this.clients.delete(socket.id);
+    this.controlLock.unregister(socket.id);
+
+    // 释放该客户端的全部话题订阅
+    for (const [topic, entry] of Array.from(this.topicSubscriptions)) {
+      if (entry.clients.delete(socket.id)) {
+        this.updateTopicSubscription(topic, socket.id);
+      }
+    }
+
     this.log('info', `Client disconnected: ${socket.id} (Screen: ${clientInfo?.screenId || 'unknown'})`);
     this.emit('client_disconnected', { socketId: socket.id, clientInfo });
   }
 
+  // ========== 控制锁 ==========
+
+  /**
+   * 控制锁状态变化发送给登记在该机器人上的每个连接（各自标明是否为本人，不含其他客户端的clientId），
+   * 定向通知发送给相关客户端的全部连接
+   */
+  setupControlLockEvents() {
+    this.controlLock.on('change', (state) => {
+      this.controlLock.getRobotSessions(state.robotId).forEach(([socketId, session]) => {
+        this.sendToClient(socketId, 'control_lock_state', this.controlLock.getState(state.robotId, session.clientId));
+      });
+      this.emit('control_lock_changed', state);
+    });
+
+    this.controlLock.on('notice', ({ robotId, clientId, type, message }) => {
+      this.controlLock.getClientSockets(robotId, clientId).forEach(socketId => {
+        this.sendToClient(socketId, 'control_notice', { robotId, type, message, timestamp: Date.now() });
+      });
+    });
+  }
+
+  /**
+   * 处理控制锁登记，回传本客户端的身份令牌、控制策略和当前状态
+   */
+  handleControlRegister(socket, data) {
+    const session = this.controlLock.register(socket.id, data || {});
+    this.log('info', `Client ${socket.id} registered for control: ${session.name} (${session.clientId}) -> ${session.robotId}`);
+    socket.emit('control_registered', {
+      clientId: session.clientId,
+      token: session.token,
+      robotId: session.robotId,
+      policy: this.controlLock.getPolicy(),
+    });
+    socket.emit('control_lock_state', this.controlLock.getState(session.robotId, session.clientId));
+  }
+
+  /**
+   * 处理控制锁操作，失败时回传原因
+   */
+  handleControlAction(socket, action, operate) {
+    const result = operate();
+    if (!result.success) {
+      this.log('info', `Control ${action} from ${socket.id} failed: ${result.error}`);
+      socket.emit('control_notice', {
+        robotId: this.controlLock.getSession(socket.id)?.robotId,
+        type: 'error',
+        message: result.error,
+        timestamp: Date.now(),
+      });
+    }
+  }
+
+  /**
+   * 检查客户端是否可以发出受控指令，不可以时通知客户端
+   * @param {'topic'|'service'|'action'} kind
+   * @param {object} message - 发布的消息或服务请求参数
+   */
+  checkControl(socket, kind, name, message) {
+    if (!this.controlLock.requiresControl(kind, name, message) || this.controlLock.canControl(socket.id)) {
+      return true;
+    }
+
+    const session = this.controlLock.getSession(socket.id);
+    if (!session) {
+      this.log('debug', `Rejected ${kind} ${name} from ${socket.id}: not registered for control`);
+      socket.emit('control_rejected', { kind, name, robotId: null, holder: null, timestamp: Date.now() });
+      return false;
+    }
+
+    const holder = this.controlLock.getState(session.robotId, session.clientId).holder;
+    this.log('debug', `Rejected ${kind} ${name} from ${socket.id}: control held by ${holder?.name || 'nobody'}`);
+    socket.emit('control_rejected', { kind, name, robotId: session.robotId, holder, timestamp: Date.now() });
+    return false;
+  }
+
   /**
    * 广播ROS2话题数据到所有客户端
    * @param {string} topic - 话题名称
    * @param {object} data - 数据内容
+   * @param {string} encoding - 编码（可选）：cbor时未编码的数据会先编码为CBOR；cbor-raw为rosbridge的原始字节
    */
-  broadcastTopicData(topic, data) {
-    this.io.emit('topic_data', {
+  broadcastTopicData(topic, data, encoding = null) {
+    const payload = {
       topic,
       data,
       timestamp: Date.now(),
-    });
+    };
+
+    if (encoding === 'cbor') {
+      payload.data = Buffer.isBuffer(data) || data instanceof Uint8Array ? data : cbor.encode(data);
+      payload.encoding = encoding;
+    } else if (encoding === 'cbor-raw') {
+      payload.encoding = encoding;
+    }
+
+    this.io.emit('topic_data', payload);
   }
 
   /**
@@ -275,6 +557,13 @@ class WebSocketService extends EventEmitter {
     return null;
   }
 
+  /**
+   * 获取所有机器人的控制锁状态
+   */
+  getControlLockStates() {
+    return Array.from(this.controlLock.locks.keys()).map(robotId => this.controlLock.getState(robotId));
+  }
+
   /**
    * 日志记录
    */
@@ -28,7 +28,7 @@ class RobotCockpitServer {
 
     // 初始化模块
     this.ros2Bridge = new ROS2Bridge(config.ros2Bridge);
-    this.webSocketService = new WebSocketService(this.io);
+    this.webSocketService = new WebSocketService(this.io, { controlLock: config.controlLock });
     this.screenManager = new ScreenManager(config.screen);
     this.webrtcProxy = new WebRTCProxy(config.webrtc);
 
@@ -61,6 +61,7 @@ class RobotCockpitServer {
           websocket: {
             clients: this.webSocketService.getClients().length,
           },
+          controlLock: this.webSocketService.getControlLockStates(),
         },
       });
     });
@@ -315,18 +316,18 @@ class RobotCockpitServer {
    */
   setupModuleIntegration() {
     // ROS2 Bridge事件处理
+    // 订阅配置的话题（连接建立后由ROS2Bridge发送，重连时自动恢复）
+    config.ros2Bridge.topics.forEach(topic => {
+      this.ros2Bridge.subscribe(topic);
+    });
+
     this.ros2Bridge.on('connected', () => {
       console.log('[Server] ROS2 Bridge connected');
-      
-      // 订阅配置的话题
-      config.ros2Bridge.topics.forEach(topic => {
-        this.ros2Bridge.subscribe(topic);
-      });
     });
 
-    this.ros2Bridge.on('topic', ({ topic, msg, timestamp }) => {
-      // 将ROS2话题数据转发到WebSocket服务
-      this.webSocketService.broadcastTopicData(topic, msg);
+    this.ros2Bridge.on('topic', ({ topic, msg, timestamp, compression }) => {
+      // 将ROS2话题数据转发到WebSocket服务（以CBOR订阅的话题继续以二进制下发）
+      this.webSocketService.broadcastTopicData(topic, msg, compression);
     });
 
     this.ros2Bridge.on('error', (error) => {
@@ -337,15 +338,27 @@ class RobotCockpitServer {
       console.log('[Server] ROS2 Bridge disconnected');
     });
 
+    // 客户端话题 -> ROS2 Bridge订阅ID（每个话题一个订阅，选项为各客户端合并后的结果）
+    const topicSubscriptionIds = new Map();
+
     // WebSocket服务事件处理
-    this.webSocketService.on('subscribe_topic', ({ socketId, topic, type }) => {
-      // 客户端请求订阅话题
-      this.ros2Bridge.subscribe(topic, type);
+    this.webSocketService.on('subscribe_topic', ({ socketId, topic, type, compression, throttleRate, queueLength }) => {
+      // 首次订阅或合并选项变化：先以新选项订阅，再取消旧订阅，避免数据中断
+      const previousId = topicSubscriptionIds.get(topic);
+      const id = this.ros2Bridge.subscribe(topic, type, { compression, throttleRate, queueLength });
+      topicSubscriptionIds.set(topic, id);
+      if (previousId) {
+        this.ros2Bridge.unsubscribe(previousId);
+      }
     });
 
     this.webSocketService.on('unsubscribe_topic', ({ socketId, topic }) => {
-      // 客户端请求取消订阅（这里简化处理，实际应该跟踪订阅ID）
-      // 注意：rosbridge_suite不支持按客户端取消订阅，这里是简化实现
+      // 最后一个客户端取消订阅
+      const id = topicSubscriptionIds.get(topic);
+      if (id) {
+        this.ros2Bridge.unsubscribe(id);
+        topicSubscriptionIds.delete(topic);
+      }
     });
 
     this.webSocketService.on('publish_topic', ({ socketId, topic, message, type }) => {
@@ -353,12 +366,81 @@ class RobotCockpitServer {
       this.ros2Bridge.publish(topic, message, type);
     });
 
+    // 客户端请求ID、目标ID只在该客户端内唯一，路由按 socketId/ID 区分
+    const routeKey = (socketId, id) => `${socketId}/${id}`;
+
+    // 未完成的服务调用：socketId/requestId -> socketId（客户端断开后删除，之后的响应丢弃）
+    const serviceCallRoutes = new Map();
+
+    this.webSocketService.on('call_service', ({ socketId, requestId, service, args, type, timeout }) => {
+      // 客户端请求调用ROS2服务，结果按requestId回传
+      const key = routeKey(socketId, requestId);
+      serviceCallRoutes.set(key, socketId);
+      const respond = (response) => {
+        if (!serviceCallRoutes.delete(key)) return;
+        this.webSocketService.sendToClient(socketId, 'service_response', { requestId, ...response });
+      };
+
+      this.ros2Bridge.callService(service, args, type, timeout)
+        .then((values) => respond({ success: true, values }))
+        .catch((error) => respond({ success: false, error: error.message }));
+    });
+
+    // 未完成的动作目标：socketId/goalId -> { socketId, bridgeGoalId }
+    const actionGoalRoutes = new Map();
+
+    this.webSocketService.on('send_action_goal', ({ socketId, goalId, action, actionType, goal }) => {
+      // 客户端请求发送ROS2动作目标，反馈和结果按goalId回传
+      const key = routeKey(socketId, goalId);
+      const bridgeGoalId = this.ros2Bridge.sendActionGoal(action, actionType, goal, {
+        onFeedback: (feedback) => {
+          if (!actionGoalRoutes.has(key)) return;
+          this.webSocketService.sendToClient(socketId, 'action_feedback', { goalId, feedback });
+        },
+        onResult: ({ status, values, success }) => {
+          if (!actionGoalRoutes.delete(key)) return;
+          this.webSocketService.sendToClient(socketId, 'action_result', { goalId, status, values, success });
+        },
+      });
+
+      if (bridgeGoalId) {
+        actionGoalRoutes.set(key, { socketId, bridgeGoalId });
+      } else {
+        this.webSocketService.sendToClient(socketId, 'action_result', {
+          goalId,
+          status: 6,
+          values: 'ROS2 Bridge not connected',
+          success: false,
+        });
+      }
+    });
+
+    this.webSocketService.on('cancel_action_goal', ({ socketId, goalId }) => {
+      const route = actionGoalRoutes.get(routeKey(socketId, goalId));
+      if (route) {
+        this.ros2Bridge.cancelActionGoal(route.bridgeGoalId);
+      }
+    });
+
     this.webSocketService.on('client_connected', ({ socketId }) => {
       console.log(`[Server] WebSocket client connected: ${socketId}`);
     });
 
     this.webSocketService.on('client_disconnected', ({ socketId }) => {
       console.log(`[Server] WebSocket client disconnected: ${socketId}`);
+
+      // 客户端关闭后不再有人跟踪它的动作目标（如返回充电桩），取消并释放路由
+      for (const [key, route] of actionGoalRoutes) {
+        if (route.socketId !== socketId) continue;
+        console.log(`[Server] Canceling action goal ${route.bridgeGoalId} of disconnected client ${socketId}`);
+        this.ros2Bridge.cancelActionGoal(route.bridgeGoalId);
+        actionGoalRoutes.delete(key);
+      }
+      for (const [key, owner] of serviceCallRoutes) {
+        if (owner === socketId) {
+          serviceCallRoutes.delete(key);
+        }
+      }
     });
 
     // WebRTC代理事件处理（如果启用）
@@ -4,6 +4,8 @@
  */
 
 import { useState } from 'react';
+import { getAllRobots } from '../config/robots';
+import simulatorService from '../services/simulator';
 import './RobotList.css';
 
 interface Robot {
@@ -55,8 +57,22 @@ const mockRobots: Robot[] = [
   },
 ];
 
+// 本地模拟机器人（配置中transport为simulator），始终在线
+const getSimulatedRobots = (): Robot[] =>
+  getAllRobots()
+    .filter(config => config.transport === 'simulator')
+    .map(config => ({
+      id: config.id,
+      name: config.name,
+      status: 'online',
+      battery: Math.round(simulatorService.getState().battery * 100),
+      location: '本地模拟',
+      lastSeen: '刚刚',
+    }));
+
 function RobotList({ onSelectRobot }: RobotListProps) {
   const [selectedRobotId, setSelectedRobotId] = useState<string | null>(null);
+  const robots = [...getSimulatedRobots(), ...mockRobots];
 
   const handleSelectRobot = (robotId: string) => {
     setSelectedRobotId(robotId);
@@ -97,7 +113,7 @@ function RobotList({ onSelectRobot }: RobotListProps) {
       </div>
 
       <div className="robot-grid">
-        {mockRobots.map((robot) => (
+        {robots.map((robot) => (
           <div
             key={robot.id}
             className={`robot-card ${selectedRobotId === robot.id ? 'selected' : ''} ${robot.status}`}
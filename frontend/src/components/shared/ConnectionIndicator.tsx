@@ -0,0 +1,82 @@
+/**
+ * ConnectionIndicator - 连接状态指示
+ * 显示ROS2连接状态、当前通信方式，降级时提示，点击展开故障转移记录
+ */
+
+import { useState } from 'react';
+import { useConnectionStore } from '../../stores/connectionStore';
+
+interface ConnectionIndicatorProps {
+  className?: string;
+  showRobot?: boolean; // 是否显示机器人名称
+}
+
+const MODE_LABELS = {
+  webrtc: 'WebRTC',
+  websocket: 'WebSocket',
+  replay: '回放',
+  simulator: '模拟机器人',
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+export const ConnectionIndicator: React.FC<ConnectionIndicatorProps> = ({
+  className = 'connection-status',
+  showRobot = false,
+}) => {
+  const { connected, status, robotId, robotName, mode, preferredMode, transportHistory } = useConnectionStore();
+  const [showHistory, setShowHistory] = useState(false);
+
+  const replaying = mode === 'replay';
+  const failedOver = !!robotId && !replaying && mode !== preferredMode;
+  const statusText = replaying
+    ? '⏯ 回放中'
+    : connected ? '🟢 ROS2已连接' : status === 'connecting' ? '🟡 ROS2连接中' : '🔴 ROS2未连接';
+
+  return (
+    <span className={className} style={{ position: 'relative', cursor: transportHistory.length > 0 ? 'pointer' : 'default' }}
+      onClick={() => transportHistory.length > 0 && setShowHistory(!showHistory)}
+      title={failedOver ? `${MODE_LABELS[preferredMode]}不可用，已降级到${MODE_LABELS[mode]}，后台探测中` : undefined}
+    >
+      {statusText}
+      {showRobot && robotId && ` · ${robotName || robotId}`}
+      {robotId && !replaying && (
+        <span style={{ marginLeft: '6px', color: failedOver ? '#f59e0b' : '#94a3b8' }}>
+          ({MODE_LABELS[mode]}{failedOver && ' ⚠ 降级'})
+        </span>
+      )}
+      {transportHistory.length > 0 && (
+        <span style={{ marginLeft: '4px', fontSize: '11px', color: '#94a3b8' }}>
+          ↻{transportHistory.length}
+        </span>
+      )}
+
+      {showHistory && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '100%',
+            left: 0,
+            marginTop: '4px',
+            padding: '8px 10px',
+            minWidth: '280px',
+            background: '#1e293b',
+            border: '1px solid #334155',
+            borderRadius: '6px',
+            fontSize: '12px',
+            color: '#cbd5e1',
+            zIndex: 100,
+            whiteSpace: 'nowrap',
+          }}
+        >
+          <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>通信方式切换记录</div>
+          {transportHistory.slice().reverse().map((change) => (
+            <div key={`${change.timestamp}-${change.to}`}>
+              {formatTime(change.timestamp)} {MODE_LABELS[change.from]} → {MODE_LABELS[change.to]}：{change.reason}
+            </div>
+          ))}
+        </div>
+      )}
+    </span>
+  );
+};
@@ -0,0 +1,127 @@
+/**
+ * ControlLockIndicator - 控制权指示
+ * 所有屏幕显示当前持有驾驶控制权的操作员；可操作时提供请求、强制接管、释放以及处理他人请求的按钮
+ */
+
+import { useEffect } from 'react';
+import controlLockService from '../../services/controlLock';
+import { useControlLockStore } from '../../stores/controlLockStore';
+
+// 通知显示时长
+const NOTICE_DURATION_MS = 5000;
+
+interface ControlLockIndicatorProps {
+  robotId?: string | null;  // 当前选择的机器人（未指定时使用默认机器人）
+  interactive?: boolean;    // 是否显示操作按钮（多屏模式只在操作屏操作）
+}
+
+const buttonStyle = (color: string): React.CSSProperties => ({
+  padding: '3px 10px',
+  border: `1px solid ${color}`,
+  borderRadius: '4px',
+  backgroundColor: 'transparent',
+  color,
+  fontSize: '12px',
+  cursor: 'pointer',
+});
+
+export const ControlLockIndicator: React.FC<ControlLockIndicatorProps> = ({ robotId, interactive = true }) => {
+  const status = useControlLockStore(state => state.status);
+
+  useEffect(() => {
+    controlLockService.setRobot(robotId ?? null);
+  }, [robotId]);
+
+  // 通知显示一段时间后清除
+  useEffect(() => {
+    if (!status.notice) return;
+    const timer = setTimeout(() => controlLockService.clearNotice(), NOTICE_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [status.notice]);
+
+  // 未连接后端时不显示（不限制）
+  if (!status.registered) {
+    return null;
+  }
+
+  const { holder, request, isHolder, releasing, policy, notice } = status;
+  const ownRequest = !!request?.isSelf;
+
+  const handleForceTake = () => {
+    if (!window.confirm(`确认强制接管 ${holder?.name ?? ''} 的控制权？对方将立即变为观察模式。`)) {
+      return;
+    }
+    controlLockService.forceTake();
+  };
+
+  const holderText = !holder
+    ? '无人控制'
+    : isHolder
+      ? '你正在控制'
+      : `${holder.name} 正在控制 · 观察模式`;
+
+  return (
+    <div
+      className="control-lock-indicator"
+      style={{
+        position: 'fixed',
+        left: '12px',
+        bottom: '12px',
+        zIndex: 9000,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px',
+        padding: '8px 12px',
+        borderRadius: '8px',
+        backgroundColor: 'rgba(15, 23, 42, 0.85)',
+        border: `1px solid ${isHolder ? '#10b981' : holder ? '#f59e0b' : '#475569'}`,
+        color: 'white',
+        fontSize: '12px',
+        maxWidth: '320px',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <span style={{ color: isHolder ? '#10b981' : holder ? '#f59e0b' : '#94a3b8', fontWeight: 'bold' }}>
+          {isHolder ? '🎮' : '👁'} {holderText}
+        </span>
+        {releasing && <span style={{ color: '#94a3b8' }}>（已断开，即将释放）</span>}
+      </div>
+
+      {interactive && (
+        <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap' }}>
+          {isHolder && <button onClick={() => controlLockService.release()} style={buttonStyle('#94a3b8')}>释放控制</button>}
+          {!holder && <button onClick={() => controlLockService.request()} style={buttonStyle('#10b981')}>获取控制</button>}
+          {holder && !isHolder && !ownRequest && (
+            <button onClick={() => controlLockService.request()} disabled={!!request} style={buttonStyle('#3b82f6')}>
+              请求控制
+            </button>
+          )}
+          {holder && !isHolder && policy?.allowForceTake && (
+            <button onClick={handleForceTake} style={buttonStyle('#ef4444')}>强制接管</button>
+          )}
+        </div>
+      )}
+
+      {request && isHolder && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <span style={{ color: '#fde68a' }}>{request.name} 请求控制</span>
+          {interactive && (
+            <>
+              <button onClick={() => controlLockService.respond(true)} style={buttonStyle('#10b981')}>同意</button>
+              <button onClick={() => controlLockService.respond(false)} style={buttonStyle('#ef4444')}>拒绝</button>
+            </>
+          )}
+        </div>
+      )}
+      {request && !isHolder && (
+        <span style={{ color: '#94a3b8' }}>
+          {ownRequest ? `等待 ${holder?.name ?? '持有者'} 处理请求…` : `${request.name} 正在请求控制`}
+        </span>
+      )}
+
+      {notice && (
+        <span style={{ color: notice.type === 'request_approved' ? '#10b981' : '#fca5a5' }}>{notice.message}</span>
+      )}
+    </div>
+  );
+};
@@ -3,14 +3,49 @@
  * 可在多屏模式和单屏模式中复用
  */
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useWebSocket } from '../../hooks/useWebSocket';
 import { getIcon } from '../ControlIcons';
 import { useRobot3DStore } from '../../stores/robot3DStore';
 import { PeripheralController } from './PeripheralController';
-import { RobotCommand } from '../../types/peripheral.types';
+import { SpeedLimitIndicator } from './SpeedLimitIndicator';
+import { SessionRecorderControls } from './SessionRecorderControls';
+import { ReplayControls } from './ReplayControls';
+import { RobotCommand, RobotCommandType } from '../../types/peripheral.types';
+import { RobotPanelCommand, RosMessageMap, RosMessageType } from '../../types/ros.types';
+import { ActionGoalHandle, ActionGoalStatus } from '../../services';
+import emergencyStopService from '../../services/emergencyStop';
+import commandArbiter from '../../services/commandArbiter';
+import { encodeJsonString } from '../../services/messageRegistry';
+import { useEmergencyStopStore } from '../../stores/emergencyStopStore';
 import './CompactStyles.css';
 
+// 返回充电桩动作（Nav2 docking）
+const DOCK_ACTION = '/dock_robot';
+const DOCK_ACTION_TYPE = 'nav2_msgs/action/DockRobot';
+const DOCK_GOAL = { use_dock_id: true, dock_id: 'home_dock', navigate_to_staging_pose: true };
+const DOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+// nav2_msgs/action/DockRobot 反馈中的状态码
+const DOCK_STATE_LABELS: Record<number, string> = {
+  0: '未知',
+  1: '前往预停靠点',
+  2: '初始检测',
+  3: '对接控制',
+  4: '等待充电',
+  5: '重试中',
+};
+
+interface DockFeedback {
+  state: number;
+  num_retries?: number;
+}
+
+interface DockTask {
+  running: boolean;
+  text: string;
+}
+
 interface ControlPanelProps {
   screenId?: number;
   compact?: boolean;
@@ -39,8 +74,26 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
   
   const connected = externalConnected !== undefined ? externalConnected : internalWebSocket.connected;
   const publish = externalPublish || internalWebSocket.publish;
+  // 类型化发布（编译期检查消息结构）
+  const publishMessage = <K extends RosMessageType>(topic: string, type: K, message: RosMessageMap[K]) => {
+    publish(topic, message, type);
+  };
   const [selectedCommand, setSelectedCommand] = useState<string>('');
   const { setCommand } = useRobot3DStore();
+  const emergencyLatched = useEmergencyStopStore(state => state.status.latched);
+
+  // 返回充电桩任务（ROS动作）
+  const [dockTask, setDockTask] = useState<DockTask | null>(null);
+  const dockGoalRef = useRef<ActionGoalHandle | null>(null);
+  const DockIcon = getIcon('return');
+
+  useEffect(() => {
+    return () => {
+      // 组件卸载时取消未完成的任务
+      dockGoalRef.current?.cancel();
+      dockGoalRef.current = null;
+    };
+  }, []);
 
   // 处理外设命令（单屏模式使用）
   const handlePeripheralCommand = (_cmd: RobotCommand) => {
@@ -61,21 +114,78 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
     },
   ];
 
+  // 发送返回充电桩动作目标
+  const handleStartDock = () => {
+    if (dockGoalRef.current) return;
+
+    const handle = internalWebSocket.sendActionGoal<typeof DOCK_GOAL, DockFeedback>(DOCK_ACTION, DOCK_ACTION_TYPE, DOCK_GOAL, {
+      timeoutMs: DOCK_TIMEOUT_MS,
+      onFeedback: (feedback) => {
+        const label = DOCK_STATE_LABELS[feedback.state] ?? `状态 ${feedback.state}`;
+        const retries = feedback.num_retries ? `（重试 ${feedback.num_retries} 次）` : '';
+        setDockTask({ running: true, text: `${label}${retries}` });
+      },
+    });
+    dockGoalRef.current = handle;
+    setDockTask({ running: true, text: '已发送，等待机器人响应' });
+
+    handle.result
+      .then(({ status }) => {
+        if (status === ActionGoalStatus.SUCCEEDED) {
+          setDockTask({ running: false, text: '已到达充电桩' });
+        } else if (status === ActionGoalStatus.CANCELED) {
+          setDockTask({ running: false, text: '任务已取消' });
+        } else {
+          setDockTask({ running: false, text: `任务失败（状态 ${status}）` });
+        }
+      })
+      .catch((error: Error) => {
+        console.warn('[ControlPanel] 返回充电桩失败:', error.message);
+        setDockTask({ running: false, text: `任务失败：${error.message}` });
+      })
+      .finally(() => {
+        if (dockGoalRef.current === handle) {
+          dockGoalRef.current = null;
+        }
+      });
+  };
+
+  const handleCancelDock = () => {
+    dockGoalRef.current?.cancel();
+    setDockTask({ running: true, text: '正在取消...' });
+  };
+
   // 发送命令 (按下)
   const handleSendCommand = (commandId: string) => {
     const timestamp = Date.now();
-    const command = {
+    const command: RobotPanelCommand = {
       type: commandId,
       timestamp: new Date().toISOString(),
       screenId: screenId,
     };
     
     // 1. 发送到后端（将来用于真实机器人）
-    if (connected && publish) {
-      publish('/robot/commands', command);
+    // 急停走专用通道：所有通道发送、重发直到机器人确认，并锁定运动指令（未连接时同样锁定）
+    if (commandId === 'emergency_stop') {
+      emergencyStopService.trigger('控制面板');
+    }
+    if (connected) {
+      // 经指令仲裁发送（限频并记录来源），停止优先于其他面板命令
+      // 仲裁的载荷是线上格式：cockpit_msgs/RobotCommand 不是机器人上的ROS类型，以JSON放在 std_msgs/String 中发送
+      const message = commandId !== 'emergency_stop' ? encodeJsonString('cockpit_msgs/RobotCommand', command) : null;
+      if (message) {
+        commandArbiter.submit({
+          type: RobotCommandType.CUSTOM,
+          topic: '/robot/commands',
+          messageType: 'std_msgs/String',
+          payload: message,
+          priority: commandId === 'stop' ? 9 : 7,
+          source: 'control_panel',
+        });
+      }
       
       // 广播到其他屏幕（用于多屏3D同步）
-      publish('robot_3d_command', { command: commandId, timestamp }, 'std_msgs/String');
+      publishMessage('robot_3d_command', 'cockpit_msgs/Robot3DCommand', { command: commandId, timestamp });
     } else {
       console.warn('[ControlPanel] WebSocket未连接，无法发送命令');
     }
@@ -115,14 +225,18 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             }}>
               {category.commands.map((cmd) => {
                 const IconComponent = getIcon(cmd.id);
+                // 急停锁定期间急停按钮保持高亮；启动和系统重置不可用，只能通过急停横幅确认复位
+                const active = selectedCommand === cmd.id || (cmd.id === 'emergency_stop' && emergencyLatched);
+                const blocked = emergencyLatched && (cmd.id === 'start' || cmd.id === 'reset');
                 
                 return (
                   <button
                     key={cmd.id}
-                    className={`command-button ${selectedCommand === cmd.id ? 'active' : ''}`}
+                    className={`command-button ${active ? 'active' : ''}`}
                     style={{
                       borderColor: cmd.color,
-                      backgroundColor: selectedCommand === cmd.id ? cmd.color : 'transparent',
+                      backgroundColor: active ? cmd.color : 'transparent',
+                      opacity: blocked ? 0.4 : 1,
                       minWidth: compact ? '50px' : '60px',
                       minHeight: compact ? '50px' : '60px',
                       maxWidth: compact ? '50px' : 'none',
@@ -132,12 +246,13 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                       width: '0'
                     }}
                     onClick={() => handleSendCommand(cmd.id)}
-                    title={cmd.label}
+                    disabled={blocked}
+                    title={blocked ? `${cmd.label}（急停锁定中）` : cmd.label}
                   >
                     <span className="command-icon">
                       <IconComponent 
                         size={compact ? 20 : 24} 
-                        color={selectedCommand === cmd.id ? 'white' : cmd.color} 
+                        color={active ? 'white' : cmd.color} 
                       />
                     </span>
                     {!compact && <span className="command-label" style={{ fontSize: '11px', fontWeight: 'bold' }}>{cmd.label}</span>}
@@ -148,6 +263,48 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
           </div>
         ))}
 
+        {/* 任务：返回充电桩（ROS动作，带进度反馈） */}
+        <div className="command-category">
+          {!compact && <h2 className="category-title" style={{ fontSize: '14px', marginBottom: '8px' }}>任务</h2>}
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <button
+              className={`command-button ${dockTask?.running ? 'active' : ''}`}
+              style={{
+                borderColor: '#3b82f6',
+                backgroundColor: dockTask?.running ? '#3b82f6' : 'transparent',
+                minWidth: compact ? '50px' : '60px',
+                minHeight: compact ? '50px' : '60px',
+                padding: compact ? '6px' : '8px',
+              }}
+              onClick={dockTask?.running ? handleCancelDock : handleStartDock}
+              disabled={!connected && !dockTask?.running}
+              title={dockTask?.running ? '取消返回充电桩' : '返回充电桩'}
+            >
+              <span className="command-icon">
+                <DockIcon size={compact ? 20 : 24} color={dockTask?.running ? 'white' : '#3b82f6'} />
+              </span>
+              {!compact && (
+                <span className="command-label" style={{ fontSize: '11px', fontWeight: 'bold' }}>
+                  {dockTask?.running ? '取消' : '返回充电桩'}
+                </span>
+              )}
+            </button>
+            {dockTask && (
+              <span style={{ fontSize: compact ? '11px' : '12px', color: dockTask.running ? '#93c5fd' : '#9ca3af' }}>
+                {dockTask.text}
+              </span>
+            )}
+          </div>
+        </div>
+
+        {/* 遥操作限速（根据链路时延/丢包） */}
+        <SpeedLimitIndicator compact={compact} />
+
+        {/* 会话录制（问题复现） */}
+        <SessionRecorderControls compact={compact} />
+
+        {/* 回放录制（复盘和操作员培训） */}
+        <ReplayControls compact={compact} />
 
         {!connected && (
           <div className="warning-message">
@@ -0,0 +1,147 @@
+/**
+ * EmergencyStopBanner - 急停横幅
+ * 急停锁定期间在屏幕顶部显示红色横幅（所有屏幕同步），复位需要操作员确认；
+ * 其他操作员持有控制权时本端只能观察，不能复位（后端同样拒绝）
+ * 同时监听急停快捷键和手柄按钮：不依赖控制面板或外设控制器，任何屏幕获得焦点时都能触发
+ */
+
+import { useEffect } from 'react';
+import emergencyStopService, { getEmergencyStopConfig } from '../../services/emergencyStop';
+import controlLockService from '../../services/controlLock';
+import { useEmergencyStopStore } from '../../stores/emergencyStopStore';
+import { useControlLockStore } from '../../stores/controlLockStore';
+import { isEditableTarget } from '../../utils/peripherals/KeyboardDevice';
+
+// 轮询手柄急停按钮的间隔
+const GAMEPAD_POLL_MS = 50;
+
+interface EmergencyStopBannerProps {
+  allowReset?: boolean; // 是否显示复位按钮（多屏模式只在操作屏复位）
+}
+
+/**
+ * 急停快捷键和手柄按钮
+ */
+function useEmergencyStopHotkeys(): void {
+  useEffect(() => {
+    // 捕获阶段处理，焦点所在的控件阻止冒泡时也能触发
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat) return;
+      const { keys } = getEmergencyStopConfig();
+      if (!keys.some(key => key.toLowerCase() === e.key.toLowerCase())) return;
+      // 在输入框中输入字符时不触发
+      if (e.key.length === 1 && isEditableTarget(e.target)) return;
+
+      e.preventDefault();
+      emergencyStopService.trigger('键盘');
+    };
+
+    const pressed = new Set<string>();
+    const pollGamepads = () => {
+      const { gamepadButtons } = getEmergencyStopConfig();
+      const gamepads = navigator.getGamepads ? navigator.getGamepads() : [];
+      for (const gamepad of gamepads) {
+        if (!gamepad) continue;
+        gamepadButtons.forEach(index => {
+          const id = `${gamepad.index}:${index}`;
+          if (gamepad.buttons[index]?.pressed) {
+            if (!pressed.has(id)) {
+              pressed.add(id);
+              emergencyStopService.trigger('手柄');
+            }
+          } else {
+            pressed.delete(id);
+          }
+        });
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    const timer = setInterval(pollGamepads, GAMEPAD_POLL_MS);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      clearInterval(timer);
+    };
+  }, []);
+}
+
+export const EmergencyStopBanner: React.FC<EmergencyStopBannerProps> = ({ allowReset = true }) => {
+  const status = useEmergencyStopStore(state => state.status);
+  const controlStatus = useControlLockStore(state => state.status);
+  useEmergencyStopHotkeys();
+
+  if (!status.latched) {
+    return null;
+  }
+
+  // 其他操作员持有控制权（本端为观察者）
+  const observing = controlStatus.registered && !!controlStatus.holder && !controlStatus.isHolder;
+  const resetDisabled = status.resetting || observing;
+
+  const handleReset = () => {
+    if (controlLockService.isBlocked('topic', getEmergencyStopConfig().topic, { data: false })) {
+      alert('其他操作员正在控制，只有控制权持有者可以复位急停');
+      return;
+    }
+    if (!window.confirm('确认现场安全并解除急停？解除后机器人可以重新接受运动指令。')) {
+      return;
+    }
+    emergencyStopService.reset();
+  };
+
+  const stateText = status.resetting
+    ? `正在复位，等待机器人确认（第 ${status.attempts} 次）`
+    : status.acknowledged
+      ? '机器人已确认急停，运动指令已锁定'
+      : `等待机器人确认（已发送 ${status.attempts} 次）`;
+
+  return (
+    <div
+      className="emergency-stop-banner"
+      role="alert"
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        zIndex: 10000,
+        display: 'flex',
+        alignItems: 'center',
+        gap: '16px',
+        padding: '10px 20px',
+        backgroundColor: '#b91c1c',
+        color: 'white',
+        boxShadow: '0 2px 12px rgba(0, 0, 0, 0.5)',
+        fontSize: '14px',
+      }}
+    >
+      <span style={{ fontSize: '18px', fontWeight: 'bold' }}>⛔ 急停已触发</span>
+      <span>
+        {stateText}
+        {status.source && `（来源：${status.source}${status.remote ? '，其他屏幕同步' : ''}）`}
+      </span>
+      {status.error && <span style={{ color: '#fde68a' }}>{status.error}</span>}
+      {allowReset && (
+        <button
+          onClick={handleReset}
+          disabled={resetDisabled}
+          title={observing ? `${controlStatus.holder!.name} 正在控制，只有控制权持有者可以复位` : undefined}
+          style={{
+            marginLeft: 'auto',
+            padding: '6px 14px',
+            border: '2px solid white',
+            borderRadius: '6px',
+            backgroundColor: 'transparent',
+            color: 'white',
+            fontWeight: 'bold',
+            cursor: resetDisabled ? 'not-allowed' : 'pointer',
+            opacity: resetDisabled ? 0.6 : 1,
+          }}
+        >
+          复位急停
+        </button>
+      )}
+    </div>
+  );
+};
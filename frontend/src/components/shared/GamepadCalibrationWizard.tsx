@@ -0,0 +1,280 @@
+/**
+ * GamepadCalibrationWizard - 手柄校准向导
+ * 依次记录静止位置和噪声底、全行程、轴方向，按 Gamepad.id 保存，
+ * 该型号设备连接（重连）时自动应用
+ *
+ * 打开期间外设输入全部丢弃（不驾驶、不触发动作），向导直接读取原始轴值
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { InputEvent } from '../../types/peripheral.types';
+import { GamepadDevice } from '../../utils/peripherals/GamepadDevice';
+import {
+  AxisCalibration,
+  CalibrationPhase,
+  GamepadCalibrationProfile,
+  GamepadCalibrationRecorder,
+  calibrateAxisValue,
+  deleteGamepadCalibration,
+  loadGamepadCalibration,
+  saveGamepadCalibration,
+} from '../../utils/peripherals/GamepadCalibration';
+
+interface GamepadCalibrationWizardProps {
+  devices: GamepadDevice[];   // 已连接的手柄
+  setInputCapture: (handler: ((event: InputEvent) => void) | null) => void;
+  onClose: () => void;
+}
+
+type WizardStep = 'intro' | CalibrationPhase;
+
+// 静止采样时长
+const REST_SAMPLE_MS = 2000;
+
+const STEP_HINTS: Record<WizardStep, string> = {
+  intro: '校准会记录每个轴的静止位置、行程、噪声和方向，保存后该型号设备每次连接都会自动应用。',
+  rest: '松开所有摇杆、油门和踏板，保持静止…',
+  travel: '把每个摇杆、油门、踏板在各个方向推到底（摇杆可以沿边缘转几圈），完成后点击「下一步」。',
+  direction: '',
+  done: '校准完成，确认各轴读数无误后保存。',
+};
+
+const linkButtonStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  color: '#94a3b8',
+  cursor: 'pointer',
+  padding: 0,
+};
+
+/**
+ * 轴值条：中线为0，填充到当前值
+ */
+const AxisBar: React.FC<{ value: number; color: string }> = ({ value, color }) => {
+  const clamped = Math.max(-1, Math.min(1, value));
+  return (
+    <div style={{ position: 'relative', width: '120px', height: '8px', backgroundColor: '#1e293b', borderRadius: '4px' }}>
+      <div
+        style={{
+          position: 'absolute',
+          top: 0,
+          bottom: 0,
+          left: `${50 + Math.min(0, clamped) * 50}%`,
+          width: `${Math.abs(clamped) * 50}%`,
+          backgroundColor: color,
+          borderRadius: '4px',
+        }}
+      />
+      <div style={{ position: 'absolute', top: 0, bottom: 0, left: '50%', width: '1px', backgroundColor: '#64748b' }} />
+    </div>
+  );
+};
+
+export const GamepadCalibrationWizard: React.FC<GamepadCalibrationWizardProps> = ({ devices, setInputCapture, onClose }) => {
+  const [deviceId, setDeviceId] = useState<string | null>(() => devices[0]?.id ?? null);
+  const device = devices.find(candidate => candidate.id === deviceId) ?? devices[0] ?? null;
+  const gamepadId = device?.getGamepadId() ?? null;
+  const [step, setStep] = useState<WizardStep>('intro');
+  const [rawAxes, setRawAxes] = useState<number[]>([]);
+  const [saved, setSaved] = useState<GamepadCalibrationProfile | null>(null);
+  const [result, setResult] = useState<GamepadCalibrationProfile | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const recorderRef = useRef<GamepadCalibrationRecorder | null>(null);
+
+  useEffect(() => {
+    setInputCapture(() => {});
+    return () => {
+      setInputCapture(null);
+    };
+  }, []);
+
+  // 切换设备时放弃进行中的校准
+  useEffect(() => {
+    recorderRef.current = null;
+    setStep('intro');
+    setResult(null);
+    setMessage(null);
+    setSaved(gamepadId ? loadGamepadCalibration(gamepadId) : null);
+  }, [gamepadId]);
+
+  // 每帧读取原始轴值（不经过校准和死区）
+  useEffect(() => {
+    if (!device) return;
+
+    let frameId: number;
+    const poll = () => {
+      const axes = device.getState().axes.map(axis => axis.rawValue);
+      setRawAxes(axes);
+
+      const recorder = recorderRef.current;
+      if (recorder && recorder.getPhase() !== 'done') {
+        recorder.addSample(axes);
+        setStep(recorder.getPhase());
+      }
+      frameId = requestAnimationFrame(poll);
+    };
+    frameId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frameId);
+  }, [device]);
+
+  // 静止采样到时后自动进入下一步
+  useEffect(() => {
+    if (step !== 'rest') return;
+    const timer = setTimeout(() => {
+      recorderRef.current?.next();
+      setStep(recorderRef.current?.getPhase() ?? 'intro');
+    }, REST_SAMPLE_MS);
+    return () => clearTimeout(timer);
+  }, [step]);
+
+  // 记录完成后生成校准
+  useEffect(() => {
+    if (step === 'done' && recorderRef.current && gamepadId) {
+      setResult(recorderRef.current.build(gamepadId));
+    }
+  }, [step]);
+
+  const start = () => {
+    recorderRef.current = new GamepadCalibrationRecorder();
+    setResult(null);
+    setMessage(null);
+    setStep('rest');
+  };
+
+  const next = () => {
+    recorderRef.current?.next();
+    setStep(recorderRef.current?.getPhase() ?? 'intro');
+  };
+
+  const handleSave = () => {
+    if (!result) return;
+    saveGamepadCalibration(result);
+    setSaved(result);
+    recorderRef.current = null;
+    setStep('intro');
+    setMessage('校准已保存并生效');
+  };
+
+  const handleClear = () => {
+    if (!gamepadId) return;
+    deleteGamepadCalibration(gamepadId);
+    setSaved(null);
+    setMessage('已清除校准，按居中、满量程处理');
+  };
+
+  const recorder = recorderRef.current;
+  const prompt = recorder?.getPrompt() ?? null;
+  const ranges = recorder?.getAxisRanges() ?? [];
+  // 预览：完成时用新校准，其余时候用已保存的校准
+  const preview = step === 'done' ? result : saved;
+
+  const renderAxis = (raw: number, index: number) => {
+    const range = ranges[index];
+    const calibration: AxisCalibration | null = preview?.axes[index] ?? null;
+    const isPrompted = prompt?.axis === index;
+    return (
+      <div key={index} style={{ display: 'flex', alignItems: 'center', gap: '8px', color: isPrompted ? '#93c5fd' : undefined }}>
+        <span style={{ width: '40px' }}>轴 {index}</span>
+        <AxisBar value={raw} color="#64748b" />
+        <span style={{ width: '48px', fontFamily: 'monospace' }}>{raw.toFixed(2)}</span>
+        {(step === 'travel' || step === 'direction') && range && (
+          <span style={{ color: '#94a3b8', fontFamily: 'monospace' }}>
+            {range.min.toFixed(2)} ~ {range.max.toFixed(2)}
+          </span>
+        )}
+        {(step === 'intro' || step === 'done') && (
+          calibration ? (
+            <>
+              <AxisBar value={calibrateAxisValue(raw, calibration)} color="#10b981" />
+              <span style={{ color: '#94a3b8', fontFamily: 'monospace' }}>
+                静止 {calibration.rest.toFixed(2)} · {calibration.min.toFixed(2)} ~ {calibration.max.toFixed(2)} · 噪声 {calibration.noise.toFixed(3)}
+                {calibration.inverted ? ' · 反向' : ''}
+              </span>
+            </>
+          ) : (
+            <span style={{ color: '#64748b' }}>未校准</span>
+          )
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className="gamepad-calibration-wizard"
+      style={{
+        position: 'fixed',
+        top: '50%',
+        left: '50%',
+        transform: 'translate(-50%, -50%)',
+        zIndex: 10000,
+        width: '560px',
+        maxHeight: '85vh',
+        overflowY: 'auto',
+        padding: '16px',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        backgroundColor: 'rgba(15, 23, 42, 0.97)',
+        border: '1px solid #475569',
+        borderRadius: '8px',
+        color: 'white',
+        fontSize: '12px',
+        textAlign: 'left',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <span style={{ fontWeight: 'bold', fontSize: '14px' }}>手柄校准</span>
+        <button onClick={onClose} style={linkButtonStyle} title="关闭">✕</button>
+      </div>
+
+      {!gamepadId ? (
+        <div style={{ color: '#f59e0b' }}>未检测到已连接的手柄，请连接手柄并按任意按钮唤醒后重新打开</div>
+      ) : (
+        <>
+          {devices.length > 1 && (
+            <select value={device!.id} onChange={e => setDeviceId(e.target.value)} disabled={step !== 'intro'}>
+              {devices.map(candidate => (
+                <option key={candidate.id} value={candidate.id}>{candidate.name}（{candidate.id}）</option>
+              ))}
+            </select>
+          )}
+          <div style={{ color: '#94a3b8', wordBreak: 'break-all' }}>
+            设备：{gamepadId}
+            {saved && `（已校准于 ${new Date(saved.calibratedAt).toLocaleString()}）`}
+          </div>
+
+          <div style={{ color: step === 'intro' || step === 'done' ? '#94a3b8' : '#93c5fd' }}>
+            {step === 'direction' && prompt ? `${prompt.label}（检测轴 ${prompt.axis} 的方向）` : STEP_HINTS[step]}
+          </div>
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+            {rawAxes.map(renderAxis)}
+          </div>
+
+          {message && <div style={{ color: '#10b981' }}>{message}</div>}
+
+          <div style={{ display: 'flex', gap: '6px' }}>
+            {step === 'intro' && (
+              <>
+                <button onClick={start} style={{ fontWeight: 'bold' }}>开始校准</button>
+                <button onClick={handleClear} disabled={!saved}>清除校准</button>
+              </>
+            )}
+            {step === 'travel' && <button onClick={next} style={{ fontWeight: 'bold' }}>下一步</button>}
+            {step === 'direction' && <button onClick={next}>跳过</button>}
+            {step === 'done' && (
+              <>
+                <button onClick={handleSave} disabled={!result} style={{ fontWeight: 'bold' }}>保存</button>
+                <button onClick={start}>重新校准</button>
+              </>
+            )}
+            {step !== 'intro' && step !== 'done' && (
+              <button onClick={() => { recorderRef.current = null; setStep('intro'); }}>取消</button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+/**
+ * GamepadRolePanel - 手柄角色分配
+ * 列出已发现的手柄，为每台分配角色（底盘驾驶、手臂/头部、速度踏板、通用），
+ * 最近产生输入的设备高亮，便于辨认哪台是哪台
+ *
+ * 打开期间外设输入只用于辨认设备（不驾驶、不触发动作）
+ */
+
+import { useEffect, useState } from 'react';
+import { InputEvent, PeripheralStatus, PeripheralType } from '../../types/peripheral.types';
+import { GamepadDevice } from '../../utils/peripherals/GamepadDevice';
+import {
+  GAMEPAD_ROLE_LABELS,
+  GamepadRole,
+  getGamepadRoleAssignments,
+  getGamepadRoleConfig,
+  setGamepadRole,
+} from '../../utils/peripherals/GamepadRoles';
+
+interface GamepadRolePanelProps {
+  devices: GamepadDevice[];                  // 已发现的手柄（包括断开等待重连的）
+  roles: Record<string, GamepadRole>;        // 已连接手柄的实际角色
+  setInputCapture: (handler: ((event: InputEvent) => void) | null) => void;
+  onClose: () => void;
+}
+
+const ROLES = Object.keys(GAMEPAD_ROLE_LABELS) as GamepadRole[];
+
+export const GamepadRolePanel: React.FC<GamepadRolePanelProps> = ({ devices, roles, setInputCapture, onClose }) => {
+  const assignments = getGamepadRoleAssignments();
+  const [activeDeviceId, setActiveDeviceId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setInputCapture(event => {
+      if (event.deviceType === PeripheralType.GAMEPAD) {
+        setActiveDeviceId(event.deviceId);
+      }
+    });
+    return () => {
+      setInputCapture(null);
+    };
+  }, []);
+
+  return (
+    <div
+      className="gamepad-role-panel"
+      style={{
+        position: 'fixed',
+        top: '50%',
+        left: '50%',
+        transform: 'translate(-50%, -50%)',
+        zIndex: 10000,
+        width: '520px',
+        maxHeight: '85vh',
+        overflowY: 'auto',
+        padding: '16px',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        backgroundColor: 'rgba(15, 23, 42, 0.97)',
+        border: '1px solid #475569',
+        borderRadius: '8px',
+        color: 'white',
+        fontSize: '12px',
+        textAlign: 'left',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <span style={{ fontWeight: 'bold', fontSize: '14px' }}>手柄角色</span>
+        <button
+          onClick={onClose}
+          style={{ background: 'none', border: 'none', color: '#94a3b8', cursor: 'pointer', padding: 0 }}
+          title="关闭"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div style={{ color: '#94a3b8' }}>
+        按下手柄上的任意按钮可辨认设备。未分配的手柄：没有底盘驾驶设备时第一台负责驾驶，其余为通用。
+        速度踏板使用轴 {getGamepadRoleConfig().speedAxis} 调节整体速度。
+      </div>
+
+      {devices.length === 0 && <div style={{ color: '#f59e0b' }}>未发现手柄，请连接手柄并按任意按钮唤醒</div>}
+
+      {devices.map(device => {
+        const connected = device.status === PeripheralStatus.CONNECTED;
+        const active = device.id === activeDeviceId;
+        return (
+          <div
+            key={device.id}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              padding: '6px 8px',
+              borderRadius: '4px',
+              border: `1px solid ${active ? '#3b82f6' : '#334155'}`,
+              backgroundColor: active ? 'rgba(59, 130, 246, 0.15)' : 'transparent',
+              opacity: connected ? 1 : 0.5,
+            }}
+          >
+            <span style={{ color: connected ? '#10b981' : '#ef4444' }}>●</span>
+            <span style={{ flex: 1, minWidth: 0 }}>
+              <div>{device.name}{device.getLayout() ? ` · ${device.getLayout()!.label}` : ''}</div>
+              <div style={{ color: '#64748b', wordBreak: 'break-all' }}>{device.id}</div>
+            </span>
+            <select
+              value={assignments[device.id] ?? ''}
+              onChange={e => setGamepadRole(device.id, (e.target.value || null) as GamepadRole | null)}
+            >
+              <option value="">自动{roles[device.id] ? `（${GAMEPAD_ROLE_LABELS[roles[device.id]]}）` : ''}</option>
+              {ROLES.map(role => (
+                <option key={role} value={role}>{GAMEPAD_ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,473 @@
+/**
+ * InputMappingEditor - 按键映射设置
+ * 选择动作后按下任意已连接外设的按钮/按键（或推动摇杆）完成绑定，冲突的绑定标红；
+ * 测试模式下按输入高亮触发的动作并在本地3D模型上播放（不发送到机器人）；
+ * 方案按用户和机器人命名保存，可导出/导入JSON
+ *
+ * 多手柄时在非底盘驾驶角色的设备上按下的按钮只绑定到该角色
+ *
+ * 打开期间外设输入全部交给本界面（不驾驶、不触发动作）
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  DriveAxisName,
+  InputEvent,
+  InputEventType,
+  InputMappingProfile,
+} from '../../types/peripheral.types';
+import {
+  InputBinding,
+  InputNames,
+  MAPPING_ACTIONS,
+  MAPPING_ACTION_CATEGORY_LABELS,
+  MappingAction,
+  MappingActionCategory,
+  bindAction,
+  bindingKey,
+  bindingMatchesInput,
+  describeBinding,
+  describeBindingKey,
+  findBindingConflicts,
+  getActionBindings,
+  getMappingAction,
+  getReservedBindings,
+  unbindAction,
+} from '../../utils/peripherals/MappingActions';
+import {
+  deleteMappingProfile,
+  exportMappingProfile,
+  getActiveMappingProfileId,
+  getCurrentUserId,
+  listMappingProfiles,
+  parseMappingProfile,
+  resetMappingProfile,
+  resolveBaseMappingProfile,
+  saveMappingProfile,
+  setActiveMappingProfile,
+} from '../../utils/peripherals/MappingProfile';
+import { getCurrentRobotId } from '../../utils/peripherals/VelocityShaper';
+import { useRobot3DStore } from '../../stores/robot3DStore';
+
+interface InputMappingEditorProps {
+  profile: InputMappingProfile | null;  // 当前生效的方案
+  inputNames?: InputNames;              // 已连接手柄布局中的轴、按钮名称
+  setInputCapture: (handler: ((event: InputEvent) => void) | null) => void;
+  onApply: (profile: InputMappingProfile) => void;
+  onClose: () => void;
+}
+
+// 绑定摇杆轴时需要推过的幅度
+const AXIS_BIND_THRESHOLD = 0.6;
+// 测试模式高亮时长
+const TEST_HIGHLIGHT_MS = 600;
+const TEST_LOG_SIZE = 6;
+
+const CATEGORIES: MappingActionCategory[] = ['drive', 'safety', 'gesture'];
+
+const chipStyle = (conflict: boolean): React.CSSProperties => ({
+  display: 'inline-flex',
+  alignItems: 'center',
+  gap: '4px',
+  padding: '1px 6px',
+  borderRadius: '4px',
+  border: `1px solid ${conflict ? '#ef4444' : '#475569'}`,
+  backgroundColor: conflict ? 'rgba(239, 68, 68, 0.15)' : '#1e293b',
+  color: conflict ? '#fca5a5' : 'white',
+});
+
+const linkButtonStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  color: '#94a3b8',
+  cursor: 'pointer',
+  padding: 0,
+};
+
+/**
+ * 外设事件对应的绑定（按下或松开按钮/按键）
+ * 非底盘驾驶角色设备上的按钮限定该角色
+ */
+function eventBinding(event: InputEvent, released: boolean = false): InputBinding | null {
+  const buttonType = released ? InputEventType.BUTTON_UP : InputEventType.BUTTON_DOWN;
+  const keyType = released ? InputEventType.KEY_UP : InputEventType.KEY_DOWN;
+  if (event.type === buttonType && event.button) {
+    return { kind: 'button', index: event.button.index, ...(event.role && event.role !== 'drive' ? { role: event.role } : {}) };
+  }
+  if (event.type === keyType && event.key) return { kind: 'key', key: event.key };
+  return null;
+}
+
+export const InputMappingEditor: React.FC<InputMappingEditorProps> = ({ profile, inputNames = {}, setInputCapture, onApply, onClose }) => {
+  const robotId = getCurrentRobotId();
+  const userId = getCurrentUserId();
+  const [savedProfiles, setSavedProfiles] = useState<InputMappingProfile[]>(() => listMappingProfiles(robotId, userId));
+  const [activeId, setActiveId] = useState<string | null>(() => getActiveMappingProfileId(robotId, userId));
+  const [draft, setDraft] = useState<InputMappingProfile | null>(profile);
+  const [dirty, setDirty] = useState(false);
+  const [listening, setListening] = useState<string | null>(null);
+  const [testing, setTesting] = useState(false);
+  const [testLog, setTestLog] = useState<string[]>([]);
+  const [highlighted, setHighlighted] = useState<Set<string>>(new Set());
+  const [axisValues, setAxisValues] = useState<Partial<Record<DriveAxisName, number>>>({});
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const highlightTimers = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+
+  // 生效方案尚未读取完成时使用下发/内置方案
+  useEffect(() => {
+    if (!draft) {
+      resolveBaseMappingProfile().then(base => setDraft(prev => prev ?? base));
+    }
+  }, []);
+
+  const updateDraft = (next: InputMappingProfile) => {
+    setDraft(next);
+    setDirty(true);
+  };
+
+  const highlight = (actionId: string) => {
+    setHighlighted(prev => new Set(prev).add(actionId));
+    clearTimeout(highlightTimers.current.get(actionId));
+    highlightTimers.current.set(actionId, setTimeout(() => {
+      setHighlighted(prev => {
+        const next = new Set(prev);
+        next.delete(actionId);
+        return next;
+      });
+    }, TEST_HIGHLIGHT_MS));
+  };
+
+  // 绑定：等待操作员按下按钮/按键或推动摇杆
+  const captureBinding = (current: InputMappingProfile, action: MappingAction, event: InputEvent) => {
+    if (event.type === InputEventType.KEY_DOWN && event.key === 'Escape') {
+      setListening(null);
+      return;
+    }
+
+    let binding: InputBinding | null = null;
+    if (action.driveAxis) {
+      if (event.type !== InputEventType.AXIS_CHANGE || !event.axis || Math.abs(event.axis.value) < AXIS_BIND_THRESHOLD) {
+        return;
+      }
+      // 标准布局下摇杆前推为负值、右推为正值，方向相反时反向
+      const forward = action.driveAxis === 'leftY' || action.driveAxis === 'rightY';
+      binding = { kind: 'axis', index: event.axis.index, invert: forward ? event.axis.value > 0 : event.axis.value < 0 };
+    } else {
+      binding = eventBinding(event);
+    }
+    if (!binding) return;
+
+    updateDraft(bindAction(current, action.id, binding));
+    setListening(null);
+    setMessage(`${action.label} 已绑定到 ${describeBinding(binding, inputNames)}`);
+  };
+
+  // 测试：高亮触发的动作，3D动作只在本地播放
+  const testInput = (current: InputMappingProfile, event: InputEvent) => {
+    if (event.type === InputEventType.AXIS_CHANGE && event.axis) {
+      MAPPING_ACTIONS.forEach(action => {
+        if (!action.driveAxis) return;
+        const [binding] = getActionBindings(current, action.id);
+        if (binding?.kind === 'axis' && binding.index === event.axis!.index) {
+          const value = binding.invert ? -event.axis!.value : event.axis!.value;
+          setAxisValues(prev => ({ ...prev, [action.driveAxis!]: value }));
+        }
+      });
+      return;
+    }
+
+    const released = event.type === InputEventType.BUTTON_UP || event.type === InputEventType.KEY_UP;
+    const binding = eventBinding(event, released);
+    if (!binding) return;
+
+    const key = bindingKey(binding);
+    const triggered = MAPPING_ACTIONS.filter(action =>
+      getActionBindings(current, action.id).some(existing => bindingMatchesInput(existing, binding))
+    );
+    const animation = (action: MappingAction) => released ? action.releaseAnimation : action.animation;
+    triggered.forEach(action => {
+      const name = animation(action);
+      if (name) {
+        useRobot3DStore.getState().setCommand(name + '_' + Date.now());
+      }
+    });
+    if (released) return;
+
+    triggered.forEach(action => highlight(action.id));
+    const reserved = getReservedBindings().filter(item => item.key === key).map(item => `${item.label}（保留）`);
+    const targets = [...triggered.map(action => action.label), ...reserved];
+    setTestLog(prev => [
+      `${describeBinding(binding, inputNames)} → ${targets.length > 0 ? targets.join('、') : '未绑定'}`,
+      ...prev,
+    ].slice(0, TEST_LOG_SIZE));
+  };
+
+  // 外设输入处理（通过ref读取最新状态）
+  const captureRef = useRef<(event: InputEvent) => void>(() => {});
+  captureRef.current = (event: InputEvent) => {
+    if (!draft) return;
+    const action = listening ? getMappingAction(listening) : undefined;
+    if (action) {
+      captureBinding(draft, action, event);
+    } else if (testing) {
+      testInput(draft, event);
+    }
+  };
+
+  useEffect(() => {
+    setInputCapture(event => captureRef.current(event));
+    return () => {
+      setInputCapture(null);
+      highlightTimers.current.forEach(timer => clearTimeout(timer));
+    };
+  }, []);
+
+  if (!draft) {
+    return null;
+  }
+
+  const conflicts = findBindingConflicts(draft);
+  const savedIds = new Set(savedProfiles.map(saved => saved.id));
+  const otherRules = draft.rules.filter(rule => !rule.action || !getMappingAction(rule.action));
+
+  const refreshSaved = () => {
+    setSavedProfiles(listMappingProfiles(robotId, userId));
+    setActiveId(getActiveMappingProfileId(robotId, userId));
+  };
+
+  const save = (asNew: boolean) => {
+    // 下发/内置方案不覆盖，保存为新方案
+    const id = asNew || !savedIds.has(draft.id) ? `mapping_${Date.now().toString(36)}` : draft.id;
+    const name = asNew ? `${draft.name} 副本` : draft.name;
+    const next = { ...draft, id, name };
+    saveMappingProfile(next, robotId, userId);
+    console.log(`[InputMappingEditor] 已保存映射方案「${next.name}」（用户 ${userId}，机器人 ${robotId}）`);
+    setDraft(next);
+    setDirty(false);
+    refreshSaved();
+    setMessage(`已保存并启用「${next.name}」`);
+    onApply(next);
+  };
+
+  const selectProfile = (profileId: string) => {
+    if (dirty && !window.confirm('当前修改尚未保存，确认切换方案？')) {
+      return;
+    }
+    setListening(null);
+    setDirty(false);
+
+    if (profileId === '') {
+      resetMappingProfile(robotId, userId);
+      refreshSaved();
+      resolveBaseMappingProfile().then(base => {
+        setDraft(base);
+        onApply(base);
+      });
+      return;
+    }
+
+    const selected = savedProfiles.find(saved => saved.id === profileId);
+    if (!selected) return;
+    setActiveMappingProfile(profileId, robotId, userId);
+    refreshSaved();
+    setDraft(selected);
+    onApply(selected);
+  };
+
+  const handleDelete = () => {
+    if (!savedIds.has(draft.id) || !window.confirm(`确认删除方案「${draft.name}」？`)) {
+      return;
+    }
+    deleteMappingProfile(draft.id, robotId, userId);
+    refreshSaved();
+    setDirty(false);
+    resolveBaseMappingProfile().then(base => {
+      setDraft(base);
+      onApply(base);
+    });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportMappingProfile(draft)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${draft.name || draft.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseMappingProfile(JSON.parse(await file.text()), file.name);
+      if (!imported) {
+        setMessage(`${file.name} 不是有效的映射方案`);
+        return;
+      }
+      // 作为新方案导入，保存后生效
+      updateDraft({ ...imported, id: `mapping_${Date.now().toString(36)}` });
+      setMessage(`已导入「${imported.name}」，保存后生效`);
+    } catch (error) {
+      console.warn('[InputMappingEditor] 导入映射方案失败:', error);
+      setMessage(`${file.name} 无法解析`);
+    }
+  };
+
+  const renderAction = (action: MappingAction) => {
+    const bindings = getActionBindings(draft, action.id);
+    const isListening = listening === action.id;
+    const isHighlighted = highlighted.has(action.id);
+
+    return (
+      <div
+        key={action.id}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          padding: '3px 4px',
+          borderRadius: '4px',
+          backgroundColor: isHighlighted ? 'rgba(16, 185, 129, 0.25)' : isListening ? 'rgba(59, 130, 246, 0.2)' : 'transparent',
+        }}
+      >
+        <span style={{ width: '170px', flexShrink: 0 }}>{action.label}</span>
+        <span style={{ flex: 1, display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+          {bindings.length === 0 && <span style={{ color: '#64748b' }}>未绑定</span>}
+          {bindings.map(binding => {
+            const users = conflicts.get(bindingKey(binding));
+            return (
+              <span
+                key={bindingKey(binding)}
+                style={chipStyle(!!users)}
+                title={users ? `冲突：${users.join('、')}` : undefined}
+              >
+                {describeBinding(binding, inputNames)}
+                {action.driveAxis && testing && axisValues[action.driveAxis] !== undefined && (
+                  <span style={{ color: '#10b981' }}>{axisValues[action.driveAxis]!.toFixed(2)}</span>
+                )}
+                <button
+                  onClick={() => updateDraft(unbindAction(draft, action.id, binding))}
+                  title={action.driveAxis ? '恢复标准布局' : '移除绑定'}
+                  style={linkButtonStyle}
+                >
+                  ✕
+                </button>
+              </span>
+            );
+          })}
+        </span>
+        <button onClick={() => setListening(isListening ? null : action.id)} style={{ flexShrink: 0 }}>
+          {isListening ? '取消' : '绑定'}
+        </button>
+      </div>
+    );
+  };
+
+  const listeningAction = listening ? getMappingAction(listening) : undefined;
+
+  return (
+    <div
+      className="input-mapping-editor"
+      style={{
+        position: 'fixed',
+        top: '50%',
+        left: '50%',
+        transform: 'translate(-50%, -50%)',
+        zIndex: 10000,
+        width: '600px',
+        maxHeight: '85vh',
+        overflowY: 'auto',
+        padding: '16px',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        backgroundColor: 'rgba(15, 23, 42, 0.97)',
+        border: '1px solid #475569',
+        borderRadius: '8px',
+        color: 'white',
+        fontSize: '12px',
+        textAlign: 'left',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <span style={{ fontWeight: 'bold', fontSize: '14px' }}>按键映射（用户：{userId} · 机器人：{robotId}）</span>
+        <button onClick={onClose} style={linkButtonStyle} title="关闭">✕</button>
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '6px', flexWrap: 'wrap' }}>
+        <select value={activeId ?? ''} onChange={e => selectProfile(e.target.value)}>
+          <option value="">默认方案</option>
+          {savedProfiles.map(saved => (
+            <option key={saved.id} value={saved.id}>{saved.name}</option>
+          ))}
+        </select>
+        <input
+          value={draft.name}
+          onChange={e => updateDraft({ ...draft, name: e.target.value })}
+          placeholder="方案名称"
+          style={{ width: '140px' }}
+        />
+        <button onClick={() => save(false)} style={{ fontWeight: 'bold' }}>保存{dirty ? ' *' : ''}</button>
+        <button onClick={() => save(true)}>另存为</button>
+        <button onClick={handleDelete} disabled={!savedIds.has(draft.id)}>删除</button>
+        <button onClick={() => fileInputRef.current?.click()}>导入</button>
+        <button onClick={handleExport}>导出</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: 'none' }}
+          onChange={e => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) handleImport(file);
+          }}
+        />
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer' }}>
+          <input type="checkbox" checked={testing} onChange={e => setTesting(e.target.checked)} />
+          测试模式（按下输入查看触发的动作，3D动作只在本地播放）
+        </label>
+      </div>
+
+      {listeningAction && (
+        <div style={{ color: '#93c5fd' }}>
+          {listeningAction.driveAxis
+            ? `请把要绑定的摇杆${listeningAction.axisHint}…（Esc取消）`
+            : `请按下要绑定到「${listeningAction.label}」的按钮或按键…（Esc取消）`}
+        </div>
+      )}
+      {message && !listeningAction && <div style={{ color: '#94a3b8' }}>{message}</div>}
+
+      {CATEGORIES.map(category => (
+        <div key={category} style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
+          <div style={{ color: '#94a3b8', fontWeight: 'bold', marginTop: '4px' }}>{MAPPING_ACTION_CATEGORY_LABELS[category]}</div>
+          {MAPPING_ACTIONS.filter(action => action.category === category).map(renderAction)}
+        </div>
+      ))}
+
+      {otherRules.length > 0 && (
+        <div style={{ color: '#64748b' }}>
+          另有 {otherRules.length} 条自定义规则（{otherRules.map(rule => rule.name).join('、')}），保存时保留
+        </div>
+      )}
+
+      {conflicts.size > 0 && (
+        <div style={{ color: '#fca5a5' }}>
+          {Array.from(conflicts.entries()).map(([key, users]) => (
+            <div key={key}>⚠ {describeBindingKey(key, inputNames)} 同时用于：{users.join('、')}</div>
+          ))}
+        </div>
+      )}
+
+      {testing && testLog.length > 0 && (
+        <div style={{ color: '#a7f3d0', fontFamily: 'monospace' }}>
+          {testLog.map((line, index) => <div key={index}>{line}</div>)}
+        </div>
+      )}
+    </div>
+  );
+};
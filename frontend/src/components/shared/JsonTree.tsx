@@ -0,0 +1,86 @@
+/**
+ * JsonTree - 可折叠的JSON树
+ * 用于展示ROS消息内容，对象和数组可逐级展开，长数组只显示前若干项
+ */
+
+import { useState } from 'react';
+
+interface JsonTreeProps {
+  data: any;
+  name?: string;
+  defaultExpandDepth?: number; // 默认展开的层数
+}
+
+interface JsonNodeProps {
+  name?: string;
+  value: any;
+  depth: number;
+  defaultExpandDepth: number;
+}
+
+// 数组最多显示的元素数
+const MAX_ARRAY_ITEMS = 100;
+
+const VALUE_COLORS = {
+  string: '#a5d6a7',
+  number: '#90caf9',
+  boolean: '#ffcc80',
+  null: '#9e9e9e',
+};
+
+// TypedArray（二进制编码解出的数值数组）按普通数组展示
+const toDisplayValue = (value: any) =>
+  ArrayBuffer.isView(value) && !(value instanceof DataView) ? Array.from(value as unknown as ArrayLike<number>) : value;
+
+function JsonNode({ name, value, depth, defaultExpandDepth }: JsonNodeProps) {
+  const displayValue = toDisplayValue(value);
+  const isContainer = displayValue !== null && typeof displayValue === 'object';
+  const [expanded, setExpanded] = useState(depth < defaultExpandDepth);
+
+  const label = name !== undefined && <span style={{ color: '#ce93d8' }}>{name}: </span>;
+
+  if (!isContainer) {
+    const type = displayValue === null ? 'null' : typeof displayValue;
+    const text = type === 'string' ? `"${displayValue}"` : String(displayValue);
+    return (
+      <div style={{ paddingLeft: depth > 0 ? '14px' : 0 }}>
+        {label}
+        <span style={{ color: VALUE_COLORS[type as keyof typeof VALUE_COLORS] ?? '#e0e0e0' }}>{text}</span>
+      </div>
+    );
+  }
+
+  const isArray = Array.isArray(displayValue);
+  const entries: Array<[string, any]> = isArray
+    ? displayValue.slice(0, MAX_ARRAY_ITEMS).map((item: any, index: number) => [String(index), item])
+    : Object.entries(displayValue);
+  const summary = isArray ? `Array(${displayValue.length})` : `{${Object.keys(displayValue).length}}`;
+
+  return (
+    <div style={{ paddingLeft: depth > 0 ? '14px' : 0 }}>
+      <span style={{ cursor: 'pointer', userSelect: 'none' }} onClick={() => setExpanded(!expanded)}>
+        <span style={{ display: 'inline-block', width: '12px', color: '#888' }}>{expanded ? '▾' : '▸'}</span>
+        {label}
+        <span style={{ color: '#888' }}>{summary}</span>
+      </span>
+      {expanded && (
+        <>
+          {entries.map(([key, item]) => (
+            <JsonNode key={key} name={key} value={item} depth={depth + 1} defaultExpandDepth={defaultExpandDepth} />
+          ))}
+          {isArray && displayValue.length > MAX_ARRAY_ITEMS && (
+            <div style={{ paddingLeft: '14px', color: '#888' }}>… 其余 {displayValue.length - MAX_ARRAY_ITEMS} 项未显示</div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export const JsonTree: React.FC<JsonTreeProps> = ({ data, name, defaultExpandDepth = 2 }) => {
+  return (
+    <div className="json-tree" style={{ fontFamily: "'Courier New', monospace", fontSize: '13px', lineHeight: 1.5 }}>
+      <JsonNode name={name} value={data} depth={0} defaultExpandDepth={defaultExpandDepth} />
+    </div>
+  );
+};
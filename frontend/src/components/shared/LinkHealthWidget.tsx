@@ -0,0 +1,107 @@
+/**
+ * LinkHealthWidget - 链路健康度组件
+ * 显示链路质量评分和RTT/抖动/丢包/码率/积压等指标
+ * compact模式用于顶部栏，只显示评分和RTT，悬停显示详细指标
+ */
+
+import { useLinkQualityStore } from '../../stores/linkQualityStore';
+import { LinkQualityLevel, LinkQualitySample, getLinkQualityLevel } from '../../services/linkQualityMonitor';
+import { CommunicationMode } from '../../services';
+
+interface LinkHealthWidgetProps {
+  compact?: boolean;
+  className?: string;
+}
+
+const LEVEL_STYLES: Record<LinkQualityLevel, { color: string; label: string }> = {
+  good: { color: '#10b981', label: '良好' },
+  fair: { color: '#eab308', label: '一般' },
+  poor: { color: '#f97316', label: '较差' },
+  bad: { color: '#ef4444', label: '很差' },
+  unknown: { color: '#64748b', label: '未知' },
+};
+
+const TRANSPORT_LABELS: Record<CommunicationMode, string> = {
+  webrtc: 'WebRTC',
+  websocket: 'WebSocket',
+  replay: '回放',
+  simulator: '模拟机器人',
+};
+
+const formatMs = (value: number | null) => (value === null ? '--' : `${Math.round(value)} ms`);
+const formatPercent = (value: number | null) => (value === null ? '--' : `${(value * 100).toFixed(1)}%`);
+const formatBitrate = (value: number | null) => {
+  if (value === null) return '--';
+  if (value >= 1e6) return `${(value / 1e6).toFixed(1)} Mbps`;
+  return `${(value / 1e3).toFixed(0)} kbps`;
+};
+const formatBytes = (value: number | null) => {
+  if (value === null) return '--';
+  if (value >= 1024) return `${(value / 1024).toFixed(1)} KB`;
+  return `${value} B`;
+};
+
+const getMetrics = (sample: LinkQualitySample | null) => [
+  { label: 'RTT', value: formatMs(sample?.rttMs ?? null) },
+  { label: '抖动', value: formatMs(sample?.jitterMs ?? null) },
+  { label: '丢包', value: formatPercent(sample?.packetLoss ?? null) },
+  { label: '发送码率', value: formatBitrate(sample?.outgoingBitrate ?? null) },
+  { label: '通道积压', value: formatBytes(sample?.bufferedAmount ?? null) },
+];
+
+export const LinkHealthWidget: React.FC<LinkHealthWidgetProps> = ({ compact = false, className = '' }) => {
+  const { sample, level, scoreHistory } = useLinkQualityStore();
+  const { color, label } = LEVEL_STYLES[level];
+  const metrics = getMetrics(sample);
+
+  if (compact) {
+    return (
+      <span
+        className={`link-health compact ${className}`}
+        title={metrics.map(metric => `${metric.label}: ${metric.value}`).join('\n')}
+        style={{ color }}
+      >
+        📶 {sample?.score ?? '--'} · {formatMs(sample?.rttMs ?? null)}
+      </span>
+    );
+  }
+
+  return (
+    <div className={`link-health ${className}`} style={{ padding: '10px', background: 'rgba(30, 41, 59, 0.6)', borderRadius: '8px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: '8px' }}>
+        <h3 style={{ margin: 0, fontSize: '14px' }}>📶 链路健康度</h3>
+        <span style={{ color, fontWeight: 'bold' }}>
+          {sample?.score ?? '--'} <span style={{ fontSize: '12px' }}>{label}</span>
+        </span>
+      </div>
+
+      {/* 近期评分走势 */}
+      <div style={{ display: 'flex', alignItems: 'flex-end', gap: '2px', height: '24px', marginBottom: '8px' }}>
+        {scoreHistory.map((score, index) => (
+          <div
+            key={index}
+            style={{
+              flex: 1,
+              height: `${Math.max(4, score ?? 0)}%`,
+              backgroundColor: LEVEL_STYLES[getLinkQualityLevel(score)].color,
+              opacity: score === null ? 0.3 : 0.8,
+            }}
+          />
+        ))}
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px 12px', fontSize: '12px' }}>
+        {metrics.map(metric => (
+          <div key={metric.label} style={{ display: 'flex', justifyContent: 'space-between' }}>
+            <span style={{ color: '#94a3b8' }}>{metric.label}</span>
+            <span>{metric.value}</span>
+          </div>
+        ))}
+        <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+          <span style={{ color: '#94a3b8' }}>通信方式</span>
+          <span>{sample ? TRANSPORT_LABELS[sample.transport] : '--'}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,65 @@
 /**
  * 外设控制器组件
  * 管理外设输入并发送机器人命令
+ * 速度指令受死人开关约束：松开、失焦、外设断开或通信中断时立即发布零速度
+ * 摇杆速度经速度整形（死区、响应曲线、档位、加速度限制）后下发
+ * 摇杆按当前机器人的驾驶模式（差速/全向/坦克，机体或相机坐标）混合为前进、横移和转向
+ * 按钮、按键等其他输入全部由输入映射器按映射方案（JSON）处理，包括ROS命令和3D动作同步
+ * 多手柄时按角色分工：只有底盘驾驶设备（和键盘）驾驶、握持死人开关，速度踏板调节整体速度，其他设备只触发映射规则
  */
 
 import { useEffect, useRef, useState } from 'react';
 import { PeripheralManager, createDefaultPeripheralManager } from '../../utils/peripherals/PeripheralManager';
+import { GamepadDevice } from '../../utils/peripherals/GamepadDevice';
 import { InputMapper, createDefaultInputMapping } from '../../utils/peripherals/InputMapper';
-import { RobotCommand } from '../../types/peripheral.types';
+import { resolveMappingProfile } from '../../utils/peripherals/MappingProfile';
+import { DeadmanSwitch, DeadmanReleaseReason, DEADMAN_RELEASE_LABELS, getDeadmanConfig } from '../../utils/peripherals/DeadmanSwitch';
+import {
+  VelocityShaper,
+  VelocityMode,
+  VelocityProfile,
+  VELOCITY_MODE_LABELS,
+  ShapedVelocity,
+  getCurrentRobotId,
+  loadVelocityProfile,
+} from '../../utils/peripherals/VelocityShaper';
+import {
+  DriveAxes,
+  DRIVE_MODE_LABELS,
+  STEERING_FRAME_LABELS,
+  getCameraYawConfig,
+  mixDrive,
+  updateDriveAxes,
+} from '../../utils/peripherals/DriveModes';
+import { VelocityProfileEditor } from './VelocityProfileEditor';
+import { InputMappingEditor } from './InputMappingEditor';
+import { GamepadCalibrationWizard } from './GamepadCalibrationWizard';
+import { GamepadRolePanel } from './GamepadRolePanel';
+import {
+  GamepadRole,
+  getGamepadRoleConfig,
+  onGamepadRoleChange,
+  resolveGamepadRoles,
+  speedScaleFromAxis,
+} from '../../utils/peripherals/GamepadRoles';
+import {
+  InputEvent,
+  InputMappingProfile,
+  PeripheralStatus,
+  PeripheralType,
+  RobotCommand,
+  RobotCommandType,
+} from '../../types/peripheral.types';
+import { Header, JointState, Robot3DMove, Twist } from '../../types/ros.types';
+import { communicationService } from '../../services';
 import { useWebSocket } from '../../hooks/useWebSocket';
 import { useRobot3DStore } from '../../stores/robot3DStore';
+import { useLinkQualityStore } from '../../stores/linkQualityStore';
+import { useConnectionStore } from '../../stores/connectionStore';
+import { useEmergencyStopStore } from '../../stores/emergencyStopStore';
+import emergencyStopService from '../../services/emergencyStop';
+import commandArbiter, { getCommandArbiterConfig } from '../../services/commandArbiter';
+import { limitTwist } from '../../services/speedLimiter';
 
 interface PeripheralControllerProps {
   enabled?: boolean;
@@ -17,28 +68,49 @@ interface PeripheralControllerProps {
 }
 
 export function PeripheralController({ enabled = true, onCommandSent, onManagerReady }: PeripheralControllerProps) {
-  const { publish } = useWebSocket();
+  const { publishMessage } = useWebSocket();
   const { setCommand, setMoveVelocity } = useRobot3DStore();
   const managerRef = useRef<PeripheralManager | null>(null);
   const mapperRef = useRef<InputMapper | null>(null);
   const [isActive, setIsActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const retryTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const deadmanRef = useRef<DeadmanSwitch | null>(null);
+  const [deadmanEngaged, setDeadmanEngaged] = useState(false);
+  const [lastRelease, setLastRelease] = useState<DeadmanReleaseReason | null>(null);
+  const shaperRef = useRef<VelocityShaper | null>(null);
+  const [velocityMode, setVelocityMode] = useState<VelocityMode>('normal');
+  const [showProfileEditor, setShowProfileEditor] = useState(false);
+  // 接管外设输入的设置界面（按键映射、手柄校准、手柄角色，同时只打开一个）
+  const [capturePanel, setCapturePanel] = useState<'mapping' | 'calibration' | 'roles' | null>(null);
+  // 已发现的手柄及已连接手柄的角色
+  const [gamepads, setGamepads] = useState<GamepadDevice[]>([]);
+  const [roles, setRoles] = useState<Record<string, GamepadRole>>({});
+  const rolesRef = useRef<Record<string, GamepadRole>>({});
+  // 速度踏板给出的速度比例（连接了速度踏板时生效，踏板松开为0）
+  const speedScaleRef = useRef<number>(0);
+  // 设置界面打开期间接管外设输入（绑定、测试、校准、辨认设备）
+  const inputCaptureRef = useRef<((event: InputEvent) => void) | null>(null);
+  const [driveProfile, setDriveProfile] = useState<Pick<VelocityProfile, 'driveMode' | 'steeringFrame'>>(
+    () => loadVelocityProfile()
+  );
   
   // 使用ref存储回调，避免依赖变化
-  const publishRef = useRef(publish);
+  const publishMessageRef = useRef(publishMessage);
   const onCommandSentRef = useRef(onCommandSent);
   const setCommandRef = useRef(setCommand);
   const setMoveVelocityRef = useRef(setMoveVelocity);
   
   // 更新refs
-  publishRef.current = publish;
+  publishMessageRef.current = publishMessage;
   onCommandSentRef.current = onCommandSent;
   setCommandRef.current = setCommand;
   setMoveVelocityRef.current = setMoveVelocity;
   
-  // 维护当前轴状态
-  const axisStateRef = useRef<Record<number, number>>({});
+  // 维护当前摇杆状态
+  const axisStateRef = useRef<DriveAxes>({ leftX: 0, leftY: 0, rightX: 0, rightY: 0 });
+  // 相机相对机体的偏航角（相机坐标系驾驶时使用）
+  const cameraYawRef = useRef<number>(0);
   const lastSendTimeRef = useRef<number>(0);
   const sendIntervalMs = 100; // 10Hz发送频率
   
@@ -47,10 +119,132 @@ export function PeripheralController({ enabled = true, onCommandSent, onManagerR
   
   // 跟踪是否正在移动（用于发送停止命令）
   const isMovingRef = useRef<boolean>(false);
-  
-  // 防抖：记录最后一次按钮触发的时间
-  const lastButtonTimeRef = useRef<Record<number, number>>({});
-  const buttonDebounceMs = 300; // 300ms 防抖时间
+  // 最近一次整形输出（未变化时不重复同步3D模型）
+  const lastOutputRef = useRef<ShapedVelocity>({ linearX: 0, linearY: 0, angularZ: 0 });
+  // 最近一次被仲裁接受的速度指令来源（驾驶心跳时为其续约控制权）
+  const velocitySourceRef = useRef<string | null>(null);
+
+  // 根据摇杆状态、档位和当前限速计算目标速度（由速度整形逐步逼近）
+  // 限速随链路时延/丢包变化，满推摇杆对应当前档位在限速中的比例；未按住死人开关或急停锁定时为零
+  const computeVelocity = (): ShapedVelocity => {
+    const shaper = shaperRef.current;
+    if (!shaper || useEmergencyStopStore.getState().status.latched || (deadmanRef.current && !deadmanRef.current.isEngaged())) {
+      return { linearX: 0, linearY: 0, angularZ: 0 };
+    }
+
+    const { speedLimit } = useLinkQualityStore.getState();
+    // 街机摇杆通常只有2个轴（X和Y），索引可能是0和1，只能使用差速模式
+    const { forward, strafe, turn } = mixDrive(axisStateRef.current, shaper.getProfile(), cameraYawRef.current);
+    const hasSpeedPedal = Object.values(rolesRef.current).includes('speed');
+    const scale = shaper.getModeScale() * (hasSpeedPedal ? speedScaleRef.current : 1);
+
+    return {
+      linearX: forward * scale * speedLimit.maxLinear,
+      linearY: strafe * scale * speedLimit.maxLinear,
+      angularZ: turn * scale * speedLimit.maxAngular,
+    };
+  };
+
+  const updateTarget = () => {
+    shaperRef.current?.setTarget(computeVelocity());
+  };
+
+  // 切换整形参数（驾驶模式变化时同步状态显示和相机偏航订阅）
+  const applyProfile = (profile: VelocityProfile) => {
+    shaperRef.current?.setProfile(profile);
+    setDriveProfile({ driveMode: profile.driveMode, steeringFrame: profile.steeringFrame });
+  };
+
+  // 速度指令经指令仲裁发送（与其他来源互斥并限频）
+  // @returns 是否被接受（其他来源正在控制时被拒绝）
+  const submitVelocity = (velocity: ShapedVelocity, source: string = PeripheralType.GAMEPAD, priority: number = 5): boolean => {
+    const command: RobotCommand = {
+      type: RobotCommandType.VELOCITY,
+      topic: '/cmd_vel',
+      messageType: 'geometry_msgs/Twist',
+      payload: {
+        linear: { x: velocity.linearX, y: velocity.linearY, z: 0 },
+        angular: { x: 0, y: 0, z: velocity.angularZ },
+      } as Twist,
+      priority,
+      source,
+    };
+
+    if (commandArbiter.submit(command) === 'rejected') {
+      return false;
+    }
+    velocitySourceRef.current = source;
+    onCommandSentRef.current?.(command);
+    return true;
+  };
+
+  // 整形后的速度：同步3D模型并下发（整形周期调用，速度回到零时最后调用一次）
+  const applyVelocity = (velocity: ShapedVelocity) => {
+    const now = Date.now();
+    const { linearX, linearY, angularZ } = velocity;
+    const moving = linearX !== 0 || linearY !== 0 || angularZ !== 0;
+    const last = lastOutputRef.current;
+    lastOutputRef.current = velocity;
+
+    // 3D模型的横移以向右为正，与Twist相反
+    if (last.linearX !== linearX || last.linearY !== linearY || last.angularZ !== angularZ) {
+      setMoveVelocityRef.current({ linearX, linearY: -linearY, angularZ });
+      // 广播到其他屏幕，确保Screen3同步
+      const moveCommand: Robot3DMove = {
+        command: 'move',
+        linearX,
+        linearY: -linearY,
+        angularZ,
+        timestamp: now,
+      };
+      publishMessageRef.current('robot_3d_move', 'cockpit_msgs/Robot3DMove', moveCommand);
+    }
+
+    // 节流更新动画（避免过于频繁）
+    if (now - lastSendTimeRef.current >= sendIntervalMs) {
+      lastSendTimeRef.current = now;
+
+      // 根据线速度和角速度决定动画（与单屏模式一致）
+      const totalSpeed = Math.sqrt(linearX * linearX + linearY * linearY + angularZ * angularZ);
+      const targetAnimation = totalSpeed > 0.3 ? 'Running' : totalSpeed > 0.05 ? 'Walking' : 'Idle';
+
+      // 只在动画切换时才更新状态（避免频繁重渲染）
+      if (currentAnimationRef.current !== targetAnimation) {
+        currentAnimationRef.current = targetAnimation;
+        // 添加时间戳确保状态更新
+        setCommandRef.current(targetAnimation + '_' + now);
+        // 广播到其他屏幕（用于多屏同步）
+        publishMessageRef.current('robot_3d_command', 'cockpit_msgs/Robot3DCommand', { command: targetAnimation, timestamp: now });
+      }
+
+      // 同时通过setCommand触发更新（作为备用）
+      if (totalSpeed > 0.01) {
+        setCommandRef.current('move_' + now);
+      }
+    }
+
+    // 发送命令到ROS（移动中每个整形周期发送，回到零时发送停止命令）
+    if ((moving || isMovingRef.current) && submitVelocity(velocity)) {
+      isMovingRef.current = moving;
+      deadmanRef.current?.setDriving(moving);
+    }
+  };
+
+  // 立即停车：发布零速度并同步3D模型（安全停车优先级，不经过速度整形，不受互斥和发送节流限制）
+  const stopMotion = () => {
+    shaperRef.current?.reset();
+    lastOutputRef.current = { linearX: 0, linearY: 0, angularZ: 0 };
+    setMoveVelocityRef.current({ linearX: 0, linearY: 0, angularZ: 0 });
+    publishMessageRef.current('robot_3d_move', 'cockpit_msgs/Robot3DMove', {
+      command: 'move',
+      linearX: 0,
+      linearY: 0,
+      angularZ: 0,
+      timestamp: Date.now(),
+    });
+    submitVelocity({ linearX: 0, linearY: 0, angularZ: 0 }, 'safety_stop', getCommandArbiterConfig().overridePriority);
+    isMovingRef.current = false;
+  };
 
   useEffect(() => {
     if (!enabled) {
@@ -64,243 +258,165 @@ export function PeripheralController({ enabled = true, onCommandSent, onManagerR
     // 通知外部manager已准备好
     onManagerReady?.(manager);
 
-    // 创建输入映射器（用于按钮等非轴事件）
+    // 手柄列表和角色：设备发现、连接状态变化或重新分配角色时刷新
+    const refreshGamepads = () => {
+      const devices = manager.getDevicesByType(PeripheralType.GAMEPAD)
+        .filter((device): device is GamepadDevice => device instanceof GamepadDevice);
+      const connected = devices.filter(device => device.status === PeripheralStatus.CONNECTED).map(device => device.id);
+      rolesRef.current = resolveGamepadRoles(connected);
+      // 速度踏板断开后重连时从松开状态开始，等待新的轴值
+      if (!Object.values(rolesRef.current).includes('speed')) {
+        speedScaleRef.current = 0;
+      }
+      setGamepads(devices);
+      setRoles(rolesRef.current);
+    };
+    manager.on('deviceAdded', refreshGamepads);
+    manager.on('deviceStateChange', refreshGamepads);
+    const unsubscribeRoles = onGamepadRoleChange(() => {
+      refreshGamepads();
+      // 驾驶设备可能已变化，重新按当前摇杆计算目标
+      updateTarget();
+    });
+
+    // 创建死人开关
+    const deadman = new DeadmanSwitch();
+    deadmanRef.current = deadman;
+    deadman.attachWindow();
+
+    // 创建速度整形（参数按当前机器人读取）
+    const shaper = new VelocityShaper();
+    shaperRef.current = shaper;
+    applyProfile(shaper.getProfile());
+    setVelocityMode(shaper.getMode());
+    shaper.setOutputCallback(applyVelocity);
+    shaper.onModeChange(mode => {
+      setVelocityMode(mode);
+      updateTarget();
+    });
+
+    // 驾驶期间发送心跳（未连接时不发，避免堆积在发布队列中）
+    deadman.setHeartbeatCallback(() => {
+      // 摇杆保持不动时没有新指令，心跳同时为控制来源续约
+      if (velocitySourceRef.current) {
+        commandArbiter.renew(velocitySourceRef.current);
+      }
+      if (!useConnectionStore.getState().connected) return;
+      const now = Date.now();
+      const heartbeat: Header = {
+        stamp: { sec: Math.floor(now / 1000), nanosec: (now % 1000) * 1e6 },
+        frame_id: 'teleop',
+      };
+      publishMessageRef.current(getDeadmanConfig().heartbeatTopic, 'std_msgs/Header', heartbeat);
+    });
+
+    deadman.on('engage', () => {
+      setDeadmanEngaged(true);
+      setLastRelease(null);
+
+      // 每次开始驾驶时按当前机器人重新读取整形参数（可能已切换机器人）
+      applyProfile(loadVelocityProfile());
+      // 按下死人开关时摇杆可能已经推着，按当前摇杆状态开始加速
+      updateTarget();
+    });
+
+    deadman.on('release', (reason: DeadmanReleaseReason) => {
+      setDeadmanEngaged(deadman.isEngaged());
+      setLastRelease(reason);
+      stopMotion();
+    });
+
+    // 创建输入映射器（用于按钮、按键等非驾驶输入），先用内置方案，再按当前机器人读取方案
     const mapper = createDefaultInputMapping();
     mapperRef.current = mapper;
+    let disposed = false;
+    resolveMappingProfile(getCurrentRobotId()).then(profile => {
+      if (!disposed) {
+        mapper.loadProfile(profile);
+      }
+    });
+
+    // 映射方案中的3D动作：本地播放并广播到其他屏幕（多屏同步，使用同一个时间戳）
+    mapper.setAnimationCallback((animation: string) => {
+      const timestamp = Date.now();
+      setCommandRef.current(animation + '_' + timestamp);
+      publishMessageRef.current('robot_3d_command', 'cockpit_msgs/Robot3DCommand', { command: animation, timestamp });
+    });
 
     // 设置命令回调
     mapper.setCommandCallback((command: RobotCommand) => {
-      // 发送到ROS
-      try {
-        publishRef.current(command.topic, command.payload, command.messageType);
-        onCommandSentRef.current?.(command);
-      } catch (err) {
-        console.error('[PeripheralController] 命令发送失败:', err);
+      // 自定义映射中的急停走急停通道
+      if (command.type === RobotCommandType.EMERGENCY_STOP) {
+        emergencyStopService.trigger('外设映射');
+        return;
       }
+
+      // 速度指令按当前链路限速裁剪，未按住死人开关时只允许停止指令
+      const isVelocity = command.topic === '/cmd_vel';
+      let hasInput = false;
+      if (isVelocity) {
+        command = { ...command, payload: limitTwist(command.payload, useLinkQualityStore.getState().speedLimit) };
+        const twist = command.payload as Twist;
+        hasInput = Math.abs(twist.linear.x) > 0.01 || Math.abs(twist.linear.y) > 0.01 || Math.abs(twist.angular.z) > 0.01;
+        if (hasInput && !deadman.isEngaged()) {
+          return;
+        }
+      }
+
+      // 经指令仲裁发送到ROS（其他来源正在控制时被拒绝）
+      if (commandArbiter.submit(command) === 'rejected') {
+        return;
+      }
+      if (isVelocity) {
+        velocitySourceRef.current = command.source ?? null;
+        deadman.setDriving(hasInput);
+      }
+      onCommandSentRef.current?.(command);
     });
 
     // 监听输入事件
-    manager.on('input', (event: any) => {
-      // 处理轴输入（摇杆）
-      if (event.type === 'axis_change' && event.axis) {
-        // 更新轴状态
-        axisStateRef.current[event.axis.index] = event.axis.value;
-        
-        // 调试日志：显示所有轴的状态（每100ms打印一次）
-        const now = Date.now();
-        
-        // 立即处理速度更新（不节流），确保松开时立即停止
-        // 合并所有轴的值发送命令（支持多向运动）
-        // 街机摇杆通常只有2个轴（X和Y），索引可能是0和1
-        const leftStickX = axisStateRef.current[0] || 0;
-        const leftStickY = axisStateRef.current[1] || 0;
-        
-        // 计算速度（减小死区，适配街机摇杆）
-        const deadzone = 0.05; // 从0.15减小到0.05，更敏感
-        
-        // 前后速度：前推为正，后拉为负
-        // 注意：Gamepad API中，Y轴向下为正，所以需要取反
-        // 左摇杆Y轴（axisIndex 1）→ 前后移动
-        const linearX = Math.abs(leftStickY) > deadzone ? -leftStickY * 0.5 : 0; // 与InputMapper保持一致：0.5速度系数
-        
-        // 转向速度：左摇杆X轴（axisIndex 0）→ 转向
-        // 与单屏模式保持一致：X轴控制转向，不是左右位移
-        const angularZ = Math.abs(leftStickX) > deadzone ? leftStickX * 1.0 : 0; // 与InputMapper保持一致：1.0转向速度
-        
-        // 判断是否有实际输入（与单屏模式一致）
-        // 注意：不使用linearY（左右位移），只使用linearX（前后）和angularZ（转向）
-        const hasInput = Math.abs(linearX) > 0.01 || Math.abs(angularZ) > 0.01;
-        
-        // 立即更新Zustand store（不节流，确保松开时立即停止）
-        // 注意：只使用linearX（前后）和angularZ（转向），不使用linearY（左右位移）
-        setMoveVelocityRef.current({
-          linearX: linearX,
-          linearY: 0, // 不使用左右位移，只使用前后+转向
-          angularZ: angularZ
-        });
-        
-        // 立即发送移动控制命令到WebSocket（不节流，确保松开时立即停止）
-        // 这是关键：无论是否有输入，都要立即发送，确保Screen3能立即收到
-        const moveCommand = {
-          command: 'move',
-          linearX: linearX,
-          linearY: 0, // 不使用左右位移，只使用前后+转向
-          angularZ: angularZ,
-          timestamp: Date.now()
-        };
-        publishRef.current('robot_3d_move', moveCommand, 'std_msgs/String');
-        
-        // 节流发送其他命令（避免过于频繁）
-        if (now - lastSendTimeRef.current >= sendIntervalMs) {
-          lastSendTimeRef.current = now;
-          
-          // 根据线速度和角速度决定动画（与单屏模式一致）
-          const totalSpeed = Math.sqrt(linearX * linearX + angularZ * angularZ);
-          
-          let targetAnimation = 'Idle';
-          
-          // 判断运动状态
-          if (totalSpeed > 0.3) {
-            targetAnimation = 'Running'; // 快速移动
-          } else if (totalSpeed > 0.05) {
-            targetAnimation = 'Walking'; // 慢速移动/转向
-          } else {
-            targetAnimation = 'Idle'; // 静止
-          }
-          
-          // 只在动画切换时才更新状态（避免频繁重渲染）
-          if (currentAnimationRef.current !== targetAnimation) {
-            currentAnimationRef.current = targetAnimation;
-            // 添加时间戳确保状态更新
-            setCommandRef.current(targetAnimation + '_' + Date.now());
-            
-            // 广播到其他屏幕（用于多屏同步）
-            publishRef.current('robot_3d_command', { command: targetAnimation, timestamp: Date.now() }, 'std_msgs/String');
-          }
-          
-          // 同时通过setCommand触发更新（作为备用）
-          if (hasInput) {
-            setCommandRef.current('move_' + moveCommand.timestamp);
-          }
-          
-          // 发送命令到ROS（有输入时发送速度，无输入但之前在移动时发送停止命令）
-          // 注意：只使用linearX（前后）和angularZ（转向），不使用linearY（左右位移）
-          // 前进后退通过足部动画（Walking/Running）表示，不是位移
-          if (hasInput || isMovingRef.current) {
-            const command: RobotCommand = {
-              type: 'velocity' as any,
-              topic: '/cmd_vel',
-              messageType: 'geometry_msgs/Twist',
-              payload: {
-                linear: { x: linearX, y: 0, z: 0 }, // 不使用linearY，避免位移
-                angular: { x: 0, y: 0, z: angularZ },
-              },
-              priority: 5,
-            };
-            
-            try {
-              publishRef.current(command.topic, command.payload, command.messageType);
-              onCommandSentRef.current?.(command);
-              
-              // 更新移动状态
-              isMovingRef.current = hasInput;
-            } catch (err) {
-              console.error('[PeripheralController] 命令发送失败:', err);
-            }
-          }
+    manager.on('input', (event: InputEvent) => {
+      // 标注手柄角色（映射规则可按角色限定）
+      const role = rolesRef.current[event.deviceId];
+      if (role) {
+        event = { ...event, role };
+      }
+
+      // 映射编辑界面打开时只交给编辑界面
+      if (inputCaptureRef.current) {
+        inputCaptureRef.current(event);
+        return;
+      }
+
+      // 速度踏板：指定轴调节整体速度比例
+      if (role === 'speed' && event.axis) {
+        if (event.axis.index === getGamepadRoleConfig().speedAxis) {
+          const device = manager.getDevice(event.deviceId) as GamepadDevice | undefined;
+          speedScaleRef.current = speedScaleFromAxis(event.axis.value, !!device?.isAxisCalibrated(event.axis.index));
+          updateTarget();
         }
-      } else if (event.type === 'button_down' && event.button) {
-        const buttonIndex = event.button.index;
-        const now = Date.now();
-        
-        // 防抖检查：如果距离上次触发时间太短，忽略
-        if (lastButtonTimeRef.current[buttonIndex] && 
-            now - lastButtonTimeRef.current[buttonIndex] < buttonDebounceMs) {
+        return;
+      }
+
+      // 只有底盘驾驶设备和键盘参与驾驶
+      if (!role || role === 'drive') {
+        // 死人开关按钮/按键只用于握持，不再触发其他动作
+        if (deadman.handleInput(event)) {
           return;
         }
-        lastButtonTimeRef.current[buttonIndex] = now;
-        
-        let command3D: string | null = null;
-        
-        // 为所有按钮统一生成时间戳，避免重复触发
-        const timestamp = Date.now();
-        
-        if (buttonIndex === 0) {
-          command3D = 'Jump';  // 按钮A - 抬左腿
-          setCommandRef.current(command3D + '_' + timestamp);
-        } else if (buttonIndex === 1) {
-          command3D = 'WalkJump';  // 按钮B - 抬右腿
-          setCommandRef.current(command3D + '_' + timestamp);
-        } else if (buttonIndex === 2) {
-          command3D = 'RaiseRightArm';  // 按钮C - 右臂平举
-          setCommandRef.current(command3D + '_' + timestamp);
-        } else if (buttonIndex === 3) {
-          command3D = 'ThumbsUp';  // 按钮D - 点赞
-          setCommandRef.current(command3D + '_' + timestamp);
-        } else if (buttonIndex === 4) {
-          // LB按钮 - 左转（与web按钮一致）
-          command3D = 'left';
-          const timestamp = Date.now();  // 统一使用同一个时间戳
-          const turnLeftCommand: RobotCommand = {
-            type: 'action' as any,
-            topic: '/robot/action',
-            messageType: 'std_msgs/String',
-            payload: { data: 'left' },
-            priority: 8,
-          };
-          publishRef.current(turnLeftCommand.topic, turnLeftCommand.payload, turnLeftCommand.messageType);
-          onCommandSentRef.current?.(turnLeftCommand);
-          setCommandRef.current(command3D + '_' + timestamp);
-          // 广播到其他屏幕（使用同一个时间戳）
-          publishRef.current('robot_3d_command', { command: command3D, timestamp }, 'std_msgs/String');
-          // 跳过后续的广播逻辑
-          command3D = null;
-        } else if (buttonIndex === 5) {
-          // RB按钮 - 右转（与web按钮一致）
-          command3D = 'right';
-          const timestamp = Date.now();  // 统一使用同一个时间戳
-          const turnRightCommand: RobotCommand = {
-            type: 'action' as any,
-            topic: '/robot/action',
-            messageType: 'std_msgs/String',
-            payload: { data: 'right' },
-            priority: 8,
-          };
-          publishRef.current(turnRightCommand.topic, turnRightCommand.payload, turnRightCommand.messageType);
-          onCommandSentRef.current?.(turnRightCommand);
-          setCommandRef.current(command3D + '_' + timestamp);
-          // 广播到其他屏幕（使用同一个时间戳）
-          publishRef.current('robot_3d_command', { command: command3D, timestamp }, 'std_msgs/String');
-          // 跳过后续的广播逻辑
-          command3D = null;
-        } else if (buttonIndex === 6) {
-          // 按钮6 - 摇头动作
-          command3D = 'TurnHead';
-          setCommandRef.current(command3D + '_' + timestamp);
-        }
-        
-        // 广播3D命令到其他屏幕（ABCD按钮，使用同一个时间戳）
-        if (command3D) {
-          publishRef.current('robot_3d_command', { command: command3D, timestamp }, 'std_msgs/String');
-        }
-        
-        // 同时发送到ROS（对于ABCD按钮）
-        if (buttonIndex <= 3) {
-          mapper.processInput(event);
+        // 档位切换按钮/按键
+        if (shaper.handleInput(event)) {
+          return;
         }
-      } else if (event.type === 'button_up' && event.button) {
-        const buttonIndex = event.button.index;
-        
-        // 处理按钮松开事件 - 重置对应的关节
-        if (buttonIndex >= 0 && buttonIndex <= 6) {
-          const timestamp = Date.now();
-          let releaseCommand: string | null = null;
-          
-          if (buttonIndex === 0) {
-            releaseCommand = 'Jump_release';  // 按钮A松开 - 重置左腿
-          } else if (buttonIndex === 1) {
-            releaseCommand = 'WalkJump_release';  // 按钮B松开 - 重置右腿
-          } else if (buttonIndex === 2) {
-            releaseCommand = 'RaiseRightArm_release';  // 按钮C松开 - 重置右臂
-          } else if (buttonIndex === 3) {
-            releaseCommand = 'ThumbsUp_release';  // 按钮D松开 - 重置左手
-          } else if (buttonIndex === 6) {
-            releaseCommand = 'TurnHead_release';  // 按钮6松开 - 重置头部（腰部）
-          }
-          
-          if (releaseCommand) {
-            setCommandRef.current(releaseCommand + '_' + timestamp);
-            // 广播到其他屏幕
-            publishRef.current('robot_3d_command', { command: releaseCommand, timestamp }, 'std_msgs/String');
-          }
+        // 驾驶摇杆：更新摇杆状态，由速度整形按周期逼近新的目标速度
+        if (updateDriveAxes(axisStateRef.current, event, mapper.getProfile()?.driveAxes)) {
+          updateTarget();
+          return;
         }
-        
-        // 处理映射器中定义的其他按钮松开事件
-        mapper.processInput(event);
-      } else {
-        // 其他事件交给映射器处理
-        mapper.processInput(event);
       }
+
+      // 按钮、按键和其他轴按映射方案处理
+      mapper.processInput(event);
     });
 
     // 监听管理器启动
@@ -315,6 +431,12 @@ export function PeripheralController({ enabled = true, onCommandSent, onManagerR
       // 外设控制系统已停止
     });
 
+    // 外设断开时清空摇杆状态并立即停车
+    manager.on('deviceLost', () => {
+      axisStateRef.current = { leftX: 0, leftY: 0, rightX: 0, rightY: 0 };
+      deadman.release('peripheral_disconnected');
+    });
+
     // 监听设备错误
     manager.on('deviceError', ({ deviceId, error }: any) => {
       console.error(`[PeripheralController] 设备错误 (${deviceId}):`, error);
@@ -356,24 +478,209 @@ export function PeripheralController({ enabled = true, onCommandSent, onManagerR
     // 清理
     return () => {
       // 清理资源
+      disposed = true;
+      unsubscribeRoles();
       // 清除重试定时器
       if (retryTimerRef.current) {
         clearTimeout(retryTimerRef.current);
         retryTimerRef.current = null;
       }
+      deadman.cleanup();
+      deadmanRef.current = null;
+      shaper.cleanup();
+      shaperRef.current = null;
+      commandArbiter.release(PeripheralType.GAMEPAD);
+      commandArbiter.release(PeripheralType.KEYBOARD);
       manager.cleanup();
     };
   }, [enabled]); // 只依赖enabled，其他使用ref
 
+  // 链路劣化时立即按新的限速重新发送速度（摇杆保持不动时不会产生新的轴事件）
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    return useLinkQualityStore.subscribe((state, prevState) => {
+      if (state.speedLimit.scale >= prevState.speedLimit.scale || !isMovingRef.current) {
+        return;
+      }
+
+      // 目标按新限速更新，当前输出立即裁剪到新限速内（不经过减速过程）
+      updateTarget();
+      const scale = shaperRef.current?.getModeScale() ?? 1;
+      shaperRef.current?.clampOutput(state.speedLimit.maxLinear * scale, state.speedLimit.maxAngular * scale);
+
+      if (state.speedLimit.blocked) {
+        console.warn('[PeripheralController] 链路质量过差，已停止运动:', state.speedLimit.reason);
+      }
+    });
+  }, [enabled]);
+
+  // 相机坐标系驾驶时跟踪相机偏航关节
+  useEffect(() => {
+    if (!enabled || driveProfile.steeringFrame !== 'camera') {
+      return;
+    }
+
+    const { topic, joint } = getCameraYawConfig();
+    const subscription = communicationService.subscribeTopic(topic, 'sensor_msgs/JointState', (data: JointState) => {
+      const index = data.name?.indexOf(joint) ?? -1;
+      if (index < 0 || !Number.isFinite(data.position?.[index])) return;
+      cameraYawRef.current = data.position[index];
+      // 摇杆不动时相机转动也改变平移方向
+      if (isMovingRef.current) {
+        updateTarget();
+      }
+    }, { throttleMs: 100, latestOnly: true });
+
+    return () => {
+      subscription.unsubscribe();
+      cameraYawRef.current = 0;
+    };
+  }, [enabled, driveProfile.steeringFrame]);
+
+  // 通信中断时立即停车（恢复后需重新按下死人开关）
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    return useConnectionStore.subscribe((state, prevState) => {
+      if (prevState.connected && !state.connected) {
+        deadmanRef.current?.release('transport_lost');
+      }
+    });
+  }, [enabled]);
+
+  // 急停锁定时停止本地运动状态（急停通道已发布零速度）
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    return useEmergencyStopStore.subscribe((state, prevState) => {
+      if (state.status.latched && !prevState.status.latched) {
+        deadmanRef.current?.setDriving(false);
+        stopMotion();
+      }
+    });
+  }, [enabled]);
+
   if (!enabled) {
     return null;
   }
 
+  const deadmanRequired = getDeadmanConfig().enabled;
+
+  const handleProfileSaved = (profile: VelocityProfile) => {
+    applyProfile(profile);
+    updateTarget();
+  };
+
+  // 打开设置界面前停车：打开期间死人开关和摇杆输入都交给界面
+  const toggleCapturePanel = (panel: 'mapping' | 'calibration' | 'roles') => {
+    if (capturePanel !== panel) {
+      deadmanRef.current?.release('released');
+      axisStateRef.current = { leftX: 0, leftY: 0, rightX: 0, rightY: 0 };
+    }
+    setCapturePanel(capturePanel === panel ? null : panel);
+  };
+  const closeCapturePanel = () => setCapturePanel(null);
+  const setInputCapture = (handler: ((event: InputEvent) => void) | null) => {
+    inputCaptureRef.current = handler;
+  };
+
+  const connectedGamepads = gamepads.filter(device => device.status === PeripheralStatus.CONNECTED);
+  // 按键名称按底盘驾驶设备的布局显示
+  const driveGamepad = connectedGamepads.find(device => roles[device.id] === 'drive') ?? connectedGamepads[0];
+
+  const handleMappingApplied = (profile: InputMappingProfile) => {
+    mapperRef.current?.loadProfile(profile);
+  };
+
   return (
     <div className="peripheral-controller-status">
       {isActive ? (
         <div className="status-indicator active">
           🎮 外设控制已启用
+          {connectedGamepads.length > 1 && (
+            <span style={{ marginLeft: '4px', color: '#94a3b8' }}>· {connectedGamepads.length} 台手柄</span>
+          )}
+          {deadmanRequired && (
+            deadmanEngaged ? (
+              <span style={{ marginLeft: '8px', color: '#10b981' }}>● 驾驶中</span>
+            ) : (
+              <span style={{ marginLeft: '8px', color: '#f59e0b' }}>
+                按住 RT / Shift 驾驶{lastRelease && lastRelease !== 'released' ? `（已停车：${DEADMAN_RELEASE_LABELS[lastRelease]}）` : ''}
+              </span>
+            )
+          )}
+          <span
+            style={{ marginLeft: '8px', color: velocityMode === 'normal' ? '#94a3b8' : velocityMode === 'turbo' ? '#ef4444' : '#3b82f6' }}
+            title="L3 / Q 切换精细档，R3 / E 切换加速档"
+          >
+            {VELOCITY_MODE_LABELS[velocityMode]}档
+          </span>
+          <span style={{ marginLeft: '8px', color: '#94a3b8' }}>
+            {DRIVE_MODE_LABELS[driveProfile.driveMode]}
+            {driveProfile.steeringFrame === 'camera' ? ` · ${STEERING_FRAME_LABELS.camera}` : ''}
+          </span>
+          <button
+            onClick={() => setShowProfileEditor(!showProfileEditor)}
+            title="速度整形参数"
+            style={{ marginLeft: '6px', background: 'none', border: 'none', color: 'inherit', cursor: 'pointer' }}
+          >
+            ⚙
+          </button>
+          <button
+            onClick={() => toggleCapturePanel('mapping')}
+            title="按键映射"
+            style={{ marginLeft: '2px', background: 'none', border: 'none', color: 'inherit', cursor: 'pointer' }}
+          >
+            ⌨
+          </button>
+          <button
+            onClick={() => toggleCapturePanel('calibration')}
+            title="手柄校准"
+            style={{ marginLeft: '2px', background: 'none', border: 'none', color: 'inherit', cursor: 'pointer' }}
+          >
+            ◎
+          </button>
+          <button
+            onClick={() => toggleCapturePanel('roles')}
+            title="手柄角色"
+            style={{ marginLeft: '2px', background: 'none', border: 'none', color: 'inherit', cursor: 'pointer' }}
+          >
+            ⇄
+          </button>
+          {showProfileEditor && (
+            <VelocityProfileEditor onSaved={handleProfileSaved} onClose={() => setShowProfileEditor(false)} />
+          )}
+          {capturePanel === 'mapping' && (
+            <InputMappingEditor
+              profile={mapperRef.current?.getProfile() ?? null}
+              inputNames={driveGamepad?.getInputNames()}
+              setInputCapture={setInputCapture}
+              onApply={handleMappingApplied}
+              onClose={closeCapturePanel}
+            />
+          )}
+          {capturePanel === 'calibration' && (
+            <GamepadCalibrationWizard
+              devices={connectedGamepads}
+              setInputCapture={setInputCapture}
+              onClose={closeCapturePanel}
+            />
+          )}
+          {capturePanel === 'roles' && (
+            <GamepadRolePanel
+              devices={gamepads}
+              roles={roles}
+              setInputCapture={setInputCapture}
+              onClose={closeCapturePanel}
+            />
+          )}
         </div>
       ) : error ? (
         <div className="status-indicator connecting">
@@ -109,7 +109,9 @@ function DeviceStatus({ state, compact }: { state: PeripheralState; compact: boo
         <span className="device-name">
           {statusEmoji[state.status]} {state.deviceName}
         </span>
-        <span className="device-type">{state.deviceType}</span>
+        <span className="device-type" title={state.deviceInfo?.rawId}>
+          {state.deviceInfo ? `${state.deviceInfo.layout ?? state.deviceType} · ${state.deviceInfo.deviceKey}` : state.deviceType}
+        </span>
       </div>
 
       {/* 断线重连提示 */}
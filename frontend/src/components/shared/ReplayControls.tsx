@@ -0,0 +1,161 @@
+/**
+ * ReplayControls - 回放控制
+ * 打开录制文件（.rrec / .mcap）进入回放模式，提供播放/暂停、倍速、循环和时间轴拖动
+ * 回放期间所有屏幕的数据都来自录制文件，退出后恢复真实连接
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import communicationFactory from '../../services/communicationFactory';
+import replayService, { REPLAY_SPEEDS, ReplayState } from '../../services/replay';
+import { loadReplayFile } from '../../services/replaySource';
+import { useConnectionStore } from '../../stores/connectionStore';
+
+interface ReplayControlsProps {
+  compact?: boolean;
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({ compact = false }) => {
+  const replaying = useConnectionStore(state => state.mode === 'replay');
+  const [state, setState] = useState<ReplayState>(() => replayService.getState());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setState(replayService.getState());
+    return replayService.onState(setState);
+  }, []);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const recording = await loadReplayFile(file, file.name);
+      if (recording.messages.length === 0) {
+        setError(`${file.name} 中没有可回放的消息`);
+        return;
+      }
+      communicationFactory.startReplay(recording);
+      replayService.play();
+    } catch (loadError) {
+      console.error('[ReplayControls] Failed to load recording:', loadError);
+      setError(`加载失败：${loadError instanceof Error ? loadError.message : String(loadError)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: compact ? '3px 8px' : '4px 10px',
+    fontSize: compact ? '11px' : '12px',
+    border: '1px solid #4a4a4a',
+    borderRadius: '4px',
+    backgroundColor: '#3a3a3a',
+    color: 'white',
+    cursor: 'pointer',
+  };
+
+  const { playing, speed, loop, position, startTime, endTime, name, warnings } = state;
+  const active = replaying && state.loaded;
+
+  return (
+    <div
+      className="replay-controls"
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px',
+        marginTop: '8px',
+        padding: compact ? '4px 8px' : '6px 10px',
+        border: `1px solid ${active ? '#8b5cf6' : '#4a4a4a'}`,
+        borderRadius: '6px',
+        fontSize: compact ? '11px' : '12px',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: '8px' }}>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".rrec,.mcap"
+          style={{ display: 'none' }}
+          onChange={handleFileChange}
+        />
+        <button
+          style={buttonStyle}
+          onClick={() => fileInputRef.current?.click()}
+          disabled={loading}
+          title="打开会话录制（.rrec）或rosbag2/MCAP文件回放"
+        >
+          {loading ? '加载中...' : active ? '📂 更换录制' : '📂 回放录制'}
+        </button>
+        {active && (
+          <>
+            <button style={buttonStyle} onClick={() => (playing ? replayService.pause() : replayService.play())}>
+              {playing ? '⏸ 暂停' : '▶ 播放'}
+            </button>
+            <select
+              value={speed}
+              onChange={e => replayService.setSpeed(Number(e.target.value))}
+              style={{ ...buttonStyle, cursor: 'default' }}
+              title="回放速度"
+            >
+              {REPLAY_SPEEDS.map(value => (
+                <option key={value} value={value}>{value}x</option>
+              ))}
+            </select>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px', color: '#cbd5e1' }}>
+              <input type="checkbox" checked={loop} onChange={e => replayService.setLoop(e.target.checked)} />
+              循环
+            </label>
+            <button
+              style={{ ...buttonStyle, backgroundColor: '#8b5cf6', borderColor: '#8b5cf6' }}
+              onClick={() => communicationFactory.stopReplay()}
+              title="退出回放，恢复真实连接"
+            >
+              ⏏ 退出回放
+            </button>
+          </>
+        )}
+      </div>
+
+      {active && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <span style={{ color: '#cbd5e1', fontVariantNumeric: 'tabular-nums' }}>{formatDuration(position - startTime)}</span>
+          <input
+            type="range"
+            min={startTime}
+            max={endTime}
+            step="any"
+            value={position}
+            onChange={e => replayService.seek(Number(e.target.value))}
+            style={{ flex: 1, minWidth: '80px' }}
+            title={name ?? undefined}
+          />
+          <span style={{ color: '#94a3b8', fontVariantNumeric: 'tabular-nums' }}>{formatDuration(endTime - startTime)}</span>
+        </div>
+      )}
+
+      {active && !compact && name && (
+        <div style={{ color: '#94a3b8' }}>
+          {name} · {state.messageCount} 条消息 · {state.topics.length} 个话题
+        </div>
+      )}
+      {active && warnings.length > 0 && (
+        <div style={{ color: '#f59e0b' }} title={warnings.join('\n')}>
+          ⚠ {warnings.length} 项无法回放（{warnings[0]}{warnings.length > 1 ? ' …' : ''}）
+        </div>
+      )}
+      {error && <div style={{ color: '#ef4444' }}>{error}</div>}
+    </div>
+  );
+};
@@ -20,6 +20,9 @@ export interface Robot3DViewerProps {
   className?: string;
 }
 
+// 原地转向时按角速度踏步（rad/s → 等效步行速度）
+const TURN_STEP_FACTOR = 0.3;
+
 export const Robot3DViewer: React.FC<Robot3DViewerProps> = ({
   width,
   height,
@@ -52,6 +55,7 @@ export const Robot3DViewer: React.FC<Robot3DViewerProps> = ({
   // 新增：订阅关节状态话题
   const { getTopicData } = useWebSocket({
     topics: ['/joint_states'], // 订阅机器人关节状态
+    subscribeOptions: { throttleMs: 33, latestOnly: true }, // 约30Hz，与渲染帧率匹配
     autoConnect: false, // 不自动连接，避免影响现有逻辑
   });
   
@@ -362,9 +366,12 @@ export const Robot3DViewer: React.FC<Robot3DViewerProps> = ({
             setJointAngle('waist_yaw_joint', shakeAngle);
           }
           
-          // 计算移动速度大小（只考虑前后左右，不考虑转向）
-          const speed = Math.sqrt(velocity.linearX * velocity.linearX + velocity.linearY * velocity.linearY);
-          const hasMovement = speed > 0.01; // 只检查线速度，不检查角速度
+          // 计算移动速度大小（前后左右；原地转向时按转向速度踏步）
+          const speed = Math.max(
+            Math.sqrt(velocity.linearX * velocity.linearX + velocity.linearY * velocity.linearY),
+            Math.abs(velocity.angularZ) * TURN_STEP_FACTOR
+          );
+          const hasMovement = speed > 0.01;
           
           // 如果没有移动输入，立即停止并重置姿态（优先级最高，确保立即停止）
           if (!hasMovement) {
@@ -385,9 +392,14 @@ export const Robot3DViewer: React.FC<Robot3DViewerProps> = ({
               const rightKnee = jointMap.get('right_knee_joint');
               const rightAnklePitch = jointMap.get('right_ankle_pitch_joint');
               
+              const leftHipRoll = jointMap.get('left_hip_roll_joint');
+              const rightHipRoll = jointMap.get('right_hip_roll_joint');
+              
               // 强制重置所有腿部关节到站立姿态（角度为0）
               // 每帧都执行，确保立即停止
               if (leftHipPitch) URDFLoader.setJointAngle(leftHipPitch, 0);
+              if (leftHipRoll) URDFLoader.setJointAngle(leftHipRoll, 0);
+              if (rightHipRoll) URDFLoader.setJointAngle(rightHipRoll, 0);
               if (leftKnee) URDFLoader.setJointAngle(leftKnee, 0);
               if (leftAnklePitch) URDFLoader.setJointAngle(leftAnklePitch, 0);
               if (rightHipPitch) URDFLoader.setJointAngle(rightHipPitch, 0);
@@ -452,21 +464,19 @@ export const Robot3DViewer: React.FC<Robot3DViewerProps> = ({
               // 左右腿相位差180度，所以当左腿抬起时（legLift > 0），右腿应该放下（rightLegLift = 0）
               // 当左腿向前摆动时（legSwing > 0），右腿应该向后摆动（rightLegSwing < 0）
               
-              // 如果有左右移动，调整摆动方向
-              if (Math.abs(velocity.linearY) > 0.01) {
-                // 斜向移动时，摆动幅度减小
-                const sideFactor = velocity.linearY > 0 ? 0.7 : -0.7; // 右为正，左为负
-                // 左腿：前后摆动 + 抬腿 + 侧向调整
-                if (leftHipPitch) URDFLoader.setJointAngle(leftHipPitch, legSwing + legLift + sideFactor * 0.2);
-                // 右腿：前后摆动 + 抬腿 - 侧向调整（与左腿相反）
-                if (rightHipPitch) URDFLoader.setJointAngle(rightHipPitch, rightLegSwing + rightLegLift - sideFactor * 0.2);
-              } else {
-                // 纯前后移动
-                // 左腿：前后摆动 + 抬腿
-                if (leftHipPitch) URDFLoader.setJointAngle(leftHipPitch, legSwing + legLift);
-                // 右腿：前后摆动 + 抬腿（相位差180度，自动交替）
-                if (rightHipPitch) URDFLoader.setJointAngle(rightHipPitch, rightLegSwing + rightLegLift);
-              }
+              // 前后摆动幅度按前进占比缩小（横移、原地转向时只抬腿踏步）
+              const forwardRatio = Math.min(Math.abs(velocity.linearX) / speed, 1);
+              // 左腿：前后摆动 + 抬腿
+              if (leftHipPitch) URDFLoader.setJointAngle(leftHipPitch, legSwing * forwardRatio + legLift);
+              // 右腿：前后摆动 + 抬腿（相位差180度，自动交替）
+              if (rightHipPitch) URDFLoader.setJointAngle(rightHipPitch, rightLegSwing * forwardRatio + rightLegLift);
+              
+              // 横移时抬起的腿向移动方向侧摆（linearY右为正）
+              const sideRatio = Math.max(-1, Math.min(1, velocity.linearY / speed));
+              const leftHipRoll = jointMap.get('left_hip_roll_joint');
+              const rightHipRoll = jointMap.get('right_hip_roll_joint');
+              if (leftHipRoll) URDFLoader.setJointAngle(leftHipRoll, -sideRatio * legLift * 0.5);
+              if (rightHipRoll) URDFLoader.setJointAngle(rightHipRoll, -sideRatio * rightLegLift * 0.5);
               
               if (leftKnee) URDFLoader.setJointAngle(leftKnee, -kneeBend);
               if (leftAnklePitch) URDFLoader.setJointAngle(leftAnklePitch, -legLift * 0.5);
@@ -549,8 +559,8 @@ export const Robot3DViewer: React.FC<Robot3DViewerProps> = ({
     const velY = linearY || 0;
     const velZ = angularZ || 0;
     
-    // 计算是否有移动
-    const speed = Math.sqrt(velX * velX + velY * velY);
+    // 计算是否有移动（原地转向时踏步）
+    const speed = Math.max(Math.sqrt(velX * velX + velY * velY), Math.abs(velZ) * TURN_STEP_FACTOR);
     const hasMovement = speed > 0.01;
     
     // 更新速度ref（立即更新，确保动画循环能获取最新值）
@@ -575,8 +585,13 @@ export const Robot3DViewer: React.FC<Robot3DViewerProps> = ({
           const rightKnee = jointMap.get('right_knee_joint');
           const rightAnklePitch = jointMap.get('right_ankle_pitch_joint');
           
+          const leftHipRoll = jointMap.get('left_hip_roll_joint');
+          const rightHipRoll = jointMap.get('right_hip_roll_joint');
+          
           // 强制重置所有腿部关节到站立姿态（角度为0）
           if (leftHipPitch) URDFLoader.setJointAngle(leftHipPitch, 0);
+          if (leftHipRoll) URDFLoader.setJointAngle(leftHipRoll, 0);
+          if (rightHipRoll) URDFLoader.setJointAngle(rightHipRoll, 0);
           if (leftKnee) URDFLoader.setJointAngle(leftKnee, 0);
           if (leftAnklePitch) URDFLoader.setJointAngle(leftAnklePitch, 0);
           if (rightHipPitch) URDFLoader.setJointAngle(rightHipPitch, 0);
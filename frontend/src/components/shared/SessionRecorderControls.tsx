@@ -0,0 +1,85 @@
+/**
+ * SessionRecorderControls - 会话录制控制
+ * 开始/停止录制所有话题收发，停止后可下载.rrec或MCAP文件附加到问题报告
+ */
+
+import { useEffect, useState } from 'react';
+import sessionRecorder, { SessionRecorderStatus } from '../../services/sessionRecorder';
+
+interface SessionRecorderControlsProps {
+  compact?: boolean;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const SessionRecorderControls: React.FC<SessionRecorderControlsProps> = ({ compact = false }) => {
+  const [status, setStatus] = useState<SessionRecorderStatus>(() => sessionRecorder.getStatus());
+
+  useEffect(() => {
+    setStatus(sessionRecorder.getStatus());
+    return sessionRecorder.onStatus(setStatus);
+  }, []);
+
+  const { recording, startTime, endTime, messageCount, bytes, hasRecording, stoppedReason } = status;
+  const duration = startTime !== null ? (endTime ?? Date.now()) - startTime : 0;
+
+  const buttonStyle: React.CSSProperties = {
+    padding: compact ? '3px 8px' : '4px 10px',
+    fontSize: compact ? '11px' : '12px',
+    border: '1px solid #4a4a4a',
+    borderRadius: '4px',
+    backgroundColor: '#3a3a3a',
+    color: 'white',
+    cursor: 'pointer',
+  };
+
+  return (
+    <div
+      className="session-recorder-controls"
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        flexWrap: 'wrap',
+        gap: '8px',
+        marginTop: '8px',
+        padding: compact ? '4px 8px' : '6px 10px',
+        border: `1px solid ${recording ? '#ef4444' : '#4a4a4a'}`,
+        borderRadius: '6px',
+        fontSize: compact ? '11px' : '12px',
+      }}
+    >
+      <button
+        style={{ ...buttonStyle, backgroundColor: recording ? '#ef4444' : buttonStyle.backgroundColor }}
+        onClick={() => (recording ? sessionRecorder.stop() : sessionRecorder.start())}
+        title={recording ? '停止录制' : '录制所有话题收发，用于复现问题'}
+      >
+        {recording ? '⏹ 停止录制' : '⏺ 录制会话'}
+      </button>
+      {(recording || hasRecording) && (
+        <span style={{ color: '#cbd5e1' }}>
+          {formatDuration(duration)} · {messageCount} 条 · {formatBytes(bytes)}
+        </span>
+      )}
+      {hasRecording && (
+        <>
+          <button style={buttonStyle} onClick={() => sessionRecorder.download('rrec')} title="下载录制文件（.rrec）">
+            ⬇ 下载
+          </button>
+          <button style={buttonStyle} onClick={() => sessionRecorder.download('mcap')} title="导出为MCAP（可用Foxglove打开）">
+            ⬇ MCAP
+          </button>
+        </>
+      )}
+      {stoppedReason && <span style={{ color: '#f59e0b' }}>（{stoppedReason}）</span>}
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+/**
+ * SpeedLimitIndicator - 遥操作限速提示
+ * 显示根据链路质量计算的当前最大线速度/角速度，以及限速或禁止运动的原因
+ */
+
+import { useLinkQualityStore } from '../../stores/linkQualityStore';
+
+interface SpeedLimitIndicatorProps {
+  compact?: boolean;
+}
+
+export const SpeedLimitIndicator: React.FC<SpeedLimitIndicatorProps> = ({ compact = false }) => {
+  const speedLimit = useLinkQualityStore(state => state.speedLimit);
+  const { scale, maxLinear, maxAngular, blocked, reason } = speedLimit;
+
+  const color = blocked ? '#ef4444' : scale < 1 ? '#f59e0b' : '#10b981';
+  const title = blocked ? '⛔ 禁止运动' : scale < 1 ? `🐢 限速 ${Math.round(scale * 100)}%` : '✅ 全速';
+
+  return (
+    <div
+      className="speed-limit-indicator"
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        flexWrap: 'wrap',
+        gap: '8px',
+        marginTop: '8px',
+        padding: compact ? '4px 8px' : '6px 10px',
+        border: `1px solid ${color}`,
+        borderRadius: '6px',
+        fontSize: compact ? '11px' : '12px',
+      }}
+      title={reason ?? undefined}
+    >
+      <span style={{ color, fontWeight: 'bold' }}>{title}</span>
+      <span style={{ color: '#cbd5e1' }}>
+        线速度 ≤ {maxLinear.toFixed(2)} m/s · 角速度 ≤ {maxAngular.toFixed(2)} rad/s
+      </span>
+      {reason && !compact && <span style={{ color: '#94a3b8' }}>（{reason}）</span>}
+    </div>
+  );
+};
@@ -1,10 +1,13 @@
 /**
  * StatusMonitor - 状态监控共享组件
  * 显示机器人状态、传感器和日志
+ * 数据来自 /battery_state、/odom、/diagnostics（真实机器人和模拟机器人相同），尚未收到时显示 --
  */
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useWebSocket } from '../../hooks/useWebSocket';
+import { useConnectionStore } from '../../stores/connectionStore';
+import { BatteryState, DiagnosticArray, DiagnosticLevel, DiagnosticStatus, Odometry } from '../../types/ros.types';
 import './CompactStyles.css';
 
 interface StatusMonitorProps {
@@ -13,51 +16,135 @@ interface StatusMonitorProps {
   className?: string;
 }
 
+interface LogEntry {
+  time: string;
+  level: 'INFO' | 'WARN' | 'ERROR';
+  message: string;
+}
+
+// 保留的诊断日志条数
+const MAX_LOGS = 20;
+// 系统资源单独显示在性能卡片中，不作为传感器
+const SYSTEM_STATUS_ID = 'compute';
+
+const LEVEL_TEXT: Record<number, string> = {
+  [DiagnosticLevel.OK]: '正常',
+  [DiagnosticLevel.WARN]: '警告',
+  [DiagnosticLevel.ERROR]: '错误',
+  [DiagnosticLevel.STALE]: '过期',
+};
+
+const SENSOR_ICONS: Array<[RegExp, string]> = [
+  [/lidar|激光/i, '📡'],
+  [/camera|摄像头/i, '📹'],
+  [/imu/i, '🧭'],
+  [/ultrasonic|超声波/i, '📊'],
+  [/gps/i, '🛰️'],
+  [/motor|电机/i, '⚙️'],
+  [/battery|电池/i, '🔋'],
+  [/motion|运动/i, '🦿'],
+];
+
+const getSensorIcon = (status: DiagnosticStatus) =>
+  SENSOR_ICONS.find(([pattern]) => pattern.test(status.hardware_id) || pattern.test(status.name))?.[1] ?? '🔧';
+
+const getValue = (status: DiagnosticStatus | undefined, key: string) =>
+  status?.values.find(item => item.key === key)?.value;
+
+const formatNumber = (value: number | undefined, digits: number) =>
+  value === undefined || !Number.isFinite(value) ? '--' : value.toFixed(digits);
+
 export const StatusMonitor: React.FC<StatusMonitorProps> = ({
   screenId = 0,
   compact = false,
   className = ''
 }) => {
-  const { } = useWebSocket({
+  const { getTopicData } = useWebSocket({
     screenId,
-    topics: ['/robot/status', '/robot/telemetry', '/robot/diagnostics'],
+    topics: ['/battery_state', '/odom', '/diagnostics'],
+    subscribeOptions: { throttleMs: 500, latestOnly: true },
   });
+  const { robotId, robotName } = useConnectionStore();
 
-  // 模拟状态数据
-  const [robotStatus] = useState({
-    name: '巡检机器人 #002',
-    id: 'robot-002',
-    mode: '自动模式',
-    battery: 85,
-    location: { x: 12.5, y: 8.3, theta: 45 },
-    speed: 1.2,
-    temperature: 42,
-    uptime: '2天 15小时',
-  });
+  const battery = getTopicData('/battery_state') as BatteryState | undefined;
+  const odometry = getTopicData('/odom') as Odometry | undefined;
+  const diagnostics = getTopicData('/diagnostics') as DiagnosticArray | undefined;
 
-  const [systemMetrics] = useState({
-    cpu: 45,
-    memory: 68,
-    disk: 32,
-    network: 95,
-  });
+  const statuses = diagnostics?.status ?? [];
+  const motionStatus = statuses.find(status => status.hardware_id === 'motion_controller');
+  const systemStatus = statuses.find(status => status.hardware_id === SYSTEM_STATUS_ID);
+
+  const pose = odometry?.pose.pose;
+  const yaw = pose ? 2 * Math.atan2(pose.orientation.z, pose.orientation.w) : undefined;
+  const twist = odometry?.twist.twist;
+
+  const robotStatus = {
+    name: robotName ?? '--',
+    id: robotId ?? '--',
+    mode: getValue(motionStatus, 'mode') ?? '--',
+    battery: battery ? Math.round(battery.percentage * 100) : '--',
+    location: pose
+      ? `(${formatNumber(pose.position.x, 1)}, ${formatNumber(pose.position.y, 1)}) ${formatNumber(yaw !== undefined ? (yaw * 180) / Math.PI : undefined, 0)}°`
+      : '--',
+    speed: twist ? formatNumber(Math.hypot(twist.linear.x, twist.linear.y), 2) : '--',
+    temperature: battery ? formatNumber(battery.temperature, 0) : '--',
+  };
+
+  const metric = (key: string) => {
+    const value = Number(getValue(systemStatus, key));
+    return Number.isFinite(value) ? Math.max(0, Math.min(100, value)) : null;
+  };
+  const systemMetrics = {
+    cpu: metric('cpu'),
+    memory: metric('memory'),
+    disk: metric('disk'),
+    network: metric('network'),
+  };
+
+  const sensors = statuses
+    .filter(status => status.hardware_id !== SYSTEM_STATUS_ID)
+    .map(status => ({
+      name: status.name,
+      status: LEVEL_TEXT[status.level] ?? '未知',
+      value: status.message,
+      icon: getSensorIcon(status),
+    }));
+
+  // 诊断级别变化时记录日志（最新的在前）
+  const [recentLogs, setRecentLogs] = useState<LogEntry[]>([]);
+  const lastLevelsRef = useRef<Map<string, number>>(new Map());
 
-  const [sensors] = useState([
-    { name: 'LiDAR', status: '正常', value: '360° 扫描', icon: '📡' },
-    { name: '前置摄像头', status: '正常', value: '1920x1080 @30fps', icon: '📹' },
-    { name: 'IMU', status: '正常', value: '9轴数据', icon: '🧭' },
-    { name: '超声波', status: '正常', value: '8个传感器', icon: '📊' },
-    { name: 'GPS', status: '警告', value: '信号弱', icon: '🛰️' },
-    { name: '电机驱动', status: '正常', value: '4个轮毂电机', icon: '⚙️' },
-  ]);
-
-  const [recentLogs] = useState([
-    { time: '14:23:45', level: 'INFO', message: '导航任务开始执行' },
-    { time: '14:23:12', level: 'WARN', message: 'GPS信号弱，切换到视觉定位' },
-    { time: '14:22:58', level: 'INFO', message: '避障系统检测到障碍物' },
-    { time: '14:22:30', level: 'INFO', message: '路径规划完成' },
-    { time: '14:22:15', level: 'ERROR', message: '网络延迟较高' },
-  ]);
+  useEffect(() => {
+    if (!diagnostics) return;
+
+    const time = new Date().toLocaleTimeString();
+    const entries: LogEntry[] = [];
+    diagnostics.status.forEach(status => {
+      const previous = lastLevelsRef.current.get(status.name);
+      lastLevelsRef.current.set(status.name, status.level);
+      if (previous === status.level || (previous === undefined && status.level === DiagnosticLevel.OK)) return;
+
+      const level = status.level === DiagnosticLevel.OK ? 'INFO' : status.level === DiagnosticLevel.WARN ? 'WARN' : 'ERROR';
+      entries.push({ time, level, message: `${status.name}: ${status.message || LEVEL_TEXT[status.level]}` });
+    });
+
+    if (entries.length > 0) {
+      setRecentLogs(prev => [...entries.reverse(), ...prev].slice(0, MAX_LOGS));
+    }
+  }, [diagnostics]);
+
+  // 切换机器人后重新记录
+  useEffect(() => {
+    lastLevelsRef.current.clear();
+    setRecentLogs([]);
+  }, [robotId]);
+
+  const metricItems = [
+    { label: 'CPU', value: systemMetrics.cpu, color: '#3b82f6' },
+    { label: '内存', value: systemMetrics.memory, color: '#10b981' },
+    { label: '磁盘', value: systemMetrics.disk, color: '#f59e0b' },
+    { label: '网络', value: systemMetrics.network, color: '#8b5cf6' },
+  ];
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -127,6 +214,10 @@ export const StatusMonitor: React.FC<StatusMonitorProps> = ({
                   <span className="label">电池电量:</span>
                   <span className="value">{robotStatus.battery}%</span>
                 </div>
+                <div className="info-item">
+                  <span className="label">当前位置:</span>
+                  <span className="value">{robotStatus.location}</span>
+                </div>
                 <div className="info-item">
                   <span className="label">当前速度:</span>
                   <span className="value">{robotStatus.speed} m/s</span>
@@ -145,34 +236,15 @@ export const StatusMonitor: React.FC<StatusMonitorProps> = ({
           <div className="status-card">
             <h2>💻 系统性能</h2>
             <div className="metrics-grid">
-              <div className="metric-item">
-                <div className="metric-label">CPU</div>
-                <div className="metric-bar">
-                  <div className="metric-fill" style={{ width: `${systemMetrics.cpu}%`, backgroundColor: '#3b82f6' }}></div>
-                </div>
-                <div className="metric-value">{systemMetrics.cpu}%</div>
-              </div>
-              <div className="metric-item">
-                <div className="metric-label">内存</div>
-                <div className="metric-bar">
-                  <div className="metric-fill" style={{ width: `${systemMetrics.memory}%`, backgroundColor: '#10b981' }}></div>
-                </div>
-                <div className="metric-value">{systemMetrics.memory}%</div>
-              </div>
-              <div className="metric-item">
-                <div className="metric-label">磁盘</div>
-                <div className="metric-bar">
-                  <div className="metric-fill" style={{ width: `${systemMetrics.disk}%`, backgroundColor: '#f59e0b' }}></div>
-                </div>
-                <div className="metric-value">{systemMetrics.disk}%</div>
-              </div>
-              <div className="metric-item">
-                <div className="metric-label">网络</div>
-                <div className="metric-bar">
-                  <div className="metric-fill" style={{ width: `${systemMetrics.network}%`, backgroundColor: '#8b5cf6' }}></div>
+              {metricItems.map(item => (
+                <div key={item.label} className="metric-item">
+                  <div className="metric-label">{item.label}</div>
+                  <div className="metric-bar">
+                    <div className="metric-fill" style={{ width: `${item.value ?? 0}%`, backgroundColor: item.color }}></div>
+                  </div>
+                  <div className="metric-value">{item.value === null ? '--' : `${item.value}%`}</div>
                 </div>
-                <div className="metric-value">{systemMetrics.network}%</div>
-              </div>
+              ))}
             </div>
           </div>
         )}
@@ -181,6 +253,9 @@ export const StatusMonitor: React.FC<StatusMonitorProps> = ({
         <div className="status-card">
           <h2>🔍 {compact ? '传感器' : '传感器状态'}</h2>
           <div className={compact ? "sensors-compact" : "sensors-list"}>
+            {sensors.length === 0 && !compact && (
+              <div style={{ color: '#6b7280', fontSize: '12px' }}>等待 /diagnostics 数据...</div>
+            )}
             {sensors.map((sensor) => (
               <div key={sensor.name} className="sensor-item">
                 {compact ? (
@@ -218,6 +293,9 @@ export const StatusMonitor: React.FC<StatusMonitorProps> = ({
           <div className="status-card logs-card">
             <h2>📝 诊断日志</h2>
             <div className="logs-container">
+              {recentLogs.length === 0 && (
+                <div style={{ color: '#6b7280', fontSize: '12px' }}>暂无诊断状态变化</div>
+              )}
               {recentLogs.map((log, index) => (
                 <div key={index} className="log-entry">
                   <span className="log-time">{log.time}</span>
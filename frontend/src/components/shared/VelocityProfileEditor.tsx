@@ -0,0 +1,229 @@
+/**
+ * VelocityProfileEditor - 速度整形参数编辑
+ * 编辑当前机器人的驾驶模式、死区、响应曲线、加速度限制和档位比例，保存后立即生效
+ */
+
+import { useState } from 'react';
+import {
+  AxisShaping,
+  DEFAULT_VELOCITY_PROFILE,
+  DeadzoneMode,
+  VELOCITY_MODE_LABELS,
+  VelocityMode,
+  VelocityProfile,
+  getCurrentRobotId,
+  loadVelocityProfile,
+  resetVelocityProfile,
+  saveVelocityProfile,
+} from '../../utils/peripherals/VelocityShaper';
+import {
+  DRIVE_MODE_LABELS,
+  DriveMode,
+  STEERING_FRAME_LABELS,
+  SteeringFrame,
+} from '../../utils/peripherals/DriveModes';
+
+interface VelocityProfileEditorProps {
+  onSaved?: (profile: VelocityProfile) => void;
+  onClose: () => void;
+}
+
+const AXIS_FIELDS: { key: keyof AxisShaping; label: string; step: number; max: number }[] = [
+  { key: 'expo', label: '响应曲线', step: 0.05, max: 1 },
+  { key: 'maxAccel', label: '最大加速度', step: 0.1, max: 20 },
+  { key: 'maxDecel', label: '最大减速度', step: 0.1, max: 20 },
+  { key: 'maxJerk', label: '最大加加速度', step: 0.5, max: 100 },
+];
+
+const MODES: VelocityMode[] = ['precision', 'normal', 'turbo'];
+
+const DRIVE_MODE_HINTS: Record<DriveMode, string> = {
+  differential: '左摇杆前后前进、左右转向',
+  holonomic: '左摇杆平移，右摇杆转向',
+  tank: '左右摇杆前后分别驱动左右两侧',
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '64px',
+  padding: '2px 4px',
+  backgroundColor: '#1e293b',
+  border: '1px solid #475569',
+  borderRadius: '4px',
+  color: 'white',
+  fontSize: '12px',
+};
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  alignItems: 'center',
+  gap: '8px',
+};
+
+export const VelocityProfileEditor: React.FC<VelocityProfileEditorProps> = ({ onSaved, onClose }) => {
+  const robotId = getCurrentRobotId();
+  const [profile, setProfile] = useState<VelocityProfile>(() => loadVelocityProfile(robotId));
+
+  const clamp = (value: number, max: number) => Math.min(Math.max(Number.isFinite(value) ? value : 0, 0), max);
+
+  const updateAxis = (axis: 'linear' | 'angular', key: keyof AxisShaping, value: number, max: number) => {
+    setProfile(prev => ({ ...prev, [axis]: { ...prev[axis], [key]: clamp(value, max) } }));
+  };
+
+  const handleSave = () => {
+    saveVelocityProfile(profile, robotId);
+    console.log(`[VelocityProfileEditor] 已保存机器人 ${robotId} 的速度整形参数`);
+    onSaved?.(profile);
+    onClose();
+  };
+
+  const handleReset = () => {
+    resetVelocityProfile(robotId);
+    const defaults = loadVelocityProfile(robotId);
+    setProfile(defaults);
+    onSaved?.(defaults);
+  };
+
+  return (
+    <div
+      className="velocity-profile-editor"
+      style={{
+        position: 'absolute',
+        zIndex: 1000,
+        marginTop: '8px',
+        padding: '12px',
+        width: '300px',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px',
+        backgroundColor: 'rgba(15, 23, 42, 0.95)',
+        border: '1px solid #475569',
+        borderRadius: '8px',
+        color: 'white',
+        fontSize: '12px',
+        textAlign: 'left',
+      }}
+    >
+      <div style={{ fontWeight: 'bold' }}>速度整形（机器人：{robotId}）</div>
+
+      <div style={rowStyle}>
+        <span>驾驶模式</span>
+        <span>
+          <select
+            value={profile.driveMode}
+            onChange={e => setProfile(prev => ({ ...prev, driveMode: e.target.value as DriveMode }))}
+            style={{ ...inputStyle, width: 'auto', marginRight: '4px' }}
+          >
+            {(Object.keys(DRIVE_MODE_LABELS) as DriveMode[]).map(mode => (
+              <option key={mode} value={mode}>{DRIVE_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+          <select
+            value={profile.steeringFrame}
+            onChange={e => setProfile(prev => ({ ...prev, steeringFrame: e.target.value as SteeringFrame }))}
+            style={{ ...inputStyle, width: 'auto' }}
+          >
+            {(Object.keys(STEERING_FRAME_LABELS) as SteeringFrame[]).map(frame => (
+              <option key={frame} value={frame}>{STEERING_FRAME_LABELS[frame]}</option>
+            ))}
+          </select>
+        </span>
+      </div>
+      <div style={{ color: '#64748b' }}>
+        {DRIVE_MODE_HINTS[profile.driveMode]}
+        {profile.steeringFrame === 'camera' ? '；平移方向跟随相机朝向' : ''}
+      </div>
+
+      <div style={rowStyle}>
+        <span>死区</span>
+        <span>
+          <select
+            value={profile.deadzoneMode}
+            onChange={e => setProfile(prev => ({ ...prev, deadzoneMode: e.target.value as DeadzoneMode }))}
+            style={{ ...inputStyle, width: 'auto', marginRight: '4px' }}
+          >
+            <option value="axial">轴向</option>
+            <option value="radial">径向</option>
+          </select>
+          <input
+            type="number"
+            min={0}
+            max={0.5}
+            step={0.01}
+            value={profile.deadzone}
+            onChange={e => setProfile(prev => ({ ...prev, deadzone: clamp(parseFloat(e.target.value), 0.5) }))}
+            style={inputStyle}
+          />
+        </span>
+      </div>
+
+      <div style={{ ...rowStyle, color: '#94a3b8' }}>
+        <span />
+        <span style={{ display: 'flex', gap: '8px' }}>
+          <span style={{ width: '64px' }}>线速度</span>
+          <span style={{ width: '64px' }}>角速度</span>
+        </span>
+      </div>
+      {AXIS_FIELDS.map(field => (
+        <div key={field.key} style={rowStyle}>
+          <span>{field.label}</span>
+          <span style={{ display: 'flex', gap: '8px' }}>
+            {(['linear', 'angular'] as const).map(axis => (
+              <input
+                key={axis}
+                type="number"
+                min={0}
+                max={field.max}
+                step={field.step}
+                value={profile[axis][field.key]}
+                onChange={e => updateAxis(axis, field.key, parseFloat(e.target.value), field.max)}
+                style={inputStyle}
+              />
+            ))}
+          </span>
+        </div>
+      ))}
+
+      <div style={rowStyle}>
+        <span>平滑时间常数（ms）</span>
+        <input
+          type="number"
+          min={0}
+          max={1000}
+          step={10}
+          value={profile.smoothingMs}
+          onChange={e => setProfile(prev => ({ ...prev, smoothingMs: clamp(parseFloat(e.target.value), 1000) }))}
+          style={inputStyle}
+        />
+      </div>
+
+      {MODES.map(mode => (
+        <div key={mode} style={rowStyle}>
+          <span>{VELOCITY_MODE_LABELS[mode]}档比例</span>
+          <input
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={profile.modeScales[mode]}
+            onChange={e => {
+              const value = clamp(parseFloat(e.target.value), 1);
+              setProfile(prev => ({ ...prev, modeScales: { ...prev.modeScales, [mode]: value } }));
+            }}
+            style={inputStyle}
+          />
+        </div>
+      ))}
+
+      <div style={{ color: '#64748b' }}>
+        加速度为0表示不限制；档位比例相对当前链路限速（默认标准档 {DEFAULT_VELOCITY_PROFILE.modeScales.normal}）
+      </div>
+
+      <div style={{ display: 'flex', gap: '6px', justifyContent: 'flex-end' }}>
+        <button onClick={handleReset}>恢复默认</button>
+        <button onClick={onClose}>取消</button>
+        <button onClick={handleSave} style={{ fontWeight: 'bold' }}>保存</button>
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,106 @@
 /**
  * VideoPlayer - 视频播放器共享组件
  * 支持真实摄像头和模拟视频
+ * 连接模拟机器人时显示按其位姿绘制的第一人称画面
  */
 
 import { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react';
 import { formatNetworkSpeed } from '../../utils/formatNetworkSpeed';
+import { useConnectionStore } from '../../stores/connectionStore';
+import simulatorService, { SimulatorState } from '../../services/simulator';
 import './CompactStyles.css';
 
+// 模拟机器人画面：摄像头离地高度（米）和绘制的地面网格范围（米）
+const SIM_CAMERA_HEIGHT = 1.2;
+const SIM_GRID_RANGE = 20;
+
+/**
+ * 绘制模拟机器人的第一人称画面：按位姿透视投影地面网格和充电桩
+ */
+function drawSimulatorView(ctx: CanvasRenderingContext2D, width: number, height: number, state: SimulatorState) {
+  const horizon = height * 0.4;
+  const focal = width * 0.6;
+  const { x, y, theta } = state.pose;
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+
+  const sky = ctx.createLinearGradient(0, 0, 0, horizon);
+  sky.addColorStop(0, '#0b1120');
+  sky.addColorStop(1, '#1e293b');
+  ctx.fillStyle = sky;
+  ctx.fillRect(0, 0, width, horizon);
+  ctx.fillStyle = '#0f1a14';
+  ctx.fillRect(0, horizon, width, height - horizon);
+
+  // 世界坐标（x前y左）投影到画面，摄像头后方的点返回null
+  const project = (px: number, py: number): [number, number] | null => {
+    const dx = px - x;
+    const dy = py - y;
+    const forward = dx * cos + dy * sin;
+    const left = -dx * sin + dy * cos;
+    if (forward < 0.2) return null;
+    return [width / 2 - (left / forward) * focal, horizon + (SIM_CAMERA_HEIGHT / forward) * focal];
+  };
+
+  const drawWorldLine = (x1: number, y1: number, x2: number, y2: number) => {
+    const steps = SIM_GRID_RANGE * 4;
+    let drawing = false;
+    ctx.beginPath();
+    for (let i = 0; i <= steps; i++) {
+      const point = project(x1 + ((x2 - x1) * i) / steps, y1 + ((y2 - y1) * i) / steps);
+      if (!point) {
+        drawing = false;
+        continue;
+      }
+      if (drawing) {
+        ctx.lineTo(point[0], point[1]);
+      } else {
+        ctx.moveTo(point[0], point[1]);
+        drawing = true;
+      }
+    }
+    ctx.stroke();
+  };
+
+  ctx.strokeStyle = 'rgba(0, 255, 100, 0.3)';
+  ctx.lineWidth = 1;
+  const originX = Math.round(x);
+  const originY = Math.round(y);
+  for (let i = -SIM_GRID_RANGE; i <= SIM_GRID_RANGE; i++) {
+    drawWorldLine(originX + i, originY - SIM_GRID_RANGE, originX + i, originY + SIM_GRID_RANGE);
+    drawWorldLine(originX - SIM_GRID_RANGE, originY + i, originX + SIM_GRID_RANGE, originY + i);
+  }
+
+  // 充电桩（原点）
+  const dock = project(0, 0);
+  if (dock) {
+    const forward = (0 - x) * cos + (0 - y) * sin;
+    const size = (0.5 / forward) * focal;
+    ctx.fillStyle = 'rgba(250, 204, 21, 0.8)';
+    ctx.fillRect(dock[0] - size / 2, dock[1] - size, size, size);
+    ctx.fillStyle = '#0f172a';
+    ctx.font = `bold ${Math.max(10, size / 3)}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.fillText('⚡', dock[0], dock[1] - size / 3);
+    ctx.textAlign = 'start';
+  }
+
+  // 状态信息
+  ctx.fillStyle = 'rgba(0, 255, 100, 0.9)';
+  ctx.font = 'bold 24px monospace';
+  ctx.fillText(`POSE: x=${x.toFixed(2)} y=${y.toFixed(2)} θ=${((theta * 180) / Math.PI).toFixed(0)}°`, 50, 160);
+  ctx.fillText(`VEL: ${state.linear.toFixed(2)} m/s${state.lateral !== 0 ? ` ↔${state.lateral.toFixed(2)} m/s` : ''} ${state.angular.toFixed(2)} rad/s`, 50, 200);
+  ctx.fillText(`BATTERY: ${(state.battery * 100).toFixed(0)}%${state.charging ? ' ⚡' : ''}${state.docking ? ' DOCKING' : ''}`, 50, 240);
+
+  if (state.emergencyStop) {
+    ctx.fillStyle = 'rgba(220, 38, 38, 0.9)';
+    ctx.font = 'bold 72px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText('急停', width / 2, height * 0.25);
+    ctx.textAlign = 'start';
+  }
+}
+
 interface VideoPlayerProps {
   screenId?: number;
   compact?: boolean;
@@ -24,6 +118,10 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const animationRef = useRef<number | null>(null);
+  const simulatorMode = useConnectionStore(state => state.mode === 'simulator');
+  // draw循环中读取，避免重新创建drawSimulatedVideo
+  const simulatorModeRef = useRef(simulatorMode);
+  simulatorModeRef.current = simulatorMode;
 
   const [isVideoLoading, setIsVideoLoading] = useState(true);
   const [videoError, setVideoError] = useState<string | null>(null);
@@ -81,22 +179,26 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
         return;
       }
 
-      // 背景渐变
-      const gradient = ctx.createLinearGradient(0, 0, width, height);
-      gradient.addColorStop(0, `hsl(${hue}, 60%, 15%)`);
-      gradient.addColorStop(0.5, `hsl(${(hue + 60) % 360}, 60%, 10%)`);
-      gradient.addColorStop(1, `hsl(${(hue + 120) % 360}, 60%, 15%)`);
-      ctx.fillStyle = gradient;
-      ctx.fillRect(0, 0, width, height);
-
-      // 网格线
-      ctx.strokeStyle = 'rgba(0, 255, 100, 0.15)';
-      ctx.lineWidth = 1;
-      for (let i = 0; i < height; i += 40) {
-        ctx.beginPath();
-        ctx.moveTo(0, i + (frame % 40));
-        ctx.lineTo(width, i + (frame % 40));
-        ctx.stroke();
+      if (simulatorModeRef.current) {
+        drawSimulatorView(ctx, width, height, simulatorService.getState());
+      } else {
+        // 背景渐变
+        const gradient = ctx.createLinearGradient(0, 0, width, height);
+        gradient.addColorStop(0, `hsl(${hue}, 60%, 15%)`);
+        gradient.addColorStop(0.5, `hsl(${(hue + 60) % 360}, 60%, 10%)`);
+        gradient.addColorStop(1, `hsl(${(hue + 120) % 360}, 60%, 15%)`);
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, width, height);
+
+        // 网格线
+        ctx.strokeStyle = 'rgba(0, 255, 100, 0.15)';
+        ctx.lineWidth = 1;
+        for (let i = 0; i < height; i += 40) {
+          ctx.beginPath();
+          ctx.moveTo(0, i + (frame % 40));
+          ctx.lineTo(width, i + (frame % 40));
+          ctx.stroke();
+        }
       }
 
       // 中心准星
@@ -160,64 +262,66 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     // 等待一小段时间确保资源完全释放
     await new Promise(resolve => setTimeout(resolve, 100));
     
-    // 先尝试真实摄像头，失败则回退模拟
+    // 先尝试真实摄像头，失败则回退模拟；模拟机器人直接使用模拟画面
     let cameraFailed = false;
-    try {
-      console.log('[VideoPlayer] 请求摄像头访问...');
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          width: { ideal: 1920 },
-          height: { ideal: 1080 },
-          frameRate: { ideal: 30 },
-        },
-        audio: false,
-      });
+    if (!simulatorModeRef.current) {
+      try {
+        console.log('[VideoPlayer] 请求摄像头访问...');
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: {
+            width: { ideal: 1920 },
+            height: { ideal: 1080 },
+            frameRate: { ideal: 30 },
+          },
+          audio: false,
+        });
 
-      streamRef.current = stream;
+        streamRef.current = stream;
     
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
         
-        await new Promise<void>((resolve) => {
-          if (!videoRef.current) {
-            resolve();
-            return;
-          }
+          await new Promise<void>((resolve) => {
+            if (!videoRef.current) {
+              resolve();
+              return;
+            }
           
-          const video = videoRef.current;
-          const onLoadedMetadata = () => {
-            video.removeEventListener('loadedmetadata', onLoadedMetadata);
-            resolve();
-          };
+            const video = videoRef.current;
+            const onLoadedMetadata = () => {
+              video.removeEventListener('loadedmetadata', onLoadedMetadata);
+              resolve();
+            };
           
-          video.addEventListener('loadedmetadata', onLoadedMetadata);
-          setTimeout(() => {
-            video.removeEventListener('loadedmetadata', onLoadedMetadata);
-            resolve();
-          }, 2000);
-        });
+            video.addEventListener('loadedmetadata', onLoadedMetadata);
+            setTimeout(() => {
+              video.removeEventListener('loadedmetadata', onLoadedMetadata);
+              resolve();
+            }, 2000);
+          });
         
-        await videoRef.current.play();
-      }
+          await videoRef.current.play();
+        }
 
-      const videoTrack = stream.getVideoTracks()[0];
-      const settings = videoTrack.getSettings();
+        const videoTrack = stream.getVideoTracks()[0];
+        const settings = videoTrack.getSettings();
       
-      setCameraInfo({
-        width: settings.width || 1920,
-        height: settings.height || 1080,
-        fps: settings.frameRate || 30,
-        deviceLabel: videoTrack.label || '真实摄像头',
-      });
+        setCameraInfo({
+          width: settings.width || 1920,
+          height: settings.height || 1080,
+          fps: settings.frameRate || 30,
+          deviceLabel: videoTrack.label || '真实摄像头',
+        });
 
-      setUseSimulation(false);
-      setIsVideoLoading(false);
-      setVideoError(null);
-      console.log('[VideoPlayer] 真实摄像头初始化成功');
-      return; // 成功则结束
-    } catch (error: any) {
-      cameraFailed = true;
-      console.warn('[VideoPlayer] 摄像头初始化失败，切换模拟视频:', error?.message || error);
+        setUseSimulation(false);
+        setIsVideoLoading(false);
+        setVideoError(null);
+        console.log('[VideoPlayer] 真实摄像头初始化成功');
+        return; // 成功则结束
+      } catch (error: any) {
+        cameraFailed = true;
+        console.warn('[VideoPlayer] 摄像头初始化失败，切换模拟视频:', error?.message || error);
+      }
     }
 
     // 摄像头失败，使用模拟视频
@@ -264,7 +368,9 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
       width: 1920,
       height: 1080,
       fps: 30,
-        deviceLabel: cameraFailed ? '模拟机器人视角(权限失败)' : '模拟机器人视角',
+        deviceLabel: simulatorModeRef.current
+          ? '模拟机器人前置摄像头'
+          : cameraFailed ? '模拟机器人视角(权限失败)' : '模拟机器人视角',
     });
 
     setUseSimulation(true);
@@ -287,7 +393,7 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     return () => {
       cleanupResources();
     };
-  }, [isVideoEnabled]); // 只依赖 isVideoEnabled
+  }, [isVideoEnabled, simulatorMode]); // 连接/断开模拟机器人时重新选择视频源
 
   // 时钟更新
   useEffect(() => {
@@ -22,6 +22,8 @@ export interface RobotConfig {
   websocket?: {
     url: string;
   };
+  // 指定通信方式（不指定时支持WebRTC则优先WebRTC；simulator为本地模拟机器人）
+  transport?: 'webrtc' | 'websocket' | 'simulator';
 }
 
 /**
@@ -54,6 +56,8 @@ export const robotConfigs: Record<string, RobotConfig> = {
     websocket: {
       url: 'http://localhost:3000',
     },
+    // 远端机器人就绪前通过后端（rosbridge）连接
+    transport: 'websocket',
   },
   
   'robot-beijing-02': {
@@ -72,6 +76,22 @@ export const robotConfigs: Record<string, RobotConfig> = {
     websocket: {
       url: 'http://localhost:3000',
     },
+    // 远端机器人就绪前通过后端（rosbridge）连接
+    transport: 'websocket',
+  },
+
+  'robot-simulator': {
+    id: 'robot-simulator',
+    name: '模拟机器人',
+    description: '本地模拟的人形机器人，无需真实机器人即可开发和测试',
+    // 模拟机器人不建立WebRTC连接
+    webrtc: {
+      signalingUrl: 'http://localhost:3000',
+      robotIp: '127.0.0.1',
+      robotPort: 0,
+      iceServers: [],
+    },
+    transport: 'simulator',
   },
 };
 
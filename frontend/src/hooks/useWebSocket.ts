@@ -1,15 +1,25 @@
 /**
  * WebSocket Hook
- * 提供React Hook接口访问WebSocket服务
+ * 提供React Hook接口访问通信服务（当前机器人使用的WebSocket或WebRTC）
+ * 连接状态来自connectionStore，切换机器人时无需重新挂载
  */
 
-import { useEffect, useRef, useState } from 'react';
-import { communicationService as websocketService, TopicData } from '../services';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  communicationService as websocketService,
+  TopicSubscription,
+  SubscribeOptions,
+  ServiceCallOptions,
+  ActionGoalOptions,
+} from '../services';
+import { RosMessageMap, RosMessageType } from '../types/ros.types';
+import { useConnectionStore } from '../stores/connectionStore';
 
 export interface UseWebSocketOptions {
   autoConnect?: boolean;
   screenId?: number;
   topics?: string[];
+  subscribeOptions?: SubscribeOptions; // 初始话题的订阅选项（节流、只保留最新等）
 }
 
 export function useWebSocket(options: UseWebSocketOptions = {}) {
@@ -17,78 +27,34 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     autoConnect = true,
     screenId,
     topics = [],
+    subscribeOptions,
   } = options;
 
-  const [connected, setConnected] = useState(false);
+  const connected = useConnectionStore(state => state.connected);
   const [topicData, setTopicData] = useState<Map<string, any>>(new Map());
-  const topicsRef = useRef<string[]>(topics);
+  // 本Hook持有的订阅句柄（话题 -> 句柄），卸载时只释放自己的订阅
+  const subscriptionsRef = useRef<Map<string, TopicSubscription>>(new Map());
 
-  useEffect(() => {
-    topicsRef.current = topics;
-  }, [topics]);
-
-  useEffect(() => {
-    if (!autoConnect) return;
-
-    // 连接WebSocket
-    websocketService.connect();
-
-    // 注册屏幕ID
-    if (screenId !== undefined) {
-      websocketService.registerScreen(screenId);
+  // 订阅话题的辅助函数
+  const subscribe = (topic: string, type?: string, options?: SubscribeOptions) => {
+    if (subscriptionsRef.current.has(topic)) {
+      return;
     }
 
-    // 设置事件监听器
-    const handleConnected = () => {
-      setConnected(true);
-      
-      // 订阅话题
-      topicsRef.current.forEach(topic => {
-        websocketService.subscribeTopic(topic);
-      });
-    };
-
-    const handleDisconnected = () => {
-      setConnected(false);
-    };
-
-    const handleTopicData = (data: TopicData) => {
+    const subscription = websocketService.subscribeTopic(topic, type, (data: any) => {
       setTopicData(prev => {
         const newMap = new Map(prev);
-        newMap.set(data.topic, data.data);
+        newMap.set(topic, data);
         return newMap;
       });
-    };
-
-    websocketService.on('connected', handleConnected);
-    websocketService.on('disconnected', handleDisconnected);
-    websocketService.on('topic_data', handleTopicData);
-
-    // 清理函数
-    return () => {
-      websocketService.off('connected', handleConnected);
-      websocketService.off('disconnected', handleDisconnected);
-      websocketService.off('topic_data', handleTopicData);
-      
-      // 取消订阅所有话题
-      topicsRef.current.forEach(topic => {
-        websocketService.unsubscribeTopic(topic);
-      });
-    };
-  }, [autoConnect, screenId]);
-
-  // 订阅话题的辅助函数
-  const subscribe = (topic: string, type?: string) => {
-    websocketService.subscribeTopic(topic, type);
-    if (!topicsRef.current.includes(topic)) {
-      topicsRef.current.push(topic);
-    }
+    }, options);
+    subscriptionsRef.current.set(topic, subscription);
   };
 
   // 取消订阅话题的辅助函数
   const unsubscribe = (topic: string) => {
-    websocketService.unsubscribeTopic(topic);
-    topicsRef.current = topicsRef.current.filter(t => t !== topic);
+    subscriptionsRef.current.get(topic)?.unsubscribe();
+    subscriptionsRef.current.delete(topic);
     setTopicData(prev => {
       const newMap = new Map(prev);
       newMap.delete(topic);
@@ -96,11 +62,55 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     });
   };
 
+  // 订阅初始话题（与连接状态无关，连接建立后由通信服务补发）
+  const topicsKey = topics.join(',') + JSON.stringify(subscribeOptions ?? {});
+  useEffect(() => {
+    topics.forEach(topic => subscribe(topic, undefined, subscribeOptions));
+
+    return () => {
+      // 只释放本Hook的订阅，其他组件对同一话题的订阅不受影响
+      subscriptionsRef.current.forEach(subscription => subscription.unsubscribe());
+      subscriptionsRef.current.clear();
+    };
+  }, [topicsKey]);
+
+  useEffect(() => {
+    if (!autoConnect) return;
+
+    // 连接WebSocket
+    websocketService.connect();
+
+    // 注册屏幕ID
+    if (screenId !== undefined) {
+      websocketService.registerScreen(screenId);
+    }
+  }, [autoConnect, screenId]);
+
   // 发布消息的辅助函数
   const publish = (topic: string, message: any, type?: string) => {
     websocketService.publishTopic(topic, message, type);
   };
 
+  // 发布类型化消息的辅助函数（编译期检查消息结构）
+  const publishMessage = <K extends RosMessageType>(topic: string, type: K, message: RosMessageMap[K]) => {
+    websocketService.publish(topic, type, message);
+  };
+
+  // 调用ROS服务（引用稳定，可作为effect依赖）
+  const callService = useCallback(<TRequest = any, TResponse = any>(name: string, request: TRequest, type?: string, options?: ServiceCallOptions) => {
+    return websocketService.callService<TRequest, TResponse>(name, request, type, options);
+  }, []);
+
+  // 发送ROS动作目标
+  const sendActionGoal = <TGoal = any, TFeedback = any, TResult = any>(
+    action: string,
+    actionType: string,
+    goal: TGoal,
+    options?: ActionGoalOptions<TFeedback>
+  ) => {
+    return websocketService.sendActionGoal<TGoal, TFeedback, TResult>(action, actionType, goal, options);
+  };
+
   // 获取特定话题的数据
   const getTopicData = (topic: string) => {
     return topicData.get(topic);
@@ -112,6 +122,9 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     subscribe,
     unsubscribe,
     publish,
+    publishMessage,
+    callService,
+    sendActionGoal,
     getTopicData,
   };
 }
@@ -10,8 +10,8 @@
 
 import { useEffect, useState, useRef } from 'react';
 import { useAuthStore } from '../stores/authStore';
+import { useConnectionStore } from '../stores/connectionStore';
 import websocketService from '../services/websocket';
-import communicationFactory from '../services/communicationFactory';
 import remoteLogger from '../utils/remoteLogger';
 import LoginPage from '../components/LoginPage';
 import RobotList from '../components/RobotList';
@@ -19,6 +19,8 @@ import Screen0 from '../screens/Screen0';
 import Screen1 from '../screens/Screen1';
 import Screen2 from '../screens/Screen2';
 import Screen3 from '../screens/Screen3';
+import { EmergencyStopBanner } from '../components/shared/EmergencyStopBanner';
+import { ControlLockIndicator } from '../components/shared/ControlLockIndicator';
 import { getScreenResolution, calculateCombinedLayoutProportions, logScreenInfo } from '../utils/screenResolution';
 import './CombinedScreenLayout.css';
 
@@ -32,6 +34,7 @@ export const CombinedScreenLayout: React.FC = () => {
     return calculateCombinedLayoutProportions(resolution);
   });
   const { isAuthenticated, checkAuth } = useAuthStore();
+  const { connectToRobot, disconnectRobot } = useConnectionStore();
   const checkAuthRef = useRef(checkAuth);
   
   checkAuthRef.current = checkAuth;
@@ -130,31 +133,26 @@ export const CombinedScreenLayout: React.FC = () => {
     };
   }, []);
 
-  const handleSelectRobot = async (robotId: string) => {
-    try {
-      setSelectedRobotId(robotId);
-      localStorage.setItem('robot_cockpit_selected_robot', robotId);
-      localStorage.setItem('robot_cockpit_robot_updated', Date.now().toString());
-      
-      // 使用通信工厂连接到机器人（自动选择 WebSocket 或 WebRTC）
-      // TODO: 临时跳过实际连接，待远端机器人就绪后正常连接
-      await communicationFactory.connectToRobot(robotId);
-      
-      // 同时保持 WebSocket 连接用于多屏同步
-      websocketService.selectRobot(robotId);
-      
-      console.log(`[CombinedScreenLayout] Connected to robot: ${robotId} via ${communicationFactory.getCurrentMode()}`);
-    } catch (error) {
-      console.error('[CombinedScreenLayout] Failed to connect to robot:', error);
-      // TODO: 临时禁用错误处理，允许进入界面
-      console.warn('[CombinedScreenLayout] Connection failed, but allowing UI access for development');
+  // 选中的机器人变化时（本窗口选择、其他屏幕广播或刷新后恢复）切换连接
+  useEffect(() => {
+    if (selectedRobotId) {
+      connectToRobot(selectedRobotId);
+    } else {
+      disconnectRobot();
     }
+  }, [selectedRobotId, connectToRobot, disconnectRobot]);
+
+  const handleSelectRobot = (robotId: string) => {
+    setSelectedRobotId(robotId);
+    localStorage.setItem('robot_cockpit_selected_robot', robotId);
+    localStorage.setItem('robot_cockpit_robot_updated', Date.now().toString());
+    
+    // 通过后端广播到其他屏幕（连接由上方effect根据选中的机器人建立）
+    websocketService.selectRobot(robotId);
   };
 
   const handleDeselectRobot = () => {
-    // 断开当前机器人连接
-    communicationFactory.disconnectRobot();
-    
+    // 断开当前机器人连接（由上方effect处理）
     setSelectedRobotId(null);
     localStorage.removeItem('robot_cockpit_selected_robot');
     localStorage.removeItem('robot_cockpit_robot_updated');
@@ -174,6 +172,11 @@ export const CombinedScreenLayout: React.FC = () => {
   // 已登录且已选择机器人：显示组合布局
   return (
     <div className="combined-screen-layout">
+      {/* 急停锁定横幅（同时监听急停快捷键） */}
+      <EmergencyStopBanner />
+      {/* 控制权指示 */}
+      <ControlLockIndicator robotId={selectedRobotId} />
+
       <div 
         className="combined-grid"
         style={{
@@ -6,8 +6,8 @@
 import { useEffect, useState, useRef } from 'react';
 import { getScreenIdFromUrl } from '../utils/screenId';
 import { useAuthStore } from '../stores/authStore';
+import { useConnectionStore } from '../stores/connectionStore';
 import websocketService from '../services/websocket';
-import communicationFactory from '../services/communicationFactory';
 import remoteLogger from '../utils/remoteLogger';
 import LoginPage from '../components/LoginPage';
 import RobotList from '../components/RobotList';
@@ -15,6 +15,9 @@ import Screen0 from '../screens/Screen0';
 import Screen1 from '../screens/Screen1';
 import Screen2 from '../screens/Screen2';
 import Screen3 from '../screens/Screen3';
+import Screen4 from '../screens/Screen4';
+import { EmergencyStopBanner } from '../components/shared/EmergencyStopBanner';
+import { ControlLockIndicator } from '../components/shared/ControlLockIndicator';
 
 const TOUCH_SCREEN_ID = parseInt(import.meta.env.VITE_TOUCH_SCREEN_ID || '0', 10);
 
@@ -25,6 +28,7 @@ export const MultiScreenLayout: React.FC = () => {
     return saved || null;
   });
   const { isAuthenticated, checkAuth } = useAuthStore();
+  const { connectToRobot, disconnectRobot } = useConnectionStore();
   const checkAuthRef = useRef(checkAuth);
   const lastRobotIdRef = useRef<string | null>(selectedRobotId);
   const broadcastRef = useRef<BroadcastChannel | null>(null);
@@ -201,36 +205,31 @@ export const MultiScreenLayout: React.FC = () => {
     };
   }, [screenId]);
 
-  const handleSelectRobot = async (robotId: string) => {
-    try {
-      // 确保 BroadcastChannel 已初始化
-      const channel = initBroadcastChannel();
-      
-      setSelectedRobotId(robotId);
-      lastRobotIdRef.current = robotId;
-      localStorage.setItem('robot_cockpit_selected_robot', robotId);
-      localStorage.setItem('robot_cockpit_robot_updated', Date.now().toString());
-      
-      if (channel) {
-        channel.postMessage({ type: 'robot_selected', robotId });
-      }
-      
-      // 使用通信工厂连接到机器人（自动选择 WebSocket 或 WebRTC）
-      // TODO: 临时跳过实际连接，待远端机器人就绪后正常连接
-      await communicationFactory.connectToRobot(robotId);
-      
-      // 同时保持 WebSocket 连接用于多屏同步
-      websocketService.selectRobot(robotId);
-      
-      console.log(`[MultiScreenLayout] Connected to robot: ${robotId} via ${communicationFactory.getCurrentMode()}`);
-    } catch (error) {
-      console.error('[MultiScreenLayout] Failed to connect to robot:', error);
-      // TODO: 临时禁用错误处理，允许进入界面
-      console.warn('[MultiScreenLayout] Connection failed, but allowing UI access for development');
-      // 连接失败也允许进入（开发阶段）
-      // setSelectedRobotId(null);
-      // localStorage.removeItem('robot_cockpit_selected_robot');
+  // 选中的机器人变化时（本屏选择、其他屏幕广播或刷新后恢复）切换连接
+  // 每个屏幕窗口各自建立到机器人的连接
+  useEffect(() => {
+    if (selectedRobotId) {
+      connectToRobot(selectedRobotId);
+    } else {
+      disconnectRobot();
     }
+  }, [selectedRobotId, connectToRobot, disconnectRobot]);
+
+  const handleSelectRobot = (robotId: string) => {
+    // 确保 BroadcastChannel 已初始化
+    const channel = initBroadcastChannel();
+    
+    setSelectedRobotId(robotId);
+    lastRobotIdRef.current = robotId;
+    localStorage.setItem('robot_cockpit_selected_robot', robotId);
+    localStorage.setItem('robot_cockpit_robot_updated', Date.now().toString());
+    
+    if (channel) {
+      channel.postMessage({ type: 'robot_selected', robotId });
+    }
+    
+    // 通过后端广播到其他屏幕（连接由上方effect根据选中的机器人建立）
+    websocketService.selectRobot(robotId);
   };
 
   const handleDeselectRobot = () => {
@@ -243,16 +242,15 @@ export const MultiScreenLayout: React.FC = () => {
       localStorage.setItem('robot_cockpit_robot_updated', Date.now().toString());
       window.dispatchEvent(new CustomEvent('robot_cockpit_robot_update'));
     }
-    communicationFactory.disconnectRobot();
   };
 
   const renderScreen = () => {
     if (screenId === null) {
-      return <div className="error-screen">未指定屏幕ID，请在URL中添加 ?screen=0-3</div>;
+      return <div className="error-screen">未指定屏幕ID，请在URL中添加 ?screen=0-4</div>;
     }
 
-    if (screenId < 0 || screenId > 3) {
-      return <div className="error-screen">无效的屏幕ID: {screenId}，有效范围: 0-3</div>;
+    if (screenId < 0 || screenId > 4) {
+      return <div className="error-screen">无效的屏幕ID: {screenId}，有效范围: 0-4</div>;
     }
 
     if (!isAuthenticated) {
@@ -286,11 +284,23 @@ export const MultiScreenLayout: React.FC = () => {
         return <Screen2 screenId={screenId} />;
       case 3:
         return <Screen3 screenId={screenId} />;
+      case 4:
+        return <Screen4 screenId={screenId} />;
       default:
         return <div className="error-screen">无效的屏幕ID: {screenId}</div>;
     }
   };
 
-  return <div className="app multi-screen-layout">{renderScreen()}</div>;
+  return (
+    <div className="app multi-screen-layout">
+      {/* 急停锁定横幅：每个屏幕都显示，只在操作屏复位 */}
+      {isAuthenticated && selectedRobotId && <EmergencyStopBanner allowReset={screenId === TOUCH_SCREEN_ID} />}
+      {/* 控制权指示：每个屏幕都显示持有者，只在操作屏操作 */}
+      {isAuthenticated && selectedRobotId && (
+        <ControlLockIndicator robotId={selectedRobotId} interactive={screenId === TOUCH_SCREEN_ID} />
+      )}
+      {renderScreen()}
+    </div>
+  );
 };
 
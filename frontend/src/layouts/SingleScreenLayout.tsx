@@ -5,16 +5,21 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import { useAuthStore } from '../stores/authStore';
+import { useConnectionStore } from '../stores/connectionStore';
 import websocketService from '../services/websocket';
-import communicationFactory from '../services/communicationFactory';
+import { communicationService } from '../services';
 import remoteLogger from '../utils/remoteLogger';
 import LoginPage from '../components/LoginPage';
 import RobotList from '../components/RobotList';
 import { ControlPanel } from '../components/shared/ControlPanel';
+import { ConnectionIndicator } from '../components/shared/ConnectionIndicator';
+import { LinkHealthWidget } from '../components/shared/LinkHealthWidget';
 import { VideoPlayer } from '../components/shared/VideoPlayer';
 import { AudioPlayer } from '../components/shared/AudioPlayer';
 import { Robot3DViewer } from '../components/shared/Robot3DViewer';
 import { SpeedGauge } from '../components/shared/SpeedGauge';
+import { EmergencyStopBanner } from '../components/shared/EmergencyStopBanner';
+import { ControlLockIndicator } from '../components/shared/ControlLockIndicator';
 import './SingleScreenLayout.css';
 
 export const SingleScreenLayout: React.FC = () => {
@@ -23,7 +28,7 @@ export const SingleScreenLayout: React.FC = () => {
   const [selectedRobotId, setSelectedRobotId] = useState<string | null>(() => {
     return localStorage.getItem('robot_cockpit_selected_robot') || null;
   });
-  const [connected, setConnected] = useState(false);
+  const { connected, connectToRobot, disconnectRobot } = useConnectionStore();
   
   // 公司名称
   const companyName = '麦擎科技';
@@ -111,15 +116,9 @@ export const SingleScreenLayout: React.FC = () => {
     const handleConnected = () => {
       // 单屏模式使用screenId=0
       websocketService.registerScreen(0);
-      setConnected(true);
-    };
-    
-    const handleDisconnected = () => {
-      setConnected(false);
     };
     
     websocketService.on('connected', handleConnected);
-    websocketService.on('disconnected', handleDisconnected);
     
     if (websocketService.getStatus().connected) {
       websocketService.registerScreen(0);
@@ -166,7 +165,6 @@ export const SingleScreenLayout: React.FC = () => {
 
     return () => {
       websocketService.off('connected', handleConnected);
-      websocketService.off('disconnected', handleDisconnected);
       websocketService.off('auth_status_change', handleAuthStatusChange);
       websocketService.off('robot_selected', handleRobotSelected);
       websocketService.off('user_logged_out', handleUserLoggedOut);
@@ -174,29 +172,22 @@ export const SingleScreenLayout: React.FC = () => {
     };
   }, []);
 
-  const handleSelectRobot = async (robotId: string) => {
-    try {
-      setSelectedRobotId(robotId);
-      localStorage.setItem('robot_cockpit_selected_robot', robotId);
-      localStorage.setItem('robot_cockpit_robot_updated', Date.now().toString());
-      
-      // 使用通信工厂连接到机器人（自动选择 WebSocket 或 WebRTC）
-      // TODO: 临时跳过实际连接，待远端机器人就绪后正常连接
-      await communicationFactory.connectToRobot(robotId);
-      
-      // 同时保持 WebSocket 连接用于多屏同步
-      websocketService.selectRobot(robotId);
-      
-      console.log(`[SingleScreenLayout] Connected to robot: ${robotId} via ${communicationFactory.getCurrentMode()}`);
-    } catch (error) {
-      console.error('[SingleScreenLayout] Failed to connect to robot:', error);
-      // TODO: 临时禁用错误提示，允许进入界面
-      // alert(`连接机器人失败: ${error instanceof Error ? error.message : '未知错误'}`);
-      console.warn('[SingleScreenLayout] Connection failed, but allowing UI access for development');
-      // 连接失败也允许进入（开发阶段）
-      // setSelectedRobotId(null);
-      // localStorage.removeItem('robot_cockpit_selected_robot');
+  // 选中的机器人变化时（本窗口选择、其他屏幕广播或刷新后恢复）切换连接
+  useEffect(() => {
+    if (selectedRobotId) {
+      connectToRobot(selectedRobotId);
+    } else {
+      disconnectRobot();
     }
+  }, [selectedRobotId, connectToRobot, disconnectRobot]);
+
+  const handleSelectRobot = (robotId: string) => {
+    setSelectedRobotId(robotId);
+    localStorage.setItem('robot_cockpit_selected_robot', robotId);
+    localStorage.setItem('robot_cockpit_robot_updated', Date.now().toString());
+    
+    // 通过后端广播到其他屏幕（连接由上方effect根据选中的机器人建立）
+    websocketService.selectRobot(robotId);
   };
 
   const handleLogout = () => {
@@ -204,9 +195,7 @@ export const SingleScreenLayout: React.FC = () => {
   };
 
   const handleChangeRobot = () => {
-    // 断开当前机器人连接
-    communicationFactory.disconnectRobot();
-    
+    // 断开当前机器人连接（由上方effect处理）
     setSelectedRobotId(null);
     localStorage.removeItem('robot_cockpit_selected_robot');
     localStorage.removeItem('robot_cockpit_robot_updated');
@@ -226,6 +215,11 @@ export const SingleScreenLayout: React.FC = () => {
   // 已登录且已选择机器人：显示Grid布局操作界面
   return (
     <div className="single-screen-layout">
+      {/* 急停锁定横幅（同时监听急停快捷键） */}
+      <EmergencyStopBanner />
+      {/* 控制权指示 */}
+      <ControlLockIndicator />
+
       {/* 顶部导航栏 */}
       <header className="layout-header">
         <div className="header-left">
@@ -234,7 +228,7 @@ export const SingleScreenLayout: React.FC = () => {
             <span className="subtitle">机器人驾驶舱</span>
           </div>
           <span className="robot-info">
-            {selectedRobotId ? `控制中: ${selectedRobotId} (${communicationFactory.getCurrentMode().toUpperCase()})` : '系统就绪'}
+            {selectedRobotId ? `控制中: ${selectedRobotId}` : '系统就绪'}
           </span>
         </div>
         
@@ -242,7 +236,8 @@ export const SingleScreenLayout: React.FC = () => {
           {/* 关键状态图标 */}
           <div className="quick-status">
             <span className="status-icon" title="电池电量">🔋 85%</span>
-            <span className="status-icon" title="连接状态">🟢 已连接</span>
+            <ConnectionIndicator className="status-icon" />
+            <LinkHealthWidget compact={true} className="status-icon" />
             <span className="status-icon" title="温度">🌡️ 42°C</span>
           </div>
         </div>
@@ -290,7 +285,7 @@ export const SingleScreenLayout: React.FC = () => {
               screenId={0}
               enablePeripherals={true}
               connected={connected}
-              publish={(topic, message, type) => websocketService.publishTopic(topic, message, type)}
+              publish={(topic, message, type) => communicationService.publishTopic(topic, message, type)}
             />
           </div>
           
@@ -4,15 +4,19 @@
  * 支持切换到其他屏幕内容显示
  */
 
-import { useState, useEffect } from 'react';
-import websocketService from '../services/websocket';
+import { useState } from 'react';
+import { communicationService } from '../services';
 import { useAuthStore } from '../stores/authStore';
+import { useConnectionStore } from '../stores/connectionStore';
 import { ControlPanel } from '../components/shared/ControlPanel';
+import { ConnectionIndicator } from '../components/shared/ConnectionIndicator';
+import { LinkHealthWidget } from '../components/shared/LinkHealthWidget';
 import { PeripheralController } from '../components/shared/PeripheralController';
 import { RobotCommand } from '../types/peripheral.types';
 import Screen1 from './Screen1';
 import Screen2 from './Screen2';
 import Screen3 from './Screen3';
+import Screen4 from './Screen4';
 import './Screen.css';
 
 interface Screen0Props {
@@ -22,43 +26,17 @@ interface Screen0Props {
 }
 
 function Screen0({ screenId, onDeselectRobot, isViewingOtherScreen = false }: Screen0Props) {
-  const [connected, setConnected] = useState(false);
+  const connected = useConnectionStore(state => state.connected);
   const [viewingScreen, setViewingScreen] = useState<number | null>(null); // 当前查看的屏幕ID，null表示显示控制面板
   const { logout } = useAuthStore();
 
-  useEffect(() => {
-    // 监听WebSocket连接状态
-    const handleConnected = () => {
-      setConnected(true);
-      // WebSocket已连接
-    };
-    
-    const handleDisconnected = () => {
-      setConnected(false);
-      // WebSocket已断开
-    };
-    
-    websocketService.on('connected', handleConnected);
-    websocketService.on('disconnected', handleDisconnected);
-    
-    // 检查初始状态
-    if (websocketService.getStatus().connected) {
-      setConnected(true);
-    }
-    
-    return () => {
-      websocketService.off('connected', handleConnected);
-      websocketService.off('disconnected', handleDisconnected);
-    };
-  }, []);
-
   const handleLogout = () => {
     // 登出
     logout();
   };
 
   const publish = (topic: string, message: any, type?: string) => {
-    websocketService.publishTopic(topic, message, type);
+    communicationService.publishTopic(topic, message, type);
   };
 
   const handleSwitchScreen = (targetScreenId: number) => {
@@ -81,6 +59,7 @@ function Screen0({ screenId, onDeselectRobot, isViewingOtherScreen = false }: Sc
       1: <Screen1 screenId={1} />,
       2: <Screen2 screenId={2} />,
       3: <Screen3 screenId={3} />,
+      4: <Screen4 screenId={4} />,
     };
 
     return (
@@ -98,10 +77,10 @@ function Screen0({ screenId, onDeselectRobot, isViewingOtherScreen = false }: Sc
               {viewingScreen === 1 && '📹 视频视角屏'}
               {viewingScreen === 2 && '📊 状态监控屏'}
               {viewingScreen === 3 && '🤖 3D可视化屏'}
+              {viewingScreen === 4 && '🧭 话题浏览器'}
             </h1>
-            <span className="connection-status">
-              {connected ? '🟢 ROS2已连接' : '🔴 ROS2未连接'}
-            </span>
+            <ConnectionIndicator showRobot={true} />
+            <LinkHealthWidget compact={true} className="connection-status" />
           </div>
           <div className="header-actions">
             {/* 主控屏切换后显示返回按钮（isViewingOtherScreen=false表示这是真正的Screen0，所以显示返回按钮） */}
@@ -140,9 +119,8 @@ function Screen0({ screenId, onDeselectRobot, isViewingOtherScreen = false }: Sc
       <div className="screen-header">
         <div className="header-left">
           <h1>🎮 机器人控制中心</h1>
-          <span className="connection-status">
-            {connected ? '🟢 ROS2已连接' : '🔴 ROS2未连接'}
-          </span>
+          <ConnectionIndicator showRobot={true} />
+          <LinkHealthWidget compact={true} className="connection-status" />
         </div>
         <div className="header-actions">
           {onDeselectRobot && (
@@ -185,6 +163,14 @@ function Screen0({ screenId, onDeselectRobot, isViewingOtherScreen = false }: Sc
               <span className="screen-icon">🤖</span>
               <span className="screen-label">3D可视化</span>
             </button>
+            <button 
+              className="screen-select-btn" 
+              onClick={() => handleSwitchScreen(4)}
+              title="查看话题浏览器"
+            >
+              <span className="screen-icon">🧭</span>
+              <span className="screen-label">话题浏览器</span>
+            </button>
           </div>
         </div>
 
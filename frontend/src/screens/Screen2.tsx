@@ -5,6 +5,7 @@
 
 import { useWebSocket } from '../hooks/useWebSocket';
 import { StatusMonitor } from '../components/shared/StatusMonitor';
+import { LinkHealthWidget } from '../components/shared/LinkHealthWidget';
 import './Screen.css';
 
 interface Screen2Props {
@@ -15,6 +16,8 @@ function Screen2({ screenId }: Screen2Props) {
   const { connected } = useWebSocket({
     screenId,
     topics: ['/robot/status', '/robot/telemetry', '/robot/diagnostics'],
+    // 状态展示无需源频率，每500ms刷新一次即可
+    subscribeOptions: { throttleMs: 500, latestOnly: true },
   });
 
   return (
@@ -29,6 +32,7 @@ function Screen2({ screenId }: Screen2Props) {
       </div>
 
       <div className="screen-content status-content">
+        <LinkHealthWidget />
         <StatusMonitor screenId={screenId} />
       </div>
     </div>
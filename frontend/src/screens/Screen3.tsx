@@ -5,9 +5,11 @@
  * 应用与单屏模式一致的控制机制（步行动画、动作控制等）
  */
 
-import { useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import websocketService from '../services/websocket';
+import { communicationService } from '../services';
 import { useRobot3DStore } from '../stores/robot3DStore';
+import { useConnectionStore } from '../stores/connectionStore';
 import { Robot3DViewer } from '../components/shared/Robot3DViewer';
 import './Screen.css';
 
@@ -16,61 +18,42 @@ interface Screen3Props {
 }
 
 function Screen3({ screenId }: Screen3Props) {
-  const [connected, setConnected] = useState(false);
+  const connected = useConnectionStore(state => state.connected);
   const { setCommand, setMoveVelocity } = useRobot3DStore();
 
   useEffect(() => {
-    // 连接WebSocket
+    // 连接WebSocket（多屏同步）
     websocketService.connect();
     websocketService.registerScreen(screenId);
     
-    // 监听连接状态
-    const handleConnected = () => {
-      setConnected(true);
-      // 订阅3D控制命令话题和移动控制话题
-      websocketService.subscribeTopic('robot_3d_command');
-      websocketService.subscribeTopic('robot_3d_move');
-    };
-    
-    const handleDisconnected = () => {
-      setConnected(false);
-    };
-    
-    // 监听3D控制命令（直接监听事件）
+    // 3D控制命令（每个话题使用独立的订阅回调）
     const handle3DCommand = (data: any) => {
-      if (data && data.topic === 'robot_3d_command' && data.data && data.data.command) {
+      if (data && data.command) {
         // 添加时间戳确保相同命令也能触发（关键修复！）
-        setCommand(data.data.command + '_' + Date.now());
-      } else if (data && data.topic === 'robot_3d_move' && data.data) {
-        // 在多屏模式下，Screen3可能在不同的浏览器窗口中，store实例是独立的
-        // 必须通过WebSocket同步moveVelocity，确保摇杆输入能传递到Screen3
-        const moveData = data.data;
-        if (moveData.linearX !== undefined || moveData.linearY !== undefined || moveData.angularZ !== undefined) {
-          setMoveVelocity({
-            linearX: moveData.linearX || 0,
-            linearY: moveData.linearY || 0,
-            angularZ: moveData.angularZ || 0
-          });
-        }
+        setCommand(data.command + '_' + Date.now());
       }
     };
     
-    websocketService.on('connected', handleConnected);
-    websocketService.on('disconnected', handleDisconnected);
-    websocketService.on('topic_data', handle3DCommand);
+    const handle3DMove = (moveData: any) => {
+      // 在多屏模式下，Screen3可能在不同的浏览器窗口中，store实例是独立的
+      // 必须通过WebSocket同步moveVelocity，确保摇杆输入能传递到Screen3
+      if (moveData && (moveData.linearX !== undefined || moveData.linearY !== undefined || moveData.angularZ !== undefined)) {
+        setMoveVelocity({
+          linearX: moveData.linearX || 0,
+          linearY: moveData.linearY || 0,
+          angularZ: moveData.angularZ || 0
+        });
+      }
+    };
     
-    // 订阅3D控制命令话题
-    if (websocketService.getStatus().connected) {
-      websocketService.subscribeTopic('robot_3d_command');
-      websocketService.subscribeTopic('robot_3d_move');
-    }
+    // 订阅3D控制命令话题和移动控制话题（连接前订阅会在连接后自动补发，切换机器人时自动迁移）
+    const commandSubscription = communicationService.subscribeTopic('robot_3d_command', undefined, handle3DCommand);
+    const moveSubscription = communicationService.subscribeTopic('robot_3d_move', undefined, handle3DMove);
     
     return () => {
-      websocketService.off('connected', handleConnected);
-      websocketService.off('disconnected', handleDisconnected);
-      websocketService.off('topic_data', handle3DCommand);
-      websocketService.unsubscribeTopic('robot_3d_command');
-      websocketService.unsubscribeTopic('robot_3d_move');
+      // 只释放本组件的订阅，不影响其他组件
+      commandSubscription.unsubscribe();
+      moveSubscription.unsubscribe();
     };
   }, [screenId, setCommand, setMoveVelocity]);
 
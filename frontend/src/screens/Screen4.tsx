@@ -1,27 +1,316 @@
+/**
+ * Screen4 - 话题浏览器
+ * 列出rosbridge上的所有话题，点击订阅后显示消息频率、带宽和最新消息（相当于 ros2 topic echo/hz/bw），
+ * 并可手动编辑消息发布到任意话题（相当于 ros2 topic pub）
+ * 发布经过通信代理（急停锁定、控制锁）；指令话题经过指令仲裁，速度话题不允许从这里发布（没有死人开关和限速保护）
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useWebSocket } from '../hooks/useWebSocket';
+import {
+  communicationService,
+  getRegisteredTopics,
+  createDefaultMessage,
+  getTopicType,
+  commandArbiter,
+  getCommandArbiterConfig,
+  PublishResult,
+  ArbitrationResult,
+} from '../services';
+import { RobotCommandType } from '../types/peripheral.types';
+import { TopicStatsTracker, TopicStats } from '../utils/TopicStatsTracker';
+import { formatNetworkSpeed } from '../utils/formatNetworkSpeed';
+import { JsonTree } from '../components/shared/JsonTree';
 import './Screen.css';
 
 interface Screen4Props {
   screenId: number;
 }
 
+interface TopicInfo {
+  topic: string;
+  type: string;
+}
+
+// 统计和最新消息的界面刷新间隔
+const REFRESH_INTERVAL_MS = 500;
+
+// 话题浏览器在指令仲裁中的来源名称
+const ARBITER_SOURCE = 'topic_browser';
+
 function Screen4({ screenId }: Screen4Props) {
-  const { connected } = useWebSocket({
+  const { connected, callService } = useWebSocket({
     screenId,
     topics: [],
   });
 
+  const [topics, setTopics] = useState<TopicInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [listError, setListError] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+
+  // 当前查看的话题
+  const [selected, setSelected] = useState<TopicInfo | null>(null);
+  const [stats, setStats] = useState<TopicStats | null>(null);
+  const [lastMessage, setLastMessage] = useState<any>(undefined);
+  const [paused, setPaused] = useState(false);
+  const trackerRef = useRef(new TopicStatsTracker());
+  const lastMessageRef = useRef<any>(undefined);
+
+  // 发布表单
+  const [pubTopic, setPubTopic] = useState('');
+  const [pubType, setPubType] = useState('');
+  const [pubBody, setPubBody] = useState('{}');
+  const [pubStatus, setPubStatus] = useState<{ ok: boolean; text: string } | null>(null);
+
+  // 从rosapi获取话题列表，失败时回退到本地已注册的话题
+  const refreshTopics = useCallback(async () => {
+    setLoading(true);
+    setListError(null);
+    try {
+      const response = await callService<{}, { topics: string[]; types: string[] }>('/rosapi/topics', {}, 'rosapi/Topics');
+      const list = response.topics.map((topic, index) => ({ topic, type: response.types[index] ?? '' }));
+      list.sort((a, b) => a.topic.localeCompare(b.topic));
+      setTopics(list);
+    } catch (error) {
+      console.warn('[Screen4] Failed to list topics via rosapi:', error);
+      setListError(`获取话题列表失败：${error instanceof Error ? error.message : String(error)}（显示本地已知话题）`);
+      setTopics(getRegisteredTopics().sort((a, b) => a.topic.localeCompare(b.topic)));
+    } finally {
+      setLoading(false);
+    }
+  }, [callService]);
+
+  useEffect(() => {
+    if (connected) {
+      refreshTopics();
+    }
+  }, [connected, refreshTopics]);
+
+  // 订阅选中的话题
+  useEffect(() => {
+    if (!selected) return;
+
+    const tracker = trackerRef.current;
+    tracker.reset();
+    lastMessageRef.current = undefined;
+    setStats(tracker.getStats());
+    setLastMessage(undefined);
+
+    const subscription = communicationService.subscribeTopic(selected.topic, selected.type || undefined, (data: any) => {
+      tracker.record(data);
+      lastMessageRef.current = data;
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [selected]);
+
+  // 定时刷新统计和最新消息（高频话题不逐条触发渲染）
+  useEffect(() => {
+    if (!selected) return;
+
+    const timer = setInterval(() => {
+      setStats(trackerRef.current.getStats());
+      if (!paused) {
+        setLastMessage(lastMessageRef.current);
+      }
+    }, REFRESH_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [selected, paused]);
+
+  const filteredTopics = useMemo(() => {
+    const keyword = filter.trim().toLowerCase();
+    if (!keyword) return topics;
+    return topics.filter(info => info.topic.toLowerCase().includes(keyword) || info.type.toLowerCase().includes(keyword));
+  }, [topics, filter]);
+
+  const handleSelect = (info: TopicInfo) => {
+    setSelected(prev => (prev?.topic === info.topic ? prev : info));
+    setPaused(false);
+    // 发布表单默认填入所选话题和该类型的默认消息
+    setPubTopic(info.topic);
+    setPubType(info.type);
+    setPubBody(JSON.stringify(createDefaultMessage(info.type), null, 2));
+    setPubStatus(null);
+  };
+
+  const handleFillDefault = () => {
+    setPubBody(JSON.stringify(createDefaultMessage(pubType.trim()), null, 2));
+    setPubStatus(null);
+  };
+
+  const handlePublish = () => {
+    const topic = pubTopic.trim();
+    if (!topic) {
+      setPubStatus({ ok: false, text: '请填写话题名称' });
+      return;
+    }
+
+    let message: any;
+    try {
+      message = JSON.parse(pubBody);
+    } catch (error) {
+      setPubStatus({ ok: false, text: `JSON格式错误：${error instanceof Error ? error.message : String(error)}` });
+      return;
+    }
+
+    const arbiterConfig = getCommandArbiterConfig();
+    if (arbiterConfig.velocityTopics.includes(topic)) {
+      setPubStatus({ ok: false, text: `${topic} 是速度话题，只能通过外设或控制面板驾驶（需要死人开关和限速）` });
+      return;
+    }
+
+    const type = pubType.trim() || undefined;
+    const time = new Date().toLocaleTimeString();
+
+    // 指令话题（仲裁限频的话题）经过指令仲裁：单一来源、限频和指令记录
+    if (topic in arbiterConfig.rateLimits) {
+      const messageType = type ?? getTopicType(topic);
+      if (!messageType) {
+        setPubStatus({ ok: false, text: '请填写消息类型' });
+        return;
+      }
+      const result: ArbitrationResult = commandArbiter.submit({
+        type: RobotCommandType.CUSTOM,
+        topic,
+        messageType,
+        payload: message,
+        source: ARBITER_SOURCE,
+      });
+      if (result === 'rejected') {
+        const reason = commandArbiter.getLog().slice(-1)[0]?.reason;
+        setPubStatus({ ok: false, text: `未发布到 ${topic}：${reason ?? '指令仲裁拒绝'}（${time}）` });
+      } else {
+        setPubStatus({ ok: true, text: `已提交到 ${topic}（${time}）` });
+      }
+      return;
+    }
+
+    const result: PublishResult = communicationService.publishTopic(topic, message, type);
+    const statusText: Record<PublishResult, string> = {
+      sent: `已发布到 ${topic}（${time}）`,
+      queued: `未连接，${topic} 的消息已加入离线队列，重连后发送（${time}）`,
+      rejected: `未发布到 ${topic}：急停锁定、控制锁拦截、消息校验失败或离线丢弃，详见控制台（${time}）`,
+    };
+    setPubStatus({ ok: result !== 'rejected', text: statusText[result] });
+  };
+
   return (
     <div className="screen screen-4">
       <div className="screen-header">
-        <h1>屏幕 4 - 预留</h1>
+        <h1>🧭 话题浏览器</h1>
         <div className={`status-indicator ${connected ? 'connected' : 'disconnected'}`}>
-          {connected ? '已连接' : '未连接'}
+          {connected ? '已连接' : '未连接'} | Screen {screenId}
         </div>
       </div>
-      <div className="screen-content">
-        <div className="placeholder">
-          <p>此屏幕预留用于未来功能扩展</p>
+      <div className="screen-content topic-browser">
+        {/* 话题列表 */}
+        <div className="topic-browser-list">
+          <div className="topic-browser-toolbar">
+            <input
+              className="topic-browser-input"
+              placeholder="过滤话题或类型"
+              value={filter}
+              onChange={e => setFilter(e.target.value)}
+            />
+            <button className="topic-browser-btn" onClick={refreshTopics} disabled={loading || !connected}>
+              {loading ? '刷新中...' : '刷新'}
+            </button>
+          </div>
+          {listError && <div className="topic-browser-error">{listError}</div>}
+          <div className="topic-browser-items">
+            {filteredTopics.length === 0 && (
+              <div className="topic-browser-empty">{connected ? '没有话题' : '等待连接...'}</div>
+            )}
+            {filteredTopics.map(info => (
+              <div
+                key={info.topic}
+                className={`topic-browser-item ${selected?.topic === info.topic ? 'active' : ''}`}
+                onClick={() => handleSelect(info)}
+                title={`${info.topic} (${info.type})`}
+              >
+                <div className="topic-name">{info.topic}</div>
+                <div className="topic-type">{info.type || '未知类型'}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* 话题详情 */}
+        <div className="topic-browser-detail">
+          {selected ? (
+            <>
+              <div className="topic-browser-panel">
+                <div className="topic-browser-panel-header">
+                  <div>
+                    <div className="topic-name">{selected.topic}</div>
+                    <div className="topic-type">{selected.type || '未知类型'}</div>
+                  </div>
+                  <div className="topic-browser-actions">
+                    <button className="topic-browser-btn" onClick={() => setPaused(!paused)}>
+                      {paused ? '继续' : '暂停'}
+                    </button>
+                    <button className="topic-browser-btn" onClick={() => setSelected(null)}>
+                      取消订阅
+                    </button>
+                  </div>
+                </div>
+                <div className="topic-browser-stats">
+                  <div>频率 <strong>{stats ? stats.rateHz.toFixed(1) : '0.0'} Hz</strong></div>
+                  <div>带宽 <strong>{formatNetworkSpeed(stats?.bandwidthKbps ?? 0)}</strong></div>
+                  <div>平均大小 <strong>{stats ? Math.round(stats.avgSizeBytes) : 0} B</strong></div>
+                  <div>消息数 <strong>{stats?.count ?? 0}</strong></div>
+                </div>
+              </div>
+              <div className="topic-browser-panel topic-browser-message">
+                {lastMessage === undefined ? (
+                  <div className="topic-browser-empty">等待消息...</div>
+                ) : (
+                  <JsonTree data={lastMessage} />
+                )}
+              </div>
+            </>
+          ) : (
+            <div className="topic-browser-panel topic-browser-empty">点击左侧话题开始订阅</div>
+          )}
+
+          {/* 发布表单 */}
+          <div className="topic-browser-panel topic-browser-publish">
+            <div className="topic-browser-toolbar">
+              <input
+                className="topic-browser-input"
+                placeholder="话题，如 /cmd_vel"
+                value={pubTopic}
+                onChange={e => setPubTopic(e.target.value)}
+              />
+              <input
+                className="topic-browser-input"
+                placeholder="类型，如 geometry_msgs/Twist"
+                value={pubType}
+                onChange={e => setPubType(e.target.value)}
+              />
+              <button className="topic-browser-btn" onClick={handleFillDefault} disabled={!pubType.trim()}>
+                填充默认值
+              </button>
+            </div>
+            <textarea
+              className="topic-browser-textarea"
+              value={pubBody}
+              onChange={e => setPubBody(e.target.value)}
+              spellCheck={false}
+            />
+            <div className="topic-browser-toolbar">
+              <button className="topic-browser-btn primary" onClick={handlePublish} disabled={!connected}>
+                发布
+              </button>
+              {pubStatus && (
+                <span className={pubStatus.ok ? 'topic-browser-ok' : 'topic-browser-error'}>{pubStatus.text}</span>
+              )}
+            </div>
+          </div>
         </div>
       </div>
     </div>
@@ -29,4 +318,3 @@ function Screen4({ screenId }: Screen4Props) {
 }
 
 export default Screen4;
-
@@ -3,7 +3,7 @@
  * 处理音频采集、编码、传输和播放
  */
 
-import websocketService from './websocket';
+import communicationFactory from './communicationFactory';
 
 class AudioStreamService {
   private mediaStream: MediaStream | null = null;
@@ -123,26 +123,29 @@ class AudioStreamService {
    */
   private async sendAudioData(audioBlob: Blob, robotId: string): Promise<void> {
     try {
-      // 将 Blob 转换为 Base64
-      const base64Audio = await this.blobToBase64(audioBlob);
+      const topic = '/robot/audio/stream';
+      const messageType = 'robot_msgs/AudioStream';
+      const service = communicationFactory.getService();
+
+      // 通道支持二进制编码时直接发送字节，否则转换为 Base64
+      const audio = service.getPublishCodec(topic) === 'cbor'
+        ? new Uint8Array(await audioBlob.arrayBuffer())
+        : await this.blobToBase64(audioBlob);
       
-      if (!base64Audio) {
+      if (!audio.length) {
         console.warn('[AudioStream] Empty audio data, skipping');
         return;
       }
       
-      // 通过 WebSocket 发送
-      const topic = '/robot/audio/stream';
-      const messageType = 'robot_msgs/AudioStream';
       const message = {
         robotId,
-        audio: base64Audio,
+        audio,
         timestamp: Date.now(),
         encoding: 'webm/opus',
         sampleRate: 48000,
         channels: 2,
       };
-      websocketService.publishTopic(topic, message, messageType);
+      service.publishTopic(topic, message, messageType);
     } catch (error) {
       console.error('[AudioStream] Failed to send audio data:', error);
     }
@@ -230,7 +233,7 @@ class AudioPlaybackService {
   /**
    * 播放接收到的音频数据
    */
-  async playAudioData(base64Audio: string, encoding: string = 'webm/opus'): Promise<void> {
+  async playAudioData(audioData: string | Uint8Array, encoding: string = 'webm/opus'): Promise<void> {
     if (!this.audioContext) {
       console.log('[AudioPlayback] Initializing audio context...');
       this.initialize();
@@ -238,7 +241,7 @@ class AudioPlaybackService {
 
     try {
       console.log('[AudioPlayback] Processing audio data:', {
-        dataLength: base64Audio.length,
+        dataLength: audioData.length,
         encoding: encoding,
         contextState: this.audioContext?.state
       });
@@ -249,9 +252,11 @@ class AudioPlaybackService {
         await this.audioContext.resume();
       }
 
-      // Base64 转 Blob
+      // 音频数据转 Blob（二进制编码时已是字节，JSON时为 Base64）
       const mimeType = encoding.includes('/') ? `audio/${encoding}` : `audio/${encoding}`;
-      const audioBlob = this.base64ToBlob(base64Audio, mimeType);
+      const audioBlob = typeof audioData === 'string'
+        ? this.base64ToBlob(audioData, mimeType)
+        : new Blob([audioData as BlobPart], { type: mimeType });
       console.log('[AudioPlayback] Created audio blob:', {
         size: audioBlob.size,
         type: audioBlob.type
@@ -0,0 +1,386 @@
+/**
+ * 通信服务基类
+ * 提供事件系统、带引用计数的话题订阅管理和离线发布队列
+ * WebSocket和WebRTC只需实现底层的发送逻辑，并在通道就绪时调用 onTransportReady
+ */
+
+import {
+  ActionGoalHandle,
+  ActionGoalOptions,
+  ActionGoalStatus,
+  ActionResult,
+  ICommunicationService,
+  PublishResult,
+  ServiceCallOptions,
+  SubscribeOptions,
+  TopicCallback,
+  TopicData,
+  TopicSubscription,
+} from './communication.interface';
+import { SubscriptionRegistry } from './subscriptionRegistry';
+import { PendingRequests, createCorrelationId } from './pendingRequests';
+import { PublishQueue } from './publishQueue';
+import { getTopicType, validateMessage } from './messageRegistry';
+import { TopicCodec, getPublishCodec } from './topicCodec';
+import { RosMessageMap, RosMessageType } from '../types/ros.types';
+
+export abstract class BaseCommunicationService implements ICommunicationService {
+  private eventCallbacks: Map<string, Function[]> = new Map();
+
+  // 话题订阅注册表（引用计数）
+  protected readonly subscriptions: SubscriptionRegistry;
+
+  // 断线期间的发布请求（按话题策略缓存）
+  private publishQueue: PublishQueue = new PublishQueue();
+
+  // 未完成的服务调用（requestId -> 响应）
+  private pendingServiceCalls: PendingRequests = new PendingRequests();
+
+  // 未完成的动作目标（goalId -> 结果）及其反馈回调
+  private pendingActionGoals: PendingRequests<ActionResult> = new PendingRequests();
+  private actionFeedbackCallbacks: Map<string, (feedback: any) => void> = new Map();
+
+  // 服务调用默认超时
+  protected defaultServiceTimeoutMs: number = 10000;
+
+  // 对端支持的编码（对端通过capabilities声明，未声明前只使用json）
+  protected remoteCodecs: Set<TopicCodec> = new Set(['json']);
+
+  // 日志前缀，如 [WebSocket]
+  protected abstract readonly logTag: string;
+
+  constructor() {
+    this.subscriptions = new SubscriptionRegistry(
+      (topic) => {
+        if (this.isTransportReady()) {
+          this.sendUnsubscribe(topic);
+        }
+      },
+      (topic, options) => {
+        // 订阅者退订后合并选项变化（如最高频的订阅者离开），更新底层订阅
+        if (this.isTransportReady()) {
+          this.sendSubscribe(topic, this.subscriptions.getType(topic), options);
+        }
+      }
+    );
+  }
+
+  // ========== 连接管理（子类实现） ==========
+
+  abstract connect(): void;
+  abstract disconnect(): void;
+  abstract isConnected(): boolean;
+  abstract registerScreen(screenId: number): void;
+
+  /**
+   * 底层通道是否已就绪，可以收发ROS消息
+   * 与isConnected不同：WebRTC的PeerConnection建立后DataChannel可能尚未打开
+   */
+  isReady(): boolean {
+    return this.isTransportReady();
+  }
+
+  // ========== 底层发送（子类实现） ==========
+
+  /**
+   * 底层通道是否可以发送消息
+   */
+  protected abstract isTransportReady(): boolean;
+
+  /**
+   * 向远端发送订阅请求
+   * 已订阅的话题合并选项变化时会以新选项再次调用，实现需要更新而不是重复订阅
+   */
+  protected abstract sendSubscribe(topic: string, type?: string, options?: SubscribeOptions): void;
+
+  /**
+   * 向远端发送取消订阅请求
+   */
+  protected abstract sendUnsubscribe(topic: string): void;
+
+  /**
+   * 向远端发送发布请求
+   */
+  protected abstract sendPublish(topic: string, message: any, type?: string): void;
+
+  /**
+   * 向远端发送服务调用请求（响应到达后调用 handleServiceResponse）
+   */
+  protected abstract sendServiceCall(
+    requestId: string,
+    service: string,
+    request: any,
+    type: string | undefined,
+    timeoutMs: number
+  ): void;
+
+  /**
+   * 向远端发送动作目标（反馈/结果到达后调用 handleActionFeedback / handleActionResult）
+   */
+  protected abstract sendActionGoalRequest(goalId: string, action: string, actionType: string, goal: any): void;
+
+  /**
+   * 向远端发送取消动作目标请求
+   */
+  protected abstract sendCancelActionGoal(goalId: string, action: string): void;
+
+  // ========== 事件系统 ==========
+
+  on(event: string, callback: Function): void {
+    if (!this.eventCallbacks.has(event)) {
+      this.eventCallbacks.set(event, []);
+    }
+    this.eventCallbacks.get(event)!.push(callback);
+  }
+
+  off(event: string, callback: Function): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      const index = callbacks.indexOf(callback);
+      if (index > -1) {
+        callbacks.splice(index, 1);
+      }
+    }
+  }
+
+  emit(event: string, ...args: any[]): void {
+    const callbacks = this.eventCallbacks.get(event);
+    if (callbacks) {
+      // 复制一份，避免回调中注销监听导致遍历异常
+      callbacks.slice().forEach(cb => {
+        try {
+          cb(...args);
+        } catch (error) {
+          console.error(`${this.logTag} Error in ${event} callback:`, error);
+        }
+      });
+    }
+  }
+
+  // ========== ROS话题操作 ==========
+
+  subscribeTopic<T = any>(topic: string, type?: string, callback?: TopicCallback<T>, options?: SubscribeOptions): TopicSubscription {
+    type = type ?? getTopicType(topic);
+    const { subscription, isFirst, optionsChanged } = this.subscriptions.add<T>(topic, type, callback, options);
+
+    // 未连接时只登记，通道就绪后由 onTransportReady 统一发送
+    if ((isFirst || optionsChanged) && this.isTransportReady()) {
+      this.sendSubscribe(topic, type, this.subscriptions.getOptions(topic));
+    }
+
+    return subscription;
+  }
+
+  unsubscribeTopic(topic: string): void {
+    // 强制取消该话题的全部订阅者
+    const existed = this.subscriptions.removeTopic(topic);
+
+    if (existed && this.isTransportReady()) {
+      this.sendUnsubscribe(topic);
+    }
+  }
+
+  publishTopic(topic: string, message: any, type?: string): PublishResult {
+    // 未指定类型时使用话题的默认类型（不再默认std_msgs/String）
+    const resolvedType = type ?? getTopicType(topic);
+
+    if (resolvedType) {
+      const errors = validateMessage(resolvedType, message);
+      if (errors.length > 0) {
+        console.error(`${this.logTag} Invalid ${resolvedType} message for ${topic}, not published:`, errors);
+        return 'rejected';
+      }
+    }
+
+    // 通知会话录制等监听者（记录调用时刻，与是否立即发出无关）
+    this.emit('topic_publish', { topic, data: message, type: resolvedType, timestamp: Date.now() });
+
+    if (!this.isTransportReady()) {
+      if (!this.publishQueue.enqueue(topic, message, resolvedType)) {
+        console.warn(`${this.logTag} Cannot publish to ${topic}: not connected, dropped`);
+        return 'rejected';
+      }
+      return 'queued';
+    }
+
+    this.sendPublish(topic, message, resolvedType);
+    return 'sent';
+  }
+
+  publish<K extends RosMessageType>(topic: string, type: K, message: RosMessageMap[K]): void {
+    this.publishTopic(topic, message, type);
+  }
+
+  getPublishCodec(topic: string): TopicCodec {
+    return getPublishCodec(topic, this.remoteCodecs);
+  }
+
+  subscribe<K extends RosMessageType>(
+    topic: string,
+    type: K,
+    callback: TopicCallback<RosMessageMap[K]>,
+    options?: SubscribeOptions
+  ): TopicSubscription {
+    return this.subscribeTopic(topic, type, callback, options);
+  }
+
+  // ========== ROS服务与动作 ==========
+
+  callService<TRequest = any, TResponse = any>(
+    name: string,
+    request: TRequest,
+    type?: string,
+    options: ServiceCallOptions = {}
+  ): Promise<TResponse> {
+    if (!this.isTransportReady()) {
+      return Promise.reject(new Error(`Service call ${name} failed: not connected`));
+    }
+
+    const timeoutMs = options.timeoutMs ?? this.defaultServiceTimeoutMs;
+    const requestId = createCorrelationId('srv');
+    const response = this.pendingServiceCalls.create(requestId, `Service call ${name}`, timeoutMs);
+
+    this.sendServiceCall(requestId, name, request, type, timeoutMs);
+    return response;
+  }
+
+  sendActionGoal<TGoal = any, TFeedback = any, TResult = any>(
+    action: string,
+    actionType: string,
+    goal: TGoal,
+    options: ActionGoalOptions<TFeedback> = {}
+  ): ActionGoalHandle<TResult> {
+    const goalId = createCorrelationId('act');
+    // 本端超时后目标仍在机器人上执行，通知对端取消
+    const result = this.pendingActionGoals.create(goalId, `Action ${action}`, options.timeoutMs, () => {
+      if (this.isTransportReady()) {
+        this.sendCancelActionGoal(goalId, action);
+      }
+    }) as Promise<ActionResult<TResult>>;
+    // 结果Promise可能在调用方处理前就失败（如未连接），避免未处理的rejection
+    result.catch(() => {}).finally(() => this.actionFeedbackCallbacks.delete(goalId));
+
+    if (options.onFeedback) {
+      this.actionFeedbackCallbacks.set(goalId, options.onFeedback);
+    }
+
+    if (this.isTransportReady()) {
+      this.sendActionGoalRequest(goalId, action, actionType, goal);
+    } else {
+      this.pendingActionGoals.reject(goalId, 'not connected');
+    }
+
+    return {
+      goalId,
+      action,
+      result,
+      cancel: () => {
+        if (this.pendingActionGoals.has(goalId) && this.isTransportReady()) {
+          this.sendCancelActionGoal(goalId, action);
+        }
+      },
+    };
+  }
+
+  /**
+   * 获取当前订阅的话题列表
+   */
+  getSubscribedTopics(): Array<{ topic: string; type?: string; refCount: number }> {
+    return this.subscriptions.getTopics();
+  }
+
+  // ========== 子类辅助方法 ==========
+
+  /**
+   * 分发收到的话题数据：全局事件、按话题事件、订阅者回调
+   */
+  protected dispatchTopicData(data: TopicData): void {
+    this.emit('topic_data', data);
+    this.emit(`topic:${data.topic}`, data.data);
+    this.subscriptions.dispatch(data);
+  }
+
+  /**
+   * 处理服务响应
+   */
+  protected handleServiceResponse(requestId: string, success: boolean, values: any, error?: string): void {
+    if (success) {
+      this.pendingServiceCalls.resolve(requestId, values);
+    } else {
+      this.pendingServiceCalls.reject(requestId, error || String(values ?? 'unknown error'));
+    }
+  }
+
+  /**
+   * 以指定错误结束服务调用
+   */
+  protected handleServiceError(requestId: string, error: Error): void {
+    this.pendingServiceCalls.fail(requestId, error);
+  }
+
+  /**
+   * 处理动作反馈
+   */
+  protected handleActionFeedback(goalId: string, feedback: any): void {
+    this.actionFeedbackCallbacks.get(goalId)?.(feedback);
+  }
+
+  /**
+   * 处理动作结果
+   */
+  protected handleActionResult(goalId: string, status: ActionGoalStatus | undefined, values: any, success: boolean): void {
+    this.pendingActionGoals.resolve(goalId, {
+      status: status ?? (success ? ActionGoalStatus.SUCCEEDED : ActionGoalStatus.ABORTED),
+      values,
+    });
+  }
+
+  /**
+   * 以指定错误结束动作目标
+   */
+  protected handleActionError(goalId: string, error: Error): void {
+    this.pendingActionGoals.fail(goalId, error);
+  }
+
+  /**
+   * 使所有未完成的服务调用和动作目标失败（子类在连接断开时调用）
+   */
+  protected failPendingRequests(reason: string): void {
+    this.pendingServiceCalls.rejectAll(reason);
+    this.pendingActionGoals.rejectAll(reason);
+  }
+
+  /**
+   * 通道就绪（首次连接或重连）后调用：重新订阅全部话题，补发离线期间的发布
+   */
+  protected onTransportReady(): void {
+    const topics = this.subscriptions.getTopics();
+    topics.forEach(({ topic, type, options }) => this.sendSubscribe(topic, type, options));
+
+    const { items, expired } = this.publishQueue.drain();
+    items.forEach(item => this.sendPublish(item.topic, item.message, item.type));
+
+    if (topics.length > 0 || items.length > 0 || expired > 0) {
+      console.log(
+        `${this.logTag} Restored ${topics.length} subscriptions, replayed ${items.length} queued publishes` +
+          (expired > 0 ? `, discarded ${expired} stale` : '')
+      );
+    }
+
+    this.emit('ready');
+  }
+
+  /**
+   * 记录对端声明支持的编码（json始终可用）
+   */
+  protected setRemoteCodecs(codecs: TopicCodec[] | undefined): void {
+    this.remoteCodecs = new Set<TopicCodec>(['json', ...(codecs ?? [])]);
+  }
+
+  /**
+   * 清空离线发布队列（主动断开连接时调用，避免连接到其他机器人后补发）
+   */
+  protected clearPublishQueue(): void {
+    this.publishQueue.clear();
+  }
+}
@@ -0,0 +1,329 @@
+/**
+ * CBOR编解码（RFC 8949）
+ * 用于高频话题的二进制传输，数值数组按RFC 8746编码为TypedArray（与rosbridge的cbor压缩一致），
+ * 解码时直接得到Float64Array等类型化数组，避免逐元素创建JS对象
+ */
+
+// 主类型
+const MT_UINT = 0;
+const MT_NEGINT = 1;
+const MT_BYTES = 2;
+const MT_TEXT = 3;
+const MT_ARRAY = 4;
+const MT_MAP = 5;
+const MT_TAG = 6;
+const MT_SIMPLE = 7;
+
+type TypedArrayConstructor =
+  | Uint8ArrayConstructor | Uint8ClampedArrayConstructor | Int8ArrayConstructor
+  | Uint16ArrayConstructor | Int16ArrayConstructor
+  | Uint32ArrayConstructor | Int32ArrayConstructor
+  | Float32ArrayConstructor | Float64ArrayConstructor
+  | BigUint64ArrayConstructor | BigInt64ArrayConstructor;
+
+// RFC 8746 类型化数组标签（只列出小端和单字节类型，浏览器和rosbridge均为小端）
+const TYPED_ARRAY_TAGS: Record<number, TypedArrayConstructor> = {
+  64: Uint8Array,
+  68: Uint8ClampedArray,
+  69: Uint16Array,
+  70: Uint32Array,
+  71: BigUint64Array,
+  72: Int8Array,
+  77: Int16Array,
+  78: Int32Array,
+  79: BigInt64Array,
+  85: Float32Array,
+  86: Float64Array,
+};
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+// ========== 编码 ==========
+
+class Writer {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private offset = 0;
+
+  private ensure(size: number): void {
+    if (this.offset + size <= this.buffer.length) return;
+    let length = this.buffer.length * 2;
+    while (length < this.offset + size) length *= 2;
+    const next = new Uint8Array(length);
+    next.set(this.buffer.subarray(0, this.offset));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  writeHead(majorType: number, value: number): void {
+    const major = majorType << 5;
+    if (value < 24) {
+      this.ensure(1);
+      this.buffer[this.offset++] = major | value;
+    } else if (value < 0x100) {
+      this.ensure(2);
+      this.buffer[this.offset++] = major | 24;
+      this.buffer[this.offset++] = value;
+    } else if (value < 0x10000) {
+      this.ensure(3);
+      this.buffer[this.offset++] = major | 25;
+      this.view.setUint16(this.offset, value);
+      this.offset += 2;
+    } else if (value < 0x100000000) {
+      this.ensure(5);
+      this.buffer[this.offset++] = major | 26;
+      this.view.setUint32(this.offset, value);
+      this.offset += 4;
+    } else {
+      this.ensure(9);
+      this.buffer[this.offset++] = major | 27;
+      this.view.setBigUint64(this.offset, BigInt(value));
+      this.offset += 8;
+    }
+  }
+
+  writeFloat64(value: number): void {
+    this.ensure(9);
+    this.buffer[this.offset++] = (MT_SIMPLE << 5) | 27;
+    this.view.setFloat64(this.offset, value);
+    this.offset += 8;
+  }
+
+  writeByte(value: number): void {
+    this.ensure(1);
+    this.buffer[this.offset++] = value;
+  }
+
+  writeBytes(bytes: Uint8Array): void {
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.offset);
+    this.offset += bytes.length;
+  }
+
+  result(): Uint8Array {
+    return this.buffer.slice(0, this.offset);
+  }
+}
+
+function getTypedArrayTag(value: ArrayBufferView): number | null {
+  for (const [tag, ctor] of Object.entries(TYPED_ARRAY_TAGS)) {
+    if (value.constructor === ctor) return Number(tag);
+  }
+  return null;
+}
+
+function encodeItem(writer: Writer, value: any): void {
+  if (value === null) {
+    writer.writeByte((MT_SIMPLE << 5) | 22);
+  } else if (value === undefined) {
+    writer.writeByte((MT_SIMPLE << 5) | 23);
+  } else if (typeof value === 'boolean') {
+    writer.writeByte((MT_SIMPLE << 5) | (value ? 21 : 20));
+  } else if (typeof value === 'number') {
+    if (Number.isSafeInteger(value)) {
+      if (value >= 0) {
+        writer.writeHead(MT_UINT, value);
+      } else {
+        writer.writeHead(MT_NEGINT, -1 - value);
+      }
+    } else {
+      writer.writeFloat64(value);
+    }
+  } else if (typeof value === 'bigint') {
+    encodeItem(writer, Number(value));
+  } else if (typeof value === 'string') {
+    const bytes = textEncoder.encode(value);
+    writer.writeHead(MT_TEXT, bytes.length);
+    writer.writeBytes(bytes);
+  } else if (value instanceof Uint8Array) {
+    writer.writeHead(MT_BYTES, value.length);
+    writer.writeBytes(value);
+  } else if (value instanceof ArrayBuffer) {
+    encodeItem(writer, new Uint8Array(value));
+  } else if (ArrayBuffer.isView(value)) {
+    // 类型化数组按RFC 8746编码：标签 + 字节串
+    const tag = getTypedArrayTag(value);
+    const bytes = new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+    if (tag !== null) {
+      writer.writeHead(MT_TAG, tag);
+    }
+    writer.writeHead(MT_BYTES, bytes.length);
+    writer.writeBytes(bytes);
+  } else if (Array.isArray(value)) {
+    writer.writeHead(MT_ARRAY, value.length);
+    value.forEach(item => encodeItem(writer, item));
+  } else if (typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    writer.writeHead(MT_MAP, entries.length);
+    entries.forEach(([key, item]) => {
+      encodeItem(writer, key);
+      encodeItem(writer, item);
+    });
+  } else {
+    throw new Error(`CBOR: 不支持的数据类型 ${typeof value}`);
+  }
+}
+
+/**
+ * 编码为CBOR
+ */
+export function encodeCbor(value: any): Uint8Array {
+  const writer = new Writer();
+  encodeItem(writer, value);
+  return writer.result();
+}
+
+// ========== 解码 ==========
+
+class Reader {
+  private view: DataView;
+  offset = 0;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  readByte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error('CBOR: 数据不完整');
+    }
+    return this.bytes[this.offset++];
+  }
+
+  readLength(info: number): number {
+    if (info < 24) return info;
+    let value: number;
+    switch (info) {
+      case 24:
+        value = this.view.getUint8(this.offset);
+        this.offset += 1;
+        return value;
+      case 25:
+        value = this.view.getUint16(this.offset);
+        this.offset += 2;
+        return value;
+      case 26:
+        value = this.view.getUint32(this.offset);
+        this.offset += 4;
+        return value;
+      case 27:
+        value = Number(this.view.getBigUint64(this.offset));
+        this.offset += 8;
+        return value;
+      default:
+        throw new Error(`CBOR: 不支持的长度编码 ${info}`);
+    }
+  }
+
+  readFloat(info: number): number {
+    let value: number;
+    if (info === 25) {
+      value = decodeFloat16(this.view.getUint16(this.offset));
+      this.offset += 2;
+    } else if (info === 26) {
+      value = this.view.getFloat32(this.offset);
+      this.offset += 4;
+    } else {
+      value = this.view.getFloat64(this.offset);
+      this.offset += 8;
+    }
+    return value;
+  }
+
+  readBytes(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('CBOR: 数据不完整');
+    }
+    const bytes = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+}
+
+function decodeFloat16(half: number): number {
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * Math.pow(2, -14) * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * Math.pow(2, exponent - 15) * (1 + fraction / 1024);
+}
+
+function toTypedArray(ctor: TypedArrayConstructor, bytes: Uint8Array): ArrayBufferView {
+  const elementSize = ctor.BYTES_PER_ELEMENT;
+  // 未对齐时复制一份，否则直接共享底层缓冲区
+  if (bytes.byteOffset % elementSize !== 0) {
+    bytes = bytes.slice();
+  }
+  return new ctor(bytes.buffer as ArrayBuffer, bytes.byteOffset, bytes.byteLength / elementSize);
+}
+
+function decodeItem(reader: Reader): any {
+  const initial = reader.readByte();
+  const majorType = initial >> 5;
+  const info = initial & 0x1f;
+
+  if (info === 31 && majorType !== MT_SIMPLE) {
+    throw new Error('CBOR: 不支持不定长编码');
+  }
+
+  switch (majorType) {
+    case MT_UINT:
+      return reader.readLength(info);
+    case MT_NEGINT:
+      return -1 - reader.readLength(info);
+    case MT_BYTES:
+      return reader.readBytes(reader.readLength(info));
+    case MT_TEXT:
+      return textDecoder.decode(reader.readBytes(reader.readLength(info)));
+    case MT_ARRAY: {
+      const length = reader.readLength(info);
+      const items = new Array(length);
+      for (let i = 0; i < length; i++) {
+        items[i] = decodeItem(reader);
+      }
+      return items;
+    }
+    case MT_MAP: {
+      const length = reader.readLength(info);
+      const result: Record<string, any> = {};
+      for (let i = 0; i < length; i++) {
+        const key = decodeItem(reader);
+        result[String(key)] = decodeItem(reader);
+      }
+      return result;
+    }
+    case MT_TAG: {
+      const tag = reader.readLength(info);
+      const content = decodeItem(reader);
+      const ctor = TYPED_ARRAY_TAGS[tag];
+      if (ctor && content instanceof Uint8Array) {
+        return toTypedArray(ctor, content);
+      }
+      // 其他标签（如时间戳）直接返回内容
+      return content;
+    }
+    case MT_SIMPLE:
+      switch (info) {
+        case 20: return false;
+        case 21: return true;
+        case 22: return null;
+        case 23: return undefined;
+        case 25:
+        case 26:
+        case 27:
+          return reader.readFloat(info);
+        default:
+          throw new Error(`CBOR: 不支持的简单值 ${info}`);
+      }
+  }
+}
+
+/**
+ * 解码CBOR数据
+ */
+export function decodeCbor(data: ArrayBuffer | Uint8Array): any {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  return decodeItem(new Reader(bytes));
+}
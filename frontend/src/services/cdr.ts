@@ -0,0 +1,288 @@
+/**
+ * ROS 2 CDR消息解码
+ * 根据ros2msg格式的消息定义（rosbag2写入MCAP schema的格式）解析CDR序列化数据
+ * 支持基本类型、字符串、定长/变长/有界数组和嵌套消息；数值数组解码为TypedArray，与CBOR解码结果一致
+ */
+
+interface FieldSpec {
+  name: string;
+  type: string;          // 基本类型名或规范化后的消息类型（pkg/Type）
+  isArray: boolean;
+  arrayLength?: number;  // 定长数组长度
+}
+
+type MessageSpec = FieldSpec[];
+
+// 基本类型的字节数
+const PRIMITIVE_SIZES: Record<string, number> = {
+  bool: 1,
+  byte: 1,
+  char: 1,
+  int8: 1,
+  uint8: 1,
+  int16: 2,
+  uint16: 2,
+  int32: 4,
+  uint32: 4,
+  int64: 8,
+  uint64: 8,
+  float32: 4,
+  float64: 8,
+};
+
+// 数值数组对应的TypedArray（int64/uint64按普通数组解码为number）
+const TYPED_ARRAYS: Record<string, any> = {
+  byte: Uint8Array,
+  char: Uint8Array,
+  int8: Int8Array,
+  uint8: Uint8Array,
+  int16: Int16Array,
+  uint16: Uint16Array,
+  int32: Int32Array,
+  uint32: Uint32Array,
+  float32: Float32Array,
+  float64: Float64Array,
+};
+
+// 内置消息类型（部分rosbag2导出的定义中不包含）
+const BUILTIN_DEFINITIONS: Record<string, string> = {
+  'builtin_interfaces/Time': 'int32 sec\nuint32 nanosec',
+  'builtin_interfaces/Duration': 'int32 sec\nuint32 nanosec',
+};
+
+/**
+ * 规范化消息类型名：sensor_msgs/msg/JointState → sensor_msgs/JointState
+ */
+export function normalizeMessageType(type: string): string {
+  return type.replace('/msg/', '/');
+}
+
+const isPrimitive = (type: string) => type in PRIMITIVE_SIZES || type === 'string' || type === 'wstring';
+
+/**
+ * 解析单个消息定义
+ */
+function parseMessageDefinition(text: string, ownPackage: string): MessageSpec {
+  const fields: MessageSpec = [];
+
+  text.split('\n').forEach(rawLine => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) return;
+
+    const match = line.match(/^(\S+)\s+([A-Za-z_][A-Za-z0-9_]*)(\s*=.*|\s+.*)?$/);
+    if (!match) {
+      console.warn(`[CDR] Unrecognized definition line: ${rawLine}`);
+      return;
+    }
+
+    const [, typeToken, name, rest] = match;
+    // 常量（TYPE NAME=VALUE）不参与序列化；字段默认值忽略
+    if (rest && rest.trim().startsWith('=')) return;
+
+    const arrayMatch = typeToken.match(/^(.*?)\[(<=)?(\d*)\]$/);
+    let baseType = arrayMatch ? arrayMatch[1] : typeToken;
+    const isArray = !!arrayMatch;
+    // 有界数组（T[<=N]）按变长数组序列化
+    const arrayLength = arrayMatch && !arrayMatch[2] && arrayMatch[3] ? parseInt(arrayMatch[3], 10) : undefined;
+
+    // 有界字符串 string<=N
+    baseType = baseType.replace(/<=\d+$/, '');
+
+    if (!isPrimitive(baseType)) {
+      if (baseType === 'Header') {
+        baseType = 'std_msgs/Header';
+      } else if (!baseType.includes('/')) {
+        baseType = `${ownPackage}/${baseType}`;
+      }
+      baseType = normalizeMessageType(baseType);
+    }
+
+    fields.push({ name, type: baseType, isArray, arrayLength });
+  });
+
+  return fields;
+}
+
+/**
+ * 解析rosbag2格式的完整定义（主消息 + 以 "MSG: pkg/Type" 分隔的依赖消息）
+ */
+export function parseRos2MsgDefinitions(rootType: string, text: string): Map<string, MessageSpec> {
+  const specs: Map<string, MessageSpec> = new Map();
+  const sections = text.split(/\n=+\n/);
+
+  sections.forEach((section, index) => {
+    let type = normalizeMessageType(rootType);
+    let body = section;
+    if (index > 0) {
+      const header = section.match(/^\s*MSG:\s*(\S+)\s*\n?/);
+      if (!header) return;
+      type = normalizeMessageType(header[1]);
+      body = section.slice(header[0].length);
+    }
+    specs.set(type, parseMessageDefinition(body, type.split('/')[0]));
+  });
+
+  Object.entries(BUILTIN_DEFINITIONS).forEach(([type, definition]) => {
+    if (!specs.has(type)) {
+      specs.set(type, parseMessageDefinition(definition, type.split('/')[0]));
+    }
+  });
+
+  return specs;
+}
+
+/**
+ * CDR读取器（对齐相对于4字节封装头之后的位置）
+ */
+class CdrReader {
+  private view: DataView;
+  private bytes: Uint8Array;
+  private offset: number = 4;
+  private littleEndian: boolean;
+  private textDecoder = new TextDecoder();
+
+  constructor(bytes: Uint8Array) {
+    if (bytes.byteLength < 4) {
+      throw new Error('CDR: data too short');
+    }
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    // 封装头第二个字节：0x00 CDR_BE，0x01 CDR_LE（XCDR2的0x06/0x07同样按最低位判断字节序）
+    this.littleEndian = (bytes[1] & 0x01) === 1;
+  }
+
+  private align(size: number): void {
+    const alignment = Math.min(size, 8);
+    const relative = this.offset - 4;
+    const remainder = relative % alignment;
+    if (remainder !== 0) {
+      this.offset += alignment - remainder;
+    }
+  }
+
+  private ensure(size: number): void {
+    if (this.offset + size > this.bytes.byteLength) {
+      throw new Error('CDR: unexpected end of data');
+    }
+  }
+
+  primitive(type: string): any {
+    const size = PRIMITIVE_SIZES[type];
+    this.align(size);
+    this.ensure(size);
+    const offset = this.offset;
+    this.offset += size;
+
+    switch (type) {
+      case 'bool': return this.view.getUint8(offset) !== 0;
+      case 'byte':
+      case 'char':
+      case 'uint8': return this.view.getUint8(offset);
+      case 'int8': return this.view.getInt8(offset);
+      case 'int16': return this.view.getInt16(offset, this.littleEndian);
+      case 'uint16': return this.view.getUint16(offset, this.littleEndian);
+      case 'int32': return this.view.getInt32(offset, this.littleEndian);
+      case 'uint32': return this.view.getUint32(offset, this.littleEndian);
+      case 'int64': return Number(this.view.getBigInt64(offset, this.littleEndian));
+      case 'uint64': return Number(this.view.getBigUint64(offset, this.littleEndian));
+      case 'float32': return this.view.getFloat32(offset, this.littleEndian);
+      case 'float64': return this.view.getFloat64(offset, this.littleEndian);
+      default: throw new Error(`CDR: unknown primitive ${type}`);
+    }
+  }
+
+  uint32(): number {
+    return this.primitive('uint32');
+  }
+
+  string(): string {
+    const length = this.uint32();
+    this.ensure(length);
+    // 长度包含结尾的\0
+    const text = this.textDecoder.decode(this.bytes.subarray(this.offset, this.offset + Math.max(0, length - 1)));
+    this.offset += length;
+    return text;
+  }
+
+  wstring(): string {
+    // 按UTF-32字符序列解析
+    const length = this.uint32();
+    let text = '';
+    for (let i = 0; i < length; i++) {
+      text += String.fromCodePoint(this.primitive('uint32'));
+    }
+    return text;
+  }
+
+  /**
+   * 数值数组：小端且对齐时整段复制为TypedArray，否则逐个读取
+   */
+  typedArray(type: string, length: number): ArrayLike<number> {
+    const Ctor = TYPED_ARRAYS[type];
+    const size = PRIMITIVE_SIZES[type];
+    if (length === 0) return new Ctor(0);
+
+    this.align(size);
+    this.ensure(size * length);
+
+    if (this.littleEndian || size === 1) {
+      // 复制一份，保证TypedArray的起始地址对齐
+      const copy = this.bytes.slice(this.offset, this.offset + size * length);
+      this.offset += size * length;
+      return new Ctor(copy.buffer);
+    }
+
+    const result = new Ctor(length);
+    for (let i = 0; i < length; i++) {
+      result[i] = this.primitive(type);
+    }
+    return result;
+  }
+}
+
+/**
+ * 创建指定类型的CDR解码函数
+ * @param type 消息类型（pkg/msg/Type 或 pkg/Type）
+ * @param definition ros2msg格式的消息定义（含依赖）
+ */
+export function createCdrDecoder(type: string, definition: string): (data: Uint8Array) => any {
+  const specs = parseRos2MsgDefinitions(type, definition);
+  const rootType = normalizeMessageType(type);
+
+  const readValue = (reader: CdrReader, fieldType: string): any => {
+    if (fieldType === 'string') return reader.string();
+    if (fieldType === 'wstring') return reader.wstring();
+    if (fieldType in PRIMITIVE_SIZES) return reader.primitive(fieldType);
+    return readMessage(reader, fieldType);
+  };
+
+  const readMessage = (reader: CdrReader, messageType: string): any => {
+    const spec = specs.get(messageType);
+    if (!spec) {
+      throw new Error(`CDR: missing definition for ${messageType}`);
+    }
+
+    const message: Record<string, any> = {};
+    spec.forEach(field => {
+      if (!field.isArray) {
+        message[field.name] = readValue(reader, field.type);
+        return;
+      }
+
+      const length = field.arrayLength ?? reader.uint32();
+      if (field.type in TYPED_ARRAYS) {
+        message[field.name] = reader.typedArray(field.type, length);
+        return;
+      }
+
+      const items = new Array(length);
+      for (let i = 0; i < length; i++) {
+        items[i] = readValue(reader, field.type);
+      }
+      message[field.name] = items;
+    });
+    return message;
+  };
+
+  return (data: Uint8Array) => readMessage(new CdrReader(data), rootType);
+}
@@ -0,0 +1,274 @@
+/**
+ * 指令仲裁
+ * 屏幕按钮、手柄、键盘等来源的机器人指令统一经仲裁后再发送：
+ * - 速度话题同一时间只允许一个来源控制：来源发出非零速度即获得控制权，发出停止或超时无指令后释放；
+ *   其他来源只有优先级更高时才能接管，优先级相同或更低的指令被拒绝（避免误触的键盘和摇杆互相抢控制）
+ * - 按话题限频：速度指令合并为最新一条在间隔到期时发送，停止指令立即发送；其他话题在间隔内只接受更高优先级的指令
+ * - 不低于overridePriority的指令（安全停车）不受互斥和限频约束
+ * - 记录每条指令的来源和仲裁结果（通信层拒绝发送时记为拒绝）
+ */
+
+import { RobotCommand, RobotCommandType } from '../types/peripheral.types';
+import communicationFactory from './communicationFactory';
+
+export interface CommandArbiterConfig {
+  velocityTopics: string[];              // 只允许单一来源控制的速度话题
+  leaseTimeoutMs: number;                // 控制来源超过该时长无指令（或续约）时释放控制权
+  overridePriority: number;              // 不低于该优先级的指令不受互斥和限频约束
+  rateLimits: Record<string, number>;    // 话题 → 最小发送间隔（ms）
+  maxLogEntries: number;
+}
+
+export type ArbitrationResult = 'sent' | 'coalesced' | 'rejected';
+
+export interface CommandLogEntry {
+  timestamp: number;
+  source: string;
+  topic: string;
+  type: RobotCommandType;
+  priority: number;
+  result: ArbitrationResult;
+  reason?: string;
+}
+
+export interface VelocityOwner {
+  source: string;
+  priority: number;
+  since: number;
+  lastCommandAt: number;
+}
+
+const DEFAULT_CONFIG: CommandArbiterConfig = {
+  velocityTopics: ['/cmd_vel'],
+  leaseTimeoutMs: 1000,
+  overridePriority: 10,
+  rateLimits: {
+    '/cmd_vel': 50,
+    '/robot/action': 250,
+    '/robot/commands': 200,
+  },
+  maxLogEntries: 200,
+};
+
+// 未指定优先级的指令
+const DEFAULT_PRIORITY = 5;
+
+let config: CommandArbiterConfig = { ...DEFAULT_CONFIG };
+
+/**
+ * 修改仲裁配置（未指定的字段保持不变）
+ */
+export function setCommandArbiterConfig(partial: Partial<CommandArbiterConfig>): void {
+  config = { ...config, ...partial };
+}
+
+export function getCommandArbiterConfig(): CommandArbiterConfig {
+  return { ...config, rateLimits: { ...config.rateLimits } };
+}
+
+function isMoving(payload: any): boolean {
+  const linear = payload?.linear;
+  const angular = payload?.angular;
+  if (!linear || !angular) return false;
+  return [linear.x, linear.y, linear.z, angular.x, angular.y, angular.z].some(value => Math.abs(value ?? 0) > 1e-6);
+}
+
+class CommandArbiter {
+  private owners: Map<string, VelocityOwner> = new Map();
+  // 话题 → 最近一次发送的时间和优先级
+  private lastSent: Map<string, { at: number; priority: number }> = new Map();
+  // 限频期间合并的速度指令（话题 → 最新一条）
+  private pending: Map<string, { command: RobotCommand; timer: ReturnType<typeof setTimeout> }> = new Map();
+  private log: CommandLogEntry[] = [];
+  private logListeners: Set<(entry: CommandLogEntry) => void> = new Set();
+  // 最近一次拒绝的原因（话题 → 来源+原因），相同原因不重复打印
+  private lastRejection: Map<string, string> = new Map();
+
+  /**
+   * 提交指令
+   * @returns sent：已发送；coalesced：限频中，稍后发送最新一条；rejected：被拒绝
+   */
+  submit(command: RobotCommand): ArbitrationResult {
+    const source = command.source ?? 'unknown';
+    const priority = command.priority ?? DEFAULT_PRIORITY;
+    const override = priority >= config.overridePriority;
+    const now = Date.now();
+
+    if (config.velocityTopics.includes(command.topic)) {
+      return this.submitVelocity(command, source, priority, override, now);
+    }
+
+    const interval = config.rateLimits[command.topic] ?? 0;
+    const last = this.lastSent.get(command.topic);
+    if (!override && last && now - last.at < interval && priority <= last.priority) {
+      return this.reject(command, source, priority, '发送过于频繁');
+    }
+
+    return this.send(command, source, priority);
+  }
+
+  /**
+   * 续约控制权（来源仍在控制但指令未变化时，如摇杆保持不动）
+   */
+  renew(source: string): void {
+    const now = Date.now();
+    this.owners.forEach(owner => {
+      if (owner.source === source) {
+        owner.lastCommandAt = now;
+      }
+    });
+  }
+
+  /**
+   * 主动释放来源持有的控制权（如外设控制器卸载）
+   */
+  release(source: string): void {
+    this.owners.forEach((owner, topic) => {
+      if (owner.source === source) {
+        this.owners.delete(topic);
+        this.clearPending(topic);
+      }
+    });
+  }
+
+  /**
+   * 当前控制速度话题的来源
+   */
+  getActiveSource(topic: string = config.velocityTopics[0]): string | null {
+    return this.getOwner(topic, Date.now())?.source ?? null;
+  }
+
+  /**
+   * 获取指令记录（最新的在最后）
+   */
+  getLog(): CommandLogEntry[] {
+    return [...this.log];
+  }
+
+  /**
+   * 监听指令记录
+   * @returns 取消监听的函数
+   */
+  onLog(callback: (entry: CommandLogEntry) => void): () => void {
+    this.logListeners.add(callback);
+    return () => {
+      this.logListeners.delete(callback);
+    };
+  }
+
+  // ========== 私有方法 ==========
+
+  private submitVelocity(command: RobotCommand, source: string, priority: number, override: boolean, now: number): ArbitrationResult {
+    const topic = command.topic;
+    const moving = isMoving(command.payload);
+    const owner = this.getOwner(topic, now);
+
+    if (owner && owner.source !== source && !override) {
+      if (priority <= owner.priority) {
+        return this.reject(command, source, priority, `${owner.source} 正在控制`);
+      }
+      console.log(`[CommandArbiter] ${source} 接管 ${topic}（优先级 ${priority} > ${owner.priority}，原控制来源 ${owner.source}）`);
+    }
+
+    if (moving) {
+      const since = owner?.source === source ? owner.since : now;
+      this.owners.set(topic, { source, priority, since, lastCommandAt: now });
+    } else {
+      this.owners.delete(topic);
+    }
+
+    // 停止和安全指令立即发送，丢弃尚未发送的合并指令
+    const interval = config.rateLimits[topic] ?? 0;
+    const last = this.lastSent.get(topic);
+    if (moving && !override && last && now - last.at < interval) {
+      this.clearPending(topic);
+      const timer = setTimeout(() => {
+        const pending = this.pending.get(topic);
+        this.pending.delete(topic);
+        if (pending && this.getOwner(topic, Date.now())?.source === source) {
+          this.send(pending.command, source, priority);
+        }
+      }, interval - (now - last.at));
+      this.pending.set(topic, { command, timer });
+      this.record(command, source, priority, 'coalesced');
+      return 'coalesced';
+    }
+
+    this.clearPending(topic);
+    return this.send(command, source, priority);
+  }
+
+  /**
+   * 获取速度话题的控制来源（超时的控制权自动释放）
+   */
+  private getOwner(topic: string, now: number): VelocityOwner | null {
+    const owner = this.owners.get(topic);
+    if (!owner) return null;
+
+    if (now - owner.lastCommandAt > config.leaseTimeoutMs) {
+      console.log(`[CommandArbiter] ${owner.source} 对 ${topic} 的控制权超时释放`);
+      this.owners.delete(topic);
+      return null;
+    }
+    return owner;
+  }
+
+  private clearPending(topic: string): void {
+    const pending = this.pending.get(topic);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pending.delete(topic);
+    }
+  }
+
+  private send(command: RobotCommand, source: string, priority: number): ArbitrationResult {
+    const result = communicationFactory.getService().publishTopic(command.topic, command.payload, command.messageType);
+    if (result === 'rejected') {
+      return this.reject(command, source, priority, '通信层拒绝发送（急停锁定、控制锁、消息校验失败或离线丢弃）');
+    }
+
+    this.lastSent.set(command.topic, { at: Date.now(), priority });
+    this.lastRejection.delete(command.topic);
+    this.record(command, source, priority, 'sent');
+    return 'sent';
+  }
+
+  private reject(command: RobotCommand, source: string, priority: number, reason: string): ArbitrationResult {
+    const key = `${source}:${reason}`;
+    if (this.lastRejection.get(command.topic) !== key) {
+      this.lastRejection.set(command.topic, key);
+      console.warn(`[CommandArbiter] 拒绝 ${source} 发往 ${command.topic} 的指令：${reason}`);
+    }
+    this.record(command, source, priority, 'rejected', reason);
+    return 'rejected';
+  }
+
+  private record(command: RobotCommand, source: string, priority: number, result: ArbitrationResult, reason?: string): void {
+    const entry: CommandLogEntry = {
+      timestamp: Date.now(),
+      source,
+      topic: command.topic,
+      type: command.type,
+      priority,
+      result,
+      reason,
+    };
+
+    this.log.push(entry);
+    if (this.log.length > config.maxLogEntries) {
+      this.log.shift();
+    }
+
+    this.logListeners.forEach(listener => {
+      try {
+        listener(entry);
+      } catch (error) {
+        console.error('[CommandArbiter] Error in log listener:', error);
+      }
+    });
+  }
+}
+
+// 导出单例
+const commandArbiter = new CommandArbiter();
+export default commandArbiter;
@@ -1,8 +1,12 @@
+import { RosMessageMap, RosMessageType } from '../types/ros.types';
+
 /**
  * 通信服务统一接口
  * WebSocket和WebRTC都必须实现这个接口，保证应用层API一致性
  */
 
+import type { TopicCodec } from './topicCodec';
+
 export interface ICommunicationService {
   // ========== 连接管理 ==========
   /**
@@ -20,10 +24,15 @@ export interface ICommunicationService {
    */
   isConnected(): boolean;
 
+  /**
+   * 底层通道是否已就绪，可以收发ROS消息（就绪时触发 ready 事件）
+   */
+  isReady(): boolean;
+
   // ========== 事件系统 ==========
   /**
    * 注册事件监听器
-   * @param event 事件名称 (connected, disconnected, topic_data, error等)
+   * @param event 事件名称 (connected, disconnected, ready, topic_data, topic_publish, error等)
    * @param callback 回调函数
    */
   on(event: string, callback: Function): void;
@@ -45,24 +54,91 @@ export interface ICommunicationService {
   // ========== ROS话题操作 ==========
   /**
    * 订阅ROS话题
+   * 同一话题可被多个订阅者订阅（引用计数），最后一个订阅者退订时才取消底层订阅
    * @param topic 话题名称 (如 /robot/status)
    * @param type 消息类型 (可选)
+   * @param callback 该订阅者专属的数据回调 (可选)
+   * @param options 订阅选项 (可选)：节流、队列长度、只保留最新；多个订阅者的选项合并后下发
+   * @returns 订阅句柄，调用 unsubscribe() 只释放本订阅者
    */
-  subscribeTopic(topic: string, type?: string): void;
+  subscribeTopic<T = any>(topic: string, type?: string, callback?: TopicCallback<T>, options?: SubscribeOptions): TopicSubscription;
 
   /**
-   * 取消订阅ROS话题
+   * 强制取消ROS话题的全部订阅者
+   * 组件卸载时应使用订阅句柄的 unsubscribe()，避免影响其他订阅者
    * @param topic 话题名称
    */
   unsubscribeTopic(topic: string): void;
 
   /**
    * 发布消息到ROS话题
+   * 未指定类型时使用话题注册的默认类型；已注册类型的消息会在发送前校验
    * @param topic 话题名称
    * @param message 消息内容
    * @param type 消息类型 (可选)
+   * @returns sent：已发出；queued：未连接，已进入离线队列；rejected：未发送（校验失败、急停锁定、控制锁拦截或离线丢弃）
+   */
+  publishTopic(topic: string, message: any, type?: string): PublishResult;
+
+  /**
+   * 当前通道发布该话题时实际使用的编码（对端不支持二进制编码时为json）
+   * 发布方可据此决定二进制字段直接传字节还是转成Base64
+   * @param topic 话题名称
+   */
+  getPublishCodec(topic: string): TopicCodec;
+
+  /**
+   * 发布类型化消息（编译期检查消息结构，发布前做运行时校验）
+   * @param topic 话题名称
+   * @param type 已注册的消息类型
+   * @param message 消息内容
+   */
+  publish<K extends RosMessageType>(topic: string, type: K, message: RosMessageMap[K]): void;
+
+  /**
+   * 订阅类型化消息
+   * @param topic 话题名称
+   * @param type 已注册的消息类型
+   * @param callback 数据回调（消息已按类型标注）
+   * @param options 订阅选项 (可选)
    */
-  publishTopic(topic: string, message: any, type?: string): void;
+  subscribe<K extends RosMessageType>(
+    topic: string,
+    type: K,
+    callback: TopicCallback<RosMessageMap[K]>,
+    options?: SubscribeOptions
+  ): TopicSubscription;
+
+  // ========== ROS服务与动作 ==========
+  /**
+   * 调用ROS服务
+   * @param name 服务名称 (如 /rosapi/topics)
+   * @param request 请求内容
+   * @param type 服务类型 (可选)
+   * @param options 超时等选项
+   * @returns 服务响应内容，超时/失败/断开时reject
+   */
+  callService<TRequest = any, TResponse = any>(
+    name: string,
+    request: TRequest,
+    type?: string,
+    options?: ServiceCallOptions
+  ): Promise<TResponse>;
+
+  /**
+   * 发送ROS2动作目标
+   * @param action 动作名称 (如 /dock_robot)
+   * @param actionType 动作类型 (如 nav2_msgs/action/DockRobot)
+   * @param goal 目标内容
+   * @param options 反馈回调、超时等选项
+   * @returns 目标句柄（结果Promise、取消方法）
+   */
+  sendActionGoal<TGoal = any, TFeedback = any, TResult = any>(
+    action: string,
+    actionType: string,
+    goal: TGoal,
+    options?: ActionGoalOptions<TFeedback>
+  ): ActionGoalHandle<TResult>;
 
   // ========== 屏幕管理 ==========
   /**
@@ -87,12 +163,99 @@ export interface ICommunicationService {
 /**
  * 话题数据接口
  */
-export interface TopicData {
+/**
+ * 发布结果
+ */
+export type PublishResult = 'sent' | 'queued' | 'rejected';
+
+export interface TopicData<T = any> {
   topic: string;
-  data: any;
+  data: T;
   timestamp: number;
 }
 
+/**
+ * 话题订阅回调
+ * @param data 消息内容
+ * @param meta 完整的话题数据（含话题名和时间戳）
+ */
+export type TopicCallback<T = any> = (data: T, meta: TopicData<T>) => void;
+
+/**
+ * 话题订阅选项（对应rosbridge的throttle_rate和queue_length）
+ */
+export interface SubscribeOptions {
+  throttleMs?: number;    // 两条消息的最小间隔，0或不指定表示不节流
+  queueLength?: number;   // 节流期间缓存的消息数，不指定时使用rosbridge默认值
+  latestOnly?: boolean;   // 只需要最新一条（等同于queueLength为1）
+}
+
+/**
+ * 话题订阅句柄
+ */
+export interface TopicSubscription {
+  readonly topic: string;
+  readonly type?: string;
+  readonly options: SubscribeOptions;
+  readonly active: boolean;
+  /**
+   * 释放本订阅者（不影响同一话题的其他订阅者）
+   */
+  unsubscribe(): void;
+}
+
+/**
+ * 服务调用选项
+ */
+export interface ServiceCallOptions {
+  timeoutMs?: number;   // 超时时间，默认10秒
+}
+
+/**
+ * 动作目标选项
+ */
+export interface ActionGoalOptions<TFeedback = any> {
+  onFeedback?: (feedback: TFeedback) => void;
+  timeoutMs?: number;   // 等待结果的超时时间，默认不超时
+}
+
+/**
+ * 动作目标状态（action_msgs/GoalStatus）
+ */
+export enum ActionGoalStatus {
+  UNKNOWN = 0,
+  ACCEPTED = 1,
+  EXECUTING = 2,
+  CANCELING = 3,
+  SUCCEEDED = 4,
+  CANCELED = 5,
+  ABORTED = 6,
+}
+
+/**
+ * 动作执行结果
+ */
+export interface ActionResult<TResult = any> {
+  status: ActionGoalStatus;
+  values: TResult;
+}
+
+/**
+ * 动作目标句柄
+ */
+export interface ActionGoalHandle<TResult = any> {
+  readonly goalId: string;
+  readonly action: string;
+  /**
+   * 动作结束时resolve（含成功、取消、中止），超时或连接断开时reject
+   */
+  readonly result: Promise<ActionResult<TResult>>;
+  /**
+   * 取消目标
+   */
+  cancel(): void;
+}
+
 /**
  * WebRTC配置接口
  */
@@ -102,3 +265,17 @@ export interface WebRTCConfig {
   robotId?: string;
 }
 
+/**
+ * WebRTC链路统计（从RTCStatsReport提取，计数器为累计值）
+ */
+export interface WebRTCLinkStats {
+  timestamp: number;
+  rttMs: number | null;                 // 当前候选对的往返时延
+  jitterMs: number | null;              // 接收流的抖动（取最大值）
+  packetsReceived: number;              // 接收包数（累计）
+  packetsLost: number;                  // 丢包数（累计）
+  bytesSent: number;                    // 发送字节数（累计）
+  availableOutgoingBitrate: number | null;
+  dataChannelBufferedAmount: number;    // DataChannel待发送字节数
+}
+
@@ -2,27 +2,67 @@
  * 通信服务工厂
  * 支持运行时动态切换通信方式（WebSocket/WebRTC）
  * 根据机器人配置自动选择最佳通信方式
+ * WebRTC重连失败时自动降级到WebSocket，并在后台探测WebRTC，恢复后自动切回
+ * 回放模式下由回放服务代替真实连接提供数据，退出回放后恢复原来的通信方式
+ * 模拟模式下由本地模拟机器人提供数据（机器人配置transport为simulator，或环境变量指定）
  */
 
-import { ICommunicationService } from './communication.interface';
+import { ICommunicationService, WebRTCConfig } from './communication.interface';
+import { BaseCommunicationService } from './baseCommunication';
+import { CommunicationProxy } from './communicationProxy';
 import websocketService from './websocket';
 import webrtcService from './webrtc';
-// TODO: 启用完整连接流程时需要取消下方导入的注释
-// import type { RobotConfig, WebRTCConfig } from './communication.interface';
-// import { RobotConfig, getRobotConfig, fetchRobotConfigFromCloud } from '../config/robots';
+import replayService from './replay';
+import simulatorService from './simulator';
+import { ReplayRecording } from './replaySource';
+import { CloudRobotConfig, fetchRobotConfig, registerRobotToBackend } from './robotApi';
+import { RobotConfig, getRobotConfig } from '../config/robots';
 
-export type CommunicationMode = 'websocket' | 'webrtc';
+export type CommunicationMode = 'websocket' | 'webrtc' | 'replay' | 'simulator';
+
+/**
+ * 通信方式切换记录（故障转移/恢复）
+ */
+export interface TransportChange {
+  timestamp: number;
+  from: CommunicationMode;
+  to: CommunicationMode;
+  reason: string;
+}
+
+// 降级后探测WebRTC的间隔
+const WEBRTC_PROBE_INTERVAL_MS = 30000;
+// 保留的切换记录条数
+const MAX_TRANSPORT_HISTORY = 20;
 
 class CommunicationFactory {
   private currentMode: CommunicationMode = 'websocket';
-  private currentService: ICommunicationService = websocketService;
+  // 机器人配置选择的通信方式（降级期间与currentMode不同）
+  private preferredMode: CommunicationMode = 'websocket';
+  private transportHistory: TransportChange[] = [];
+  private probeTimer: ReturnType<typeof setTimeout> | null = null;
   private currentRobotId: string | null = null;
+  private currentRobotConfig: RobotConfig | CloudRobotConfig | null = null;
+  // 进入回放前使用的通信方式
+  private modeBeforeReplay: CommunicationMode | null = null;
+
+  // 应用层统一使用的服务：转发到当前模式的底层服务
+  private proxy: CommunicationProxy = new CommunicationProxy(websocketService);
+
+  // 每次连接递增，丢弃过期的异步连接结果（快速切换机器人时）
+  private connectSeq: number = 0;
+
+  constructor() {
+    webrtcService.on('failed', () => this.handleWebRTCFailed());
+    webrtcService.on('ready', () => this.handleWebRTCReady());
+  }
 
   /**
    * 获取当前使用的通信服务
+   * 返回的实例在切换机器人或通信方式时保持不变
    */
   getService(): ICommunicationService {
-    return this.currentService;
+    return this.proxy;
   }
 
   /**
@@ -32,6 +72,34 @@ class CommunicationFactory {
     return this.currentMode;
   }
 
+  /**
+   * 获取机器人配置选择的通信方式
+   */
+  getPreferredMode(): CommunicationMode {
+    return this.preferredMode;
+  }
+
+  /**
+   * 是否处于降级状态（首选WebRTC但当前使用WebSocket）
+   */
+  isFailedOver(): boolean {
+    return this.currentMode !== 'replay' && this.currentMode !== this.preferredMode;
+  }
+
+  /**
+   * 是否处于回放模式
+   */
+  isReplaying(): boolean {
+    return this.currentMode === 'replay';
+  }
+
+  /**
+   * 获取通信方式切换记录（最新的在最后）
+   */
+  getTransportHistory(): TransportChange[] {
+    return [...this.transportHistory];
+  }
+
   /**
    * 获取当前连接的机器人ID
    */
@@ -39,8 +107,16 @@ class CommunicationFactory {
     return this.currentRobotId;
   }
 
+  /**
+   * 获取当前机器人的配置
+   */
+  getCurrentRobotConfig(): RobotConfig | CloudRobotConfig | null {
+    return this.currentRobotConfig;
+  }
+
   /**
    * 切换到指定的通信模式
+   * WebSocket同时承担多屏同步和会话事件，切换时不会断开；WebRTC在切走时断开
    */
   async switchMode(mode: CommunicationMode): Promise<void> {
     if (this.currentMode === mode) {
@@ -50,121 +126,296 @@ class CommunicationFactory {
 
     console.log(`[CommunicationFactory] Switching from ${this.currentMode} to ${mode}`);
 
-    // 断开当前连接
-    if (this.currentService.isConnected()) {
-      this.currentService.disconnect();
+    if (this.currentMode === 'webrtc') {
+      webrtcService.disconnect();
+    }
+    if (this.currentMode === 'replay') {
+      replayService.disconnect();
+      this.modeBeforeReplay = null;
+    }
+    if (this.currentMode === 'simulator') {
+      simulatorService.disconnect();
     }
 
-    // 切换服务
     this.currentMode = mode;
-    this.currentService = mode === 'webrtc' ? webrtcService : websocketService;
+    this.proxy.setTarget(this.getTransport(mode));
 
     console.log(`[CommunicationFactory] Switched to ${mode} mode`);
   }
 
+  // ========== 回放 ==========
+
+  /**
+   * 进入回放模式（已处于回放模式时只替换录制）
+   * 真实连接保持不变，退出回放后恢复
+   */
+  startReplay(recording: ReplayRecording): void {
+    replayService.load(recording);
+
+    if (this.currentMode === 'replay') {
+      replayService.seek(recording.startTime);
+      return;
+    }
+
+    console.log(`[CommunicationFactory] Entering replay: ${recording.name}`);
+    this.stopProbe();
+    this.modeBeforeReplay = this.currentMode;
+    // 先让回放服务就绪，代理切换后立即恢复订阅
+    replayService.connect();
+    this.activateTransport('replay', `回放 ${recording.name}`);
+  }
+
+  /**
+   * 退出回放模式，恢复进入回放前的通信方式
+   */
+  stopReplay(): void {
+    if (this.currentMode !== 'replay') return;
+
+    const mode = this.modeBeforeReplay ?? this.preferredMode;
+    this.modeBeforeReplay = null;
+    console.log(`[CommunicationFactory] Leaving replay, back to ${mode}`);
+
+    this.activateTransport(mode, '退出回放');
+    replayService.disconnect();
+    replayService.unload();
+
+    // 回放期间WebRTC可能已断开，按降级流程继续探测
+    if (this.currentRobotId && this.isFailedOver()) {
+      this.scheduleProbe();
+    }
+  }
+
   /**
    * 为指定机器人创建连接
    * 自动根据机器人配置选择通信方式
-   * 
-   * TODO: 临时跳过实际连接，待远端机器人就绪后启用
    */
-  async connectToRobot(robotId: string, _preferredMode?: CommunicationMode): Promise<void> {
+  async connectToRobot(robotId: string, preferredMode?: CommunicationMode): Promise<void> {
+    if (robotId === this.currentRobotId && (!preferredMode || preferredMode === this.currentMode)) {
+      console.log(`[CommunicationFactory] Already connected to robot: ${robotId}`);
+      return;
+    }
+
     console.log(`[CommunicationFactory] Connecting to robot: ${robotId}`);
+    const seq = ++this.connectSeq;
 
-    // ========== 临时方案：跳过实际连接 ==========
-    // TODO: 远端机器人就绪后，删除此段代码，启用下方的完整连接流程
-    console.log(`[CommunicationFactory] [DEV MODE] Skipping actual connection, robot selected: ${robotId}`);
-    this.currentRobotId = robotId;
-    this.currentMode = 'websocket'; // 默认标记为 websocket 模式
-    return;
-    // ========== 临时方案结束 ==========
-
-    // ========== 完整连接流程（暂时禁用）==========
-    // TODO: 远端机器人就绪后，删除上方临时方案代码（第72-78行），启用此段代码
-    // 注意：启用时需要取消下方代码的注释
-    /*
     try {
-      // 1. 获取机器人配置（优先从云端获取）
-      let robotConfig = await fetchRobotConfigFromCloud(robotId);
+      // 1. 获取机器人配置（优先从云端获取，失败时使用本地配置）
+      const cloudConfig = await fetchRobotConfig(robotId);
+      const robotConfig = cloudConfig || getRobotConfig(robotId);
       if (!robotConfig) {
-        robotConfig = getRobotConfig(robotId);
+        throw new Error(`Robot configuration not found: ${robotId}`);
       }
 
-      if (!robotConfig) {
-        throw new Error(`Robot configuration not found: ${robotId}`);
+      if (seq !== this.connectSeq) {
+        console.log(`[CommunicationFactory] Connection to ${robotId} superseded`);
+        return;
       }
 
       // 2. 确定通信模式
       const mode = preferredMode || this.detectBestMode(robotConfig);
       console.log(`[CommunicationFactory] Using ${mode} mode for robot ${robotId}`);
 
-      // 3. 切换到对应模式
+      // 3. 切换到对应模式（新机器人重新开始记录）
+      this.stopProbe();
+      this.transportHistory = [];
+      if (this.preferredMode === 'webrtc' && this.currentMode !== 'webrtc' && mode !== 'webrtc') {
+        // 上一个机器人处于降级状态，停止后台探测中的WebRTC
+        webrtcService.disconnect();
+      }
+      this.preferredMode = mode;
       await this.switchMode(mode);
 
       // 4. 配置并连接服务
       if (mode === 'webrtc') {
-        // 配置 WebRTC
+        // 云端配置需要先把机器人地址注册到后端信令代理
+        if (cloudConfig) {
+          await registerRobotToBackend(cloudConfig).catch(error => {
+            console.warn('[CommunicationFactory] Failed to register robot to backend:', error);
+          });
+        }
+
         const webrtcConfig: Partial<WebRTCConfig> = {
           signalingUrl: robotConfig.webrtc.signalingUrl,
           iceServers: robotConfig.webrtc.iceServers,
           robotId: robotConfig.id,
         };
+        // updateConfig 在已连接时会自动重连到新机器人
+        const wasConnected = webrtcService.isConnected();
         webrtcService.updateConfig(webrtcConfig);
-        webrtcService.connect();
+        if (!wasConnected) {
+          webrtcService.connect();
+        }
+      } else if (mode === 'simulator') {
+        // 模拟机器人在本地运行，多屏同步仍通过后端WebSocket
+        simulatorService.connect();
       } else {
-        // 配置 WebSocket
-        // WebSocket 会自动连接到后端，后端负责与机器人通信
-        websocketService.connect();
+        // WebSocket 连接到后端，后端负责与机器人通信
+        if (!websocketService.isConnected()) {
+          websocketService.connect();
+        }
       }
 
       this.currentRobotId = robotId;
+      this.currentRobotConfig = robotConfig;
       console.log(`[CommunicationFactory] Connected to robot: ${robotId}`);
     } catch (error) {
       console.error('[CommunicationFactory] Failed to connect to robot:', error);
       throw error;
     }
-    */
-    // ========== 完整连接流程结束 ==========
   }
 
   /**
    * 断开当前机器人连接
+   * 回到WebSocket模式（多屏同步使用的后端连接保持不变）
    */
   disconnectRobot(): void {
     console.log(`[CommunicationFactory] Disconnecting from robot: ${this.currentRobotId}`);
-    
-    if (this.currentService.isConnected()) {
-      this.currentService.disconnect();
+    this.connectSeq++;
+    this.stopProbe();
+
+    if (this.currentMode === 'webrtc' || this.preferredMode === 'webrtc') {
+      webrtcService.disconnect();
+    }
+    if (this.currentMode === 'simulator' || this.modeBeforeReplay === 'simulator') {
+      simulatorService.disconnect();
     }
-    
+    if (this.currentMode === 'webrtc' || this.currentMode === 'simulator') {
+      this.currentMode = 'websocket';
+      this.proxy.setTarget(websocketService);
+    }
+    if (this.modeBeforeReplay === 'webrtc' || this.modeBeforeReplay === 'simulator') {
+      this.modeBeforeReplay = 'websocket';
+    }
+    this.preferredMode = 'websocket';
+
     this.currentRobotId = null;
+    this.currentRobotConfig = null;
+  }
+
+  // ========== 故障转移 ==========
+
+  /**
+   * WebRTC重连次数耗尽：降级到WebSocket（订阅由代理自动迁移），并安排后台探测
+   */
+  private handleWebRTCFailed(): void {
+    if (!this.currentRobotId || this.preferredMode !== 'webrtc') return;
+
+    if (this.currentMode === 'webrtc') {
+      console.warn('[CommunicationFactory] WebRTC failed, falling back to WebSocket');
+      this.activateTransport('websocket', 'WebRTC连接失败，降级到WebSocket');
+      if (!websocketService.isConnected()) {
+        websocketService.connect();
+      }
+    } else if (this.currentMode === 'replay' && this.modeBeforeReplay === 'webrtc') {
+      // 回放期间WebRTC失败，退出回放时直接使用WebSocket
+      this.modeBeforeReplay = 'websocket';
+      if (!websocketService.isConnected()) {
+        websocketService.connect();
+      }
+    }
+
+    this.scheduleProbe();
+  }
+
+  /**
+   * WebRTC通道就绪：降级期间探测成功则切回WebRTC
+   */
+  private handleWebRTCReady(): void {
+    if (!this.currentRobotId || this.preferredMode !== 'webrtc' || this.currentMode === 'webrtc') return;
+    // 回放期间不切换，退出回放时恢复
+    if (this.currentMode === 'replay') {
+      this.stopProbe();
+      this.modeBeforeReplay = 'webrtc';
+      return;
+    }
+
+    console.log('[CommunicationFactory] WebRTC healthy again, upgrading from WebSocket');
+    this.stopProbe();
+    this.activateTransport('webrtc', 'WebRTC已恢复');
+  }
+
+  /**
+   * 切换当前使用的底层服务（不断开任何连接）并记录
+   */
+  private activateTransport(mode: CommunicationMode, reason: string): void {
+    const change: TransportChange = { timestamp: Date.now(), from: this.currentMode, to: mode, reason };
+
+    this.currentMode = mode;
+    this.proxy.setTarget(this.getTransport(mode));
+
+    this.transportHistory.push(change);
+    if (this.transportHistory.length > MAX_TRANSPORT_HISTORY) {
+      this.transportHistory.shift();
+    }
+    this.proxy.emit('transport_changed', change);
+  }
+
+  /**
+   * 通信方式对应的底层服务
+   */
+  private getTransport(mode: CommunicationMode): BaseCommunicationService {
+    switch (mode) {
+      case 'webrtc':
+        return webrtcService;
+      case 'replay':
+        return replayService;
+      case 'simulator':
+        return simulatorService;
+      default:
+        return websocketService;
+    }
+  }
+
+  /**
+   * 一段时间后重新尝试建立WebRTC连接（失败会再次触发failed，继续下一轮探测）
+   */
+  private scheduleProbe(): void {
+    this.stopProbe();
+    this.probeTimer = setTimeout(() => {
+      this.probeTimer = null;
+      if (!this.currentRobotId || !this.isFailedOver()) return;
+
+      console.log('[CommunicationFactory] Probing WebRTC in background');
+      webrtcService.disconnect();
+      webrtcService.connect();
+    }, WEBRTC_PROBE_INTERVAL_MS);
+  }
+
+  private stopProbe(): void {
+    if (this.probeTimer) {
+      clearTimeout(this.probeTimer);
+      this.probeTimer = null;
+    }
   }
 
   /**
    * 检测最佳通信模式
-   * 根据机器人配置和环境变量自动选择
-   * TODO: 启用完整连接流程时取消注释
+   * 优先级：环境变量 > 机器人配置指定 > 支持WebRTC则使用WebRTC > WebSocket
    */
-  /*
-  private detectBestMode(robotConfig: RobotConfig): CommunicationMode {
+  private detectBestMode(robotConfig: RobotConfig | CloudRobotConfig): CommunicationMode {
     // 1. 检查环境变量
     const forceMode = import.meta.env.VITE_COMMUNICATION_MODE as CommunicationMode | undefined;
-    if (forceMode === 'webrtc' || forceMode === 'websocket') {
+    if (forceMode === 'webrtc' || forceMode === 'websocket' || forceMode === 'simulator') {
       console.log(`[CommunicationFactory] Using forced mode from env: ${forceMode}`);
       return forceMode;
     }
 
-    // 2. 检查机器人配置
+    // 2. 机器人配置指定的通信方式
+    if (robotConfig.transport) {
+      console.log(`[CommunicationFactory] Using ${robotConfig.transport} mode from robot config`);
+      return robotConfig.transport;
+    }
+
+    // 3. 检查机器人是否支持WebRTC
     if (robotConfig.webrtc) {
       console.log('[CommunicationFactory] Robot supports WebRTC, using WebRTC mode');
       return 'webrtc';
     }
 
-    // 3. 默认使用 WebSocket
+    // 4. 默认使用 WebSocket
     console.log('[CommunicationFactory] Defaulting to WebSocket mode');
     return 'websocket';
   }
-  */
 
   /**
    * 获取连接统计信息
@@ -0,0 +1,215 @@
+/**
+ * 通信代理
+ * 应用层始终使用同一个服务实例，由代理转发到当前机器人使用的底层服务（WebSocket/WebRTC）
+ * 切换机器人或通信方式时，订阅和离线发布队列保留在代理中，自动迁移到新的底层服务
+ * 急停锁定期间拒绝运动指令和动作目标（包括离线队列补发的指令），触发急停时取消正在执行的动作目标；其他操作员持有控制权时拒绝受控指令（本地模拟机器人除外）
+ */
+
+import { BaseCommunicationService } from './baseCommunication';
+import { ActionGoalHandle, PublishResult, SubscribeOptions, TopicData, TopicSubscription } from './communication.interface';
+import { isSameSubscribeOptions } from './subscriptionRegistry';
+import { TopicCodec } from './topicCodec';
+import emergencyStopService, { isMotionCommand } from './emergencyStop';
+import controlLockService from './controlLock';
+import simulatorService from './simulator';
+import replayService from './replay';
+
+// 从底层服务原样转发的连接事件
+const FORWARDED_EVENTS = ['connected', 'disconnected', 'error'];
+
+export class CommunicationProxy extends BaseCommunicationService {
+  protected readonly logTag = '[CommunicationProxy]';
+  private target: BaseCommunicationService;
+
+  // 代理在底层服务上持有的订阅（每个话题一个）
+  private targetSubscriptions: Map<string, TopicSubscription> = new Map();
+
+  // 代理目标ID -> 底层服务的动作句柄
+  private targetGoals: Map<string, ActionGoalHandle> = new Map();
+
+  private forwarders: Map<string, (...args: any[]) => void> = new Map();
+
+  private handleTargetReady = () => {
+    this.onTransportReady();
+  };
+
+  private emergencyStopLatched: boolean = emergencyStopService.isLatched();
+
+  /**
+   * 急停触发时取消全部正在执行的动作目标（如返回充电桩），复位后机器人不会继续执行
+   */
+  private handleEmergencyStopChange = ({ latched }: { latched: boolean }) => {
+    if (latched && !this.emergencyStopLatched && this.targetGoals.size > 0) {
+      console.warn(`${this.logTag} Emergency stop latched, canceling ${this.targetGoals.size} action goal(s)`);
+      this.targetGoals.forEach(handle => handle.cancel());
+    }
+    this.emergencyStopLatched = latched;
+  };
+
+  constructor(target: BaseCommunicationService) {
+    super();
+    this.target = target;
+    FORWARDED_EVENTS.forEach(event => {
+      this.forwarders.set(event, (...args: any[]) => this.emit(event, ...args));
+    });
+    this.bindTarget();
+    emergencyStopService.onChange(this.handleEmergencyStopChange);
+  }
+
+  /**
+   * 获取当前的底层服务
+   */
+  getTarget(): BaseCommunicationService {
+    return this.target;
+  }
+
+  /**
+   * 切换底层服务
+   * 释放旧服务上的订阅，未完成的服务调用和动作目标以失败结束；新服务就绪后恢复全部订阅
+   */
+  setTarget(target: BaseCommunicationService): void {
+    if (target === this.target) return;
+
+    const wasReady = this.isTransportReady();
+
+    this.unbindTarget();
+    this.targetSubscriptions.forEach(subscription => subscription.unsubscribe());
+    this.targetSubscriptions.clear();
+    this.targetGoals.forEach(handle => handle.cancel());
+    this.targetGoals.clear();
+    this.failPendingRequests('transport switched');
+
+    this.target = target;
+    this.bindTarget();
+
+    if (target.isReady()) {
+      this.onTransportReady();
+      this.emit('connected');
+    } else if (wasReady) {
+      this.emit('disconnected', 'transport switched');
+    }
+  }
+
+  // ========== 连接管理 ==========
+
+  connect(): void {
+    this.target.connect();
+  }
+
+  disconnect(): void {
+    this.target.disconnect();
+    this.clearPublishQueue();
+  }
+
+  isConnected(): boolean {
+    return this.target.isConnected();
+  }
+
+  registerScreen(screenId: number): void {
+    this.target.registerScreen(screenId);
+  }
+
+  getPublishCodec(topic: string): TopicCodec {
+    return this.target.getPublishCodec(topic);
+  }
+
+  publishTopic(topic: string, message: any, type?: string): PublishResult {
+    if (emergencyStopService.isLatched() && isMotionCommand(topic, message)) {
+      console.warn(`${this.logTag} Emergency stop latched, motion command to ${topic} rejected`);
+      return 'rejected';
+    }
+    if (this.isSharedTarget() && controlLockService.isBlocked('topic', topic, message)) {
+      return 'rejected';
+    }
+    return super.publishTopic(topic, message, type);
+  }
+
+  /**
+   * 当前底层服务是否连接共享的真实机器人（本地模拟和回放不受控制锁限制）
+   */
+  private isSharedTarget(): boolean {
+    return this.target !== simulatorService && this.target !== replayService;
+  }
+
+  // ========== 转发到底层服务 ==========
+
+  protected isTransportReady(): boolean {
+    return this.target.isReady();
+  }
+
+  protected sendSubscribe(topic: string, type?: string, options: SubscribeOptions = {}): void {
+    const previous = this.targetSubscriptions.get(topic);
+    if (previous && isSameSubscribeOptions(previous.options, options)) return;
+
+    // 合并选项变化时先以新选项订阅再释放旧订阅，底层话题订阅不会中断
+    const subscription = this.target.subscribeTopic(topic, type, (_data: any, meta: TopicData) => {
+      this.dispatchTopicData(meta);
+    }, options);
+    this.targetSubscriptions.set(topic, subscription);
+    previous?.unsubscribe();
+  }
+
+  protected sendUnsubscribe(topic: string): void {
+    this.targetSubscriptions.get(topic)?.unsubscribe();
+    this.targetSubscriptions.delete(topic);
+  }
+
+  protected sendPublish(topic: string, message: any, type?: string): void {
+    // 离线队列补发也经过这里：断线前排队的运动指令在急停锁定期间丢弃
+    if (emergencyStopService.isLatched() && isMotionCommand(topic, message)) {
+      console.warn(`${this.logTag} Emergency stop latched, queued motion command to ${topic} dropped`);
+      return;
+    }
+    this.target.publishTopic(topic, message, type);
+  }
+
+  protected sendServiceCall(requestId: string, service: string, request: any, type: string | undefined, timeoutMs: number): void {
+    if (this.isSharedTarget() && controlLockService.isBlocked('service', service, request)) {
+      this.handleServiceError(requestId, new Error('control lock held by another operator'));
+      return;
+    }
+
+    this.target
+      .callService(service, request, type, { timeoutMs })
+      .then(values => this.handleServiceResponse(requestId, true, values))
+      .catch((error: Error) => this.handleServiceError(requestId, error));
+  }
+
+  protected sendActionGoalRequest(goalId: string, action: string, actionType: string, goal: any): void {
+    if (emergencyStopService.isLatched()) {
+      console.warn(`${this.logTag} Emergency stop latched, action goal ${action} rejected`);
+      this.handleActionError(goalId, new Error('emergency stop latched'));
+      return;
+    }
+    if (this.isSharedTarget() && controlLockService.isBlocked('action', action)) {
+      this.handleActionError(goalId, new Error('control lock held by another operator'));
+      return;
+    }
+
+    const handle = this.target.sendActionGoal(action, actionType, goal, {
+      onFeedback: feedback => this.handleActionFeedback(goalId, feedback),
+    });
+    this.targetGoals.set(goalId, handle);
+
+    handle.result
+      .then(({ status, values }) => this.handleActionResult(goalId, status, values, true))
+      .catch((error: Error) => this.handleActionError(goalId, error))
+      .finally(() => this.targetGoals.delete(goalId));
+  }
+
+  protected sendCancelActionGoal(goalId: string): void {
+    this.targetGoals.get(goalId)?.cancel();
+  }
+
+  // ========== 私有方法 ==========
+
+  private bindTarget(): void {
+    this.forwarders.forEach((forwarder, event) => this.target.on(event, forwarder));
+    this.target.on('ready', this.handleTargetReady);
+  }
+
+  private unbindTarget(): void {
+    this.forwarders.forEach((forwarder, event) => this.target.off(event, forwarder));
+    this.target.off('ready', this.handleTargetReady);
+  }
+}
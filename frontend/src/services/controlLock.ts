@@ -0,0 +1,266 @@
+/**
+ * 多操作员控制锁
+ * 每台机器人同一时间只有一个客户端持有驾驶控制权，其他客户端只能观察；
+ * 由后端在处理发布、服务调用、动作目标时强制执行，本服务同步锁状态并让通信代理提前拦截观察者的受控指令
+ * （WebRTC直连机器人时不经过后端，只依赖本端拦截）
+ *
+ * 身份由后端签发：首次登记时后端分配身份并返回令牌，保存在localStorage，
+ * 同一浏览器的多个屏幕窗口共用一个令牌，共享控制权；其他客户端的身份不会下发，只能看到名称
+ */
+
+import websocketService from './websocket';
+
+export interface ControlLockHolder {
+  name: string;
+  since: number;
+  isSelf: boolean;         // 是否为本客户端
+}
+
+export interface ControlLockRequest {
+  name: string;
+  requestedAt: number;
+  isSelf: boolean;
+}
+
+/**
+ * 控制策略：观察者只读，除触发急停（急停话题/服务且data为true）外的发布、服务调用、动作目标都需要控制权
+ */
+export interface ControlLockPolicy {
+  emergencyStopTopic: string;
+  emergencyStopService: string;  // 为空时没有急停服务
+  autoAcquire: boolean;    // 无人持有时发出指令自动获得控制权
+  allowForceTake: boolean;
+}
+
+export interface ControlLockNotice {
+  type: 'request_approved' | 'request_denied' | 'control_taken' | 'error';
+  message: string;
+  timestamp: number;
+}
+
+export interface ControlLockStatus {
+  robotId: string;
+  clientId: string | null;           // 后端分配的身份（登记前为null）
+  registered: boolean;               // 已在后端登记（未登记时不限制）
+  holder: ControlLockHolder | null;
+  request: ControlLockRequest | null;
+  releasing: boolean;                // 持有者已断开，宽限期后释放
+  isHolder: boolean;
+  policy: ControlLockPolicy | null;
+  notice: ControlLockNotice | null;  // 最近一条通知（请求结果、被接管等）
+}
+
+interface ControlLockState {
+  robotId: string;
+  holder: ControlLockHolder | null;
+  request: ControlLockRequest | null;
+  releasing: boolean;
+}
+
+const TOKEN_KEY = 'robot_cockpit_control_token';
+const DEFAULT_ROBOT_ID = 'default';
+
+class ControlLockService {
+  private status: ControlLockStatus;
+  private listeners: Set<(status: ControlLockStatus) => void> = new Set();
+  private started: boolean = false;
+  // 已提示过的拦截（指令名 → 持有者），相同情况不重复打印
+  private warned: Map<string, string> = new Map();
+  // 当前登记使用的令牌
+  private token: string | null = null;
+
+  constructor() {
+    this.status = {
+      robotId: DEFAULT_ROBOT_ID,
+      clientId: null,
+      registered: false,
+      holder: null,
+      request: null,
+      releasing: false,
+      isHolder: false,
+      policy: null,
+      notice: null,
+    };
+  }
+
+  /**
+   * 开始同步控制锁状态（连接后端后自动登记，重连后重新登记）
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    websocketService.on('connected', this.handleConnected);
+    websocketService.on('disconnected', this.handleDisconnected);
+    websocketService.on('control_registered', this.handleRegistered);
+    websocketService.on('control_lock_state', this.handleState);
+    websocketService.on('control_notice', this.handleNotice);
+    websocketService.on('control_rejected', this.handleRejected);
+    window.addEventListener('storage', this.handleStorage);
+
+    if (websocketService.isConnected()) {
+      this.register();
+    }
+  }
+
+  /**
+   * 切换要控制的机器人
+   */
+  setRobot(robotId: string | null): void {
+    const next = robotId || DEFAULT_ROBOT_ID;
+    if (next === this.status.robotId) return;
+
+    this.setStatus({ robotId: next, holder: null, request: null, releasing: false, registered: false });
+    this.register();
+  }
+
+  /**
+   * 请求控制权（无人持有时直接获得，否则等待持有者处理）
+   */
+  request(): void {
+    websocketService.sendControlAction('request');
+  }
+
+  /**
+   * 持有者处理其他操作员的控制请求
+   */
+  respond(approve: boolean): void {
+    websocketService.sendControlAction('respond', { approve });
+  }
+
+  /**
+   * 强制接管（调用方负责让操作员确认）
+   */
+  forceTake(): void {
+    websocketService.sendControlAction('force');
+  }
+
+  release(): void {
+    websocketService.sendControlAction('release');
+  }
+
+  clearNotice(): void {
+    if (this.status.notice) {
+      this.setStatus({ notice: null });
+    }
+  }
+
+  /**
+   * 本客户端是否不能发出该指令（其他操作员持有控制权）
+   * 被拦截时打印一次警告
+   * @param message 发布的消息或服务请求（判断是否为触发急停）
+   */
+  isBlocked(kind: 'topic' | 'service' | 'action', name: string, message?: any): boolean {
+    const { registered, policy, holder, isHolder } = this.status;
+    if (!registered || !policy) return false;
+
+    const isEmergencyStop = (kind === 'topic' && name === policy.emergencyStopTopic) ||
+      (kind === 'service' && !!policy.emergencyStopService && name === policy.emergencyStopService);
+    if ((isEmergencyStop && message?.data === true) || isHolder) return false;
+    if (!holder && policy.autoAcquire) return false;
+
+    const holderName = holder?.name ?? '';
+    if (this.warned.get(name) !== holderName) {
+      this.warned.set(name, holderName);
+      console.warn(`[ControlLock] 观察模式，${name} 未发送${holder ? `（${holder.name} 正在控制）` : ''}`);
+    }
+    return true;
+  }
+
+  getStatus(): ControlLockStatus {
+    return { ...this.status };
+  }
+
+  /**
+   * 监听控制锁状态变化
+   * @returns 取消监听的函数
+   */
+  onChange(callback: (status: ControlLockStatus) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  // ========== 后端事件 ==========
+
+  private register(): void {
+    if (!websocketService.isConnected()) return;
+
+    // 未设置用户名时由后端按身份生成名称
+    websocketService.sendControlAction('register', {
+      token: localStorage.getItem(TOKEN_KEY),
+      name: localStorage.getItem('robot_cockpit_username') || undefined,
+      robotId: this.status.robotId,
+    });
+  }
+
+  private handleConnected = () => {
+    this.register();
+  };
+
+  /**
+   * 其他屏幕窗口保存了新令牌（多个窗口首次同时登记时各自分配了身份），改用同一身份
+   */
+  private handleStorage = (event: StorageEvent) => {
+    if (event.key === TOKEN_KEY && event.newValue && event.newValue !== this.token) {
+      this.register();
+    }
+  };
+
+  private handleDisconnected = () => {
+    // 断开期间后端不再转发指令，本端不做拦截
+    this.setStatus({ registered: false });
+  };
+
+  private handleRegistered = (data: { clientId: string; token: string; robotId: string; policy: ControlLockPolicy }) => {
+    // 令牌无效（如后端重启更换了密钥）时后端分配了新身份
+    if (data.token && data.token !== localStorage.getItem(TOKEN_KEY)) {
+      localStorage.setItem(TOKEN_KEY, data.token);
+    }
+    this.token = data.token;
+    if (data.robotId !== this.status.robotId) return;
+    this.setStatus({ registered: true, clientId: data.clientId, policy: data.policy });
+  };
+
+  private handleState = (state: ControlLockState) => {
+    if (state.robotId !== this.status.robotId) return;
+
+    const previous = this.status.holder;
+    if (state.holder?.name !== previous?.name || state.holder?.since !== previous?.since) {
+      console.log(`[ControlLock] ${state.robotId} 控制权：${state.holder ? state.holder.name : '无人持有'}`);
+      this.warned.clear();
+    }
+    this.setStatus({ holder: state.holder, request: state.request, releasing: state.releasing });
+  };
+
+  private handleNotice = (notice: ControlLockNotice & { robotId: string }) => {
+    if (notice.robotId !== this.status.robotId) return;
+    console.log(`[ControlLock] ${notice.message}`);
+    this.setStatus({ notice: { type: notice.type, message: notice.message, timestamp: notice.timestamp } });
+  };
+
+  private handleRejected = (data: { name: string; holder: ControlLockHolder | null }) => {
+    // 本端未及时拦截（如状态尚未同步）时后端拒绝
+    if (this.warned.get(data.name) === (data.holder?.name ?? '')) return;
+    this.warned.set(data.name, data.holder?.name ?? '');
+    console.warn(`[ControlLock] 后端拒绝 ${data.name}：${data.holder ? `${data.holder.name} 正在控制` : '未持有控制权'}`);
+  };
+
+  private setStatus(partial: Partial<ControlLockStatus>): void {
+    this.status = { ...this.status, ...partial };
+    this.status.isHolder = !!this.status.holder?.isSelf;
+    const status = this.getStatus();
+    this.listeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('[ControlLock] Error in status listener:', error);
+      }
+    });
+  }
+}
+
+// 导出单例
+const controlLockService = new ControlLockService();
+export default controlLockService;
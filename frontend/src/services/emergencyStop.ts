@@ -0,0 +1,402 @@
+/**
+ * 急停通道
+ * 急停不经过通信代理和离线发布队列，直接在每个已就绪的底层通道（WebSocket/WebRTC/模拟机器人）上发布，
+ * 按固定间隔重发，直到机器人确认（急停服务返回成功，或急停状态话题报告已急停）
+ *
+ * 急停触发后锁定：锁定期间通信代理拒绝所有运动指令（非零速度、动作按钮、启动/复位面板命令、动作目标，
+ * 包括断线前排队、重连后补发的指令），只有操作员确认复位且机器人确认解除后才解锁
+ * 急停通道发出的消息通过 onPublish 通知会话录制
+ * 锁定状态通过BroadcastChannel同步到同一台电脑上的其他屏幕窗口
+ */
+
+import { BaseCommunicationService } from './baseCommunication';
+import { TopicData, TopicSubscription } from './communication.interface';
+import { decodeJsonString } from './messageRegistry';
+import { setPublishFilter } from './publishQueue';
+import websocketService from './websocket';
+import webrtcService from './webrtc';
+import simulatorService from './simulator';
+import { BoolMsg, RobotPanelCommand, Twist } from '../types/ros.types';
+
+export interface EmergencyStopConfig {
+  topic: string;               // 急停话题（std_msgs/Bool，true为急停，false为解除）
+  service: string;             // 急停服务（std_srvs/SetBool），为空时只发布话题
+  serviceType: string;
+  stateTopic: string;          // 机器人发布的急停状态（std_msgs/Bool），用于确认
+  retryIntervalMs: number;     // 未确认时的重发间隔
+  resetTimeoutMs: number;      // 复位等待确认的超时
+  motionTopics: string[];      // 锁定期间拒绝的运动话题（零速度Twist除外）
+  motionPanelCommands: string[]; // 锁定期间拒绝的面板命令（/robot/commands）
+  gamepadButtons: number[];    // 触发急停的手柄按钮
+  keys: string[];              // 触发急停的按键（KeyboardEvent.key）
+}
+
+export interface EmergencyStopStatus {
+  latched: boolean;            // 是否处于急停锁定
+  acknowledged: boolean;       // 机器人是否已确认急停
+  resetting: boolean;          // 正在等待机器人确认复位
+  source: string | null;       // 触发来源
+  triggeredAt: number | null;
+  attempts: number;            // 已发送次数（触发或复位）
+  remote: boolean;             // 由其他屏幕触发（本屏不负责重发）
+  error: string | null;
+}
+
+const DEFAULT_CONFIG: EmergencyStopConfig = {
+  topic: '/emergency_stop',
+  service: '',
+  serviceType: 'std_srvs/SetBool',
+  stateTopic: '/emergency_stop/state',
+  retryIntervalMs: 200,
+  resetTimeoutMs: 5000,
+  motionTopics: ['/cmd_vel', '/robot/action'],
+  // reset 会让机器人解除急停，只能通过急停复位流程发出
+  motionPanelCommands: ['start', 'reset'],
+  gamepadButtons: [8],   // Select/Back
+  keys: [' '],
+};
+
+let config: EmergencyStopConfig = { ...DEFAULT_CONFIG };
+
+/**
+ * 修改急停配置（未指定的字段保持不变）
+ */
+export function setEmergencyStopConfig(partial: Partial<EmergencyStopConfig>): void {
+  config = { ...config, ...partial };
+}
+
+export function getEmergencyStopConfig(): EmergencyStopConfig {
+  return { ...config };
+}
+
+// 面板命令话题（std_msgs/String 承载 cockpit_msgs/RobotCommand 的JSON）
+const PANEL_COMMAND_TOPIC = '/robot/commands';
+
+/**
+ * 是否为运动指令（零速度Twist不算，急停期间仍允许发送）
+ */
+export function isMotionCommand(topic: string, message: any): boolean {
+  if (topic === PANEL_COMMAND_TOPIC) {
+    // 无法解析的面板命令同样拒绝（无法确认不是启动/复位）
+    const command = decodeJsonString<RobotPanelCommand>('cockpit_msgs/RobotCommand', message);
+    return !command || config.motionPanelCommands.includes(command.type);
+  }
+  if (!config.motionTopics.includes(topic)) return false;
+
+  const linear = message?.linear;
+  const angular = message?.angular;
+  if (linear && angular) {
+    return [linear.x, linear.y, linear.z, angular.x, angular.y, angular.z].some(value => Math.abs(value ?? 0) > 1e-6);
+  }
+  return true;
+}
+
+// 运动面板命令（启动/复位）断线期间不排队，重连后不补发过期的启动指令
+setPublishFilter(PANEL_COMMAND_TOPIC, message => !isMotionCommand(PANEL_COMMAND_TOPIC, message));
+
+// 急停直接使用的底层通道（回放不是真实机器人，不参与）
+const TRANSPORTS: BaseCommunicationService[] = [websocketService, webrtcService, simulatorService];
+
+// 与多屏布局共用的同步频道
+const BROADCAST_CHANNEL = 'robot_cockpit';
+
+const ZERO_TWIST: Twist = {
+  linear: { x: 0, y: 0, z: 0 },
+  angular: { x: 0, y: 0, z: 0 },
+};
+
+const INITIAL_STATUS: EmergencyStopStatus = {
+  latched: false,
+  acknowledged: false,
+  resetting: false,
+  source: null,
+  triggeredAt: null,
+  attempts: 0,
+  remote: false,
+  error: null,
+};
+
+class EmergencyStopService {
+  private status: EmergencyStopStatus = { ...INITIAL_STATUS };
+  private listeners: Set<(status: EmergencyStopStatus) => void> = new Set();
+  private publishListeners: Set<(data: TopicData & { type: string }) => void> = new Set();
+  private retryTimer: ReturnType<typeof setInterval> | null = null;
+  private resetTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingServiceCalls: number = 0;
+  private stateSubscriptions: TopicSubscription[] = [];
+  private channel: BroadcastChannel | null = null;
+
+  /**
+   * 开始监听机器人急停状态和其他屏幕的同步消息
+   */
+  start(): void {
+    if (this.stateSubscriptions.length > 0) return;
+
+    this.stateSubscriptions = TRANSPORTS.map(transport =>
+      transport.subscribeTopic<BoolMsg>(config.stateTopic, 'std_msgs/Bool', message => this.handleRobotState(!!message?.data))
+    );
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(BROADCAST_CHANNEL);
+      this.channel.addEventListener('message', this.handleBroadcast);
+    }
+  }
+
+  /**
+   * 停止监听（锁定状态保留）
+   */
+  stop(): void {
+    this.stateSubscriptions.forEach(subscription => subscription.unsubscribe());
+    this.stateSubscriptions = [];
+    this.stopRetry();
+    this.clearResetTimer();
+    if (this.channel) {
+      this.channel.removeEventListener('message', this.handleBroadcast);
+      this.channel.close();
+      this.channel = null;
+    }
+  }
+
+  /**
+   * 触发急停：立即锁定并发送，直到机器人确认
+   * 已锁定时重新发送（操作员再次按下急停）
+   */
+  trigger(source: string): void {
+    console.warn(`[EmergencyStop] 触发急停（${source}）`);
+
+    this.clearResetTimer();
+    this.setStatus({
+      latched: true,
+      acknowledged: false,
+      resetting: false,
+      source,
+      triggeredAt: this.status.latched ? this.status.triggeredAt : Date.now(),
+      attempts: 0,
+      remote: false,
+      error: null,
+    });
+    this.startRetry();
+  }
+
+  /**
+   * 复位急停（调用方负责让操作员确认）
+   * 发送解除指令并等待机器人确认，超时未确认时保持锁定
+   */
+  reset(): void {
+    if (!this.status.latched || this.status.resetting) return;
+
+    if (this.getReadyTransports().length === 0) {
+      this.setStatus({ error: '未连接机器人，无法复位' });
+      return;
+    }
+
+    console.log('[EmergencyStop] 请求复位急停');
+    this.setStatus({ resetting: true, attempts: 0, error: null });
+    this.startRetry();
+
+    this.resetTimer = setTimeout(() => {
+      this.resetTimer = null;
+      if (!this.status.resetting) return;
+      console.warn('[EmergencyStop] 机器人未确认复位，保持急停');
+      this.stopRetry();
+      this.setStatus({ resetting: false, error: '机器人未确认复位，急停保持' });
+    }, config.resetTimeoutMs);
+  }
+
+  isLatched(): boolean {
+    return this.status.latched;
+  }
+
+  getStatus(): EmergencyStopStatus {
+    return { ...this.status };
+  }
+
+  /**
+   * 监听急停状态变化
+   * @returns 取消监听的函数
+   */
+  onChange(callback: (status: EmergencyStopStatus) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * 监听急停通道发出的消息（每轮发送通知一次，与就绪通道数量无关）
+   * 急停不经过通信代理，会话录制据此记录急停和零速度指令
+   * @returns 取消监听的函数
+   */
+  onPublish(callback: (data: TopicData & { type: string }) => void): () => void {
+    this.publishListeners.add(callback);
+    return () => {
+      this.publishListeners.delete(callback);
+    };
+  }
+
+  // ========== 发送 ==========
+
+  private getReadyTransports(): BaseCommunicationService[] {
+    return TRANSPORTS.filter(transport => transport.isReady());
+  }
+
+  private startRetry(): void {
+    this.stopRetry();
+    this.send();
+    this.retryTimer = setInterval(() => this.send(), config.retryIntervalMs);
+  }
+
+  private stopRetry(): void {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private clearResetTimer(): void {
+    if (this.resetTimer) {
+      clearTimeout(this.resetTimer);
+      this.resetTimer = null;
+    }
+  }
+
+  /**
+   * 在所有已就绪的通道上发送一次（急停同时发布零速度）
+   */
+  private send(): void {
+    const stop = !this.status.resetting;
+    const transports = this.getReadyTransports();
+    this.status = { ...this.status, attempts: this.status.attempts + 1 };
+
+    const message: BoolMsg = { data: stop };
+    transports.forEach(transport => {
+      transport.publishTopic(config.topic, message, 'std_msgs/Bool');
+      if (stop) {
+        transport.publishTopic('/cmd_vel', ZERO_TWIST, 'geometry_msgs/Twist');
+      }
+    });
+    if (transports.length > 0) {
+      this.notifyPublish(config.topic, message, 'std_msgs/Bool');
+      if (stop) {
+        this.notifyPublish('/cmd_vel', ZERO_TWIST, 'geometry_msgs/Twist');
+      }
+    }
+
+    // 上一轮服务调用未返回时不重复调用
+    if (config.service && this.pendingServiceCalls === 0) {
+      transports.forEach(transport => {
+        this.pendingServiceCalls++;
+        transport
+          .callService<BoolMsg, { success: boolean; message?: string }>(config.service, { data: stop }, config.serviceType, {
+            timeoutMs: Math.max(config.retryIntervalMs * 5, 1000),
+          })
+          .then(response => {
+            if (response?.success !== false) {
+              this.handleAcknowledged(stop);
+            }
+          })
+          .catch(() => {
+            // 失败时下一轮继续重试
+          })
+          .finally(() => {
+            this.pendingServiceCalls--;
+          });
+      });
+    }
+
+    if (transports.length === 0 && this.status.attempts === 1) {
+      console.warn('[EmergencyStop] 当前没有可用的通信通道，连接恢复后继续发送');
+    }
+    this.notify();
+  }
+
+  // ========== 确认 ==========
+
+  private handleRobotState(stopped: boolean): void {
+    if (stopped && !this.status.latched) {
+      // 机器人自身进入急停（如实体急停按钮），同样锁定
+      console.warn('[EmergencyStop] 机器人报告急停');
+      this.setStatus({
+        ...INITIAL_STATUS,
+        latched: true,
+        acknowledged: true,
+        source: '机器人',
+        triggeredAt: Date.now(),
+      });
+      return;
+    }
+
+    if (this.status.latched) {
+      this.handleAcknowledged(stopped);
+    }
+  }
+
+  /**
+   * 机器人确认急停（stopped=true）或确认解除（stopped=false）
+   */
+  private handleAcknowledged(stopped: boolean): void {
+    if (stopped && this.status.latched && !this.status.resetting && !this.status.acknowledged) {
+      console.log(`[EmergencyStop] 机器人已确认急停（发送 ${this.status.attempts} 次）`);
+      this.stopRetry();
+      this.setStatus({ acknowledged: true, error: null });
+    } else if (!stopped && this.status.resetting) {
+      console.log('[EmergencyStop] 机器人已确认复位');
+      this.stopRetry();
+      this.clearResetTimer();
+      this.setStatus({ ...INITIAL_STATUS });
+    }
+  }
+
+  // ========== 多屏同步 ==========
+
+  private handleBroadcast = (event: MessageEvent) => {
+    const msg = event.data;
+    if (!msg || msg.type !== 'emergency_stop' || !msg.status) return;
+
+    const status = msg.status as EmergencyStopStatus;
+    if (status.latched) {
+      // 其他屏幕负责重发，本屏只同步锁定状态
+      this.stopRetry();
+      this.clearResetTimer();
+      this.setStatus({ ...status, remote: true }, false);
+    } else if (this.status.latched) {
+      this.stopRetry();
+      this.clearResetTimer();
+      this.setStatus({ ...INITIAL_STATUS }, false);
+    }
+  };
+
+  private setStatus(partial: Partial<EmergencyStopStatus>, broadcast: boolean = true): void {
+    this.status = { ...this.status, ...partial };
+    if (broadcast) {
+      this.channel?.postMessage({ type: 'emergency_stop', status: this.status });
+    }
+    this.notify();
+  }
+
+  private notifyPublish(topic: string, data: any, type: string): void {
+    const published = { topic, data, type, timestamp: Date.now() };
+    this.publishListeners.forEach(listener => {
+      try {
+        listener(published);
+      } catch (error) {
+        console.error('[EmergencyStop] Error in publish listener:', error);
+      }
+    });
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('[EmergencyStop] Error in status listener:', error);
+      }
+    });
+  }
+}
+
+// 导出单例
+const emergencyStopService = new EmergencyStopService();
+export default emergencyStopService;
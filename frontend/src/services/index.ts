@@ -1,29 +1,88 @@
 /**
  * 通信服务统一导出
- * 根据配置选择WebSocket或WebRTC，对应用层透明
+ * 通信方式由 communicationFactory 按机器人配置选择，对应用层透明
  */
 
 import { ICommunicationService } from './communication.interface';
 import websocketService from './websocket';
 import webrtcService from './webrtc';
+import communicationFactory from './communicationFactory';
 
-// 从环境变量读取配置
-const USE_WEBRTC = import.meta.env.VITE_USE_WEBRTC === 'true';
-
-// 导出统一的服务实例
-export const communicationService: ICommunicationService = USE_WEBRTC 
-  ? webrtcService 
-  : websocketService;
-
-// 打印当前使用的通信方式
-console.log(`[CommunicationService] Using ${USE_WEBRTC ? 'WebRTC' : 'WebSocket'} mode`);
+// 导出统一的服务实例（切换机器人或通信方式时实例不变，订阅自动迁移）
+export const communicationService: ICommunicationService = communicationFactory.getService();
 
 // 默认导出（向后兼容）
 export default communicationService;
 
 // 同时导出两种实现，方便测试和切换
-export { websocketService, webrtcService };
+export { websocketService, webrtcService, communicationFactory };
+export type { CommunicationMode, TransportChange } from './communicationFactory';
 
 // 导出接口和类型
-export type { ICommunicationService, TopicData, WebRTCConfig } from './communication.interface';
+export type {
+  ICommunicationService,
+  PublishResult,
+  TopicData,
+  TopicCallback,
+  TopicSubscription,
+  SubscribeOptions,
+  ServiceCallOptions,
+  ActionGoalOptions,
+  ActionGoalHandle,
+  ActionResult,
+  WebRTCConfig,
+} from './communication.interface';
+export { ActionGoalStatus } from './communication.interface';
+
+
+// 导出消息类型注册表
+export {
+  validateMessage,
+  registerMessageType,
+  registerTopicType,
+  getTopicType,
+  getRegisteredTopics,
+  createDefaultMessage,
+  isRegisteredMessageType,
+} from './messageRegistry';
+export type { RosMessageMap, RosMessageType } from '../types/ros.types';
+
+// 导出离线发布策略
+export { setPublishPolicy, getPublishPolicy, setDefaultPublishPolicy } from './publishQueue';
+export type { PublishPolicy } from './publishQueue';
+
+// 导出遥操作限速
+export { setSpeedLimitConfig, getSpeedLimitConfig, computeSpeedLimit, limitTwist } from './speedLimiter';
+export type { SpeedLimit, SpeedLimitConfig } from './speedLimiter';
+
+// 导出多操作员控制锁
+export { default as controlLockService } from './controlLock';
+export type { ControlLockStatus, ControlLockHolder, ControlLockRequest, ControlLockPolicy, ControlLockNotice } from './controlLock';
+
+// 导出指令仲裁
+export { default as commandArbiter, setCommandArbiterConfig, getCommandArbiterConfig } from './commandArbiter';
+export type { CommandArbiterConfig, ArbitrationResult, CommandLogEntry, VelocityOwner } from './commandArbiter';
+
+// 导出话题编码策略
+export { setTopicCodec, getTopicCodec } from './topicCodec';
+export type { TopicCodec } from './topicCodec';
+
+// 导出会话录制
+export { default as sessionRecorder } from './sessionRecorder';
+export type { SessionRecorderStatus, RecordingExportFormat } from './sessionRecorder';
+export { parseRecording, convertRecordingToMcap } from './recordingFormat';
+export type { RecordedMessage, ParsedRecording } from './recordingFormat';
+
+// 导出回放
+export { default as replayService, REPLAY_SPEEDS } from './replay';
+export type { ReplayState } from './replay';
+export { loadReplayFile, loadReplayData } from './replaySource';
+export type { ReplayRecording, ReplayMessage, ReplayTopicInfo } from './replaySource';
+
+// 导出模拟机器人
+export { default as simulatorService } from './simulator';
+export type { SimulatorState, SimulatorPose } from './simulator';
 
+// 导出急停通道
+export { default as emergencyStopService, setEmergencyStopConfig, getEmergencyStopConfig, isMotionCommand } from './emergencyStop';
+export type { EmergencyStopConfig, EmergencyStopStatus } from './emergencyStop';
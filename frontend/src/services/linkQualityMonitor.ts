@@ -0,0 +1,252 @@
+/**
+ * 链路质量监测
+ * 周期采样当前通信方式的链路指标并计算质量评分：
+ * - WebRTC：RTCPeerConnection统计（RTT、抖动、丢包、发送码率、DataChannel积压）
+ * - WebSocket：ping/pong往返时延
+ * - 回放：无真实链路，不评分
+ */
+
+import communicationFactory, { CommunicationMode } from './communicationFactory';
+import websocketService from './websocket';
+import webrtcService from './webrtc';
+import { WebRTCLinkStats } from './communication.interface';
+
+export type LinkQualityLevel = 'good' | 'fair' | 'poor' | 'bad' | 'unknown';
+
+export interface LinkQualitySample {
+  timestamp: number;
+  transport: CommunicationMode;
+  rttMs: number | null;
+  jitterMs: number | null;
+  packetLoss: number | null;        // 本采样周期的丢包率 [0, 1]
+  outgoingBitrate: number | null;   // 本采样周期的发送码率（bps）
+  bufferedAmount: number | null;    // DataChannel待发送字节数
+  score: number | null;             // 质量评分 0-100，未连接时为null
+  level: LinkQualityLevel;
+}
+
+type LinkMetrics = Pick<LinkQualitySample, 'rttMs' | 'jitterMs' | 'packetLoss' | 'bufferedAmount'>;
+
+const DEFAULT_INTERVAL_MS = 2000;
+// 连续未收到pong的次数达到该值视为链路中断
+const MAX_MISSED_PONGS = 2;
+// DataChannel积压超过该值开始扣分
+const BUFFERED_WARN_BYTES = 64 * 1024;
+
+/**
+ * 根据链路指标计算质量评分（0-100）
+ */
+export function computeLinkScore(metrics: LinkMetrics): number {
+  let score = 100;
+
+  if (metrics.rttMs !== null) {
+    score -= Math.min(40, Math.max(0, metrics.rttMs - 50) / 5);       // 50ms以上每5ms扣1分
+  }
+  if (metrics.jitterMs !== null) {
+    score -= Math.min(20, Math.max(0, metrics.jitterMs - 10) / 2);    // 10ms以上每2ms扣1分
+  }
+  if (metrics.packetLoss !== null) {
+    score -= Math.min(40, metrics.packetLoss * 100 * 4);              // 每1%丢包扣4分
+  }
+  if (metrics.bufferedAmount !== null && metrics.bufferedAmount > BUFFERED_WARN_BYTES) {
+    score -= Math.min(20, (metrics.bufferedAmount - BUFFERED_WARN_BYTES) / BUFFERED_WARN_BYTES * 10);
+  }
+
+  return Math.max(0, Math.round(score));
+}
+
+/**
+ * 评分对应的质量等级
+ */
+export function getLinkQualityLevel(score: number | null): LinkQualityLevel {
+  if (score === null) return 'unknown';
+  if (score >= 80) return 'good';
+  if (score >= 60) return 'fair';
+  if (score >= 30) return 'poor';
+  return 'bad';
+}
+
+class LinkQualityMonitor {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private intervalMs: number = DEFAULT_INTERVAL_MS;
+  private listeners: Set<(sample: LinkQualitySample) => void> = new Set();
+  private latest: LinkQualitySample | null = null;
+
+  private lastTransport: CommunicationMode | null = null;
+
+  // WebRTC：上一次的累计计数，用于计算周期内的丢包率和码率
+  private lastWebRTCStats: WebRTCLinkStats | null = null;
+
+  // WebSocket：ping/pong状态
+  private pingOutstanding: boolean = false;
+  private missedPongs: number = 0;
+  private lastRttMs: number | null = null;
+
+  private handlePong = (data: { rtt?: number }) => {
+    if (data.rtt === undefined) return;
+    this.pingOutstanding = false;
+    this.missedPongs = 0;
+    this.lastRttMs = data.rtt;
+  };
+
+  /**
+   * 开始周期采样
+   */
+  start(intervalMs: number = DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.intervalMs = intervalMs;
+    websocketService.on('pong', this.handlePong);
+    this.timer = setInterval(() => {
+      this.sample().catch(error => {
+        console.warn('[LinkQuality] Sampling failed:', error);
+      });
+    }, this.intervalMs);
+  }
+
+  /**
+   * 停止采样
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    websocketService.off('pong', this.handlePong);
+    this.resetState();
+  }
+
+  /**
+   * 监听采样结果
+   * @returns 取消监听的函数
+   */
+  onSample(callback: (sample: LinkQualitySample) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * 获取最近一次采样结果
+   */
+  getLatest(): LinkQualitySample | null {
+    return this.latest;
+  }
+
+  // ========== 私有方法 ==========
+
+  private async sample(): Promise<void> {
+    const transport = communicationFactory.getCurrentMode();
+
+    // 通信方式切换后重新开始统计
+    if (transport !== this.lastTransport) {
+      this.resetState();
+      this.lastTransport = transport;
+    }
+
+    if (!communicationFactory.getService().isReady()) {
+      this.resetState();
+      this.publish(this.buildSample(transport, { rttMs: null, jitterMs: null, packetLoss: null, bufferedAmount: null }, null, false));
+      return;
+    }
+
+    if (transport === 'replay' || transport === 'simulator') {
+      // 回放和模拟机器人没有真实链路，不评分
+      this.publish(this.buildSample(transport, { rttMs: null, jitterMs: null, packetLoss: null, bufferedAmount: null }, null, true));
+    } else if (transport === 'webrtc') {
+      await this.sampleWebRTC();
+    } else {
+      this.sampleWebSocket();
+    }
+  }
+
+  private async sampleWebRTC(): Promise<void> {
+    const stats = await webrtcService.getLinkStats();
+    if (!stats) return;
+
+    const previous = this.lastWebRTCStats;
+    this.lastWebRTCStats = stats;
+
+    let packetLoss: number | null = null;
+    let outgoingBitrate: number | null = null;
+
+    if (previous) {
+      const lost = Math.max(0, stats.packetsLost - previous.packetsLost);
+      const received = Math.max(0, stats.packetsReceived - previous.packetsReceived);
+      if (lost + received > 0) {
+        packetLoss = lost / (lost + received);
+      }
+
+      const elapsedMs = stats.timestamp - previous.timestamp;
+      if (elapsedMs > 0) {
+        outgoingBitrate = Math.max(0, stats.bytesSent - previous.bytesSent) * 8 * 1000 / elapsedMs;
+      }
+    }
+
+    const metrics: LinkMetrics = {
+      rttMs: stats.rttMs,
+      jitterMs: stats.jitterMs,
+      packetLoss,
+      bufferedAmount: stats.dataChannelBufferedAmount,
+    };
+    this.publish(this.buildSample('webrtc', metrics, outgoingBitrate, true));
+  }
+
+  private sampleWebSocket(): void {
+    // 上一次ping未得到响应
+    if (this.pingOutstanding) {
+      this.missedPongs++;
+    }
+
+    const metrics: LinkMetrics = { rttMs: this.lastRttMs, jitterMs: null, packetLoss: null, bufferedAmount: null };
+    const alive = this.missedPongs < MAX_MISSED_PONGS;
+    this.publish(this.buildSample('websocket', metrics, null, alive));
+
+    this.pingOutstanding = true;
+    websocketService.ping();
+  }
+
+  private buildSample(
+    transport: CommunicationMode,
+    metrics: LinkMetrics,
+    outgoingBitrate: number | null,
+    alive: boolean
+  ): LinkQualitySample {
+    const connected = communicationFactory.getService().isReady();
+    // 链路无响应时评分为0；WebSocket尚未测得RTT时暂不评分
+    const hasData = metrics.rttMs !== null || metrics.packetLoss !== null;
+    const score = !connected ? null : !alive ? 0 : hasData ? computeLinkScore(metrics) : null;
+
+    return {
+      timestamp: Date.now(),
+      transport,
+      ...metrics,
+      outgoingBitrate,
+      score,
+      level: getLinkQualityLevel(score),
+    };
+  }
+
+  private publish(sample: LinkQualitySample): void {
+    this.latest = sample;
+    this.listeners.forEach(listener => {
+      try {
+        listener(sample);
+      } catch (error) {
+        console.error('[LinkQuality] Error in sample listener:', error);
+      }
+    });
+  }
+
+  private resetState(): void {
+    this.lastWebRTCStats = null;
+    this.pingOutstanding = false;
+    this.missedPongs = 0;
+    this.lastRttMs = null;
+  }
+}
+
+// 导出单例
+const linkQualityMonitor = new LinkQualityMonitor();
+export default linkQualityMonitor;
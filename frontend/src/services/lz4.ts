@@ -0,0 +1,118 @@
+/**
+ * LZ4帧格式解压
+ * 用于读取lz4压缩的MCAP数据块（不校验内容校验和）
+ * 规范：https://github.com/lz4/lz4/blob/dev/doc/lz4_Frame_format.md
+ */
+
+const LZ4_FRAME_MAGIC = 0x184d2204;
+
+/**
+ * 解压LZ4帧
+ * @param input 压缩数据
+ * @param outputSize 解压后的大小（MCAP数据块中已记录）
+ */
+export function decompressLz4Frame(input: Uint8Array, outputSize: number): Uint8Array {
+  const view = new DataView(input.buffer, input.byteOffset, input.byteLength);
+  if (input.byteLength < 7 || view.getUint32(0, true) !== LZ4_FRAME_MAGIC) {
+    throw new Error('LZ4: invalid frame magic');
+  }
+
+  const flags = input[4];
+  if ((flags >> 6) !== 0x01) {
+    throw new Error('LZ4: unsupported frame version');
+  }
+  const hasBlockChecksum = (flags & 0x10) !== 0;
+  const hasContentSize = (flags & 0x08) !== 0;
+  const hasContentChecksum = (flags & 0x04) !== 0;
+  const hasDictId = (flags & 0x01) !== 0;
+  if (hasDictId) {
+    throw new Error('LZ4: dictionaries are not supported');
+  }
+
+  // FLG + BD + [内容大小] + 头校验
+  let offset = 6 + (hasContentSize ? 8 : 0) + 1;
+  const output = new Uint8Array(outputSize);
+  let outputOffset = 0;
+
+  while (offset + 4 <= input.byteLength) {
+    const blockHeader = view.getUint32(offset, true);
+    offset += 4;
+    if (blockHeader === 0) break; // 结束标记
+
+    const blockSize = blockHeader & 0x7fffffff;
+    const uncompressed = (blockHeader & 0x80000000) !== 0;
+    if (offset + blockSize > input.byteLength) {
+      throw new Error('LZ4: truncated block');
+    }
+
+    const block = input.subarray(offset, offset + blockSize);
+    if (uncompressed) {
+      output.set(block, outputOffset);
+      outputOffset += blockSize;
+    } else {
+      outputOffset = decompressBlock(block, output, outputOffset);
+    }
+
+    offset += blockSize + (hasBlockChecksum ? 4 : 0);
+  }
+
+  if (hasContentChecksum) {
+    offset += 4;
+  }
+
+  return outputOffset === outputSize ? output : output.subarray(0, outputOffset);
+}
+
+/**
+ * 解压单个LZ4块，输出追加到output（块之间可以相互引用）
+ * @returns 解压后output的写入位置
+ */
+function decompressBlock(block: Uint8Array, output: Uint8Array, outputOffset: number): number {
+  let offset = 0;
+  let out = outputOffset;
+
+  const readLength = (initial: number): number => {
+    let length = initial;
+    if (initial === 15) {
+      let byte: number;
+      do {
+        byte = block[offset++];
+        length += byte;
+      } while (byte === 255);
+    }
+    return length;
+  };
+
+  while (offset < block.byteLength) {
+    const token = block[offset++];
+
+    const literalLength = readLength(token >> 4);
+    if (out + literalLength > output.byteLength) {
+      throw new Error('LZ4: output overflow');
+    }
+    output.set(block.subarray(offset, offset + literalLength), out);
+    offset += literalLength;
+    out += literalLength;
+
+    // 最后一个序列只有字面量
+    if (offset >= block.byteLength) break;
+
+    const matchOffset = block[offset] | (block[offset + 1] << 8);
+    offset += 2;
+    if (matchOffset === 0 || matchOffset > out) {
+      throw new Error('LZ4: invalid match offset');
+    }
+
+    const matchLength = readLength(token & 0x0f) + 4;
+    if (out + matchLength > output.byteLength) {
+      throw new Error('LZ4: output overflow');
+    }
+    // 匹配区域可能与输出重叠，逐字节复制
+    let source = out - matchOffset;
+    for (let i = 0; i < matchLength; i++) {
+      output[out++] = output[source++];
+    }
+  }
+
+  return out;
+}
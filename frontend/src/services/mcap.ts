@@ -0,0 +1,420 @@
+/**
+ * MCAP文件读写
+ * - 写入：生成不分块、无索引的MCAP文件（规范允许省略Summary段），可直接用Foxglove等工具打开
+ * - 读取：顺序读取数据段中的schema、通道和消息，支持未压缩、lz4和zstd压缩的数据块（rosbag2导出的文件默认zstd），
+ *   无法解压的数据块跳过并记录在 warnings 中
+ * 规范：https://mcap.dev/spec
+ */
+
+import { decompress as decompressZstd } from 'fzstd';
+import { decompressLz4Frame } from './lz4';
+
+// 文件头尾的魔数：0x89 "MCAP" 0x30 "\r\n"
+export const MCAP_MAGIC = new Uint8Array([0x89, 0x4d, 0x43, 0x41, 0x50, 0x30, 0x0d, 0x0a]);
+
+// 记录类型
+export const McapOpcode = {
+  HEADER: 0x01,
+  FOOTER: 0x02,
+  SCHEMA: 0x03,
+  CHANNEL: 0x04,
+  MESSAGE: 0x05,
+  CHUNK: 0x06,
+  DATA_END: 0x0f,
+} as const;
+
+export interface McapChannelInfo {
+  topic: string;
+  messageEncoding: string;            // json / cbor / cdr 等
+  schemaId?: number;                  // 0表示无schema（消息编码需自描述）
+  metadata?: Record<string, string>;
+}
+
+export interface McapSchemaInfo {
+  name: string;                       // 如 geometry_msgs/msg/Twist
+  encoding: string;                   // 如 ros2msg / jsonschema
+  data: Uint8Array;
+}
+
+export interface McapSchema extends McapSchemaInfo {
+  id: number;
+}
+
+export interface McapChannel extends McapChannelInfo {
+  id: number;
+  schemaId: number;
+  metadata: Record<string, string>;
+}
+
+export interface McapMessage {
+  channelId: number;
+  sequence: number;
+  logTime: number;       // 毫秒时间戳
+  publishTime: number;   // 毫秒时间戳
+  data: Uint8Array;
+}
+
+export interface McapFile {
+  profile: string;
+  schemas: Map<number, McapSchema>;
+  channels: Map<number, McapChannel>;
+  messages: McapMessage[];   // 按文件中的顺序
+  warnings: string[];        // 跳过的数据块（相同原因只记录一次）
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * 按小端序拼接字段的缓冲区
+ */
+class ByteWriter {
+  private parts: Uint8Array[] = [];
+  private length: number = 0;
+
+  get size(): number {
+    return this.length;
+  }
+
+  bytes(data: Uint8Array): this {
+    this.parts.push(data);
+    this.length += data.byteLength;
+    return this;
+  }
+
+  uint8(value: number): this {
+    return this.bytes(new Uint8Array([value]));
+  }
+
+  uint16(value: number): this {
+    const buffer = new Uint8Array(2);
+    new DataView(buffer.buffer).setUint16(0, value, true);
+    return this.bytes(buffer);
+  }
+
+  uint32(value: number): this {
+    const buffer = new Uint8Array(4);
+    new DataView(buffer.buffer).setUint32(0, value, true);
+    return this.bytes(buffer);
+  }
+
+  uint64(value: bigint): this {
+    const buffer = new Uint8Array(8);
+    new DataView(buffer.buffer).setBigUint64(0, value, true);
+    return this.bytes(buffer);
+  }
+
+  string(value: string): this {
+    const encoded = textEncoder.encode(value);
+    return this.uint32(encoded.byteLength).bytes(encoded);
+  }
+
+  prefixedBytes(data: Uint8Array): this {
+    return this.uint32(data.byteLength).bytes(data);
+  }
+
+  stringMap(map: Record<string, string>): this {
+    const entries = new ByteWriter();
+    Object.entries(map).forEach(([key, value]) => entries.string(key).string(value));
+    return this.uint32(entries.size).bytes(entries.toUint8Array());
+  }
+
+  toUint8Array(): Uint8Array {
+    const result = new Uint8Array(this.length);
+    let offset = 0;
+    this.parts.forEach(part => {
+      result.set(part, offset);
+      offset += part.byteLength;
+    });
+    return result;
+  }
+}
+
+/**
+ * 毫秒时间戳转换为MCAP使用的纳秒时间
+ */
+export function millisToNanos(ms: number): bigint {
+  return BigInt(Math.round(ms * 1e6));
+}
+
+export class McapWriter {
+  private writer: ByteWriter = new ByteWriter();
+  private nextSchemaId: number = 1;
+  private nextChannelId: number = 0;
+  private sequences: Map<number, number> = new Map();
+
+  constructor(profile: string = '', library: string = 'robot-cockpit') {
+    this.writer.bytes(MCAP_MAGIC);
+    this.writeRecord(McapOpcode.HEADER, new ByteWriter().string(profile).string(library));
+  }
+
+  /**
+   * 注册schema，返回schema ID
+   */
+  addSchema(schema: McapSchemaInfo): number {
+    const id = this.nextSchemaId++;
+    this.writeRecord(
+      McapOpcode.SCHEMA,
+      new ByteWriter().uint16(id).string(schema.name).string(schema.encoding).prefixedBytes(schema.data)
+    );
+    return id;
+  }
+
+  /**
+   * 注册通道，返回通道ID
+   */
+  addChannel(channel: McapChannelInfo): number {
+    const id = this.nextChannelId++;
+    this.writeRecord(
+      McapOpcode.CHANNEL,
+      new ByteWriter()
+        .uint16(id)
+        .uint16(channel.schemaId ?? 0)
+        .string(channel.topic)
+        .string(channel.messageEncoding)
+        .stringMap(channel.metadata ?? {})
+    );
+    this.sequences.set(id, 0);
+    return id;
+  }
+
+  /**
+   * 写入消息
+   * @param logTimeMs 记录时间（毫秒时间戳）
+   */
+  addMessage(channelId: number, logTimeMs: number, data: Uint8Array, publishTimeMs: number = logTimeMs): void {
+    const sequence = this.sequences.get(channelId);
+    if (sequence === undefined) {
+      console.warn(`[MCAP] Unknown channel ${channelId}, message dropped`);
+      return;
+    }
+    this.sequences.set(channelId, sequence + 1);
+
+    this.writeRecord(
+      McapOpcode.MESSAGE,
+      new ByteWriter()
+        .uint16(channelId)
+        .uint32(sequence)
+        .uint64(millisToNanos(logTimeMs))
+        .uint64(millisToNanos(publishTimeMs))
+        .bytes(data)
+    );
+  }
+
+  /**
+   * 结束写入，返回完整的文件内容
+   */
+  finish(): Uint8Array {
+    // 不计算CRC（规范允许为0），不写Summary段
+    this.writeRecord(McapOpcode.DATA_END, new ByteWriter().uint32(0));
+    this.writeRecord(McapOpcode.FOOTER, new ByteWriter().uint64(0n).uint64(0n).uint32(0));
+    this.writer.bytes(MCAP_MAGIC);
+    return this.writer.toUint8Array();
+  }
+
+  private writeRecord(opcode: number, content: ByteWriter): void {
+    this.writer.uint8(opcode).uint64(BigInt(content.size)).bytes(content.toUint8Array());
+  }
+}
+
+// ========== 读取 ==========
+
+/**
+ * 按小端序顺序读取字段
+ */
+class ByteReader {
+  private bytes: Uint8Array;
+  private view: DataView;
+  offset: number = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get remaining(): number {
+    return this.bytes.byteLength - this.offset;
+  }
+
+  private ensure(size: number): void {
+    if (this.offset + size > this.bytes.byteLength) {
+      throw new Error('MCAP: unexpected end of data');
+    }
+  }
+
+  uint8(): number {
+    this.ensure(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  uint16(): number {
+    this.ensure(2);
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  uint32(): number {
+    this.ensure(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  uint64(): bigint {
+    this.ensure(8);
+    const value = this.view.getBigUint64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  bytesOf(length: number): Uint8Array {
+    this.ensure(length);
+    const result = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return result;
+  }
+
+  string(): string {
+    return textDecoder.decode(this.bytesOf(this.uint32()));
+  }
+
+  prefixedBytes(): Uint8Array {
+    return this.bytesOf(this.uint32());
+  }
+
+  stringMap(): Record<string, string> {
+    const end = this.uint32() + this.offset;
+    const map: Record<string, string> = {};
+    while (this.offset < end) {
+      const key = this.string();
+      map[key] = this.string();
+    }
+    return map;
+  }
+}
+
+/**
+ * 纳秒时间转换为毫秒时间戳
+ */
+export function nanosToMillis(ns: bigint): number {
+  return Number(ns / 1000000n) + Number(ns % 1000000n) / 1e6;
+}
+
+/**
+ * 是否为MCAP文件
+ */
+export function isMcapFile(bytes: Uint8Array): boolean {
+  return bytes.byteLength >= MCAP_MAGIC.byteLength && MCAP_MAGIC.every((value, index) => bytes[index] === value);
+}
+
+/**
+ * 读取MCAP文件
+ * 只读取数据段（遇到DataEnd或Footer即停止），不依赖Summary段，因此未正常结束的文件也能读取
+ */
+export function readMcap(input: ArrayBuffer | Uint8Array): McapFile {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  if (!isMcapFile(bytes)) {
+    throw new Error('Not an MCAP file');
+  }
+
+  const file: McapFile = { profile: '', schemas: new Map(), channels: new Map(), messages: [], warnings: [] };
+  const reader = new ByteReader(bytes);
+  reader.offset = MCAP_MAGIC.byteLength;
+
+  try {
+    readRecords(reader, file, true);
+  } catch (error) {
+    // 文件末尾被截断（录制中断）时保留已读取的内容
+    if (file.messages.length === 0) throw error;
+    console.warn('[MCAP] File truncated, using messages read so far:', error);
+  }
+
+  return file;
+}
+
+function readRecords(reader: ByteReader, file: McapFile, topLevel: boolean): void {
+  while (reader.remaining > 0) {
+    // 文件结尾的魔数
+    if (topLevel && reader.remaining === MCAP_MAGIC.byteLength) break;
+
+    const opcode = reader.uint8();
+    const length = Number(reader.uint64());
+    const content = new ByteReader(reader.bytesOf(length));
+
+    switch (opcode) {
+      case McapOpcode.HEADER:
+        file.profile = content.string();
+        break;
+      case McapOpcode.SCHEMA: {
+        const id = content.uint16();
+        const name = content.string();
+        const encoding = content.string();
+        file.schemas.set(id, { id, name, encoding, data: content.prefixedBytes() });
+        break;
+      }
+      case McapOpcode.CHANNEL: {
+        const id = content.uint16();
+        const schemaId = content.uint16();
+        const topic = content.string();
+        const messageEncoding = content.string();
+        file.channels.set(id, { id, schemaId, topic, messageEncoding, metadata: content.stringMap() });
+        break;
+      }
+      case McapOpcode.MESSAGE: {
+        const channelId = content.uint16();
+        const sequence = content.uint32();
+        const logTime = nanosToMillis(content.uint64());
+        const publishTime = nanosToMillis(content.uint64());
+        file.messages.push({ channelId, sequence, logTime, publishTime, data: content.bytesOf(content.remaining) });
+        break;
+      }
+      case McapOpcode.CHUNK: {
+        // 无法解压的数据块只丢失其中的消息，不影响其他数据块
+        let records: Uint8Array;
+        try {
+          records = readChunkRecords(content);
+        } catch (error) {
+          const warning = `数据块无法解压，已跳过（${error instanceof Error ? error.message : String(error)}）`;
+          if (!file.warnings.includes(warning)) {
+            file.warnings.push(warning);
+          }
+          break;
+        }
+        readRecords(new ByteReader(records), file, false);
+        break;
+      }
+      case McapOpcode.DATA_END:
+      case McapOpcode.FOOTER:
+        // 之后是Summary段，其中的schema/通道在数据段中都已出现过
+        if (topLevel) return;
+        break;
+      default:
+        // 索引、附件、元数据等记录不影响回放
+        break;
+    }
+  }
+}
+
+/**
+ * 解出数据块中的记录
+ */
+function readChunkRecords(chunk: ByteReader): Uint8Array {
+  chunk.uint64(); // message_start_time
+  chunk.uint64(); // message_end_time
+  const uncompressedSize = Number(chunk.uint64());
+  chunk.uint32(); // uncompressed_crc
+  const compression = chunk.string();
+  const records = chunk.bytesOf(Number(chunk.uint64()));
+
+  switch (compression) {
+    case '':
+      return records;
+    case 'lz4':
+      return decompressLz4Frame(records, uncompressedSize);
+    case 'zstd':
+      return decompressZstd(records, new Uint8Array(uncompressedSize));
+    default:
+      throw new Error(`不支持的压缩格式 ${compression}`);
+  }
+}
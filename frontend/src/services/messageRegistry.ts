@@ -0,0 +1,337 @@
+/**
+ * ROS消息类型注册表
+ * 描述每种消息的字段结构，发布前做运行时校验，并提供话题的默认消息类型
+ */
+
+import { RosMessageType, StringMsg } from '../types/ros.types';
+
+/**
+ * 字段类型描述
+ */
+export type FieldSpec =
+  | 'bool'
+  | 'int'        // 整数（int8~int64、uint8~uint64）
+  | 'float'      // 浮点数（float32/float64）
+  | 'string'
+  | { array: FieldSpec }
+  | { message: string };
+
+export interface FieldDefinition {
+  spec: FieldSpec;
+  optional?: boolean;
+}
+
+export type MessageSchema = Record<string, FieldDefinition>;
+
+const req = (spec: FieldSpec): FieldDefinition => ({ spec });
+const opt = (spec: FieldSpec): FieldDefinition => ({ spec, optional: true });
+
+/**
+ * 已注册的消息结构
+ */
+const schemas: Map<string, MessageSchema> = new Map();
+
+/**
+ * 话题 → 默认消息类型
+ */
+const topicTypes: Map<string, string> = new Map();
+
+/**
+ * 规范化消息类型名：geometry_msgs/msg/Twist → geometry_msgs/Twist
+ */
+export function normalizeMessageType(type: string): string {
+  return type.replace('/msg/', '/');
+}
+
+/**
+ * 注册消息类型（可用于扩展自定义消息）
+ */
+export function registerMessageType(type: string, schema: MessageSchema): void {
+  schemas.set(normalizeMessageType(type), schema);
+}
+
+/**
+ * 获取消息结构
+ */
+export function getMessageSchema(type: string): MessageSchema | undefined {
+  return schemas.get(normalizeMessageType(type));
+}
+
+/**
+ * 是否为已注册的消息类型
+ */
+export function isRegisteredMessageType(type: string): boolean {
+  return schemas.has(normalizeMessageType(type));
+}
+
+/**
+ * 获取所有已注册的消息类型
+ */
+export function getRegisteredMessageTypes(): string[] {
+  return Array.from(schemas.keys());
+}
+
+/**
+ * 设置话题的默认消息类型
+ */
+export function registerTopicType(topic: string, type: string): void {
+  topicTypes.set(topic, normalizeMessageType(type));
+}
+
+/**
+ * 获取话题的默认消息类型
+ */
+export function getTopicType(topic: string): string | undefined {
+  return topicTypes.get(topic);
+}
+
+/**
+ * 获取所有已设置默认类型的话题
+ */
+export function getRegisteredTopics(): Array<{ topic: string; type: string }> {
+  return Array.from(topicTypes.entries()).map(([topic, type]) => ({ topic, type }));
+}
+
+/**
+ * 按消息结构生成默认消息（数值为0、字符串为空、数组为空，可选字段省略）
+ * 未注册的类型返回空对象
+ */
+export function createDefaultMessage(type: string): Record<string, any> {
+  const schema = getMessageSchema(type);
+  if (!schema) {
+    return {};
+  }
+
+  const message: Record<string, any> = {};
+  Object.entries(schema).forEach(([field, definition]) => {
+    if (!definition.optional) {
+      message[field] = createDefaultField(definition.spec);
+    }
+  });
+  return message;
+}
+
+function createDefaultField(spec: FieldSpec): any {
+  if (typeof spec === 'string') {
+    switch (spec) {
+      case 'bool':
+        return false;
+      case 'int':
+      case 'float':
+        return 0;
+      case 'string':
+        return '';
+    }
+  }
+  if ('array' in spec) {
+    return [];
+  }
+  return createDefaultMessage(spec.message);
+}
+
+/**
+ * 校验消息是否符合类型结构
+ * @returns 错误列表，为空表示校验通过；未注册的类型不做校验
+ */
+export function validateMessage(type: string, message: any): string[] {
+  const schema = getMessageSchema(type);
+  if (!schema) {
+    return [];
+  }
+
+  const errors: string[] = [];
+  validateAgainstSchema(schema, message, normalizeMessageType(type), errors);
+  return errors;
+}
+
+/**
+ * 驾驶舱自定义结构（cockpit_msgs/*，机器人上没有对应的ROS类型）下发到机器人时，
+ * 以JSON放在 std_msgs/String 中发布，结构只在客户端校验
+ * @returns 校验失败时返回null
+ */
+export function encodeJsonString(type: string, payload: any): StringMsg | null {
+  const errors = validateMessage(type, payload);
+  if (errors.length > 0) {
+    console.error(`[MessageRegistry] Invalid ${type} payload:`, errors);
+    return null;
+  }
+  return { data: JSON.stringify(payload) };
+}
+
+/**
+ * 解析 encodeJsonString 生成的 std_msgs/String
+ * @returns 无法解析或结构不符时返回null
+ */
+export function decodeJsonString<T = any>(type: string, message: any): T | null {
+  if (typeof message?.data !== 'string') return null;
+
+  let payload: any;
+  try {
+    payload = JSON.parse(message.data);
+  } catch {
+    return null;
+  }
+  return validateMessage(type, payload).length === 0 ? payload as T : null;
+}
+
+function validateAgainstSchema(schema: MessageSchema, value: any, path: string, errors: string[]): void {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`${path}: 应为对象`);
+    return;
+  }
+
+  Object.entries(schema).forEach(([field, definition]) => {
+    const fieldValue = value[field];
+    if (fieldValue === undefined) {
+      if (!definition.optional) {
+        errors.push(`${path}.${field}: 缺少字段`);
+      }
+      return;
+    }
+    validateField(definition.spec, fieldValue, `${path}.${field}`, errors);
+  });
+
+  Object.keys(value).forEach(field => {
+    if (!(field in schema)) {
+      errors.push(`${path}.${field}: 未知字段`);
+    }
+  });
+}
+
+function validateField(spec: FieldSpec, value: any, path: string, errors: string[]): void {
+  if (typeof spec === 'string') {
+    switch (spec) {
+      case 'bool':
+        if (typeof value !== 'boolean') errors.push(`${path}: 应为布尔值`);
+        return;
+      case 'int':
+        if (!Number.isInteger(value)) errors.push(`${path}: 应为整数`);
+        return;
+      case 'float':
+        if (typeof value !== 'number' || !Number.isFinite(value)) errors.push(`${path}: 应为有限数值`);
+        return;
+      case 'string':
+        if (typeof value !== 'string') errors.push(`${path}: 应为字符串`);
+        return;
+    }
+  }
+
+  if ('array' in spec) {
+    // 数值数组允许使用TypedArray（二进制编码解出的数据）
+    const items = ArrayBuffer.isView(value) ? Array.from(value as unknown as ArrayLike<number>) : value;
+    if (!Array.isArray(items)) {
+      errors.push(`${path}: 应为数组`);
+      return;
+    }
+    items.forEach((item, index) => validateField(spec.array, item, `${path}[${index}]`, errors));
+    return;
+  }
+
+  const nested = getMessageSchema(spec.message);
+  if (nested) {
+    validateAgainstSchema(nested, value, path, errors);
+  }
+}
+
+// ========== 内置消息类型 ==========
+
+const builtinSchemas: Record<RosMessageType | 'builtin_interfaces/Time', MessageSchema> = {
+  'builtin_interfaces/Time': { sec: req('int'), nanosec: req('int') },
+  'std_msgs/Header': { stamp: req({ message: 'builtin_interfaces/Time' }), frame_id: req('string') },
+  'std_msgs/String': { data: req('string') },
+  'std_msgs/Bool': { data: req('bool') },
+  'std_msgs/Float32': { data: req('float') },
+  'std_msgs/Float64': { data: req('float') },
+  'std_msgs/Int32': { data: req('int') },
+  'std_msgs/UInt8': { data: req('int') },
+  'std_msgs/Empty': {},
+  'geometry_msgs/Vector3': { x: req('float'), y: req('float'), z: req('float') },
+  'geometry_msgs/Twist': {
+    linear: req({ message: 'geometry_msgs/Vector3' }),
+    angular: req({ message: 'geometry_msgs/Vector3' }),
+  },
+  'geometry_msgs/Point': { x: req('float'), y: req('float'), z: req('float') },
+  'geometry_msgs/Quaternion': { x: req('float'), y: req('float'), z: req('float'), w: req('float') },
+  'geometry_msgs/Pose': {
+    position: req({ message: 'geometry_msgs/Point' }),
+    orientation: req({ message: 'geometry_msgs/Quaternion' }),
+  },
+  'geometry_msgs/PoseWithCovariance': {
+    pose: req({ message: 'geometry_msgs/Pose' }),
+    covariance: req({ array: 'float' }),
+  },
+  'geometry_msgs/TwistWithCovariance': {
+    twist: req({ message: 'geometry_msgs/Twist' }),
+    covariance: req({ array: 'float' }),
+  },
+  'nav_msgs/Odometry': {
+    header: opt({ message: 'std_msgs/Header' }),
+    child_frame_id: req('string'),
+    pose: req({ message: 'geometry_msgs/PoseWithCovariance' }),
+    twist: req({ message: 'geometry_msgs/TwistWithCovariance' }),
+  },
+  'sensor_msgs/JointState': {
+    header: opt({ message: 'std_msgs/Header' }),
+    name: req({ array: 'string' }),
+    position: req({ array: 'float' }),
+    velocity: req({ array: 'float' }),
+    effort: req({ array: 'float' }),
+  },
+  'sensor_msgs/BatteryState': {
+    header: opt({ message: 'std_msgs/Header' }),
+    voltage: req('float'),
+    temperature: req('float'),
+    current: req('float'),
+    charge: req('float'),
+    capacity: req('float'),
+    design_capacity: req('float'),
+    percentage: req('float'),
+    power_supply_status: req('int'),
+    power_supply_health: req('int'),
+    power_supply_technology: req('int'),
+    present: req('bool'),
+    cell_voltage: req({ array: 'float' }),
+    cell_temperature: req({ array: 'float' }),
+    location: req('string'),
+    serial_number: req('string'),
+  },
+  'diagnostic_msgs/KeyValue': { key: req('string'), value: req('string') },
+  'diagnostic_msgs/DiagnosticStatus': {
+    level: req('int'),
+    name: req('string'),
+    message: req('string'),
+    hardware_id: req('string'),
+    values: req({ array: { message: 'diagnostic_msgs/KeyValue' } }),
+  },
+  'diagnostic_msgs/DiagnosticArray': {
+    header: opt({ message: 'std_msgs/Header' }),
+    status: req({ array: { message: 'diagnostic_msgs/DiagnosticStatus' } }),
+  },
+  'cockpit_msgs/RobotCommand': { type: req('string'), timestamp: req('string'), screenId: req('int') },
+  'cockpit_msgs/Robot3DCommand': { command: req('string'), timestamp: req('int') },
+  'cockpit_msgs/Robot3DMove': {
+    command: req('string'),
+    linearX: req('float'),
+    linearY: req('float'),
+    angularZ: req('float'),
+    timestamp: req('int'),
+  },
+};
+
+Object.entries(builtinSchemas).forEach(([type, schema]) => registerMessageType(type, schema));
+
+// 驾驶舱使用的话题及其默认类型
+registerTopicType('/cmd_vel', 'geometry_msgs/Twist');
+registerTopicType('/joint_states', 'sensor_msgs/JointState');
+registerTopicType('/odom', 'nav_msgs/Odometry');
+registerTopicType('/battery_state', 'sensor_msgs/BatteryState');
+registerTopicType('/diagnostics', 'diagnostic_msgs/DiagnosticArray');
+registerTopicType('/robot/action', 'std_msgs/String');
+registerTopicType('/emergency_stop', 'std_msgs/Bool');
+registerTopicType('/emergency_stop/state', 'std_msgs/Bool');
+registerTopicType('/teleop/heartbeat', 'std_msgs/Header');
+// 面板命令下发到机器人，使用 std_msgs/String 承载 cockpit_msgs/RobotCommand 的JSON
+registerTopicType('/robot/commands', 'std_msgs/String');
+// 多屏3D同步，只由后端转发给其他屏幕，不发布到ROS
+registerTopicType('robot_3d_command', 'cockpit_msgs/Robot3DCommand');
+registerTopicType('robot_3d_move', 'cockpit_msgs/Robot3DMove');
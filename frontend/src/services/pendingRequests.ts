@@ -0,0 +1,103 @@
+/**
+ * 待响应请求表
+ * 按关联ID跟踪异步请求（服务调用、动作目标），负责超时和批量失败
+ */
+
+interface PendingRequest<T> {
+  resolve: (value: T) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout> | null;
+  label: string;
+}
+
+/**
+ * 生成关联ID
+ * @param prefix ID前缀（srv、act等）
+ */
+export function createCorrelationId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export class PendingRequests<T = any> {
+  private requests: Map<string, PendingRequest<T>> = new Map();
+
+  /**
+   * 登记请求
+   * @param id 关联ID
+   * @param label 请求描述（用于错误信息）
+   * @param timeoutMs 超时时间，0或undefined表示不超时
+   * @param onTimeout 超时后调用（如通知对端取消请求）
+   */
+  create(id: string, label: string, timeoutMs?: number, onTimeout?: () => void): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = timeoutMs
+        ? setTimeout(() => {
+            this.requests.delete(id);
+            reject(new Error(`${label} timed out after ${timeoutMs}ms`));
+            onTimeout?.();
+          }, timeoutMs)
+        : null;
+
+      this.requests.set(id, { resolve, reject, timer, label });
+    });
+  }
+
+  /**
+   * 完成请求
+   * @returns 是否找到对应请求
+   */
+  resolve(id: string, value: T): boolean {
+    const request = this.take(id);
+    if (!request) return false;
+    request.resolve(value);
+    return true;
+  }
+
+  /**
+   * 使请求失败
+   * @returns 是否找到对应请求
+   */
+  reject(id: string, reason: string): boolean {
+    const request = this.take(id);
+    if (!request) return false;
+    request.reject(new Error(`${request.label} failed: ${reason}`));
+    return true;
+  }
+
+  /**
+   * 以指定错误使请求失败（转发其他服务的错误时使用，不再添加前缀）
+   * @returns 是否找到对应请求
+   */
+  fail(id: string, error: Error): boolean {
+    const request = this.take(id);
+    if (!request) return false;
+    request.reject(error);
+    return true;
+  }
+
+  /**
+   * 使所有请求失败（连接断开时）
+   */
+  rejectAll(reason: string): void {
+    Array.from(this.requests.keys()).forEach(id => this.reject(id, reason));
+  }
+
+  has(id: string): boolean {
+    return this.requests.has(id);
+  }
+
+  get size(): number {
+    return this.requests.size;
+  }
+
+  private take(id: string): PendingRequest<T> | undefined {
+    const request = this.requests.get(id);
+    if (!request) return undefined;
+
+    if (request.timer) {
+      clearTimeout(request.timer);
+    }
+    this.requests.delete(id);
+    return request;
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * 离线发布队列
+ * 连接断开期间按话题策略缓存发布请求，重连后补发
+ *
+ * 策略：
+ * - drop：断线时直接丢弃（速度指令等时效性强的话题，绝不补发过期数据）
+ * - keep-latest：只保留最后一条，超过TTL丢弃
+ * - keep-all：按顺序保留全部，超过TTL或数量上限时丢弃最旧的
+ * 话题还可以设置消息过滤器，按内容丢弃不允许补发的消息（如面板的启动命令）
+ */
+
+export type PublishPolicy =
+  | { mode: 'drop' }
+  | { mode: 'keep-latest'; ttlMs: number }
+  | { mode: 'keep-all'; ttlMs: number; maxSize?: number };
+
+export interface QueuedPublish {
+  topic: string;
+  message: any;
+  type?: string;
+  queuedAt: number;
+}
+
+const DEFAULT_MAX_SIZE = 100;
+
+// 未配置策略的话题：保留最后一条，5秒内有效
+let defaultPolicy: PublishPolicy = { mode: 'keep-latest', ttlMs: 5000 };
+
+/**
+ * 话题 → 发布策略
+ */
+const topicPolicies: Map<string, PublishPolicy> = new Map();
+
+/**
+ * 设置话题的离线发布策略
+ */
+export function setPublishPolicy(topic: string, policy: PublishPolicy): void {
+  topicPolicies.set(topic, policy);
+}
+
+/**
+ * 获取话题的离线发布策略
+ */
+export function getPublishPolicy(topic: string): PublishPolicy {
+  return topicPolicies.get(topic) ?? defaultPolicy;
+}
+
+/**
+ * 话题 → 消息过滤器（返回false的消息断线时丢弃）
+ */
+const topicFilters: Map<string, (message: any) => boolean> = new Map();
+
+/**
+ * 设置话题的离线消息过滤器，传null移除
+ */
+export function setPublishFilter(topic: string, filter: ((message: any) => boolean) | null): void {
+  if (filter) {
+    topicFilters.set(topic, filter);
+  } else {
+    topicFilters.delete(topic);
+  }
+}
+
+/**
+ * 设置默认离线发布策略
+ */
+export function setDefaultPublishPolicy(policy: PublishPolicy): void {
+  defaultPolicy = policy;
+}
+
+export class PublishQueue {
+  // 按入队顺序保存
+  private items: QueuedPublish[] = [];
+
+  /**
+   * 按话题策略入队
+   * @returns 是否已入队（drop策略或被过滤器拒绝时返回false）
+   */
+  enqueue(topic: string, message: any, type?: string): boolean {
+    const policy = getPublishPolicy(topic);
+    if (policy.mode === 'drop') {
+      return false;
+    }
+    const filter = topicFilters.get(topic);
+    if (filter && !filter(message)) {
+      return false;
+    }
+
+    const item: QueuedPublish = { topic, message, type, queuedAt: Date.now() };
+
+    if (policy.mode === 'keep-latest') {
+      this.items = this.items.filter(queued => queued.topic !== topic);
+      this.items.push(item);
+      return true;
+    }
+
+    this.items.push(item);
+
+    // 超过上限时丢弃该话题最旧的消息
+    const maxSize = policy.maxSize ?? DEFAULT_MAX_SIZE;
+    const sameTopic = this.items.filter(queued => queued.topic === topic);
+    if (sameTopic.length > maxSize) {
+      const oldest = sameTopic[0];
+      this.items.splice(this.items.indexOf(oldest), 1);
+    }
+    return true;
+  }
+
+  /**
+   * 取出全部未过期的消息（按入队顺序），并清空队列
+   * 过期判断使用取出时的策略，策略在断线期间变为drop的话题也会被丢弃
+   */
+  drain(now: number = Date.now()): { items: QueuedPublish[]; expired: number } {
+    const items: QueuedPublish[] = [];
+    let expired = 0;
+
+    this.items.forEach(item => {
+      const policy = getPublishPolicy(item.topic);
+      if (policy.mode === 'drop' || now - item.queuedAt > policy.ttlMs) {
+        expired++;
+      } else {
+        items.push(item);
+      }
+    });
+
+    this.items = [];
+    return { items, expired };
+  }
+
+  clear(): void {
+    this.items = [];
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+}
+
+// 时效性强的话题：断线期间的指令不补发
+setPublishPolicy('/cmd_vel', { mode: 'drop' });
+setPublishPolicy('/robot/action', { mode: 'drop' });
+// 心跳会延长机器人的指令看门狗，过期心跳绝不补发
+setPublishPolicy('/teleop/heartbeat', { mode: 'drop' });
+setPublishPolicy('robot_3d_move', { mode: 'drop' });
+setPublishPolicy('/robot/audio/stream', { mode: 'drop' });
+// 面板命令按顺序补发，但只在短时间内有效（启动/复位等运动命令由急停模块设置过滤器，不补发）
+setPublishPolicy('/robot/commands', { mode: 'keep-all', ttlMs: 10000, maxSize: 20 });
+setPublishPolicy('robot_3d_command', { mode: 'keep-all', ttlMs: 10000, maxSize: 20 });
@@ -0,0 +1,245 @@
+/**
+ * 会话录制文件格式（.rrec）
+ *
+ * 文件结构：
+ *   魔数 "RREC" + 版本号(u16 LE) + "\r\n"（共8字节）
+ *   帧序列：类型(u8) + 长度(u32 LE) + CBOR内容
+ *     - header：{ version, startTime, robot?, transport? }
+ *     - chunk： { startTime, endTime, records: [[时间偏移ms, 方向, 话题, 类型|null, 数据], ...] }
+ *     - footer：{ endTime, messageCount, topics: [{ topic, type, direction, count }] }
+ *
+ * 数据按块追加，进程崩溃或浏览器关闭时已写出的块仍可解析；
+ * 消息以CBOR编码，数值数组保留为TypedArray，比JSON紧凑
+ */
+
+import { decodeCbor, encodeCbor } from './cbor';
+import { McapWriter } from './mcap';
+
+export const RECORDING_VERSION = 1;
+export const RECORDING_EXTENSION = '.rrec';
+
+// "RREC" + 版本 + "\r\n"
+const RECORDING_MAGIC = new Uint8Array([0x52, 0x52, 0x45, 0x43, RECORDING_VERSION & 0xff, RECORDING_VERSION >> 8, 0x0d, 0x0a]);
+
+const FRAME_HEADER = 1;
+const FRAME_CHUNK = 2;
+const FRAME_FOOTER = 3;
+
+/**
+ * 消息方向：in为收到的话题数据，out为本机发布，event为连接状态等事件
+ */
+export type RecordDirection = 'in' | 'out' | 'event';
+
+export interface RecordedMessage {
+  timestamp: number;   // 毫秒时间戳
+  direction: RecordDirection;
+  topic: string;       // event方向时为事件名（connected/disconnected等）
+  type?: string;
+  data: any;
+}
+
+export interface RecordingHeader {
+  version: number;
+  startTime: number;
+  robot?: string;
+  transport?: string;
+}
+
+export interface RecordingTopicSummary {
+  topic: string;
+  type?: string;
+  direction: RecordDirection;
+  count: number;
+}
+
+export interface RecordingFooter {
+  endTime: number;
+  messageCount: number;
+  topics: RecordingTopicSummary[];
+}
+
+export interface ParsedRecording {
+  header: RecordingHeader;
+  footer: RecordingFooter | null;   // 录制未正常结束时为null
+  messages: RecordedMessage[];
+  truncated: boolean;               // 文件末尾有不完整的帧
+  skipped: number;                  // 格式不正确而跳过的记录数
+}
+
+/**
+ * 数据块中的一条记录：[时间偏移ms, 方向, 话题, 类型|null, 数据]
+ */
+type RecordTuple = [number, RecordDirection, string, string | null, any];
+
+const RECORD_DIRECTIONS: RecordDirection[] = ['in', 'out', 'event'];
+
+function isRecordTuple(value: unknown): value is RecordTuple {
+  if (!Array.isArray(value) || value.length !== 5) return false;
+  const [offsetMs, direction, topic, type] = value;
+  return typeof offsetMs === 'number' && Number.isFinite(offsetMs) &&
+    RECORD_DIRECTIONS.includes(direction) &&
+    typeof topic === 'string' &&
+    (type === null || typeof type === 'string');
+}
+
+/**
+ * 编码一帧
+ */
+function encodeFrame(kind: number, content: any): Uint8Array {
+  const payload = encodeCbor(content);
+  const frame = new Uint8Array(5 + payload.byteLength);
+  frame[0] = kind;
+  new DataView(frame.buffer).setUint32(1, payload.byteLength, true);
+  frame.set(payload, 5);
+  return frame;
+}
+
+/**
+ * 文件开头：魔数 + header帧
+ */
+export function encodeRecordingHeader(header: RecordingHeader): Uint8Array {
+  const frame = encodeFrame(FRAME_HEADER, header);
+  const result = new Uint8Array(RECORDING_MAGIC.byteLength + frame.byteLength);
+  result.set(RECORDING_MAGIC, 0);
+  result.set(frame, RECORDING_MAGIC.byteLength);
+  return result;
+}
+
+/**
+ * 编码一个数据块，时间以相对录制开始的偏移保存
+ */
+export function encodeRecordingChunk(startTime: number, messages: RecordedMessage[]): Uint8Array {
+  return encodeFrame(FRAME_CHUNK, {
+    startTime: messages[0]?.timestamp ?? startTime,
+    endTime: messages[messages.length - 1]?.timestamp ?? startTime,
+    records: messages.map((message): RecordTuple => [
+      message.timestamp - startTime,
+      message.direction,
+      message.topic,
+      message.type ?? null,
+      message.data,
+    ]),
+  });
+}
+
+export function encodeRecordingFooter(footer: RecordingFooter): Uint8Array {
+  return encodeFrame(FRAME_FOOTER, footer);
+}
+
+/**
+ * 是否为.rrec文件
+ */
+export function isRecordingFile(bytes: Uint8Array): boolean {
+  return bytes.byteLength >= RECORDING_MAGIC.byteLength && RECORDING_MAGIC.slice(0, 4).every((value, index) => bytes[index] === value);
+}
+
+/**
+ * 解析录制文件
+ * 不是录制文件、版本不支持或缺少header时抛出错误；格式不正确的记录跳过并计数，
+ * 无法解码的帧视为文件在此截断
+ */
+export function parseRecording(input: ArrayBuffer | Uint8Array): ParsedRecording {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  if (!isRecordingFile(bytes)) {
+    throw new Error('Not a session recording file');
+  }
+
+  const version = bytes[4] | (bytes[5] << 8);
+  if (version > RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${version}`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = RECORDING_MAGIC.byteLength;
+  let header: RecordingHeader | null = null;
+  let footer: RecordingFooter | null = null;
+  let truncated = false;
+  let skipped = 0;
+  const messages: RecordedMessage[] = [];
+
+  while (offset < bytes.byteLength) {
+    if (offset + 5 > bytes.byteLength) {
+      truncated = true;
+      break;
+    }
+    const kind = bytes[offset];
+    const length = view.getUint32(offset + 1, true);
+    const start = offset + 5;
+    if (start + length > bytes.byteLength) {
+      truncated = true;
+      break;
+    }
+    let content: unknown;
+    try {
+      content = decodeCbor(bytes.subarray(start, start + length));
+    } catch {
+      truncated = true;
+      break;
+    }
+    offset = start + length;
+
+    if (kind === FRAME_HEADER) {
+      const candidate = content as Partial<RecordingHeader> | null;
+      if (!candidate || typeof candidate.startTime !== 'number') throw new Error('Recording header invalid');
+      header = candidate as RecordingHeader;
+    } else if (kind === FRAME_CHUNK) {
+      if (!header) throw new Error('Recording chunk before header');
+      const startTime = header.startTime;
+      const records: unknown = (content as { records?: unknown } | null)?.records;
+      if (!Array.isArray(records)) {
+        skipped++;
+        continue;
+      }
+      records.forEach(record => {
+        if (!isRecordTuple(record)) {
+          skipped++;
+          return;
+        }
+        const [offsetMs, direction, topic, type, data] = record;
+        messages.push({ timestamp: startTime + offsetMs, direction, topic, type: type ?? undefined, data });
+      });
+    } else if (kind === FRAME_FOOTER) {
+      const candidate = content as Partial<RecordingFooter> | null;
+      footer = candidate && typeof candidate.endTime === 'number' ? candidate as RecordingFooter : null;
+    }
+    // 未知类型的帧直接跳过，便于以后扩展
+  }
+
+  if (!header) {
+    throw new Error('Recording header missing');
+  }
+
+  return { header, footer, messages, truncated, skipped };
+}
+
+/**
+ * 转换为MCAP文件（每个话题和方向一个通道，消息以JSON编码）
+ */
+export function convertRecordingToMcap(recording: ParsedRecording): Uint8Array {
+  const writer = new McapWriter();
+  const channels: Map<string, number> = new Map();
+  const encoder = new TextEncoder();
+
+  // JSON不支持TypedArray，转换为普通数组
+  const replacer = (_key: string, value: any) =>
+    ArrayBuffer.isView(value) && !(value instanceof DataView) ? Array.from(value as unknown as ArrayLike<number>) : value;
+
+  recording.messages.forEach(message => {
+    const key = `${message.direction}:${message.topic}`;
+    let channelId = channels.get(key);
+    if (channelId === undefined) {
+      const metadata: Record<string, string> = { direction: message.direction };
+      if (message.type) metadata.ros_type = message.type;
+      channelId = writer.addChannel({
+        // 本机发布和事件放在单独的命名空间下，避免与收到的同名话题混在一起
+        topic: message.direction === 'in' ? message.topic : `/_${message.direction}${message.topic.startsWith('/') ? '' : '/'}${message.topic}`,
+        messageEncoding: 'json',
+        metadata,
+      });
+      channels.set(key, channelId);
+    }
+    writer.addMessage(channelId, message.timestamp, encoder.encode(JSON.stringify(message.data ?? null, replacer)));
+  });
+
+  return writer.finish();
+}
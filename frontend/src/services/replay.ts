@@ -0,0 +1,358 @@
+/**
+ * 回放通信服务
+ * 按录制时的时间间隔把录制文件中的话题数据重新分发出去，对应用层与真实连接完全一致
+ * （connected/ready、topic_data、topic:<name>事件和订阅回调），所有屏幕无需修改即可回看一次运行
+ *
+ * 回放是只读的：发布的消息被丢弃，服务调用和动作目标直接失败
+ */
+
+import { BaseCommunicationService } from './baseCommunication';
+import { SubscribeOptions } from './communication.interface';
+import { ReplayMessage, ReplayRecording, ReplayTopicInfo, getReplayMessageData } from './replaySource';
+
+export interface ReplayState {
+  loaded: boolean;
+  name: string | null;
+  playing: boolean;
+  speed: number;
+  loop: boolean;
+  position: number;     // 当前回放到的录制时间（毫秒时间戳）
+  startTime: number;
+  endTime: number;
+  messageCount: number;
+  topics: ReplayTopicInfo[];
+  warnings: string[];
+}
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+
+// 回放时钟的推进间隔
+const TICK_INTERVAL_MS = 16;
+// 状态通知间隔（时间轴刷新）
+const STATE_NOTIFY_INTERVAL_MS = 200;
+
+class ReplayService extends BaseCommunicationService {
+  protected readonly logTag = '[Replay]';
+
+  private recording: ReplayRecording | null = null;
+  private connected: boolean = false;
+  private playing: boolean = false;
+  private speed: number = 1;
+  private loop: boolean = false;
+
+  // 下一条待分发消息的下标
+  private cursor: number = 0;
+  // 回放时钟：anchorWall时刻对应录制时间anchorPosition
+  private anchorWall: number = 0;
+  private anchorPosition: number = 0;
+  private position: number = 0;
+
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private lastNotify: number = 0;
+  private warnedPublish: boolean = false;
+  private stateListeners: Set<(state: ReplayState) => void> = new Set();
+
+  // ========== 录制加载 ==========
+
+  /**
+   * 加载录制（替换当前录制，回到开头并暂停）
+   */
+  load(recording: ReplayRecording): void {
+    this.pause();
+    this.recording = recording;
+    this.cursor = 0;
+    this.position = recording.startTime;
+    this.warnedPublish = false;
+
+    console.log(`${this.logTag} Loaded ${recording.name}: ${recording.messages.length} messages, ${recording.topics.length} topics`);
+    recording.warnings.forEach(warning => console.warn(`${this.logTag} ${warning}`));
+    this.notifyState();
+  }
+
+  /**
+   * 卸载录制
+   */
+  unload(): void {
+    this.pause();
+    this.recording = null;
+    this.cursor = 0;
+    this.position = 0;
+    this.notifyState();
+  }
+
+  getRecording(): ReplayRecording | null {
+    return this.recording;
+  }
+
+  // ========== 回放控制 ==========
+
+  play(): void {
+    if (!this.recording || this.playing) return;
+
+    // 已到结尾时从头开始
+    if (this.position >= this.recording.endTime) {
+      this.seek(this.recording.startTime);
+    }
+
+    this.playing = true;
+    this.anchorWall = Date.now();
+    this.anchorPosition = this.position;
+    this.tickTimer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+    this.notifyState();
+  }
+
+  pause(): void {
+    if (!this.playing) return;
+
+    this.tick();
+    this.playing = false;
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    this.notifyState();
+  }
+
+  /**
+   * 跳转到指定录制时间
+   * 跳转后立即分发各话题在该时刻之前的最新一条消息，界面直接显示该时刻的状态
+   */
+  seek(position: number): void {
+    if (!this.recording) return;
+
+    const { startTime, endTime, messages } = this.recording;
+    this.position = Math.min(endTime, Math.max(startTime, position));
+    this.cursor = this.findIndexAfter(this.position);
+    this.anchorWall = Date.now();
+    this.anchorPosition = this.position;
+
+    if (this.connected) {
+      const latest: Map<string, ReplayMessage> = new Map();
+      for (let i = this.cursor - 1; i >= 0 && latest.size < this.recording.topics.length; i--) {
+        if (!latest.has(messages[i].topic)) {
+          latest.set(messages[i].topic, messages[i]);
+        }
+      }
+      Array.from(latest.values())
+        .filter(message => this.subscriptions.has(message.topic))
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .forEach(message => this.dispatchMessage(message));
+    }
+
+    this.notifyState();
+  }
+
+  setSpeed(speed: number): void {
+    if (speed <= 0) return;
+
+    // 以当前位置为新的锚点，避免调速时跳变
+    this.anchorPosition = this.currentPosition();
+    this.anchorWall = Date.now();
+    this.speed = speed;
+    this.notifyState();
+  }
+
+  setLoop(loop: boolean): void {
+    this.loop = loop;
+    this.notifyState();
+  }
+
+  getState(): ReplayState {
+    const recording = this.recording;
+    return {
+      loaded: !!recording,
+      name: recording?.name ?? null,
+      playing: this.playing,
+      speed: this.speed,
+      loop: this.loop,
+      position: this.position,
+      startTime: recording?.startTime ?? 0,
+      endTime: recording?.endTime ?? 0,
+      messageCount: recording?.messages.length ?? 0,
+      topics: recording?.topics ?? [],
+      warnings: recording?.warnings ?? [],
+    };
+  }
+
+  /**
+   * 监听回放状态（加载、播放/暂停、跳转、回放进度）
+   * @returns 取消监听的函数
+   */
+  onState(callback: (state: ReplayState) => void): () => void {
+    this.stateListeners.add(callback);
+    return () => {
+      this.stateListeners.delete(callback);
+    };
+  }
+
+  // ========== 连接管理 ==========
+
+  /**
+   * "连接"即开始对外提供回放数据（需要先加载录制）
+   */
+  connect(): void {
+    if (this.connected) return;
+    if (!this.recording) {
+      console.warn(`${this.logTag} No recording loaded`);
+      return;
+    }
+
+    this.connected = true;
+    this.emit('connected');
+    this.onTransportReady();
+    // 显示当前位置的状态
+    this.seek(this.position);
+  }
+
+  disconnect(): void {
+    if (!this.connected) return;
+
+    this.pause();
+    this.connected = false;
+    this.failPendingRequests('replay stopped');
+    this.clearPublishQueue();
+    this.emit('disconnected', 'replay stopped');
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  registerScreen(_screenId: number): void {
+    // 回放不需要注册屏幕
+  }
+
+  // ========== 底层发送（回放为只读） ==========
+
+  protected isTransportReady(): boolean {
+    return this.connected;
+  }
+
+  protected sendSubscribe(topic: string, _type?: string, _options?: SubscribeOptions): void {
+    // 新订阅的话题立即收到当前时刻之前的最新消息（暂停时界面也能显示）
+    // 延迟到订阅句柄返回之后，并以届时的回放位置为准
+    setTimeout(() => {
+      if (!this.connected || !this.subscriptions.has(topic)) return;
+      const message = this.findLatestBefore(topic, this.cursor);
+      if (message) {
+        this.dispatchMessage(message);
+      }
+    }, 0);
+  }
+
+  protected sendUnsubscribe(_topic: string): void {
+    // 回放数据全部在本地，无需取消
+  }
+
+  protected sendPublish(topic: string): void {
+    if (!this.warnedPublish) {
+      this.warnedPublish = true;
+      console.warn(`${this.logTag} Publishing is disabled during replay, dropped ${topic} (further drops are silent)`);
+    }
+  }
+
+  protected sendServiceCall(requestId: string, service: string): void {
+    this.handleServiceError(requestId, new Error(`Service call ${service} unavailable during replay`));
+  }
+
+  protected sendActionGoalRequest(goalId: string, action: string): void {
+    this.handleActionError(goalId, new Error(`Action ${action} unavailable during replay`));
+  }
+
+  protected sendCancelActionGoal(): void {
+    // 动作目标在发送时已失败
+  }
+
+  // ========== 私有方法 ==========
+
+  private currentPosition(): number {
+    if (!this.playing) return this.position;
+    return this.anchorPosition + (Date.now() - this.anchorWall) * this.speed;
+  }
+
+  /**
+   * 推进回放时钟，分发到达时间的消息
+   */
+  private tick(): void {
+    const recording = this.recording;
+    if (!recording || !this.playing) return;
+
+    const target = Math.min(this.currentPosition(), recording.endTime);
+    const { messages } = recording;
+    while (this.cursor < messages.length && messages[this.cursor].timestamp <= target) {
+      if (this.connected) {
+        this.dispatchMessage(messages[this.cursor]);
+      }
+      this.cursor++;
+    }
+    this.position = target;
+
+    if (target >= recording.endTime) {
+      if (this.loop) {
+        this.seek(recording.startTime);
+        return;
+      }
+      this.playing = false;
+      if (this.tickTimer) {
+        clearInterval(this.tickTimer);
+        this.tickTimer = null;
+      }
+      this.notifyState();
+      return;
+    }
+
+    const now = Date.now();
+    if (now - this.lastNotify >= STATE_NOTIFY_INTERVAL_MS) {
+      this.notifyState();
+    }
+  }
+
+  private dispatchMessage(message: ReplayMessage): void {
+    const data = getReplayMessageData(message);
+    if (data === null || data === undefined) return;
+    // 时间戳使用当前时间，依赖消息新鲜度的逻辑与实时连接时一致
+    this.dispatchTopicData({ topic: message.topic, data, timestamp: Date.now() });
+  }
+
+  /**
+   * 第一条时间晚于position的消息下标（二分查找）
+   */
+  private findIndexAfter(position: number): number {
+    const messages = this.recording?.messages ?? [];
+    let low = 0;
+    let high = messages.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (messages[mid].timestamp <= position) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  private findLatestBefore(topic: string, index: number): ReplayMessage | null {
+    const messages = this.recording?.messages ?? [];
+    for (let i = Math.min(index, messages.length) - 1; i >= 0; i--) {
+      if (messages[i].topic === topic) return messages[i];
+    }
+    return null;
+  }
+
+  private notifyState(): void {
+    this.lastNotify = Date.now();
+    const state = this.getState();
+    this.stateListeners.forEach(listener => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error(`${this.logTag} Error in state listener:`, error);
+      }
+    });
+  }
+}
+
+// 导出单例
+const replayService = new ReplayService();
+export default replayService;
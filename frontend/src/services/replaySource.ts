@@ -0,0 +1,179 @@
+/**
+ * 回放数据源
+ * 把会话录制文件（.rrec）或MCAP文件（本应用导出的或机器人上rosbag2录制的）转换为按时间排序的消息序列
+ * MCAP消息在回放到时才解码，大文件加载时不必一次性解析全部消息
+ */
+
+import { decodeCbor } from './cbor';
+import { createCdrDecoder, normalizeMessageType } from './cdr';
+import { McapChannel, McapFile, isMcapFile, readMcap } from './mcap';
+import { isRecordingFile, parseRecording } from './recordingFormat';
+
+export interface ReplayMessage {
+  timestamp: number;   // 录制时的毫秒时间戳
+  topic: string;
+  type?: string;
+  payload: any;        // 已解码的消息，或待decode处理的原始数据
+  decode?: (payload: any) => any;
+}
+
+export interface ReplayTopicInfo {
+  topic: string;
+  type?: string;
+  count: number;
+}
+
+export interface ReplayRecording {
+  name: string;
+  format: 'rrec' | 'mcap';
+  startTime: number;
+  endTime: number;
+  messages: ReplayMessage[];
+  topics: ReplayTopicInfo[];
+  warnings: string[];   // 无法回放的通道等
+}
+
+/**
+ * 获取回放消息的内容
+ */
+export function getReplayMessageData(message: ReplayMessage): any {
+  return message.decode ? message.decode(message.payload) : message.payload;
+}
+
+/**
+ * 加载回放文件（根据文件头识别格式）
+ */
+export async function loadReplayFile(file: Blob, name: string = (file as File).name ?? 'recording'): Promise<ReplayRecording> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return loadReplayData(bytes, name);
+}
+
+export function loadReplayData(bytes: Uint8Array, name: string): ReplayRecording {
+  if (isRecordingFile(bytes)) {
+    return fromSessionRecording(bytes, name);
+  }
+  if (isMcapFile(bytes)) {
+    return fromMcap(readMcap(bytes), name);
+  }
+  throw new Error('无法识别的文件格式（支持 .rrec 和 .mcap）');
+}
+
+// ========== 私有方法 ==========
+
+function fromSessionRecording(bytes: Uint8Array, name: string): ReplayRecording {
+  const recording = parseRecording(bytes);
+  const warnings: string[] = [];
+  if (recording.truncated || !recording.footer) {
+    warnings.push('录制未正常结束，只回放已写入的部分');
+  }
+  if (recording.skipped > 0) {
+    warnings.push(`${recording.skipped} 条记录格式不正确，已跳过`);
+  }
+
+  // 收到的话题数据和本机发布的消息都按话题数据回放（如/cmd_vel），连接事件不回放
+  const messages: ReplayMessage[] = recording.messages
+    .filter(message => message.direction !== 'event')
+    .map(message => ({ timestamp: message.timestamp, topic: message.topic, type: message.type, payload: message.data }));
+
+  return buildRecording(name, 'rrec', messages, warnings, recording.header.startTime, recording.footer?.endTime);
+}
+
+function fromMcap(file: McapFile, name: string): ReplayRecording {
+  const warnings: string[] = [...file.warnings];
+  const decoders: Map<number, ((payload: Uint8Array) => any) | null> = new Map();
+  const textDecoder = new TextDecoder();
+
+  const createDecoder = (channel: McapChannel): ((payload: Uint8Array) => any) | null => {
+    const schema = file.schemas.get(channel.schemaId);
+    switch (channel.messageEncoding) {
+      case 'json':
+        return payload => JSON.parse(textDecoder.decode(payload));
+      case 'cbor':
+        return payload => decodeCbor(payload);
+      case 'cdr':
+        if (schema?.encoding === 'ros2msg') {
+          try {
+            return createCdrDecoder(schema.name, textDecoder.decode(schema.data));
+          } catch (error) {
+            warnings.push(`${channel.topic}: 消息定义解析失败（${error instanceof Error ? error.message : String(error)}）`);
+            return null;
+          }
+        }
+        warnings.push(`${channel.topic}: 不支持的schema编码 ${schema?.encoding ?? '无'}`);
+        return null;
+      default:
+        warnings.push(`${channel.topic}: 不支持的消息编码 ${channel.messageEncoding}`);
+        return null;
+    }
+  };
+
+  const messages: ReplayMessage[] = [];
+  file.messages.forEach(message => {
+    const channel = file.channels.get(message.channelId);
+    if (!channel) return;
+
+    if (!decoders.has(channel.id)) {
+      decoders.set(channel.id, createDecoder(channel));
+    }
+    const decoder = decoders.get(channel.id);
+    if (!decoder) return;
+
+    const schema = file.schemas.get(channel.schemaId);
+    const type = channel.metadata.ros_type ?? (schema ? normalizeMessageType(schema.name) : undefined);
+
+    messages.push({
+      timestamp: message.logTime,
+      topic: channel.topic,
+      type,
+      payload: message.data,
+      decode: (payload: Uint8Array) => {
+        try {
+          return decoder(payload);
+        } catch (error) {
+          console.warn(`[Replay] Failed to decode message on ${channel.topic}:`, error);
+          return null;
+        }
+      },
+    });
+  });
+
+  return buildRecording(name, 'mcap', messages, warnings);
+}
+
+function buildRecording(
+  name: string,
+  format: ReplayRecording['format'],
+  messages: ReplayMessage[],
+  warnings: string[],
+  startTime?: number,
+  endTime?: number
+): ReplayRecording {
+  // 稳定排序：同一时刻的消息保持文件中的顺序
+  const sorted = messages
+    .map((message, index) => ({ message, index }))
+    .sort((a, b) => a.message.timestamp - b.message.timestamp || a.index - b.index)
+    .map(({ message }) => message);
+
+  const topics: Map<string, ReplayTopicInfo> = new Map();
+  sorted.forEach(message => {
+    const info = topics.get(message.topic);
+    if (info) {
+      info.count++;
+    } else {
+      topics.set(message.topic, { topic: message.topic, type: message.type, count: 1 });
+    }
+  });
+
+  const first = sorted[0]?.timestamp ?? startTime ?? 0;
+  const last = sorted[sorted.length - 1]?.timestamp ?? first;
+
+  return {
+    name,
+    format,
+    startTime: Math.min(startTime ?? first, first),
+    endTime: Math.max(endTime ?? last, last),
+    messages: sorted,
+    topics: Array.from(topics.values()),
+    warnings,
+  };
+}
@@ -27,6 +27,8 @@ export interface CloudRobotConfig {
   websocket?: {
     url: string;
   };
+  // 指定通信方式（不指定时支持WebRTC则优先WebRTC）
+  transport?: 'webrtc' | 'websocket';
   // 其他扩展信息
   [key: string]: any;
 }
@@ -0,0 +1,301 @@
+/**
+ * 会话录制
+ * 记录通信层收到的所有话题数据（topic_data）和本机的所有发布（topic_publish，以及不经过通信代理的急停通道），
+ * 以及连接状态变化，按块写入.rrec文件，可导出为MCAP，用于事后复现问题
+ */
+
+import communicationFactory from './communicationFactory';
+import emergencyStopService from './emergencyStop';
+import { TopicData } from './communication.interface';
+import {
+  RECORDING_EXTENSION,
+  RECORDING_VERSION,
+  RecordDirection,
+  RecordedMessage,
+  RecordingTopicSummary,
+  convertRecordingToMcap,
+  encodeRecordingChunk,
+  encodeRecordingFooter,
+  encodeRecordingHeader,
+  parseRecording,
+} from './recordingFormat';
+
+export type RecordingExportFormat = 'rrec' | 'mcap';
+
+export interface SessionRecorderStatus {
+  recording: boolean;
+  startTime: number | null;
+  endTime: number | null;
+  messageCount: number;
+  bytes: number;               // 已编码的数据量
+  hasRecording: boolean;       // 是否有可下载的录制
+  stoppedReason: string | null; // 非手动停止的原因（如超出大小上限）
+}
+
+// 缓冲的消息达到该数量或距上次写块超过该时间时编码为一个块
+const CHUNK_MAX_MESSAGES = 1000;
+const FLUSH_INTERVAL_MS = 1000;
+// 录制大小上限，超过后自动停止，避免占满浏览器内存
+const DEFAULT_MAX_BYTES = 256 * 1024 * 1024;
+
+// 录制的连接事件
+const RECORDED_EVENTS = ['connected', 'disconnected', 'ready'];
+
+class SessionRecorder {
+  private recording: boolean = false;
+  private startTime: number | null = null;
+  private endTime: number | null = null;
+  private buffer: RecordedMessage[] = [];
+  private parts: Uint8Array[] = [];
+  private bytes: number = 0;
+  private messageCount: number = 0;
+  private topicSummary: Map<string, RecordingTopicSummary> = new Map();
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private stoppedReason: string | null = null;
+  private maxBytes: number = DEFAULT_MAX_BYTES;
+  private listeners: Set<(status: SessionRecorderStatus) => void> = new Set();
+  private eventHandlers: Map<string, (...args: any[]) => void> = new Map();
+  private unsubscribeEmergencyStop: (() => void) | null = null;
+
+  private handleTopicData = (data: TopicData) => {
+    this.record('in', data.topic, undefined, data.data, data.timestamp);
+  };
+
+  private handleTopicPublish = (data: TopicData & { type?: string }) => {
+    this.record('out', data.topic, data.type, data.data, data.timestamp);
+  };
+
+  /**
+   * 设置录制大小上限（字节）
+   */
+  setMaxBytes(maxBytes: number): void {
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * 开始录制（会丢弃上一次的录制）
+   */
+  start(): void {
+    if (this.recording) return;
+
+    const service = communicationFactory.getService();
+    const startTime = Date.now();
+
+    this.recording = true;
+    this.startTime = startTime;
+    this.endTime = null;
+    this.buffer = [];
+    this.bytes = 0;
+    this.messageCount = 0;
+    this.topicSummary.clear();
+    this.stoppedReason = null;
+    this.parts = [
+      encodeRecordingHeader({
+        version: RECORDING_VERSION,
+        startTime,
+        robot: communicationFactory.getCurrentRobotId() ?? undefined,
+        transport: communicationFactory.getCurrentMode(),
+      }),
+    ];
+    this.bytes = this.parts[0].byteLength;
+
+    service.on('topic_data', this.handleTopicData);
+    service.on('topic_publish', this.handleTopicPublish);
+    this.unsubscribeEmergencyStop = emergencyStopService.onPublish(this.handleTopicPublish);
+    RECORDED_EVENTS.forEach(event => {
+      const handler = (...args: any[]) => this.record('event', event, undefined, args[0] ?? null, Date.now());
+      this.eventHandlers.set(event, handler);
+      service.on(event, handler);
+    });
+
+    // 录制开始时的连接状态作为第一条事件，回放时据此恢复初始状态
+    this.record('event', service.isReady() ? 'ready' : 'disconnected', undefined, null, startTime);
+
+    this.flushTimer = setInterval(() => {
+      this.flush();
+      this.notify();
+    }, FLUSH_INTERVAL_MS);
+
+    console.log('[SessionRecorder] Recording started');
+    this.notify();
+  }
+
+  /**
+   * 停止录制
+   */
+  stop(reason?: string): void {
+    if (!this.recording) return;
+
+    const service = communicationFactory.getService();
+    service.off('topic_data', this.handleTopicData);
+    service.off('topic_publish', this.handleTopicPublish);
+    this.unsubscribeEmergencyStop?.();
+    this.unsubscribeEmergencyStop = null;
+    this.eventHandlers.forEach((handler, event) => service.off(event, handler));
+    this.eventHandlers.clear();
+
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    // 先标记停止，写出剩余消息时不会再次触发大小上限检查
+    this.recording = false;
+    this.flush();
+    this.endTime = Date.now();
+    this.stoppedReason = reason ?? null;
+
+    const footer = encodeRecordingFooter({
+      endTime: this.endTime,
+      messageCount: this.messageCount,
+      topics: Array.from(this.topicSummary.values()),
+    });
+    this.parts.push(footer);
+    this.bytes += footer.byteLength;
+
+    console.log(`[SessionRecorder] Recording stopped${reason ? ` (${reason})` : ''}: ${this.messageCount} messages, ${this.bytes} bytes`);
+    this.notify();
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  getStatus(): SessionRecorderStatus {
+    return {
+      recording: this.recording,
+      startTime: this.startTime,
+      endTime: this.endTime,
+      messageCount: this.messageCount + this.buffer.length,
+      bytes: this.bytes,
+      hasRecording: !this.recording && this.parts.length > 0,
+      stoppedReason: this.stoppedReason,
+    };
+  }
+
+  /**
+   * 监听录制状态（开始、停止、每次写块）
+   * @returns 取消监听的函数
+   */
+  onStatus(callback: (status: SessionRecorderStatus) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * 导出最近一次录制
+   */
+  exportRecording(format: RecordingExportFormat = 'rrec'): Blob | null {
+    if (this.recording || this.parts.length === 0) {
+      console.warn('[SessionRecorder] No finished recording to export');
+      return null;
+    }
+
+    if (format === 'mcap') {
+      const recording = parseRecording(this.concatParts());
+      return new Blob([convertRecordingToMcap(recording) as BlobPart], { type: 'application/octet-stream' });
+    }
+    return new Blob(this.parts as BlobPart[], { type: 'application/octet-stream' });
+  }
+
+  /**
+   * 下载最近一次录制
+   */
+  download(format: RecordingExportFormat = 'rrec'): void {
+    const blob = this.exportRecording(format);
+    if (!blob) return;
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${this.getFileBaseName()}${format === 'mcap' ? '.mcap' : RECORDING_EXTENSION}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // 延迟释放，确保浏览器已开始下载
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  // ========== 私有方法 ==========
+
+  private record(direction: RecordDirection, topic: string, type: string | undefined, data: any, timestamp: number): void {
+    if (!this.recording) return;
+
+    this.buffer.push({ timestamp, direction, topic, type, data });
+
+    const key = `${direction}:${topic}`;
+    const summary = this.topicSummary.get(key);
+    if (summary) {
+      summary.count++;
+      if (type && !summary.type) summary.type = type;
+    } else {
+      this.topicSummary.set(key, { topic, type, direction, count: 1 });
+    }
+
+    if (this.buffer.length >= CHUNK_MAX_MESSAGES) {
+      this.flush();
+    }
+  }
+
+  /**
+   * 将缓冲的消息编码为一个块
+   */
+  private flush(): void {
+    if (this.buffer.length === 0 || this.startTime === null) return;
+
+    const messages = this.buffer;
+    this.buffer = [];
+
+    let chunk: Uint8Array;
+    try {
+      chunk = encodeRecordingChunk(this.startTime, messages);
+    } catch (error) {
+      console.error('[SessionRecorder] Failed to encode chunk, dropped:', error);
+      return;
+    }
+
+    this.parts.push(chunk);
+    this.bytes += chunk.byteLength;
+    this.messageCount += messages.length;
+
+    if (this.recording && this.bytes >= this.maxBytes) {
+      console.warn(`[SessionRecorder] Recording exceeded ${this.maxBytes} bytes, stopping`);
+      this.stop('超出录制大小上限');
+    }
+  }
+
+  private concatParts(): Uint8Array {
+    const result = new Uint8Array(this.bytes);
+    let offset = 0;
+    this.parts.forEach(part => {
+      result.set(part, offset);
+      offset += part.byteLength;
+    });
+    return result;
+  }
+
+  private getFileBaseName(): string {
+    const date = new Date(this.startTime ?? Date.now());
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+    const robot = communicationFactory.getCurrentRobotId();
+    return `session-${robot ? `${robot}-` : ''}${stamp}`;
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('[SessionRecorder] Error in status listener:', error);
+      }
+    });
+  }
+}
+
+// 导出单例
+const sessionRecorder = new SessionRecorder();
+export default sessionRecorder;
@@ -0,0 +1,692 @@
+/**
+ * 模拟机器人通信服务
+ * 在本地模拟一台人形机器人，对应用层与真实连接完全一致（connected/ready、topic_data、订阅回调、服务和动作）：
+ * - 积分/cmd_vel得到位姿，发布/odom
+ * - 按行走速度驱动WalkingAnimation的步态，发布/joint_states
+ * - 电池随运动消耗、停在充电桩上时充电，发布/battery_state和/diagnostics
+ * - 响应急停、面板命令，应答rosapi服务和返回充电桩动作
+ * 没有真实机器人时（开发、CI）可以离线使用驾驶舱的全部功能
+ */
+
+import { BaseCommunicationService } from './baseCommunication';
+import { ActionGoalStatus, SubscribeOptions } from './communication.interface';
+import { calculateWalkingJointAngles } from '../utils/WalkingAnimation';
+import { decodeJsonString } from './messageRegistry';
+import {
+  BatteryState,
+  DiagnosticArray,
+  DiagnosticLevel,
+  DiagnosticStatus,
+  Header,
+  JointState,
+  Odometry,
+  PowerSupplyStatus,
+  RobotPanelCommand,
+  Twist,
+} from '../types/ros.types';
+
+export interface SimulatorPose {
+  x: number;       // 米
+  y: number;       // 米
+  theta: number;   // 弧度
+}
+
+export interface SimulatorState {
+  running: boolean;
+  pose: SimulatorPose;
+  linear: number;        // 当前线速度（m/s）
+  lateral: number;       // 当前横移速度（m/s，向左为正）
+  angular: number;       // 当前角速度（rad/s）
+  battery: number;       // 电量 [0, 1]
+  charging: boolean;
+  emergencyStop: boolean;
+  docking: boolean;
+}
+
+// 模拟机器人发布的话题及发布间隔（只生成有订阅者的话题）
+const PUBLISHED_TOPICS = [
+  { topic: '/odom', type: 'nav_msgs/Odometry', intervalMs: 50 },
+  { topic: '/joint_states', type: 'sensor_msgs/JointState', intervalMs: 33 },
+  { topic: '/battery_state', type: 'sensor_msgs/BatteryState', intervalMs: 1000 },
+  { topic: '/diagnostics', type: 'diagnostic_msgs/DiagnosticArray', intervalMs: 1000 },
+  { topic: '/emergency_stop/state', type: 'std_msgs/Bool', intervalMs: 1000 },
+];
+
+// 模拟机器人订阅的话题
+const SUBSCRIBED_TOPICS = [
+  { topic: '/cmd_vel', type: 'geometry_msgs/Twist' },
+  { topic: '/emergency_stop', type: 'std_msgs/Bool' },
+  { topic: '/robot/commands', type: 'std_msgs/String' },
+  { topic: '/robot/action', type: 'std_msgs/String' },
+  { topic: '/teleop/heartbeat', type: 'std_msgs/Header' },
+];
+
+const SERVICES = ['/rosapi/topics', '/rosapi/topic_type', '/rosapi/services', '/rosapi/nodes', '/simulator/reset'];
+const DOCK_ACTION = '/dock_robot';
+const NODE_NAME = '/robot_simulator';
+
+// G1 29自由度模型的关节名（与Robot3DViewer加载的URDF一致）
+const JOINT_NAMES = [
+  'left_hip_pitch_joint', 'left_hip_roll_joint', 'left_hip_yaw_joint', 'left_knee_joint', 'left_ankle_pitch_joint', 'left_ankle_roll_joint',
+  'right_hip_pitch_joint', 'right_hip_roll_joint', 'right_hip_yaw_joint', 'right_knee_joint', 'right_ankle_pitch_joint', 'right_ankle_roll_joint',
+  'waist_yaw_joint', 'waist_roll_joint', 'waist_pitch_joint',
+  'left_shoulder_pitch_joint', 'left_shoulder_roll_joint', 'left_shoulder_yaw_joint', 'left_elbow_joint',
+  'left_wrist_roll_joint', 'left_wrist_pitch_joint', 'left_wrist_yaw_joint',
+  'right_shoulder_pitch_joint', 'right_shoulder_roll_joint', 'right_shoulder_yaw_joint', 'right_elbow_joint',
+  'right_wrist_roll_joint', 'right_wrist_pitch_joint', 'right_wrist_yaw_joint',
+];
+// 肘关节伸直时的角度（手臂自然下垂）
+const ELBOW_STRAIGHT = Math.PI / 2;
+
+// 仿真步长
+const TICK_INTERVAL_MS = 20;
+// 超过该时间没有新的/cmd_vel则停车（与真实底盘的指令超时保护一致）
+const CMD_VEL_TIMEOUT_MS = 500;
+// 服务调用的模拟延迟
+const SERVICE_LATENCY_MS = 30;
+
+const MAX_LINEAR_SPEED = 1.5;    // m/s
+const MAX_ANGULAR_SPEED = 2.0;   // rad/s
+const LINEAR_ACCEL = 1.0;        // m/s²
+const ANGULAR_ACCEL = 4.0;       // rad/s²
+// 步态幅度达到最大时的速度
+const FULL_GAIT_SPEED = 0.5;
+
+// 电池模型（每秒电量变化）
+const BATTERY_VOLTAGE_FULL = 54.6;
+const BATTERY_VOLTAGE_EMPTY = 42.0;
+const BATTERY_CAPACITY_AH = 10;
+const IDLE_DRAIN_PER_S = 0.00005;
+const MOVE_DRAIN_PER_S = 0.0004;    // 以最大线速度行走时的额外消耗
+const CHARGE_PER_S = 0.002;
+
+// 充电桩位于原点，朝向+x；停靠点在充电桩前方
+const DOCK_POSE: SimulatorPose = { x: 0, y: 0, theta: 0 };
+const DOCK_STAGING_DISTANCE = 0.8;
+const DOCK_RADIUS = 0.15;
+const DOCK_FEEDBACK_INTERVAL_MS = 500;
+
+// nav2_msgs/action/DockRobot 反馈中的状态码
+const DockState = {
+  NAV_TO_STAGING_POSE: 1,
+  INITIAL_PERCEPTION: 2,
+  CONTROLLING: 3,
+  WAIT_FOR_CHARGE: 4,
+} as const;
+
+interface DockingTask {
+  goalId: string;
+  state: number;
+  startedAt: number;
+  stateSince: number;
+  lastFeedback: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const normalizeAngle = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+const approach = (current: number, target: number, maxStep: number) =>
+  current + clamp(target - current, -maxStep, maxStep);
+
+class SimulatorService extends BaseCommunicationService {
+  protected readonly logTag = '[Simulator]';
+
+  private connected: boolean = false;
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private lastTick: number = 0;
+
+  // 运动状态
+  private pose: SimulatorPose = { ...DOCK_POSE };
+  private linear: number = 0;
+  private lateral: number = 0;
+  private angular: number = 0;
+  private command: Twist | null = null;
+  private commandAt: number = 0;
+  private emergencyStop: boolean = false;
+  private gaitTime: number = 0;
+  private gaitAmplitude: number = 0;
+
+  // 电源与硬件状态
+  private battery: number = 0.85;
+  private charging: boolean = false;
+  private motorTemperature: number = 32;
+  private startedAt: number = Date.now();
+
+  private docking: DockingTask | null = null;
+  private lastPublished: Map<string, number> = new Map();
+
+  // ========== 状态 ==========
+
+  getState(): SimulatorState {
+    return {
+      running: this.connected,
+      pose: { ...this.pose },
+      linear: this.linear,
+      lateral: this.lateral,
+      angular: this.angular,
+      battery: this.battery,
+      charging: this.charging,
+      emergencyStop: this.emergencyStop,
+      docking: !!this.docking,
+    };
+  }
+
+  /**
+   * 恢复初始状态：回到充电桩、电量回满到初始值、解除急停
+   */
+  reset(): void {
+    this.abortDocking('simulator reset');
+    this.pose = { ...DOCK_POSE };
+    this.linear = 0;
+    this.lateral = 0;
+    this.angular = 0;
+    this.command = null;
+    this.emergencyStop = false;
+    this.gaitTime = 0;
+    this.gaitAmplitude = 0;
+    this.battery = 0.85;
+    this.motorTemperature = 32;
+    console.log(`${this.logTag} Reset`);
+  }
+
+  // ========== 连接管理 ==========
+
+  connect(): void {
+    if (this.connected) return;
+
+    this.connected = true;
+    this.startedAt = Date.now();
+    this.lastTick = Date.now();
+    this.tickTimer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+    console.log(`${this.logTag} Started`);
+
+    this.emit('connected');
+    this.onTransportReady();
+  }
+
+  disconnect(): void {
+    if (!this.connected) return;
+
+    this.connected = false;
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    this.docking = null;
+    this.command = null;
+    this.linear = 0;
+    this.lateral = 0;
+    this.angular = 0;
+    this.failPendingRequests('simulator stopped');
+    this.clearPublishQueue();
+    this.emit('disconnected', 'simulator stopped');
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  registerScreen(_screenId: number): void {
+    // 模拟机器人不需要注册屏幕
+  }
+
+  // ========== 底层发送 ==========
+
+  protected isTransportReady(): boolean {
+    return this.connected;
+  }
+
+  protected sendSubscribe(topic: string, _type?: string, _options?: SubscribeOptions): void {
+    // 下一个仿真步立即发布一次，低频话题（电池、诊断）也能马上显示
+    this.lastPublished.delete(topic);
+  }
+
+  protected sendUnsubscribe(_topic: string): void {
+    // 只生成有订阅者的话题，无需额外处理
+  }
+
+  protected sendPublish(topic: string, message: any): void {
+    switch (topic) {
+      case '/cmd_vel':
+        this.command = message as Twist;
+        this.commandAt = Date.now();
+        break;
+      case '/teleop/heartbeat':
+        // 摇杆保持不动时不会重发/cmd_vel，驾驶舱心跳让上一条速度指令继续有效
+        this.commandAt = Date.now();
+        break;
+      case '/emergency_stop':
+        this.setEmergencyStop(!!message?.data);
+        // 下一个仿真步立即回报急停状态，作为对急停/复位的确认
+        this.lastPublished.delete('/emergency_stop/state');
+        break;
+      case '/robot/commands':
+        this.handlePanelCommand(decodeJsonString<RobotPanelCommand>('cockpit_msgs/RobotCommand', message)?.type ?? '');
+        break;
+      default:
+        break;
+    }
+
+    // 与ROS图一致：本机订阅了同一话题时也能收到
+    if (this.subscriptions.has(topic)) {
+      this.dispatchTopicData({ topic, data: message, timestamp: Date.now() });
+    }
+  }
+
+  protected sendServiceCall(requestId: string, service: string, request: any): void {
+    setTimeout(() => {
+      if (!this.connected) return;
+
+      switch (service) {
+        case '/rosapi/topics': {
+          const topics = [...PUBLISHED_TOPICS, ...SUBSCRIBED_TOPICS];
+          this.handleServiceResponse(requestId, true, {
+            topics: topics.map(item => item.topic),
+            types: topics.map(item => item.type),
+          });
+          break;
+        }
+        case '/rosapi/topic_type': {
+          const entry = [...PUBLISHED_TOPICS, ...SUBSCRIBED_TOPICS].find(item => item.topic === request?.topic);
+          this.handleServiceResponse(requestId, true, { type: entry?.type ?? '' });
+          break;
+        }
+        case '/rosapi/services':
+          this.handleServiceResponse(requestId, true, { services: SERVICES });
+          break;
+        case '/rosapi/nodes':
+          this.handleServiceResponse(requestId, true, { nodes: [NODE_NAME] });
+          break;
+        case '/simulator/reset':
+          this.reset();
+          this.handleServiceResponse(requestId, true, { success: true, message: 'simulator reset' });
+          break;
+        default:
+          this.handleServiceResponse(requestId, false, null, `Service ${service} does not exist in simulator`);
+      }
+    }, SERVICE_LATENCY_MS);
+  }
+
+  protected sendActionGoalRequest(goalId: string, action: string): void {
+    if (action !== DOCK_ACTION) {
+      this.handleActionError(goalId, new Error(`Action ${action} does not exist in simulator`));
+      return;
+    }
+    if (this.emergencyStop) {
+      this.handleActionResult(goalId, ActionGoalStatus.ABORTED, { success: false, error_code: 0, num_retries: 0 }, false);
+      return;
+    }
+
+    // 新目标抢占正在执行的目标
+    this.abortDocking('preempted');
+
+    const now = Date.now();
+    this.docking = {
+      goalId,
+      state: DockState.NAV_TO_STAGING_POSE,
+      startedAt: now,
+      stateSince: now,
+      lastFeedback: 0,
+    };
+    console.log(`${this.logTag} Docking started`);
+  }
+
+  protected sendCancelActionGoal(goalId: string): void {
+    if (this.docking?.goalId !== goalId) return;
+
+    this.docking = null;
+    this.handleActionResult(goalId, ActionGoalStatus.CANCELED, { success: false, error_code: 0, num_retries: 0 }, false);
+    console.log(`${this.logTag} Docking canceled`);
+  }
+
+  // ========== 仿真 ==========
+
+  private tick(): void {
+    const now = Date.now();
+    // 页面在后台时定时器会被节流，限制单步时长避免位姿跳变
+    const dt = Math.min(0.2, (now - this.lastTick) / 1000);
+    this.lastTick = now;
+
+    this.updateMotion(now, dt);
+    this.updatePower(dt);
+
+    PUBLISHED_TOPICS.forEach(({ topic, intervalMs }) => {
+      if (!this.subscriptions.has(topic)) return;
+      if (now - (this.lastPublished.get(topic) ?? 0) < intervalMs) return;
+
+      this.lastPublished.set(topic, now);
+      this.dispatchTopicData({ topic, data: this.buildMessage(topic, now), timestamp: now });
+    });
+  }
+
+  private updateMotion(now: number, dt: number): void {
+    let targetLinear = 0;
+    let targetLateral = 0;
+    let targetAngular = 0;
+
+    if (this.emergencyStop || this.battery <= 0) {
+      // 急停或没电时停止
+    } else if (this.docking) {
+      [targetLinear, targetAngular] = this.updateDocking(now);
+    } else if (this.command && now - this.commandAt <= CMD_VEL_TIMEOUT_MS) {
+      targetLinear = clamp(this.command.linear?.x ?? 0, -MAX_LINEAR_SPEED, MAX_LINEAR_SPEED);
+      targetLateral = clamp(this.command.linear?.y ?? 0, -MAX_LINEAR_SPEED, MAX_LINEAR_SPEED);
+      targetAngular = clamp(this.command.angular?.z ?? 0, -MAX_ANGULAR_SPEED, MAX_ANGULAR_SPEED);
+    }
+
+    // 急停时立即停止，其余情况按加速度限制平滑变化
+    if (this.emergencyStop) {
+      this.linear = 0;
+      this.lateral = 0;
+      this.angular = 0;
+    } else {
+      this.linear = approach(this.linear, targetLinear, LINEAR_ACCEL * dt);
+      this.lateral = approach(this.lateral, targetLateral, LINEAR_ACCEL * dt);
+      this.angular = approach(this.angular, targetAngular, ANGULAR_ACCEL * dt);
+    }
+
+    // 机体坐标系的前进和横移速度转换到里程计坐标系
+    this.pose.theta = normalizeAngle(this.pose.theta + this.angular * dt);
+    const cos = Math.cos(this.pose.theta);
+    const sin = Math.sin(this.pose.theta);
+    this.pose.x += (this.linear * cos - this.lateral * sin) * dt;
+    this.pose.y += (this.linear * sin + this.lateral * cos) * dt;
+
+    // 原地转向也要迈步；步频和幅度随速度变化，停下后收腿站立
+    const effort = Math.hypot(this.linear, this.lateral) + Math.abs(this.angular) * 0.3;
+    this.gaitAmplitude = approach(this.gaitAmplitude, clamp(effort / FULL_GAIT_SPEED, 0, 1), dt * 2);
+    this.gaitTime += dt * clamp(effort / FULL_GAIT_SPEED, 0.5, 2);
+  }
+
+  private updatePower(dt: number): void {
+    const atDock = Math.hypot(this.pose.x - DOCK_POSE.x, this.pose.y - DOCK_POSE.y) <= DOCK_RADIUS;
+    this.charging = atDock && Math.abs(this.linear) < 0.01 && Math.abs(this.lateral) < 0.01 && Math.abs(this.angular) < 0.01;
+
+    if (this.charging) {
+      this.battery = Math.min(1, this.battery + CHARGE_PER_S * dt);
+    } else {
+      const load = Math.hypot(this.linear, this.lateral) / MAX_LINEAR_SPEED + Math.abs(this.angular) / MAX_ANGULAR_SPEED * 0.3;
+      this.battery = Math.max(0, this.battery - (IDLE_DRAIN_PER_S + MOVE_DRAIN_PER_S * load) * dt);
+    }
+
+    // 电机温度以30秒的时间常数趋向与负载相关的目标温度
+    const targetTemperature = 32 + 28 * (Math.abs(this.linear) / MAX_LINEAR_SPEED);
+    this.motorTemperature += (targetTemperature - this.motorTemperature) * Math.min(1, dt / 30);
+  }
+
+  /**
+   * 返回充电桩：先到停靠点，原地对准后低速对接，到位后等待充电
+   * @returns 本步的目标线速度和角速度
+   */
+  private updateDocking(now: number): [number, number] {
+    const task = this.docking!;
+
+    if (now - task.lastFeedback >= DOCK_FEEDBACK_INTERVAL_MS) {
+      task.lastFeedback = now;
+      const elapsed = now - task.startedAt;
+      this.handleActionFeedback(task.goalId, {
+        state: task.state,
+        docking_time: { sec: Math.floor(elapsed / 1000), nanosec: (elapsed % 1000) * 1e6 },
+        num_retries: 0,
+      });
+    }
+
+    const setState = (state: number) => {
+      task.state = state;
+      task.stateSince = now;
+      task.lastFeedback = 0;
+    };
+
+    switch (task.state) {
+      case DockState.NAV_TO_STAGING_POSE: {
+        const staging = {
+          x: DOCK_POSE.x - DOCK_STAGING_DISTANCE * Math.cos(DOCK_POSE.theta),
+          y: DOCK_POSE.y - DOCK_STAGING_DISTANCE * Math.sin(DOCK_POSE.theta),
+        };
+        const command = this.driveTowards(staging.x, staging.y, 0.8);
+        if (!command) setState(DockState.INITIAL_PERCEPTION);
+        return command ?? [0, 0];
+      }
+      case DockState.INITIAL_PERCEPTION: {
+        // 原地转向充电桩方向
+        const headingError = normalizeAngle(DOCK_POSE.theta - this.pose.theta);
+        if (Math.abs(headingError) < 0.05 && now - task.stateSince > 500) {
+          setState(DockState.CONTROLLING);
+        }
+        return [0, clamp(headingError * 2, -1, 1)];
+      }
+      case DockState.CONTROLLING: {
+        const command = this.driveTowards(DOCK_POSE.x, DOCK_POSE.y, 0.2, 0.03);
+        if (!command) setState(DockState.WAIT_FOR_CHARGE);
+        return command ?? [0, 0];
+      }
+      default: {
+        if (now - task.stateSince > 1000) {
+          this.docking = null;
+          this.handleActionResult(task.goalId, ActionGoalStatus.SUCCEEDED, { success: true, error_code: 0, num_retries: 0 }, true);
+          console.log(`${this.logTag} Docked`);
+        }
+        return [0, 0];
+      }
+    }
+  }
+
+  /**
+   * 朝目标点行驶的速度指令，到达时返回null
+   */
+  private driveTowards(x: number, y: number, maxSpeed: number, tolerance: number = 0.1): [number, number] | null {
+    const dx = x - this.pose.x;
+    const dy = y - this.pose.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance < tolerance) return null;
+
+    const headingError = normalizeAngle(Math.atan2(dy, dx) - this.pose.theta);
+    const angular = clamp(headingError * 2, -1.5, 1.5);
+    // 朝向偏差大时先原地转向
+    const linear = Math.abs(headingError) > 0.4 ? 0 : Math.min(maxSpeed, distance);
+    return [linear, angular];
+  }
+
+  private abortDocking(reason: string): void {
+    if (!this.docking) return;
+
+    const { goalId } = this.docking;
+    this.docking = null;
+    this.handleActionResult(goalId, ActionGoalStatus.ABORTED, { success: false, error_code: 0, num_retries: 0 }, false);
+    console.log(`${this.logTag} Docking aborted: ${reason}`);
+  }
+
+  private setEmergencyStop(active: boolean): void {
+    if (active === this.emergencyStop) return;
+
+    this.emergencyStop = active;
+    if (active) {
+      this.command = null;
+      this.abortDocking('emergency stop');
+    }
+    console.log(`${this.logTag} Emergency stop ${active ? 'engaged' : 'released'}`);
+  }
+
+  private handlePanelCommand(type: string): void {
+    switch (type) {
+      case 'emergency_stop':
+        this.setEmergencyStop(true);
+        break;
+      case 'reset':
+        this.setEmergencyStop(false);
+        break;
+      case 'stop':
+        this.command = null;
+        this.abortDocking('stop command');
+        break;
+      default:
+        break;
+    }
+  }
+
+  // ========== 消息生成 ==========
+
+  private buildMessage(topic: string, now: number): any {
+    switch (topic) {
+      case '/odom':
+        return this.buildOdometry(now);
+      case '/joint_states':
+        return this.buildJointState(now);
+      case '/battery_state':
+        return this.buildBatteryState(now);
+      case '/diagnostics':
+        return this.buildDiagnostics(now);
+      case '/emergency_stop/state':
+        return { data: this.emergencyStop };
+      default:
+        return null;
+    }
+  }
+
+  private header(now: number, frameId: string): Header {
+    return { stamp: { sec: Math.floor(now / 1000), nanosec: (now % 1000) * 1e6 }, frame_id: frameId };
+  }
+
+  private buildOdometry(now: number): Odometry {
+    const { x, y, theta } = this.pose;
+    const covariance = (variance: number) => Array.from({ length: 36 }, (_, i) => (i % 7 === 0 ? variance : 0));
+
+    return {
+      header: this.header(now, 'odom'),
+      child_frame_id: 'base_link',
+      pose: {
+        pose: {
+          position: { x, y, z: 0 },
+          orientation: { x: 0, y: 0, z: Math.sin(theta / 2), w: Math.cos(theta / 2) },
+        },
+        covariance: covariance(0.01),
+      },
+      twist: {
+        twist: { linear: { x: this.linear, y: this.lateral, z: 0 }, angular: { x: 0, y: 0, z: this.angular } },
+        covariance: covariance(0.001),
+      },
+    };
+  }
+
+  private buildJointState(now: number): JointState {
+    const angles = calculateWalkingJointAngles(this.gaitTime);
+    const amplitude = this.gaitAmplitude;
+    const positions: Record<string, number> = {
+      left_hip_pitch_joint: -angles.leftHipX * amplitude,
+      left_knee_joint: angles.leftKneeX * amplitude,
+      left_ankle_pitch_joint: -angles.leftKneeX * 0.5 * amplitude,
+      right_hip_pitch_joint: -angles.rightHipX * amplitude,
+      right_knee_joint: angles.rightKneeX * amplitude,
+      right_ankle_pitch_joint: -angles.rightKneeX * 0.5 * amplitude,
+      waist_pitch_joint: angles.neckX * amplitude,
+      left_shoulder_pitch_joint: -angles.leftShoulderX * amplitude,
+      left_elbow_joint: ELBOW_STRAIGHT - angles.leftElbowX * amplitude,
+      right_shoulder_pitch_joint: -angles.rightShoulderX * amplitude,
+      right_elbow_joint: ELBOW_STRAIGHT - angles.rightElbowX * amplitude,
+    };
+
+    return {
+      header: this.header(now, ''),
+      name: JOINT_NAMES,
+      position: JOINT_NAMES.map(name => positions[name] ?? 0),
+      velocity: [],
+      effort: [],
+    };
+  }
+
+  private buildBatteryState(now: number): BatteryState {
+    const voltage = BATTERY_VOLTAGE_EMPTY + (BATTERY_VOLTAGE_FULL - BATTERY_VOLTAGE_EMPTY) * this.battery;
+    const load = Math.abs(this.linear) / MAX_LINEAR_SPEED;
+
+    let status: number = PowerSupplyStatus.DISCHARGING;
+    if (this.charging) {
+      status = this.battery >= 1 ? PowerSupplyStatus.FULL : PowerSupplyStatus.CHARGING;
+    }
+
+    return {
+      header: this.header(now, 'battery'),
+      voltage,
+      temperature: 28 + 6 * load,
+      current: this.charging ? 5 : -(1.5 + 12 * load),
+      charge: BATTERY_CAPACITY_AH * this.battery,
+      capacity: BATTERY_CAPACITY_AH,
+      design_capacity: BATTERY_CAPACITY_AH,
+      percentage: this.battery,
+      power_supply_status: status,
+      power_supply_health: 1, // GOOD
+      power_supply_technology: 2, // LION
+      present: true,
+      cell_voltage: [],
+      cell_temperature: [],
+      location: 'torso',
+      serial_number: 'SIM-0001',
+    };
+  }
+
+  private buildDiagnostics(now: number): DiagnosticArray {
+    const percent = Math.round(this.battery * 100);
+    const load = Math.abs(this.linear) / MAX_LINEAR_SPEED;
+    const status = (name: string, hardwareId: string, level: DiagnosticLevel, message: string, values: Record<string, string | number> = {}): DiagnosticStatus => ({
+      level,
+      name,
+      message,
+      hardware_id: hardwareId,
+      values: Object.entries(values).map(([key, value]) => ({ key, value: String(value) })),
+    });
+
+    let batteryLevel = DiagnosticLevel.OK;
+    let batteryMessage = this.charging ? '充电中' : `电量 ${percent}%`;
+    if (this.battery <= 0) {
+      batteryLevel = DiagnosticLevel.ERROR;
+      batteryMessage = '电量耗尽';
+    } else if (this.battery < 0.2 && !this.charging) {
+      batteryLevel = DiagnosticLevel.WARN;
+      batteryMessage = `电量低 ${percent}%`;
+    }
+
+    let mode = '待机';
+    if (this.emergencyStop) {
+      mode = '急停';
+    } else if (this.docking) {
+      mode = '自动回充';
+    } else if (Math.abs(this.linear) > 0.01 || Math.abs(this.lateral) > 0.01 || Math.abs(this.angular) > 0.01) {
+      mode = '手动控制';
+    } else if (this.charging) {
+      mode = '充电';
+    }
+
+    const motorLevel = this.motorTemperature > 70 ? DiagnosticLevel.WARN : DiagnosticLevel.OK;
+    // 计算负载带少量波动，界面上看得出数据在刷新
+    const jitter = () => Math.round((Math.random() - 0.5) * 6);
+
+    return {
+      header: this.header(now, ''),
+      status: [
+        status('运动控制', 'motion_controller', this.emergencyStop ? DiagnosticLevel.ERROR : DiagnosticLevel.OK,
+          this.emergencyStop ? '急停已触发' : mode, {
+            mode,
+            linear: this.linear.toFixed(2),
+            lateral: this.lateral.toFixed(2),
+            angular: this.angular.toFixed(2),
+            uptime: Math.floor((now - this.startedAt) / 1000),
+          }),
+        status('电池', 'battery', batteryLevel, batteryMessage, { percentage: percent, charging: String(this.charging) }),
+        status('电机驱动', 'motor_driver', motorLevel, `${this.motorTemperature.toFixed(1)}°C`, {
+          temperature: this.motorTemperature.toFixed(1),
+        }),
+        status('IMU', 'imu', DiagnosticLevel.OK, '9轴数据 200Hz'),
+        status('LiDAR', 'lidar', DiagnosticLevel.OK, '360° 扫描 10Hz'),
+        status('前置摄像头', 'camera_front', DiagnosticLevel.OK, '1920x1080 @30fps'),
+        status('系统资源', 'compute', DiagnosticLevel.OK, '正常', {
+          cpu: clamp(25 + Math.round(30 * load) + jitter(), 0, 100),
+          memory: 41 + jitter(),
+          disk: 32,
+          network: clamp(90 + jitter(), 0, 100),
+        }),
+      ],
+    };
+  }
+}
+
+// 导出单例
+const simulatorService = new SimulatorService();
+export default simulatorService;
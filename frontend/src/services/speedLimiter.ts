@@ -0,0 +1,130 @@
+/**
+ * 遥操作限速
+ * 根据链路质量采样（RTT、丢包）计算/cmd_vel允许的最大线速度和角速度：
+ * - 时延低于满速阈值：不限速
+ * - 时延在满速阈值和时延上限之间：按比例线性降速
+ * - 时延超过上限、丢包过高或链路无响应：禁止运动
+ */
+
+import { Twist } from '../types/ros.types';
+import { LinkQualitySample } from './linkQualityMonitor';
+
+export interface SpeedLimitConfig {
+  maxLinear: number;          // 满速时的最大线速度（m/s）
+  maxAngular: number;         // 满速时的最大角速度（rad/s）
+  fullSpeedRttMs: number;     // 低于该时延不限速
+  latencyCeilingMs: number;   // 超过该时延禁止运动
+  minScale: number;           // 接近时延上限时的最低速度比例
+  maxPacketLoss: number;      // 超过该丢包率禁止运动 [0, 1]
+  unknownScale: number;       // 尚未测得链路指标时的速度比例
+  staleSampleMs: number;      // 采样超过该时长未更新视为链路状态未知
+}
+
+export interface SpeedLimit {
+  scale: number;              // 速度比例 [0, 1]
+  maxLinear: number;
+  maxAngular: number;
+  blocked: boolean;           // 是否禁止运动
+  reason: string | null;      // 限速原因（不限速时为null）
+}
+
+const DEFAULT_CONFIG: SpeedLimitConfig = {
+  maxLinear: 0.5,
+  maxAngular: 1.0,
+  fullSpeedRttMs: 150,
+  latencyCeilingMs: 800,
+  minScale: 0.2,
+  maxPacketLoss: 0.2,
+  unknownScale: 0.5,
+  staleSampleMs: 6000,
+};
+
+let config: SpeedLimitConfig = { ...DEFAULT_CONFIG };
+
+/**
+ * 修改限速配置（未指定的字段保持不变）
+ */
+export function setSpeedLimitConfig(partial: Partial<SpeedLimitConfig>): void {
+  config = { ...config, ...partial };
+}
+
+export function getSpeedLimitConfig(): SpeedLimitConfig {
+  return { ...config };
+}
+
+function buildLimit(scale: number, reason: string | null): SpeedLimit {
+  return {
+    scale,
+    maxLinear: config.maxLinear * scale,
+    maxAngular: config.maxAngular * scale,
+    blocked: scale <= 0,
+    reason,
+  };
+}
+
+/**
+ * 根据链路质量采样计算当前限速
+ */
+export function computeSpeedLimit(sample: LinkQualitySample | null, now: number = Date.now()): SpeedLimit {
+  if (!sample || sample.score === null || now - sample.timestamp > config.staleSampleMs) {
+    return buildLimit(config.unknownScale, '链路状态未知');
+  }
+
+  if (sample.score === 0 && sample.rttMs === null) {
+    return buildLimit(0, '链路无响应');
+  }
+
+  const rtt = sample.rttMs;
+  const loss = sample.packetLoss ?? 0;
+
+  if (rtt !== null && rtt >= config.latencyCeilingMs) {
+    return buildLimit(0, `时延过高（${Math.round(rtt)} ms）`);
+  }
+  if (loss >= config.maxPacketLoss) {
+    return buildLimit(0, `丢包过高（${(loss * 100).toFixed(0)}%）`);
+  }
+  if (sample.score === 0) {
+    return buildLimit(0, '链路无响应');
+  }
+
+  let scale = 1;
+  const reasons: string[] = [];
+
+  if (rtt === null) {
+    scale = config.unknownScale;
+    reasons.push('时延未知');
+  } else if (rtt > config.fullSpeedRttMs) {
+    const ratio = (rtt - config.fullSpeedRttMs) / (config.latencyCeilingMs - config.fullSpeedRttMs);
+    scale = 1 - ratio * (1 - config.minScale);
+    reasons.push(`时延 ${Math.round(rtt)} ms`);
+  }
+
+  if (loss > 0) {
+    // 丢包按比例继续降速，达到丢包上限时降到最低比例
+    scale *= 1 - (loss / config.maxPacketLoss) * (1 - config.minScale);
+    reasons.push(`丢包 ${(loss * 100).toFixed(1)}%`);
+  }
+
+  scale = Math.max(config.minScale, Math.min(1, scale));
+  return buildLimit(scale, scale < 1 ? reasons.join('，') : null);
+}
+
+/**
+ * 按限速裁剪速度指令（保持线速度和角速度的方向）
+ */
+export function limitTwist(twist: Twist, limit: SpeedLimit): Twist {
+  const clamp = (value: number, max: number) => Math.max(-max, Math.min(max, value));
+
+  return {
+    linear: {
+      x: clamp(twist.linear.x, limit.maxLinear),
+      y: clamp(twist.linear.y, limit.maxLinear),
+      z: twist.linear.z,
+    },
+    angular: {
+      x: twist.angular.x,
+      y: twist.angular.y,
+      z: clamp(twist.angular.z, limit.maxAngular),
+    },
+  };
+}
@@ -0,0 +1,268 @@
+/**
+ * 话题订阅注册表
+ * 为每个话题维护订阅者列表和引用计数，保证多个组件订阅同一话题时互不影响
+ * 只有最后一个订阅者退订时才会真正取消底层订阅
+ *
+ * 订阅选项按话题合并：底层订阅取所有订阅者中最高的频率，
+ * 节流间隔更大的订阅者在本地再按各自的间隔节流（保留窗口内最新的一条）
+ */
+
+import { SubscribeOptions, TopicCallback, TopicData, TopicSubscription } from './communication.interface';
+
+interface Subscriber {
+  id: number;
+  callback?: TopicCallback;
+  options: SubscribeOptions;
+  lastDelivered: number;
+  pending: TopicData | null;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+interface TopicEntry {
+  topic: string;
+  type?: string;
+  subscribers: Map<number, Subscriber>;
+  mergedOptions: SubscribeOptions;
+}
+
+export interface AddSubscriptionResult {
+  subscription: TopicSubscription;
+  isFirst: boolean;         // 是否是该话题的第一个订阅者（需要发起底层订阅）
+  optionsChanged: boolean;  // 合并后的订阅选项是否变化（需要更新底层订阅）
+}
+
+/**
+ * 合并多个订阅者的选项
+ * - throttleMs：任一订阅者不节流则不节流，否则取最小值
+ * - latestOnly：全部订阅者都只要最新一条时才成立
+ * - queueLength：取最大值（latestOnly的订阅者按1计）
+ */
+export function mergeSubscribeOptions(list: SubscribeOptions[]): SubscribeOptions {
+  if (list.length === 0) return {};
+
+  const merged: SubscribeOptions = {};
+
+  const throttles = list.map(options => options.throttleMs ?? 0);
+  if (throttles.every(throttle => throttle > 0)) {
+    merged.throttleMs = Math.min(...throttles);
+  }
+
+  if (list.every(options => options.latestOnly)) {
+    merged.latestOnly = true;
+    merged.queueLength = 1;
+  } else {
+    const queueLengths = list
+      .map(options => (options.latestOnly ? 1 : options.queueLength))
+      .filter((length): length is number => length !== undefined);
+    if (queueLengths.length > 0) {
+      merged.queueLength = Math.max(...queueLengths);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * 两组订阅选项是否等价
+ */
+export function isSameSubscribeOptions(a: SubscribeOptions, b: SubscribeOptions): boolean {
+  return a.throttleMs === b.throttleMs && a.queueLength === b.queueLength && !!a.latestOnly === !!b.latestOnly;
+}
+
+export class SubscriptionRegistry {
+  private topics: Map<string, TopicEntry> = new Map();
+  private nextId: number = 1;
+  private onTopicReleased: (topic: string) => void;
+  private onOptionsChanged?: (topic: string, options: SubscribeOptions) => void;
+
+  /**
+   * @param onTopicReleased 话题最后一个订阅者退订时的回调（用于取消底层订阅）
+   * @param onOptionsChanged 订阅者退订后合并选项变化时的回调（用于更新底层订阅）
+   */
+  constructor(
+    onTopicReleased: (topic: string) => void,
+    onOptionsChanged?: (topic: string, options: SubscribeOptions) => void
+  ) {
+    this.onTopicReleased = onTopicReleased;
+    this.onOptionsChanged = onOptionsChanged;
+  }
+
+  /**
+   * 添加订阅者
+   */
+  add<T = any>(topic: string, type?: string, callback?: TopicCallback<T>, options: SubscribeOptions = {}): AddSubscriptionResult {
+    let entry = this.topics.get(topic);
+    const isFirst = !entry;
+
+    if (!entry) {
+      entry = { topic, type, subscribers: new Map(), mergedOptions: {} };
+      this.topics.set(topic, entry);
+    } else if (type && !entry.type) {
+      // 后来的订阅者补充了消息类型
+      entry.type = type;
+    }
+
+    const id = this.nextId++;
+    entry.subscribers.set(id, {
+      id,
+      callback: callback as TopicCallback | undefined,
+      options: { ...options },
+      lastDelivered: 0,
+      pending: null,
+      timer: null,
+    });
+    const optionsChanged = this.updateMergedOptions(entry);
+
+    let active = true;
+    const subscription: TopicSubscription = {
+      topic,
+      type: entry.type,
+      options: { ...options },
+      get active() {
+        return active;
+      },
+      unsubscribe: () => {
+        if (!active) return;
+        active = false;
+        this.release(topic, id);
+      },
+    };
+
+    return { subscription, isFirst, optionsChanged };
+  }
+
+  /**
+   * 释放单个订阅者，引用计数归零时通知上层取消底层订阅
+   */
+  private release(topic: string, id: number): void {
+    const entry = this.topics.get(topic);
+    const subscriber = entry?.subscribers.get(id);
+    if (!entry || !subscriber) {
+      return;
+    }
+
+    this.clearPending(subscriber);
+    entry.subscribers.delete(id);
+
+    if (entry.subscribers.size === 0) {
+      this.topics.delete(topic);
+      this.onTopicReleased(topic);
+    } else if (this.updateMergedOptions(entry)) {
+      this.onOptionsChanged?.(topic, entry.mergedOptions);
+    }
+  }
+
+  /**
+   * 强制移除话题的所有订阅者（不触发onTopicReleased，由调用方负责取消底层订阅）
+   */
+  removeTopic(topic: string): boolean {
+    const entry = this.topics.get(topic);
+    if (!entry) return false;
+
+    entry.subscribers.forEach(subscriber => this.clearPending(subscriber));
+    return this.topics.delete(topic);
+  }
+
+  /**
+   * 将话题数据分发给该话题的所有订阅者（按各自的节流间隔）
+   */
+  dispatch(data: TopicData): void {
+    const entry = this.topics.get(data.topic);
+    if (!entry) return;
+
+    const now = Date.now();
+    // 复制一份，避免回调中退订导致遍历异常
+    Array.from(entry.subscribers.values()).forEach(subscriber => {
+      if (!subscriber.callback) return;
+
+      const throttleMs = subscriber.options.throttleMs ?? 0;
+      const elapsed = now - subscriber.lastDelivered;
+      if (throttleMs <= 0 || elapsed >= throttleMs) {
+        this.clearPending(subscriber);
+        this.deliver(subscriber, data);
+        return;
+      }
+
+      // 节流窗口内只保留最新一条，窗口结束时补发
+      subscriber.pending = data;
+      if (!subscriber.timer) {
+        subscriber.timer = setTimeout(() => {
+          subscriber.timer = null;
+          const pending = subscriber.pending;
+          subscriber.pending = null;
+          if (pending && entry.subscribers.get(subscriber.id) === subscriber) {
+            this.deliver(subscriber, pending);
+          }
+        }, throttleMs - elapsed);
+      }
+    });
+  }
+
+  /**
+   * 是否存在该话题的订阅
+   */
+  has(topic: string): boolean {
+    return this.topics.has(topic);
+  }
+
+  /**
+   * 获取话题的订阅者数量
+   */
+  getRefCount(topic: string): number {
+    return this.topics.get(topic)?.subscribers.size ?? 0;
+  }
+
+  /**
+   * 获取话题的消息类型
+   */
+  getType(topic: string): string | undefined {
+    return this.topics.get(topic)?.type;
+  }
+
+  /**
+   * 获取话题合并后的订阅选项
+   */
+  getOptions(topic: string): SubscribeOptions {
+    return { ...(this.topics.get(topic)?.mergedOptions ?? {}) };
+  }
+
+  /**
+   * 获取所有已订阅的话题
+   */
+  getTopics(): Array<{ topic: string; type?: string; refCount: number; options: SubscribeOptions }> {
+    return Array.from(this.topics.values()).map(entry => ({
+      topic: entry.topic,
+      type: entry.type,
+      refCount: entry.subscribers.size,
+      options: { ...entry.mergedOptions },
+    }));
+  }
+
+  // ========== 私有方法 ==========
+
+  private updateMergedOptions(entry: TopicEntry): boolean {
+    const merged = mergeSubscribeOptions(Array.from(entry.subscribers.values()).map(subscriber => subscriber.options));
+    if (isSameSubscribeOptions(merged, entry.mergedOptions)) {
+      return false;
+    }
+    entry.mergedOptions = merged;
+    return true;
+  }
+
+  private deliver(subscriber: Subscriber, data: TopicData): void {
+    subscriber.lastDelivered = Date.now();
+    try {
+      subscriber.callback!(data.data, data);
+    } catch (error) {
+      console.error(`[SubscriptionRegistry] Error in ${data.topic} subscriber:`, error);
+    }
+  }
+
+  private clearPending(subscriber: Subscriber): void {
+    if (subscriber.timer) {
+      clearTimeout(subscriber.timer);
+      subscriber.timer = null;
+    }
+    subscriber.pending = null;
+  }
+}
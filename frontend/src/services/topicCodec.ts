@@ -0,0 +1,86 @@
+/**
+ * 话题编码策略
+ * 高频话题使用二进制编码以降低带宽和解析开销：
+ * - json：默认，JSON文本
+ * - cbor：CBOR二进制，数值数组解码为TypedArray（对应rosbridge的cbor压缩）
+ * - cbor-raw：rosbridge的cbor-raw压缩，消息为未解析的序列化字节 { bytes, secs, nsecs }
+ *
+ * 协商方式：订阅时在请求中声明期望的编码，对端支持则按该编码下发，
+ * 每条数据都带有实际使用的encoding，接收端据此解码；
+ * 发布只在对端通过capabilities声明支持后才使用二进制编码
+ */
+
+import { TopicData } from './communication.interface';
+import { decodeCbor, encodeCbor } from './cbor';
+
+export type TopicCodec = 'json' | 'cbor' | 'cbor-raw';
+
+/**
+ * 话题 → 编码
+ */
+const topicCodecs: Map<string, TopicCodec> = new Map();
+
+/**
+ * 设置话题编码
+ */
+export function setTopicCodec(topic: string, codec: TopicCodec): void {
+  topicCodecs.set(topic, codec);
+}
+
+/**
+ * 获取话题编码（未配置时为json）
+ */
+export function getTopicCodec(topic: string): TopicCodec {
+  return topicCodecs.get(topic) ?? 'json';
+}
+
+/**
+ * 订阅时向对端声明的压缩方式（rosbridge的compression字段）
+ */
+export function getSubscribeCompression(topic: string): TopicCodec | undefined {
+  const codec = getTopicCodec(topic);
+  return codec === 'json' ? undefined : codec;
+}
+
+/**
+ * 发布时使用的编码：对端不支持时回退到json
+ * cbor-raw只用于订阅，发布时使用cbor
+ */
+export function getPublishCodec(topic: string, supported: ReadonlySet<TopicCodec>): TopicCodec {
+  const codec = getTopicCodec(topic) === 'json' ? 'json' : 'cbor';
+  return supported.has(codec) ? codec : 'json';
+}
+
+/**
+ * 按编码打包消息
+ */
+export function encodePayload(message: any, codec: TopicCodec): any {
+  return codec === 'json' ? message : encodeCbor(message);
+}
+
+/**
+ * 按数据帧声明的编码解出消息
+ */
+export function decodePayload(data: any, encoding?: TopicCodec): any {
+  if (encoding !== 'cbor') {
+    // json直接使用；cbor-raw的序列化字节交给订阅者自行解析
+    return data;
+  }
+  return decodeCbor(data instanceof ArrayBuffer ? new Uint8Array(data) : data);
+}
+
+/**
+ * 解码后端下发的话题数据
+ */
+export function decodeTopicData(data: TopicData & { encoding?: TopicCodec }): TopicData {
+  if (!data.encoding || data.encoding === 'json') {
+    return data;
+  }
+
+  const { encoding, ...topicData } = data;
+  return { ...topicData, data: decodePayload(data.data, encoding) };
+}
+
+// 高频话题默认使用CBOR
+setTopicCodec('/joint_states', 'cbor');
+setTopicCodec('/robot/audio/stream', 'cbor');
@@ -4,23 +4,28 @@
  */
 
 import { io, Socket } from 'socket.io-client';
-import { ICommunicationService, TopicData, WebRTCConfig } from './communication.interface';
+import { SubscribeOptions, TopicData, WebRTCConfig, WebRTCLinkStats } from './communication.interface';
+import { BaseCommunicationService } from './baseCommunication';
+import { TopicCodec, getSubscribeCompression } from './topicCodec';
+import { decodeCbor, encodeCbor } from './cbor';
 
-class WebRTCService implements ICommunicationService {
+class WebRTCService extends BaseCommunicationService {
+  protected readonly logTag = '[WebRTC]';
   private pc: RTCPeerConnection | null = null;
   private dataChannel: RTCDataChannel | null = null;
   private signalingSocket: Socket | null = null;
   private config: WebRTCConfig;
-  private eventCallbacks: Map<string, Function[]> = new Map();
   private isConnectedFlag: boolean = false;
   private videoElements: Map<string, HTMLVideoElement> = new Map(); // 支持多路视频
   private audioElements: Map<string, HTMLAudioElement> = new Map(); // 支持多路音频
-  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 10;
-  private pendingMessages: any[] = []; // 队列待发送的消息
+  private connectTimer: ReturnType<typeof setTimeout> | null = null;
+  private connectTimeoutMs: number = 15000; // 单次连接超时（DataChannel未打开视为失败）
 
   constructor(config?: Partial<WebRTCConfig>) {
+    super();
     this.config = {
       signalingUrl: config?.signalingUrl || 'http://localhost:3000',
       iceServers: config?.iceServers || [
@@ -40,7 +45,16 @@ class WebRTCService implements ICommunicationService {
     }
 
     console.log('[WebRTC] Starting connection...');
+    this.teardown();
     this.connectSignaling();
+
+    // 超时未建立DataChannel，按连接失败处理
+    this.connectTimer = setTimeout(() => {
+      this.connectTimer = null;
+      if (!this.isTransportReady()) {
+        this.handleConnectionFailure(`connection timed out after ${this.connectTimeoutMs}ms`);
+      }
+    }, this.connectTimeoutMs);
   }
 
   disconnect(): void {
@@ -52,16 +66,15 @@ class WebRTCService implements ICommunicationService {
       this.reconnectTimer = null;
     }
     
-    this.dataChannel?.close();
-    this.pc?.close();
-    this.signalingSocket?.disconnect();
+    this.teardown();
     
     // 清理视频和音频元素
     this.videoElements.clear();
     this.audioElements.clear();
     
-    this.isConnectedFlag = false;
     this.reconnectAttempts = 0;
+    this.failPendingRequests('disconnected');
+    this.clearPublishQueue();
     this.emit('disconnected');
   }
 
@@ -69,79 +82,74 @@ class WebRTCService implements ICommunicationService {
     return this.isConnectedFlag;
   }
 
-  // ========== 事件系统 ==========
+  // ========== ROS话题操作 ==========
 
-  on(event: string, callback: Function): void {
-    if (!this.eventCallbacks.has(event)) {
-      this.eventCallbacks.set(event, []);
-    }
-    this.eventCallbacks.get(event)!.push(callback);
+  protected isTransportReady(): boolean {
+    return this.dataChannel?.readyState === 'open';
   }
 
-  off(event: string, callback: Function): void {
-    const callbacks = this.eventCallbacks.get(event);
-    if (callbacks) {
-      const index = callbacks.indexOf(callback);
-      if (index > -1) {
-        callbacks.splice(index, 1);
-      }
-    }
+  protected sendSubscribe(topic: string, type?: string, options: SubscribeOptions = {}): void {
+    console.log(`[WebRTC] Subscribing to topic: ${topic}`);
+
+    // 通过DataChannel告诉远端需要订阅这个话题
+    // 每个话题使用固定的订阅ID，选项变化时再次订阅会覆盖原订阅（rosbridge语义）
+    this.sendViaDataChannel({
+      op: 'subscribe',
+      topic,
+      type,
+      compression: getSubscribeCompression(topic),
+      throttle_rate: options.throttleMs,
+      queue_length: options.latestOnly ? 1 : options.queueLength,
+      id: `sub_${topic}`,
+    });
   }
 
-  emit(event: string, ...args: any[]): void {
-    const callbacks = this.eventCallbacks.get(event);
-    if (callbacks) {
-      callbacks.forEach(cb => {
-        try {
-          cb(...args);
-        } catch (error) {
-          console.error(`[WebRTC] Error in ${event} callback:`, error);
-        }
-      });
-    }
+  protected sendUnsubscribe(topic: string): void {
+    console.log(`[WebRTC] Unsubscribing from topic: ${topic}`);
+
+    this.sendViaDataChannel({
+      op: 'unsubscribe',
+      topic,
+      id: `sub_${topic}`,
+    });
   }
 
-  // ========== ROS话题操作 ==========
+  protected sendPublish(topic: string, message: any, type?: string): void {
+    this.sendViaDataChannel({
+      op: 'publish',
+      topic,
+      msg: message,
+      type,
+    }, this.getPublishCodec(topic));
+  }
 
-  subscribeTopic(topic: string, type?: string): void {
-    console.log(`[WebRTC] Subscribing to topic: ${topic}`);
-    
-    // 通过DataChannel告诉远端需要订阅这个话题
-    if (this.dataChannel?.readyState === 'open') {
-      this.sendViaDataChannel({
-        op: 'subscribe',
-        topic,
-        type,
-        id: `sub_${Date.now()}`,
-      });
-    } else {
-      console.warn('[WebRTC] DataChannel not ready, queuing subscription');
-      // 可以实现队列机制，等DataChannel打开后再发送
-    }
+  protected sendServiceCall(requestId: string, service: string, request: any, type?: string): void {
+    this.sendViaDataChannel({
+      op: 'call_service',
+      id: requestId,
+      service,
+      type,
+      args: request,
+    });
   }
 
-  unsubscribeTopic(topic: string): void {
-    console.log(`[WebRTC] Unsubscribing from topic: ${topic}`);
-    
-    if (this.dataChannel?.readyState === 'open') {
-      this.sendViaDataChannel({
-        op: 'unsubscribe',
-        topic,
-      });
-    }
+  protected sendActionGoalRequest(goalId: string, action: string, actionType: string, goal: any): void {
+    this.sendViaDataChannel({
+      op: 'send_action_goal',
+      id: goalId,
+      action,
+      action_type: actionType,
+      args: goal,
+      feedback: true,
+    });
   }
 
-  publishTopic(topic: string, message: any, type?: string): void {
-    if (this.dataChannel?.readyState === 'open') {
-      this.sendViaDataChannel({
-        op: 'publish',
-        topic,
-        msg: message,
-        type,
-      });
-    } else {
-      console.warn('[WebRTC] Cannot publish: DataChannel not ready');
-    }
+  protected sendCancelActionGoal(goalId: string, action: string): void {
+    this.sendViaDataChannel({
+      op: 'cancel_action_goal',
+      id: goalId,
+      action,
+    });
   }
 
   // ========== 屏幕管理 ==========
@@ -188,6 +196,45 @@ class WebRTCService implements ICommunicationService {
     return result;
   }
 
+  /**
+   * 获取链路质量相关的统计数据
+   */
+  async getLinkStats(): Promise<WebRTCLinkStats | null> {
+    if (!this.pc) return null;
+
+    const report = await this.pc.getStats();
+    const stats: WebRTCLinkStats = {
+      timestamp: Date.now(),
+      rttMs: null,
+      jitterMs: null,
+      packetsReceived: 0,
+      packetsLost: 0,
+      bytesSent: 0,
+      availableOutgoingBitrate: null,
+      dataChannelBufferedAmount: this.dataChannel?.bufferedAmount ?? 0,
+    };
+
+    report.forEach((entry: any) => {
+      if (entry.type === 'candidate-pair' && entry.state === 'succeeded' && entry.nominated) {
+        if (entry.currentRoundTripTime !== undefined) {
+          stats.rttMs = entry.currentRoundTripTime * 1000;
+        }
+        if (entry.availableOutgoingBitrate !== undefined) {
+          stats.availableOutgoingBitrate = entry.availableOutgoingBitrate;
+        }
+        stats.bytesSent += entry.bytesSent ?? 0;
+      } else if (entry.type === 'inbound-rtp') {
+        stats.packetsReceived += entry.packetsReceived ?? 0;
+        stats.packetsLost += entry.packetsLost ?? 0;
+        if (entry.jitter !== undefined) {
+          stats.jitterMs = Math.max(stats.jitterMs ?? 0, entry.jitter * 1000);
+        }
+      }
+    });
+
+    return stats;
+  }
+
   // ========== 私有方法：信令交换 ==========
 
   private connectSignaling(): void {
@@ -231,11 +278,8 @@ class WebRTCService implements ICommunicationService {
 
     this.signalingSocket.on('disconnect', () => {
       console.log('[WebRTC] Signaling disconnected');
-      this.isConnectedFlag = false;
-      this.emit('disconnected');
-      
       // 尝试重连
-      this.attemptReconnect();
+      this.handleConnectionFailure('signaling disconnected');
     });
 
     this.signalingSocket.on('error', (error: any) => {
@@ -270,8 +314,11 @@ class WebRTCService implements ICommunicationService {
       if (this.pc?.connectionState === 'connected') {
         this.isConnectedFlag = true;
         this.emit('connected');
-      } else if (this.pc?.connectionState === 'disconnected' || 
-                 this.pc?.connectionState === 'failed') {
+      } else if (this.pc?.connectionState === 'failed') {
+        // ICE失败无法自行恢复，重建连接
+        this.handleConnectionFailure('peer connection failed');
+      } else if (this.pc?.connectionState === 'disconnected') {
+        // 短暂断开，ICE可能自行恢复
         this.isConnectedFlag = false;
         this.emit('disconnected');
       }
@@ -324,14 +371,24 @@ class WebRTCService implements ICommunicationService {
       ordered: true,
       maxRetransmits: 3,
     });
+    // 二进制帧（CBOR）以ArrayBuffer接收
+    this.dataChannel.binaryType = 'arraybuffer';
 
     this.dataChannel.onopen = () => {
       console.log('[WebRTC] DataChannel opened');
+      this.reconnectAttempts = 0;
+      if (this.connectTimer) {
+        clearTimeout(this.connectTimer);
+        this.connectTimer = null;
+      }
+      // DataChannel打开（含重连），恢复订阅并补发离线期间的发布
+      this.onTransportReady();
       this.emit('datachannel_open');
     };
 
     this.dataChannel.onclose = () => {
       console.log('[WebRTC] DataChannel closed');
+      this.failPendingRequests('DataChannel closed');
       this.emit('datachannel_close');
     };
 
@@ -342,7 +399,8 @@ class WebRTCService implements ICommunicationService {
 
     this.dataChannel.onmessage = (event) => {
       try {
-        const message = JSON.parse(event.data);
+        // 文本帧为JSON，二进制帧为CBOR
+        const message = typeof event.data === 'string' ? JSON.parse(event.data) : decodeCbor(event.data);
         this.handleDataChannelMessage(message);
       } catch (error) {
         console.error('[WebRTC] Failed to parse DataChannel message:', error);
@@ -386,38 +444,100 @@ class WebRTCService implements ICommunicationService {
         timestamp: message.timestamp || Date.now(),
       };
 
-      this.emit('topic_data', topicData);
+      this.dispatchTopicData(topicData);
+    } else if (message.op === 'service_response') {
+      // 服务调用响应（rosbridge格式：result为false时values是错误信息）
+      this.handleServiceResponse(message.id, message.result !== false, message.values, message.result === false ? String(message.values) : undefined);
+    } else if (message.op === 'action_feedback') {
+      this.handleActionFeedback(message.id, message.values);
+    } else if (message.op === 'action_result') {
+      this.handleActionResult(message.id, message.status, message.values, message.result !== false);
+    } else if (message.op === 'capabilities') {
+      // 远端声明支持的编码
+      this.setRemoteCodecs(message.codecs);
     } else if (message.op === 'status') {
       // 状态消息
       console.log('[WebRTC] Robot status:', message.level, message.msg);
     }
   }
 
-  private sendViaDataChannel(message: any): void {
-    if (this.dataChannel?.readyState === 'open') {
-      try {
+  private sendViaDataChannel(message: any, encoding: TopicCodec = 'json'): void {
+    // 离线缓存由基类的发布队列负责，这里只在通道打开时发送
+    if (this.dataChannel?.readyState !== 'open') {
+      console.warn(`[WebRTC] DataChannel not ready, ${message.op} dropped`);
+      return;
+    }
+
+    try {
+      if (encoding === 'json') {
         this.dataChannel.send(JSON.stringify(message));
-        // 发送成功后清理队列
-        this.flushPendingMessages();
-      } catch (error) {
-        console.error('[WebRTC] Failed to send via DataChannel:', error);
+      } else {
+        // encodeCbor返回独立的缓冲区，可直接发送其ArrayBuffer
+        this.dataChannel.send(encodeCbor(message).buffer as ArrayBuffer);
       }
-    } else {
-      // DataChannel 未就绪，加入队列
-      console.warn('[WebRTC] DataChannel not ready, queueing message');
-      this.pendingMessages.push(message);
+    } catch (error) {
+      console.error('[WebRTC] Failed to send via DataChannel:', error);
+    }
+  }
+
+  // ========== 私有方法：重连 ==========
+
+  /**
+   * 关闭当前的信令、PeerConnection和DataChannel（不清理已绑定的媒体元素）
+   */
+  private teardown(): void {
+    if (this.connectTimer) {
+      clearTimeout(this.connectTimer);
+      this.connectTimer = null;
+    }
+
+    if (this.dataChannel) {
+      this.dataChannel.onclose = null;
+      this.dataChannel.close();
+      this.dataChannel = null;
+    }
+    this.setRemoteCodecs(undefined);
+    if (this.pc) {
+      this.pc.onconnectionstatechange = null;
+      this.pc.close();
+      this.pc = null;
     }
+    if (this.signalingSocket) {
+      // 先移除监听，避免主动断开触发重连
+      this.signalingSocket.off();
+      this.signalingSocket.disconnect();
+      this.signalingSocket = null;
+    }
+
+    this.isConnectedFlag = false;
   }
 
-  // ========== 私有方法：重连和队列管理 ==========
+  /**
+   * 连接失败（信令断开、ICE失败、超时）：清理后按退避策略重连
+   */
+  private handleConnectionFailure(reason: string): void {
+    if (this.reconnectTimer) return; // 已在等待重连
+
+    console.warn(`[WebRTC] Connection failed: ${reason}`);
+    const wasConnected = this.isConnectedFlag || this.isTransportReady();
+    this.teardown();
+    this.failPendingRequests(reason);
+    if (wasConnected) {
+      this.emit('disconnected', reason);
+    }
+
+    this.attemptReconnect();
+  }
 
   /**
    * 尝试重新连接
+   * 达到最大次数后触发 failed 事件，由上层决定是否切换到其他通信方式
    */
   private attemptReconnect(): void {
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
       console.error('[WebRTC] Max reconnect attempts reached');
       this.emit('error', new Error('Max reconnect attempts reached'));
+      this.emit('failed');
       return;
     }
 
@@ -427,32 +547,12 @@ class WebRTCService implements ICommunicationService {
     console.log(`[WebRTC] Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
     
     this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
       console.log('[WebRTC] Reconnecting...');
       this.connect();
     }, delay);
   }
 
-  /**
-   * 刷新待发送消息队列
-   */
-  private flushPendingMessages(): void {
-    if (this.pendingMessages.length === 0) return;
-    
-    console.log(`[WebRTC] Flushing ${this.pendingMessages.length} pending messages`);
-    
-    while (this.pendingMessages.length > 0 && this.dataChannel?.readyState === 'open') {
-      const message = this.pendingMessages.shift();
-      try {
-        this.dataChannel.send(JSON.stringify(message));
-      } catch (error) {
-        console.error('[WebRTC] Failed to send pending message:', error);
-        // 重新加入队列
-        this.pendingMessages.unshift(message);
-        break;
-      }
-    }
-  }
-
   // ========== 公共方法：配置管理 ==========
 
   /**
@@ -5,45 +5,19 @@
  */
 
 import { io, Socket } from 'socket.io-client';
+import { BaseCommunicationService } from './baseCommunication';
+import { SubscribeOptions, TopicData } from './communication.interface';
+import { TopicCodec, decodeTopicData, encodePayload, getSubscribeCompression } from './topicCodec';
 
-export interface TopicData {
-  topic: string;
-  data: any;
-  timestamp: number;
-}
+export type { TopicData } from './communication.interface';
 
-/**
- * 简单的事件发射器实现（浏览器环境）
- */
-class EventEmitter {
-  private events: Map<string, Function[]> = new Map();
+// 从后端原样转发的控制锁事件
+const CONTROL_LOCK_EVENTS = ['control_registered', 'control_lock_state', 'control_notice', 'control_rejected'];
 
-  on(event: string, callback: Function): void {
-    if (!this.events.has(event)) {
-      this.events.set(event, []);
-    }
-    this.events.get(event)!.push(callback);
-  }
-
-  off(event: string, callback: Function): void {
-    const callbacks = this.events.get(event);
-    if (callbacks) {
-      const index = callbacks.indexOf(callback);
-      if (index > -1) {
-        callbacks.splice(index, 1);
-      }
-    }
-  }
-
-  emit(event: string, ...args: any[]): void {
-    const callbacks = this.events.get(event);
-    if (callbacks) {
-      callbacks.forEach(callback => callback(...args));
-    }
-  }
-}
+export type ControlLockAction = 'register' | 'request' | 'respond' | 'force' | 'release';
 
-class WebSocketService extends EventEmitter {
+class WebSocketService extends BaseCommunicationService {
+  protected readonly logTag = '[WebSocket]';
   private socket: Socket | null = null;
   private isConnectedFlag: boolean = false;
   private reconnectAttempts: number = 0;
@@ -91,13 +65,17 @@ class WebSocketService extends EventEmitter {
     this.socket.on('connect', () => {
       this.isConnectedFlag = true;
       this.reconnectAttempts = 0;
-      // WebSocket已连接
+      // WebSocket已连接（含自动重连）：先通知连接（控制锁在此登记身份），再恢复订阅并补发离线期间的发布，
+      // 否则补发的受控指令会在登记前到达后端而被拒绝
       this.emit('connected');
+      this.onTransportReady();
     });
 
     this.socket.on('disconnect', (reason) => {
       this.isConnectedFlag = false;
+      this.setRemoteCodecs(undefined);
       console.log(`[WebSocket] Disconnected: ${reason}`);
+      this.failPendingRequests(`disconnected (${reason})`);
       this.emit('disconnected', reason);
     });
 
@@ -107,11 +85,32 @@ class WebSocketService extends EventEmitter {
       this.emit('error', error);
     });
 
-    // 接收话题数据
-    this.socket.on('topic_data', (data: TopicData) => {
-      this.emit('topic_data', data);
-      // 也发送特定话题的事件
-      this.emit(`topic:${data.topic}`, data.data);
+    // 后端声明支持的编码
+    this.socket.on('capabilities', (data: { codecs?: TopicCodec[] }) => {
+      this.setRemoteCodecs(data.codecs);
+    });
+
+    // 接收话题数据（二进制编码的数据按encoding解码）
+    this.socket.on('topic_data', (data: TopicData & { encoding?: TopicCodec }) => {
+      try {
+        this.dispatchTopicData(decodeTopicData(data));
+      } catch (error) {
+        console.error(`[WebSocket] Failed to decode ${data.encoding} data for ${data.topic}:`, error);
+      }
+    });
+
+    // 服务调用响应
+    this.socket.on('service_response', (data: { requestId: string; success: boolean; values?: any; error?: string }) => {
+      this.handleServiceResponse(data.requestId, data.success, data.values, data.error);
+    });
+
+    // 动作反馈与结果
+    this.socket.on('action_feedback', (data: { goalId: string; feedback: any }) => {
+      this.handleActionFeedback(data.goalId, data.feedback);
+    });
+
+    this.socket.on('action_result', (data: { goalId: string; status?: number; values?: any; success: boolean }) => {
+      this.handleActionResult(data.goalId, data.status, data.values, data.success);
     });
 
     // 屏幕注册响应
@@ -126,8 +125,10 @@ class WebSocketService extends EventEmitter {
     });
 
     // 心跳响应
-    this.socket.on('pong', (data: { timestamp: number }) => {
-      this.emit('pong', data);
+    this.socket.on('pong', (data: { timestamp: number; clientTimestamp?: number }) => {
+      // 回传了发送时间戳时附带往返时延
+      const rtt = data.clientTimestamp !== undefined ? Date.now() - data.clientTimestamp : undefined;
+      this.emit('pong', { ...data, rtt });
     });
 
     // 认证状态变化事件
@@ -153,6 +154,13 @@ class WebSocketService extends EventEmitter {
       // 收到机器人取消选择事件
       this.emit('robot_deselected', data);
     });
+
+    // 多操作员控制锁事件
+    CONTROL_LOCK_EVENTS.forEach(event => {
+      this.socket!.on(event, (data: any) => {
+        this.emit(event, data);
+      });
+    });
   }
 
   /**
@@ -168,41 +176,53 @@ class WebSocketService extends EventEmitter {
   }
 
   /**
-   * 订阅ROS2话题
+   * 底层通道是否就绪
    */
-  subscribeTopic(topic: string, type?: string): void {
-    if (!this.socket || !this.isConnectedFlag) {
-      console.warn('[WebSocket] Cannot subscribe: not connected');
-      return;
-    }
+  protected isTransportReady(): boolean {
+    return !!this.socket && this.isConnectedFlag;
+  }
 
-    this.socket.emit('subscribe_topic', { topic, type });
+  /**
+   * 发送订阅请求到后端
+   */
+  protected sendSubscribe(topic: string, type?: string, options: SubscribeOptions = {}): void {
+    // 同一话题再次订阅时后端按本客户端的新选项更新
+    this.socket!.emit('subscribe_topic', {
+      topic,
+      type,
+      compression: getSubscribeCompression(topic),
+      throttleRate: options.throttleMs,
+      queueLength: options.latestOnly ? 1 : options.queueLength,
+    });
     // 已订阅话题
   }
 
   /**
-   * 取消订阅ROS2话题
+   * 发送取消订阅请求到后端
    */
-  unsubscribeTopic(topic: string): void {
-    if (!this.socket || !this.isConnectedFlag) {
-      console.warn('[WebSocket] Cannot unsubscribe: not connected');
-      return;
-    }
-
-    this.socket.emit('unsubscribe_topic', { topic });
+  protected sendUnsubscribe(topic: string): void {
+    this.socket!.emit('unsubscribe_topic', { topic });
     // 已取消订阅话题
   }
 
   /**
-   * 发布消息到ROS2话题
+   * 发送发布请求到后端
    */
-  publishTopic(topic: string, message: any, type: string = 'std_msgs/String'): void {
-    if (!this.socket || !this.isConnectedFlag) {
-      console.warn('[WebSocket] Cannot publish: not connected');
-      return;
-    }
+  protected sendPublish(topic: string, message: any, type?: string): void {
+    const encoding = this.getPublishCodec(topic);
+    this.socket!.emit('publish_topic', { topic, message: encodePayload(message, encoding), type, encoding });
+  }
 
-    this.socket.emit('publish_topic', { topic, message, type });
+  protected sendServiceCall(requestId: string, service: string, request: any, type: string | undefined, timeoutMs: number): void {
+    this.socket!.emit('call_service', { requestId, service, args: request, type, timeout: timeoutMs });
+  }
+
+  protected sendActionGoalRequest(goalId: string, action: string, actionType: string, goal: any): void {
+    this.socket!.emit('send_action_goal', { goalId, action, actionType, goal });
+  }
+
+  protected sendCancelActionGoal(goalId: string): void {
+    this.socket!.emit('cancel_action_goal', { goalId });
   }
 
   /**
@@ -213,7 +233,7 @@ class WebSocketService extends EventEmitter {
       return;
     }
 
-    this.socket.emit('ping');
+    this.socket.emit('ping', { timestamp: Date.now() });
   }
 
   /**
@@ -224,6 +244,7 @@ class WebSocketService extends EventEmitter {
       this.socket.disconnect();
       this.socket = null;
       this.isConnectedFlag = false;
+      this.clearPublishQueue();
       // WebSocket已断开
     }
   }
@@ -267,6 +288,18 @@ class WebSocketService extends EventEmitter {
     this.socket.emit('deselect_robot', { timestamp: Date.now() });
   }
 
+  /**
+   * 发送控制锁操作（登记身份、请求/处理请求/强制接管/释放控制权）
+   */
+  sendControlAction(action: ControlLockAction, data: Record<string, any> = {}): void {
+    if (!this.socket || !this.isConnectedFlag) {
+      console.warn(`[WebSocket] Cannot send control ${action}: not connected`);
+      return;
+    }
+
+    this.socket.emit(`control_${action}`, data);
+  }
+
   /**
    * 获取连接状态
    */
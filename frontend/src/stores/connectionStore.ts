@@ -0,0 +1,110 @@
+/**
+ * connectionStore - 机器人连接状态管理
+ * 所有屏幕和useWebSocket通过这里获取当前机器人、通信方式、连接状态和故障转移记录
+ */
+
+import { create } from 'zustand';
+import communicationFactory, { CommunicationMode, TransportChange } from '../services/communicationFactory';
+
+export type ConnectionStatus = 'idle' | 'connecting' | 'connected' | 'disconnected' | 'error';
+
+interface ConnectionState {
+  robotId: string | null;
+  robotName: string | null;
+  mode: CommunicationMode;            // 当前使用的通信方式
+  preferredMode: CommunicationMode;   // 机器人配置选择的通信方式
+  transportHistory: TransportChange[];
+  status: ConnectionStatus;
+  connected: boolean;       // 通信通道是否就绪（可收发ROS消息）
+  error: string | null;
+
+  // 动作
+  connectToRobot: (robotId: string, preferredMode?: CommunicationMode) => Promise<void>;
+  disconnectRobot: () => void;
+}
+
+const communicationService = communicationFactory.getService();
+
+export const useConnectionStore = create<ConnectionState>((set, get) => ({
+  robotId: communicationFactory.getCurrentRobotId(),
+  robotName: null,
+  mode: communicationFactory.getCurrentMode(),
+  preferredMode: communicationFactory.getPreferredMode(),
+  transportHistory: communicationFactory.getTransportHistory(),
+  status: 'idle',
+  connected: communicationService.isReady(),
+  error: null,
+
+  connectToRobot: async (robotId, preferredMode) => {
+    if (get().robotId === robotId && get().status !== 'error' && !preferredMode) {
+      return;
+    }
+
+    set({ robotId, robotName: null, status: 'connecting', error: null });
+
+    try {
+      await communicationFactory.connectToRobot(robotId, preferredMode);
+      // 连接过程中已切换到其他机器人
+      if (get().robotId !== robotId) return;
+
+      const config = communicationFactory.getCurrentRobotConfig();
+      const ready = communicationService.isReady();
+      set({
+        robotName: config?.name ?? null,
+        mode: communicationFactory.getCurrentMode(),
+        preferredMode: communicationFactory.getPreferredMode(),
+        transportHistory: communicationFactory.getTransportHistory(),
+        connected: ready,
+        status: ready ? 'connected' : 'connecting',
+      });
+    } catch (error) {
+      if (get().robotId !== robotId) return;
+      set({
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error),
+        mode: communicationFactory.getCurrentMode(),
+      });
+    }
+  },
+
+  disconnectRobot: () => {
+    communicationFactory.disconnectRobot();
+    set({
+      robotId: null,
+      robotName: null,
+      mode: communicationFactory.getCurrentMode(),
+      preferredMode: communicationFactory.getPreferredMode(),
+      transportHistory: [],
+      status: 'idle',
+      connected: communicationService.isReady(),
+      error: null,
+    });
+  },
+}));
+
+// 跟随通信服务的连接事件更新状态
+communicationService.on('ready', () => {
+  useConnectionStore.setState(state => ({
+    connected: true,
+    status: state.robotId ? 'connected' : state.status,
+    error: null,
+  }));
+});
+
+communicationService.on('disconnected', () => {
+  useConnectionStore.setState(state => ({
+    connected: false,
+    status: state.robotId ? 'disconnected' : state.status,
+  }));
+});
+
+communicationService.on('error', (error: any) => {
+  useConnectionStore.setState({ error: error?.message ?? String(error) });
+});
+
+communicationService.on('transport_changed', (change: TransportChange) => {
+  useConnectionStore.setState({
+    mode: change.to,
+    transportHistory: communicationFactory.getTransportHistory(),
+  });
+});
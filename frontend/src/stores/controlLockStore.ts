@@ -0,0 +1,22 @@
+/**
+ * controlLockStore - 多操作员控制锁状态
+ * 所有屏幕显示当前控制权持有者，观察者的受控指令由通信代理拦截
+ */
+
+import { create } from 'zustand';
+import controlLockService, { ControlLockStatus } from '../services/controlLock';
+
+interface ControlLockStoreState {
+  status: ControlLockStatus;
+}
+
+export const useControlLockStore = create<ControlLockStoreState>(() => ({
+  status: controlLockService.getStatus(),
+}));
+
+controlLockService.onChange(status => {
+  useControlLockStore.setState({ status });
+});
+
+// 控制锁状态在整个应用生命周期内持续同步
+controlLockService.start();
@@ -0,0 +1,22 @@
+/**
+ * emergencyStopStore - 急停锁定状态
+ * 急停锁定期间所有屏幕显示红色急停横幅，外设控制不再计算速度
+ */
+
+import { create } from 'zustand';
+import emergencyStopService, { EmergencyStopStatus } from '../services/emergencyStop';
+
+interface EmergencyStopState {
+  status: EmergencyStopStatus;
+}
+
+export const useEmergencyStopStore = create<EmergencyStopState>(() => ({
+  status: emergencyStopService.getStatus(),
+}));
+
+emergencyStopService.onChange(status => {
+  useEmergencyStopStore.setState({ status });
+});
+
+// 急停状态在整个应用生命周期内持续监听
+emergencyStopService.start();
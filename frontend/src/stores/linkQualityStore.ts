@@ -0,0 +1,38 @@
+/**
+ * linkQualityStore - 链路质量状态
+ * 保存最新的链路质量采样和近期评分，供健康度组件显示和控制逻辑根据链路劣化做出反应
+ * speedLimit为根据链路质量计算的遥操作限速，外设控制发送/cmd_vel前按此裁剪
+ */
+
+import { create } from 'zustand';
+import linkQualityMonitor, { LinkQualityLevel, LinkQualitySample } from '../services/linkQualityMonitor';
+import { SpeedLimit, computeSpeedLimit } from '../services/speedLimiter';
+
+// 保留的评分历史条数（默认2秒一次，约1分钟）
+const MAX_SCORE_HISTORY = 30;
+
+interface LinkQualityState {
+  sample: LinkQualitySample | null;
+  level: LinkQualityLevel;
+  scoreHistory: Array<number | null>;
+  speedLimit: SpeedLimit;
+}
+
+export const useLinkQualityStore = create<LinkQualityState>(() => ({
+  sample: null,
+  level: 'unknown',
+  scoreHistory: [],
+  speedLimit: computeSpeedLimit(null),
+}));
+
+linkQualityMonitor.onSample(sample => {
+  useLinkQualityStore.setState(state => ({
+    sample,
+    level: sample.level,
+    scoreHistory: [...state.scoreHistory, sample.score].slice(-MAX_SCORE_HISTORY),
+    speedLimit: computeSpeedLimit(sample),
+  }));
+});
+
+// 链路质量在整个应用生命周期内持续采样
+linkQualityMonitor.start();
@@ -66,6 +66,7 @@ export interface InputEvent {
   timestamp: number;
   deviceId: string;
   deviceType: PeripheralType;
+  role?: string;           // 设备角色（多手柄时由控制器按角色分配填写，见 GamepadRoles.ts）
   
   // 可选数据（根据事件类型）
   axis?: AxisInput;
@@ -73,6 +74,17 @@ export interface InputEvent {
   key?: string;
 }
 
+/**
+ * 外设设备身份（从设备上报的ID解析）
+ */
+export interface PeripheralDeviceInfo {
+  rawId: string;              // 设备上报的原始ID（如 Gamepad.id）
+  deviceKey: string;          // 身份键（厂商:产品，或设备名称）
+  vendorId: string | null;
+  productId: string | null;
+  layout?: string;            // 匹配到的布局
+}
+
 /**
  * 外设状态快照
  */
@@ -80,6 +92,7 @@ export interface PeripheralState {
   deviceId: string;
   deviceType: PeripheralType;
   deviceName: string;
+  deviceInfo?: PeripheralDeviceInfo;
   status: PeripheralStatus;
   timestamp: number;
   
@@ -119,7 +132,8 @@ export interface RobotCommand {
   topic: string;              // ROS话题
   messageType: string;        // ROS消息类型
   payload: any;               // 消息内容
-  priority?: number;          // 优先级（0-10，越大越高）
+  priority?: number;          // 优先级（0-10，越大越高），指令仲裁据此决定能否接管
+  source?: string;            // 指令来源（如 gamepad、keyboard、control_panel），用于仲裁和记录
 }
 
 /**
@@ -134,19 +148,62 @@ export interface InputMappingRule {
   trigger: {
     type: InputEventType;
     deviceType?: PeripheralType;  // 可选：限定设备类型
+    deviceId?: string;             // 可选：限定设备（如 gamepad-046d:c215）
+    role?: string;                 // 可选：限定设备角色（如 manipulator）
     axisIndex?: number;            // 轴索引
     buttonIndex?: number;          // 按钮索引
     key?: string;                  // 键盘按键
     threshold?: number;            // 阈值（用于轴触发）
   };
   
-  // 生成的命令
-  command: RobotCommand | ((event: InputEvent) => RobotCommand);
+  // 生成的命令（只同步3D动作的规则可省略）
+  command?: RobotCommand | ((event: InputEvent) => RobotCommand);
+  
+  // 同步3D模型的动作（本地播放并广播到其他屏幕，如 Jump、Jump_release）
+  animation?: string;
+  
+  // 防抖：同一规则两次触发的最小间隔（ms）
+  debounceMs?: number;
+  
+  // 所属的可绑定动作（映射编辑界面据此归类，见 utils/peripherals/MappingActions.ts）
+  action?: string;
   
   // 是否启用
   enabled?: boolean;
 }
 
+/**
+ * 可序列化的映射规则（命令只能是静态命令）
+ */
+export type SerializableMappingRule = Omit<InputMappingRule, 'command'> & {
+  command?: RobotCommand;
+};
+
+/**
+ * 驾驶摇杆的逻辑轴（含义由驾驶模式决定）
+ */
+export type DriveAxisName = 'leftX' | 'leftY' | 'rightX' | 'rightY';
+
+/**
+ * 逻辑轴绑定的设备轴
+ */
+export interface DriveAxisBinding {
+  index: number;     // 设备轴索引
+  invert?: boolean;  // 反向
+}
+
+/**
+ * 输入映射方案（JSON格式，可随部署下发或按用户、机器人保存）
+ */
+export interface InputMappingProfile {
+  id: string;
+  name: string;
+  description?: string;
+  version: number;                   // 方案格式版本
+  rules: SerializableMappingRule[];
+  driveAxes?: Partial<Record<DriveAxisName, DriveAxisBinding>>;  // 驾驶摇杆轴（未指定时使用标准手柄布局）
+}
+
 /**
  * 外设设备接口（抽象）
  */
@@ -0,0 +1,216 @@
+/**
+ * ROS消息类型定义
+ * 覆盖驾驶舱实际使用的消息类型，字段与ROS2消息定义保持一致
+ */
+
+// ========== builtin_interfaces / std_msgs ==========
+
+export interface RosTime {
+  sec: number;
+  nanosec: number;
+}
+
+export interface Header {
+  stamp: RosTime;
+  frame_id: string;
+}
+
+export interface StringMsg {
+  data: string;
+}
+
+export interface BoolMsg {
+  data: boolean;
+}
+
+export interface Float32Msg {
+  data: number;
+}
+
+export interface Float64Msg {
+  data: number;
+}
+
+export interface Int32Msg {
+  data: number;
+}
+
+export interface UInt8Msg {
+  data: number;
+}
+
+export type EmptyMsg = Record<string, never>;
+
+// ========== geometry_msgs ==========
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Twist {
+  linear: Vector3;
+  angular: Vector3;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Quaternion {
+  x: number;
+  y: number;
+  z: number;
+  w: number;
+}
+
+export interface Pose {
+  position: Point;
+  orientation: Quaternion;
+}
+
+export interface PoseWithCovariance {
+  pose: Pose;
+  covariance: number[];   // 6x6行主序
+}
+
+export interface TwistWithCovariance {
+  twist: Twist;
+  covariance: number[];   // 6x6行主序
+}
+
+// ========== nav_msgs ==========
+
+export interface Odometry {
+  header?: Header;
+  child_frame_id: string;
+  pose: PoseWithCovariance;
+  twist: TwistWithCovariance;
+}
+
+// ========== sensor_msgs ==========
+
+export interface JointState {
+  header?: Header;        // 发布时可省略，由rosbridge填充默认值
+  name: string[];
+  position: number[];
+  velocity: number[];
+  effort: number[];
+}
+
+/**
+ * 电源状态常量（sensor_msgs/BatteryState）
+ */
+export enum PowerSupplyStatus {
+  UNKNOWN = 0,
+  CHARGING = 1,
+  DISCHARGING = 2,
+  NOT_CHARGING = 3,
+  FULL = 4,
+}
+
+export interface BatteryState {
+  header?: Header;
+  voltage: number;
+  temperature: number;
+  current: number;
+  charge: number;
+  capacity: number;
+  design_capacity: number;
+  percentage: number;            // [0.0, 1.0]
+  power_supply_status: number;   // PowerSupplyStatus
+  power_supply_health: number;
+  power_supply_technology: number;
+  present: boolean;
+  cell_voltage: number[];
+  cell_temperature: number[];
+  location: string;
+  serial_number: string;
+}
+
+// ========== diagnostic_msgs ==========
+
+/**
+ * 诊断级别常量（diagnostic_msgs/DiagnosticStatus）
+ */
+export enum DiagnosticLevel {
+  OK = 0,
+  WARN = 1,
+  ERROR = 2,
+  STALE = 3,
+}
+
+export interface KeyValue {
+  key: string;
+  value: string;
+}
+
+export interface DiagnosticStatus {
+  level: number;        // DiagnosticLevel
+  name: string;
+  message: string;
+  hardware_id: string;
+  values: KeyValue[];
+}
+
+export interface DiagnosticArray {
+  header?: Header;
+  status: DiagnosticStatus[];
+}
+
+// ========== 驾驶舱自定义结构（不是ROS类型：robot_3d_* 只在屏幕间同步，面板命令以JSON放在 std_msgs/String 中下发） ==========
+
+export interface RobotPanelCommand {
+  type: string;          // 命令ID（如 start、stop）
+  timestamp: string;     // ISO时间
+  screenId: number;
+}
+
+export interface Robot3DCommand {
+  command: string;
+  timestamp: number;
+}
+
+export interface Robot3DMove {
+  command: 'move';
+  linearX: number;
+  linearY: number;
+  angularZ: number;
+  timestamp: number;
+}
+
+/**
+ * 消息类型名 → TypeScript接口 的映射
+ * 用于 publish<T>/subscribe<T> 的编译期检查
+ */
+export interface RosMessageMap {
+  'std_msgs/String': StringMsg;
+  'std_msgs/Bool': BoolMsg;
+  'std_msgs/Float32': Float32Msg;
+  'std_msgs/Float64': Float64Msg;
+  'std_msgs/Int32': Int32Msg;
+  'std_msgs/UInt8': UInt8Msg;
+  'std_msgs/Empty': EmptyMsg;
+  'std_msgs/Header': Header;
+  'geometry_msgs/Vector3': Vector3;
+  'geometry_msgs/Twist': Twist;
+  'geometry_msgs/Point': Point;
+  'geometry_msgs/Quaternion': Quaternion;
+  'geometry_msgs/Pose': Pose;
+  'geometry_msgs/PoseWithCovariance': PoseWithCovariance;
+  'geometry_msgs/TwistWithCovariance': TwistWithCovariance;
+  'nav_msgs/Odometry': Odometry;
+  'sensor_msgs/JointState': JointState;
+  'sensor_msgs/BatteryState': BatteryState;
+  'diagnostic_msgs/KeyValue': KeyValue;
+  'diagnostic_msgs/DiagnosticStatus': DiagnosticStatus;
+  'diagnostic_msgs/DiagnosticArray': DiagnosticArray;
+  'cockpit_msgs/RobotCommand': RobotPanelCommand;
+  'cockpit_msgs/Robot3DCommand': Robot3DCommand;
+  'cockpit_msgs/Robot3DMove': Robot3DMove;
+}
+
+export type RosMessageType = keyof RosMessageMap;
@@ -0,0 +1,103 @@
+/**
+ * 话题统计
+ * 按滑动窗口统计话题的消息频率和带宽（相当于 ros2 topic hz / bw）
+ */
+
+export interface TopicStats {
+  count: number;          // 累计消息数
+  rateHz: number;         // 窗口内的消息频率
+  bandwidthKbps: number;  // 窗口内的带宽
+  avgSizeBytes: number;   // 窗口内的平均消息大小
+  lastReceived: number | null;
+}
+
+/**
+ * 估算消息大小（字节）：二进制数据取实际长度，其他按JSON长度估算
+ */
+export function estimateMessageSize(message: any): number {
+  if (message instanceof ArrayBuffer) {
+    return message.byteLength;
+  }
+  if (ArrayBuffer.isView(message)) {
+    return message.byteLength;
+  }
+
+  let size = 0;
+  try {
+    size = JSON.stringify(message, (_key, value) => {
+      // 消息中的二进制字段按实际字节数计算
+      if (ArrayBuffer.isView(value)) {
+        size += value.byteLength;
+        return undefined;
+      }
+      return value;
+    })?.length ?? 0;
+  } catch {
+    return size;
+  }
+  return size;
+}
+
+export class TopicStatsTracker {
+  private samples: Array<{ timestamp: number; size: number }> = [];
+  private count: number = 0;
+  private windowMs: number;
+
+  constructor(windowMs: number = 5000) {
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * 记录一条消息
+   */
+  record(message: any, timestamp: number = Date.now()): void {
+    this.count++;
+    this.samples.push({ timestamp, size: estimateMessageSize(message) });
+    this.prune(timestamp);
+  }
+
+  /**
+   * 获取当前统计
+   */
+  getStats(now: number = Date.now()): TopicStats {
+    this.prune(now);
+
+    const lastReceived = this.samples.length > 0 ? this.samples[this.samples.length - 1].timestamp : null;
+    if (this.samples.length < 2) {
+      return {
+        count: this.count,
+        rateHz: 0,
+        bandwidthKbps: 0,
+        avgSizeBytes: this.samples[0]?.size ?? 0,
+        lastReceived,
+      };
+    }
+
+    // 以窗口内首尾消息的时间跨度计算，避免刚开始订阅时频率偏低
+    const span = Math.max(1, now - this.samples[0].timestamp);
+    const totalSize = this.samples.reduce((sum, sample) => sum + sample.size, 0);
+
+    return {
+      count: this.count,
+      rateHz: ((this.samples.length - 1) * 1000) / span,
+      bandwidthKbps: (totalSize * 8) / span,
+      avgSizeBytes: totalSize / this.samples.length,
+      lastReceived,
+    };
+  }
+
+  /**
+   * 清空统计
+   */
+  reset(): void {
+    this.samples = [];
+    this.count = 0;
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - this.windowMs;
+    while (this.samples.length > 0 && this.samples[0].timestamp < cutoff) {
+      this.samples.shift();
+    }
+  }
+}
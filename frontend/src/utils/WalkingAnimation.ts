@@ -12,6 +12,52 @@ export interface WalkingAnimationConfig {
   bodyBob?: number;          // 躯干上下晃动幅度 (0.02 - 0.1)
 }
 
+/**
+ * 计算步态周期中time时刻的关节角度（弧度）及躯干晃动
+ * 与模型无关，模拟机器人也用它生成/joint_states
+ */
+export function calculateWalkingJointAngles(
+  time: number,
+  config: Pick<WalkingAnimationConfig, 'armSwing' | 'bodyBob'> = {}
+): Record<string, number> {
+  const armSwing = config.armSwing ?? 0.6;
+  const bodyBob = config.bodyBob ?? 0.05;
+  const cycleFrequency = 2.0; // 一个完整步态周期的频率
+  const phase = time * cycleFrequency;
+
+  // 左右腿相位相反（差180度）
+  const leftLegPhase = phase * Math.PI;
+  const rightLegPhase = (phase + 1) * Math.PI;
+
+  // 手臂相位与对侧腿相同（走路时右腿前左臂前）
+  const leftArmPhase = rightLegPhase;
+  const rightArmPhase = leftLegPhase;
+
+  return {
+    // 左腿
+    leftHipX: Math.sin(leftLegPhase) * 0.5,
+    leftKneeX: Math.max(0, Math.sin(leftLegPhase * 2) * 0.3),
+
+    // 右腿
+    rightHipX: Math.sin(rightLegPhase) * 0.5,
+    rightKneeX: Math.max(0, Math.sin(rightLegPhase * 2) * 0.3),
+
+    // 左臂
+    leftShoulderX: Math.sin(leftArmPhase) * armSwing * 0.4,
+    leftElbowX: Math.max(0, -Math.sin(leftArmPhase) * armSwing * 0.3),
+
+    // 右臂
+    rightShoulderX: Math.sin(rightArmPhase) * armSwing * 0.4,
+    rightElbowX: Math.max(0, -Math.sin(rightArmPhase) * armSwing * 0.3),
+
+    // 躯干轻微晃动（垂直）
+    bodyBob: Math.sin(phase * Math.PI * 2) * bodyBob,
+
+    // 头部轻微点头
+    neckX: Math.sin(phase * Math.PI * 2) * 0.05,
+  };
+}
+
 export class WalkingAnimation {
   private robot: HumanoidRobot;
   private config: Required<WalkingAnimationConfig>;
@@ -98,40 +144,7 @@ export class WalkingAnimation {
    * 计算关节角度
    */
   private calculateJointAngles(time: number): Record<string, number> {
-    const cycleFrequency = 2.0; // 一个完整步态周期的频率
-    const phase = time * cycleFrequency;
-
-    // 左右腿相位相反（差180度）
-    const leftLegPhase = phase * Math.PI;
-    const rightLegPhase = (phase + 1) * Math.PI;
-
-    // 手臂相位与对侧腿相同（走路时右腿前左臂前）
-    const leftArmPhase = rightLegPhase;
-    const rightArmPhase = leftLegPhase;
-
-    return {
-      // 左腿
-      leftHipX: Math.sin(leftLegPhase) * 0.5,
-      leftKneeX: Math.max(0, Math.sin(leftLegPhase * 2) * 0.3),
-      
-      // 右腿
-      rightHipX: Math.sin(rightLegPhase) * 0.5,
-      rightKneeX: Math.max(0, Math.sin(rightLegPhase * 2) * 0.3),
-      
-      // 左臂
-      leftShoulderX: Math.sin(leftArmPhase) * this.config.armSwing * 0.4,
-      leftElbowX: Math.max(0, -Math.sin(leftArmPhase) * this.config.armSwing * 0.3),
-      
-      // 右臂
-      rightShoulderX: Math.sin(rightArmPhase) * this.config.armSwing * 0.4,
-      rightElbowX: Math.max(0, -Math.sin(rightArmPhase) * this.config.armSwing * 0.3),
-      
-      // 躯干轻微晃动（垂直）
-      bodyBob: Math.sin(phase * Math.PI * 2) * this.config.bodyBob,
-      
-      // 头部轻微点头
-      neckX: Math.sin(phase * Math.PI * 2) * 0.05,
-    };
+    return calculateWalkingJointAngles(time, this.config);
   }
 
   /**
@@ -11,6 +11,7 @@ import {
   PeripheralConfig,
   InputEvent,
 } from '../../types/peripheral.types';
+import { AxisCalibration, calibrateAxisValue, calibratedNoiseFloor } from './GamepadCalibration';
 
 export abstract class BasePeripheralDevice implements IPeripheralDevice {
   protected _id: string;
@@ -18,6 +19,8 @@ export abstract class BasePeripheralDevice implements IPeripheralDevice {
   protected _name: string;
   protected _status: PeripheralStatus = PeripheralStatus.DISCONNECTED;
   protected _config: PeripheralConfig;
+  // 轴校准（按轴索引，未校准的轴按居中、满量程处理）
+  protected axisCalibration: (AxisCalibration | null)[] = [];
   
   // 事件监听器
   private eventListeners: Map<string, Set<Function>> = new Map();
@@ -59,6 +62,17 @@ export abstract class BasePeripheralDevice implements IPeripheralDevice {
     this.onConfigChange(config);
   }
 
+  /**
+   * 设置轴校准（null为清除）
+   */
+  setAxisCalibration(axes: (AxisCalibration | null)[] | null): void {
+    this.axisCalibration = axes ?? [];
+  }
+
+  isAxisCalibrated(index: number): boolean {
+    return !!this.axisCalibration[index];
+  }
+
   /**
    * 配置变更回调（子类可重写）
    */
@@ -109,14 +123,22 @@ export abstract class BasePeripheralDevice implements IPeripheralDevice {
     if (this._status !== status) {
       this._status = status;
       console.log(`[${this.name}] Status changed: ${status}`);
+      this.emitStateChange();
     }
   }
 
   /**
    * 应用死区
+   * @param axisIndex 轴索引：该轴已校准时先按校准换算，死区不小于校准记录的噪声底
    */
-  protected applyDeadzone(value: number, deadzone?: number): number {
-    const dz = deadzone ?? this._config.deadzone ?? 0.1;
+  protected applyDeadzone(value: number, deadzone?: number, axisIndex?: number): number {
+    let dz = deadzone ?? this._config.deadzone ?? 0.1;
+
+    const calibration = axisIndex !== undefined ? this.axisCalibration[axisIndex] : null;
+    if (calibration) {
+      value = calibrateAxisValue(value, calibration);
+      dz = Math.max(dz, calibratedNoiseFloor(calibration));
+    }
     
     if (Math.abs(value) < dz) {
       return 0;
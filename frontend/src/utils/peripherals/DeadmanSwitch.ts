@@ -0,0 +1,231 @@
+/**
+ * 死人开关
+ * 只有按住配置的手柄按钮或键盘按键时才允许下发速度指令；
+ * 松开、窗口失焦、页面隐藏、外设断开或通信中断时立即触发release，由调用方发布零速度
+ * 驾驶期间按固定频率触发心跳，机器人侧据此判断驾驶舱是否仍在正常运行
+ */
+
+import { InputEvent, InputEventType } from '../../types/peripheral.types';
+
+export interface DeadmanConfig {
+  enabled: boolean;              // 关闭时速度指令不受死人开关限制（安全停车仍然生效）
+  gamepadButtons: number[];      // 按住任一按钮视为握持
+  keys: string[];                // 按住任一键视为握持（KeyboardEvent.key，不区分大小写）
+  heartbeatTopic: string;
+  heartbeatIntervalMs: number;
+}
+
+export type DeadmanReleaseReason =
+  | 'released'                   // 松开死人开关
+  | 'blur'                       // 窗口失焦
+  | 'hidden'                     // 页面隐藏
+  | 'peripheral_disconnected'    // 外设断开
+  | 'transport_lost';            // 通信中断
+
+export const DEADMAN_RELEASE_LABELS: Record<DeadmanReleaseReason, string> = {
+  released: '松开死人开关',
+  blur: '窗口失去焦点',
+  hidden: '页面被隐藏',
+  peripheral_disconnected: '外设断开',
+  transport_lost: '通信中断',
+};
+
+const DEFAULT_CONFIG: DeadmanConfig = {
+  enabled: true,
+  gamepadButtons: [7],   // RT
+  keys: ['Shift'],
+  heartbeatTopic: '/teleop/heartbeat',
+  heartbeatIntervalMs: 100,
+};
+
+let config: DeadmanConfig = { ...DEFAULT_CONFIG };
+
+/**
+ * 修改死人开关配置（未指定的字段保持不变）
+ */
+export function setDeadmanConfig(partial: Partial<DeadmanConfig>): void {
+  config = { ...config, ...partial };
+}
+
+export function getDeadmanConfig(): DeadmanConfig {
+  return { ...config };
+}
+
+export class DeadmanSwitch {
+  // 当前按住的死人开关输入（deviceId:按钮/按键）
+  private heldInputs: Set<string> = new Set();
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private heartbeatCallback: (() => void) | null = null;
+  private eventListeners: Map<string, Set<Function>> = new Map();
+  private windowCleanup: (() => void) | null = null;
+
+  /**
+   * 是否允许下发速度指令
+   */
+  isEngaged(): boolean {
+    return !config.enabled || this.heldInputs.size > 0;
+  }
+
+  /**
+   * 是否按住了死人开关（与是否启用无关）
+   */
+  isHeld(): boolean {
+    return this.heldInputs.size > 0;
+  }
+
+  /**
+   * 处理外设输入，更新握持状态
+   * @returns 该输入是否为死人开关
+   */
+  handleInput(event: InputEvent): boolean {
+    const input = this.getDeadmanInput(event);
+    if (!input) {
+      return false;
+    }
+
+    const wasEngaged = this.isEngaged();
+    const pressed = event.type === InputEventType.BUTTON_DOWN || event.type === InputEventType.KEY_DOWN;
+    if (pressed) {
+      this.heldInputs.add(input);
+    } else {
+      this.heldInputs.delete(input);
+    }
+
+    const engaged = this.isEngaged();
+    if (!wasEngaged && engaged) {
+      this.emit('engage', {});
+    } else if (wasEngaged && !engaged) {
+      this.stopHeartbeat();
+      this.emit('release', 'released');
+    }
+    return true;
+  }
+
+  /**
+   * 强制释放（窗口失焦、外设断开、通信中断等）
+   * 未启用死人开关时同样通知调用方停车
+   */
+  release(reason: DeadmanReleaseReason): void {
+    const wasEngaged = this.isEngaged();
+    this.heldInputs.clear();
+    this.setDriving(false);
+
+    if (wasEngaged) {
+      console.warn(`[DeadmanSwitch] 停止驾驶：${DEADMAN_RELEASE_LABELS[reason]}`);
+      this.emit('release', reason);
+    }
+  }
+
+  /**
+   * 设置是否正在驾驶（有非零速度指令），驾驶期间发送心跳
+   */
+  setDriving(driving: boolean): void {
+    if (driving && this.isEngaged()) {
+      this.startHeartbeat();
+    } else {
+      this.stopHeartbeat();
+    }
+  }
+
+  /**
+   * 设置心跳回调（按heartbeatIntervalMs周期调用）
+   */
+  setHeartbeatCallback(callback: () => void): void {
+    this.heartbeatCallback = callback;
+  }
+
+  /**
+   * 监听窗口失焦和页面隐藏
+   */
+  attachWindow(): void {
+    if (this.windowCleanup) return;
+
+    const handleBlur = () => this.release('blur');
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        this.release('hidden');
+      }
+    };
+
+    window.addEventListener('blur', handleBlur);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    this.windowCleanup = () => {
+      window.removeEventListener('blur', handleBlur);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }
+
+  /**
+   * 事件监听
+   */
+  on(event: 'engage' | 'release', listener: Function): void {
+    if (!this.eventListeners.has(event)) {
+      this.eventListeners.set(event, new Set());
+    }
+    this.eventListeners.get(event)!.add(listener);
+  }
+
+  /**
+   * 移除监听
+   */
+  off(event: string, listener: Function): void {
+    this.eventListeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * 清理所有资源
+   */
+  cleanup(): void {
+    this.stopHeartbeat();
+    this.windowCleanup?.();
+    this.windowCleanup = null;
+    this.heldInputs.clear();
+    this.eventListeners.clear();
+    this.heartbeatCallback = null;
+  }
+
+  private getDeadmanInput(event: InputEvent): string | null {
+    switch (event.type) {
+      case InputEventType.BUTTON_DOWN:
+      case InputEventType.BUTTON_UP:
+        if (event.button && config.gamepadButtons.includes(event.button.index)) {
+          return `${event.deviceId}:button${event.button.index}`;
+        }
+        return null;
+      case InputEventType.KEY_DOWN:
+      case InputEventType.KEY_UP: {
+        const key = event.key?.toLowerCase();
+        if (key && config.keys.some(configured => configured.toLowerCase() === key)) {
+          return `${event.deviceId}:${key}`;
+        }
+        return null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeatTimer) return;
+
+    this.heartbeatCallback?.();
+    this.heartbeatTimer = setInterval(() => this.heartbeatCallback?.(), config.heartbeatIntervalMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private emit(event: string, data: any): void {
+    this.eventListeners.get(event)?.forEach(listener => {
+      try {
+        listener(data);
+      } catch (error) {
+        console.error('[DeadmanSwitch] Event listener error:', error);
+      }
+    });
+  }
+}
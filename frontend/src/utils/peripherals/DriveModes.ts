@@ -0,0 +1,154 @@
+/**
+ * 驾驶模式
+ * 把摇杆位置混合为归一化的前进、横移、转向量 [-1, 1]：
+ * - 差速：左摇杆前后为前进，左右为转向（不横移）
+ * - 全向：左摇杆前后/左右为前进/横移，右摇杆左右为转向
+ * - 坦克：左右摇杆前后分别控制左右两侧
+ * 转向与差速模式一致，摇杆向右为正；横移按ROS约定，向左为正
+ *
+ * 相机坐标系：平移方向相对相机朝向（相机相对机体的偏航角来自关节状态），
+ * 不能横移的模式只保留旋转后的前进分量
+ */
+
+import { DriveAxisBinding, DriveAxisName, InputEvent } from '../../types/peripheral.types';
+import { VelocityProfile, applyDeadzone, applyExpo, shapeStick } from './VelocityShaper';
+
+export type DriveMode = 'differential' | 'holonomic' | 'tank';
+
+export type SteeringFrame = 'body' | 'camera';
+
+export type DriveAxes = Record<DriveAxisName, number>;
+
+export interface DriveCommand {
+  forward: number;  // 前进为正
+  strafe: number;   // 向左为正
+  turn: number;     // 向右为正
+}
+
+export interface CameraYawConfig {
+  topic: string;    // 关节状态话题（sensor_msgs/JointState）
+  joint: string;    // 相机偏航关节（逆时针为正）
+}
+
+export const DRIVE_MODE_LABELS: Record<DriveMode, string> = {
+  differential: '差速',
+  holonomic: '全向',
+  tank: '坦克',
+};
+
+export const STEERING_FRAME_LABELS: Record<SteeringFrame, string> = {
+  body: '机体坐标',
+  camera: '相机坐标',
+};
+
+const DEFAULT_CAMERA_YAW_CONFIG: CameraYawConfig = {
+  topic: '/joint_states',
+  joint: 'waist_yaw_joint',  // 头部相机随腰部偏航转动
+};
+
+let cameraYawConfig: CameraYawConfig = { ...DEFAULT_CAMERA_YAW_CONFIG };
+
+/**
+ * 修改相机偏航来源（未指定的字段保持不变）
+ */
+export function setCameraYawConfig(partial: Partial<CameraYawConfig>): void {
+  cameraYawConfig = { ...cameraYawConfig, ...partial };
+}
+
+export function getCameraYawConfig(): CameraYawConfig {
+  return { ...cameraYawConfig };
+}
+
+// 标准手柄布局：0/1为左摇杆，2/3为右摇杆
+export const DEFAULT_DRIVE_AXES: Record<DriveAxisName, DriveAxisBinding> = {
+  leftX: { index: 0 },
+  leftY: { index: 1 },
+  rightX: { index: 2 },
+  rightY: { index: 3 },
+};
+
+/**
+ * 模式是否可以横移
+ */
+export function canStrafe(mode: DriveMode): boolean {
+  return mode === 'holonomic';
+}
+
+/**
+ * 从外设事件更新摇杆状态
+ * @param bindings 映射方案中的摇杆轴绑定（未指定的逻辑轴使用标准手柄布局）
+ * @returns 是否为摇杆轴事件
+ */
+export function updateDriveAxes(
+  axes: DriveAxes,
+  event: InputEvent,
+  bindings: Partial<Record<DriveAxisName, DriveAxisBinding>> = {}
+): boolean {
+  if (!event.axis) return false;
+
+  let matched = false;
+  (Object.keys(DEFAULT_DRIVE_AXES) as DriveAxisName[]).forEach(name => {
+    const binding = bindings[name] ?? DEFAULT_DRIVE_AXES[name];
+    if (binding.index === event.axis!.index) {
+      axes[name] = binding.invert ? -event.axis!.value : event.axis!.value;
+      matched = true;
+    }
+  });
+  return matched;
+}
+
+/**
+ * 按驾驶模式混合摇杆
+ * @param cameraYaw 相机相对机体的偏航角（弧度，逆时针为正），相机坐标系时使用
+ */
+export function mixDrive(axes: DriveAxes, profile: VelocityProfile, cameraYaw: number = 0): DriveCommand {
+  const { deadzone, deadzoneMode, linear, angular } = profile;
+  let command: DriveCommand;
+
+  switch (profile.driveMode) {
+    case 'holonomic': {
+      // Gamepad API中Y轴向下为正；摇杆向右为横移负方向
+      const [dx, dy] = applyDeadzone(axes.leftX, axes.leftY, deadzone, deadzoneMode);
+      const [rx] = applyDeadzone(axes.rightX, 0, deadzone, 'axial');
+      command = {
+        forward: applyExpo(-dy, linear.expo),
+        strafe: applyExpo(-dx, linear.expo),
+        turn: applyExpo(rx, angular.expo),
+      };
+      break;
+    }
+    case 'tank': {
+      const [, left] = applyDeadzone(0, axes.leftY, deadzone, 'axial');
+      const [, right] = applyDeadzone(0, axes.rightY, deadzone, 'axial');
+      const leftTrack = applyExpo(-left, linear.expo);
+      const rightTrack = applyExpo(-right, linear.expo);
+      // 左侧快于右侧时向右转
+      command = {
+        forward: (leftTrack + rightTrack) / 2,
+        strafe: 0,
+        turn: (leftTrack - rightTrack) / 2,
+      };
+      break;
+    }
+    default: {
+      const { forward, turn } = shapeStick(axes.leftX, axes.leftY, profile);
+      command = { forward, strafe: 0, turn };
+    }
+  }
+
+  if (profile.steeringFrame === 'camera' && cameraYaw !== 0) {
+    // 相机坐标系的平移向量旋转到机体坐标系
+    const cos = Math.cos(cameraYaw);
+    const sin = Math.sin(cameraYaw);
+    const forward = command.forward * cos - command.strafe * sin;
+    const strafe = command.forward * sin + command.strafe * cos;
+    command = { ...command, forward, strafe: canStrafe(profile.driveMode) ? strafe : 0 };
+  }
+
+  // 斜向推满时平移合速度不超过1
+  const magnitude = Math.hypot(command.forward, command.strafe);
+  if (magnitude > 1) {
+    command = { ...command, forward: command.forward / magnitude, strafe: command.strafe / magnitude };
+  }
+  return command;
+}
@@ -0,0 +1,305 @@
+/**
+ * 手柄校准
+ * 街机摇杆、飞行摇杆等设备静止时轴值往往不在0、两侧行程不对称、方向与标准布局相反，
+ * 校准记录每个轴的静止位置、最小/最大行程、噪声底和方向，按 Gamepad.id 保存，
+ * 设备（重新）连接时自动加载，由 BasePeripheralDevice 在死区处理前应用
+ *
+ * 校准流程：静止采样（静止位置、噪声底） → 全行程转动（最小/最大行程） → 按提示推动摇杆（检测反向轴）
+ */
+
+export interface AxisCalibration {
+  rest: number;        // 静止位置（原始值）
+  min: number;         // 最小行程（原始值）
+  max: number;         // 最大行程（原始值）
+  noise: number;       // 静止时的噪声幅度（原始值）
+  inverted: boolean;   // 方向与标准布局相反
+}
+
+export interface GamepadCalibrationProfile {
+  gamepadId: string;                  // Gamepad.id（同型号设备共用）
+  axes: (AxisCalibration | null)[];   // 按轴索引，null为未校准（按原始值处理）
+  calibratedAt: number;
+}
+
+export type CalibrationPhase = 'rest' | 'travel' | 'direction' | 'done';
+
+export interface DirectionPrompt {
+  axis: number;
+  label: string;   // 推向标准布局中该轴的正方向
+}
+
+// 标准手柄布局中各轴的正方向（X轴向右、Y轴向下为正）
+export const DIRECTION_PROMPTS: DirectionPrompt[] = [
+  { axis: 0, label: '把左摇杆推到最右' },
+  { axis: 1, label: '把左摇杆拉到最下（朝向自己）' },
+  { axis: 2, label: '把右摇杆推到最右' },
+  { axis: 3, label: '把右摇杆拉到最下（朝向自己）' },
+];
+
+const STORAGE_KEY = 'robot_cockpit_gamepad_calibrations';
+
+// 单侧行程小于该值时视为没有这一侧（如踏板只有一个方向）
+const MIN_SPAN = 0.05;
+// 全行程转动时变化小于该值的轴视为未使用，不校准
+const MIN_TRAVEL = 0.2;
+// 噪声死区留出的余量
+const NOISE_MARGIN = 1.5;
+// 噪声死区上限（噪声过大时仍保留一半行程）
+const MAX_NOISE_FLOOR = 0.5;
+// 方向检测时需要推过的行程比例
+const DIRECTION_THRESHOLD = 0.5;
+
+// ========== 应用校准 ==========
+
+/**
+ * 把原始轴值按校准换算到 [-1, 1]：静止位置为0，两侧行程分别拉伸到满量程
+ */
+export function calibrateAxisValue(raw: number, calibration: AxisCalibration): number {
+  const offset = raw - calibration.rest;
+  const span = offset >= 0 ? calibration.max - calibration.rest : calibration.rest - calibration.min;
+  if (span < MIN_SPAN) return 0;
+
+  const value = Math.max(-1, Math.min(1, offset / span));
+  return calibration.inverted ? -value : value;
+}
+
+/**
+ * 校准后的噪声底（换算到 [-1, 1] 并留出余量），作为该轴的最小死区
+ */
+export function calibratedNoiseFloor(calibration: AxisCalibration): number {
+  const spans = [calibration.max - calibration.rest, calibration.rest - calibration.min].filter(span => span >= MIN_SPAN);
+  if (spans.length === 0) return 0;
+  return Math.min(MAX_NOISE_FLOOR, (calibration.noise / Math.min(...spans)) * NOISE_MARGIN);
+}
+
+// ========== 保存 ==========
+
+type CalibrationListener = (gamepadId: string, profile: GamepadCalibrationProfile | null) => void;
+
+const listeners = new Set<CalibrationListener>();
+
+function readAll(): Record<string, GamepadCalibrationProfile> {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return {};
+
+  try {
+    const parsed = JSON.parse(saved);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    console.warn('[GamepadCalibration] 校准数据无法解析:', error);
+    return {};
+  }
+}
+
+function writeAll(profiles: Record<string, GamepadCalibrationProfile>): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+function isValidAxis(axis: any): axis is AxisCalibration {
+  return !!axis
+    && [axis.rest, axis.min, axis.max, axis.noise].every(value => typeof value === 'number' && Number.isFinite(value))
+    && axis.min <= axis.rest && axis.rest <= axis.max;
+}
+
+function notify(gamepadId: string, profile: GamepadCalibrationProfile | null): void {
+  listeners.forEach(listener => {
+    try {
+      listener(gamepadId, profile);
+    } catch (error) {
+      console.error('[GamepadCalibration] Listener error:', error);
+    }
+  });
+}
+
+/**
+ * 读取设备的校准（未校准时返回null，不合法的轴按未校准处理）
+ */
+export function loadGamepadCalibration(gamepadId: string): GamepadCalibrationProfile | null {
+  const profile = readAll()[gamepadId];
+  if (!profile || !Array.isArray(profile.axes)) return null;
+
+  return {
+    gamepadId,
+    axes: profile.axes.map(axis => (isValidAxis(axis) ? { ...axis, inverted: !!axis.inverted } : null)),
+    calibratedAt: profile.calibratedAt ?? 0,
+  };
+}
+
+export function listGamepadCalibrations(): GamepadCalibrationProfile[] {
+  return Object.keys(readAll())
+    .map(loadGamepadCalibration)
+    .filter((profile): profile is GamepadCalibrationProfile => !!profile);
+}
+
+/**
+ * 保存校准（同一设备覆盖），已连接的同型号设备立即生效
+ */
+export function saveGamepadCalibration(profile: GamepadCalibrationProfile): void {
+  writeAll({ ...readAll(), [profile.gamepadId]: profile });
+  console.log(`[GamepadCalibration] 已保存校准: ${profile.gamepadId}`);
+  notify(profile.gamepadId, profile);
+}
+
+export function deleteGamepadCalibration(gamepadId: string): void {
+  const profiles = readAll();
+  delete profiles[gamepadId];
+  writeAll(profiles);
+  notify(gamepadId, null);
+}
+
+/**
+ * 监听校准变化
+ * @returns 取消监听的函数
+ */
+export function onGamepadCalibrationChange(listener: CalibrationListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// ========== 校准记录 ==========
+
+interface AxisRecord {
+  restSamples: number[];
+  min: number;
+  max: number;
+  inverted: boolean;
+}
+
+/**
+ * 校准记录器：按阶段接收原始轴值采样，最后生成校准
+ */
+export class GamepadCalibrationRecorder {
+  private phase: CalibrationPhase = 'rest';
+  private records: AxisRecord[] = [];
+  private rests: number[] = [];
+  private noises: number[] = [];
+  private prompts: DirectionPrompt[] = [];
+  private promptIndex = 0;
+
+  getPhase(): CalibrationPhase {
+    return this.phase;
+  }
+
+  /**
+   * 当前的方向提示（不在方向检测阶段时为null）
+   */
+  getPrompt(): DirectionPrompt | null {
+    return this.phase === 'direction' ? this.prompts[this.promptIndex] ?? null : null;
+  }
+
+  /**
+   * 已记录的静止位置和行程（用于界面显示）
+   */
+  getAxisRanges(): { rest: number | null; min: number; max: number }[] {
+    return this.records.map((record, index) => ({
+      rest: this.rests[index] ?? null,
+      min: record.min,
+      max: record.max,
+    }));
+  }
+
+  addSample(axes: readonly number[]): void {
+    axes.forEach((value, index) => {
+      if (!this.records[index]) {
+        this.records[index] = { restSamples: [], min: value, max: value, inverted: false };
+      }
+    });
+
+    switch (this.phase) {
+      case 'rest':
+        axes.forEach((value, index) => this.records[index].restSamples.push(value));
+        break;
+      case 'travel':
+        axes.forEach((value, index) => {
+          const record = this.records[index];
+          record.min = Math.min(record.min, value);
+          record.max = Math.max(record.max, value);
+        });
+        break;
+      case 'direction':
+        this.detectDirection(axes);
+        break;
+    }
+  }
+
+  /**
+   * 进入下一阶段（方向检测阶段为跳过当前提示）
+   */
+  next(): void {
+    switch (this.phase) {
+      case 'rest':
+        this.finishRest();
+        this.phase = 'travel';
+        break;
+      case 'travel':
+        // 只检测确实有行程的轴
+        this.prompts = DIRECTION_PROMPTS.filter(prompt => this.hasTravel(prompt.axis));
+        this.promptIndex = 0;
+        this.phase = this.prompts.length > 0 ? 'direction' : 'done';
+        break;
+      case 'direction':
+        this.advancePrompt();
+        break;
+    }
+  }
+
+  /**
+   * 生成校准（行程不足的轴不校准）
+   */
+  build(gamepadId: string): GamepadCalibrationProfile {
+    return {
+      gamepadId,
+      axes: this.records.map((record, index) => {
+        if (!this.hasTravel(index)) return null;
+        const rest = this.rests[index];
+        return {
+          rest,
+          // 静止位置总在行程之内
+          min: Math.min(record.min, rest),
+          max: Math.max(record.max, rest),
+          noise: this.noises[index],
+          inverted: record.inverted,
+        };
+      }),
+      calibratedAt: Date.now(),
+    };
+  }
+
+  private finishRest(): void {
+    this.records.forEach((record, index) => {
+      const samples = record.restSamples;
+      const rest = samples.length > 0 ? samples.reduce((sum, value) => sum + value, 0) / samples.length : 0;
+      this.rests[index] = rest;
+      this.noises[index] = samples.reduce((noise, value) => Math.max(noise, Math.abs(value - rest)), 0);
+      // 行程从静止位置开始记录
+      record.min = rest;
+      record.max = rest;
+    });
+  }
+
+  private hasTravel(index: number): boolean {
+    const record = this.records[index];
+    return !!record && this.rests[index] !== undefined && record.max - record.min >= MIN_TRAVEL;
+  }
+
+  private detectDirection(axes: readonly number[]): void {
+    const prompt = this.getPrompt();
+    if (!prompt || axes[prompt.axis] === undefined) return;
+
+    const record = this.records[prompt.axis];
+    const rest = this.rests[prompt.axis];
+    const offset = axes[prompt.axis] - rest;
+    const span = offset >= 0 ? record.max - rest : rest - record.min;
+    if (span < MIN_SPAN || Math.abs(offset) < span * DIRECTION_THRESHOLD) return;
+
+    record.inverted = offset < 0;
+    this.advancePrompt();
+  }
+
+  private advancePrompt(): void {
+    this.promptIndex++;
+    if (this.promptIndex >= this.prompts.length) {
+      this.phase = 'done';
+    }
+  }
+}
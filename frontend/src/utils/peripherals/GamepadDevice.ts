@@ -1,6 +1,8 @@
 /**
  * Gamepad设备适配器
  * 支持游戏手柄、飞行摇杆、方向盘等标准Gamepad API设备
+ * 按设备身份（Gamepad.id 中的厂商/产品ID）绑定：首次按索引连接后锁定身份，
+ * 之后重连按身份查找（换USB口、浏览器重新分配索引后仍对应同一设备），轴/按钮名称来自布局目录
  */
 
 import { BasePeripheralDevice } from './BasePeripheralDevice';
@@ -14,10 +16,22 @@ import {
   AxisInput,
   ButtonInput,
 } from '../../types/peripheral.types';
+import { loadGamepadCalibration, onGamepadCalibrationChange } from './GamepadCalibration';
+import { GamepadIdentity, GamepadLayout, gamepadDeviceKey, matchGamepadLayout, parseGamepadId } from './GamepadLayouts';
 
 export class GamepadDevice extends BasePeripheralDevice {
+  // 各索引当前由哪个设备实例使用（多手柄时同型号设备不会绑定到同一台）
+  private static claimedIndices: Map<number, GamepadDevice> = new Map();
+
   private gamepad: Gamepad | null = null;
   private gamepadIndex: number = -1;
+
+  // 设备身份（首次连接后锁定，null为按索引绑定）
+  private deviceKey: string | null = null;
+  private identity: GamepadIdentity | null = null;
+  private layout: GamepadLayout | null = null;
+  // 构造时显式指定的轴/按钮名称（优先于布局目录）
+  private configuredMapping: Pick<PeripheralConfig, 'axisMapping' | 'buttonMapping'>;
   private animationFrameId: number | null = null;
   
   // 上一帧的按钮状态（用于边缘检测）
@@ -37,23 +51,123 @@ export class GamepadDevice extends BasePeripheralDevice {
   private lastSeenTimestamp: number = 0;
   private disconnectCheckInterval: number = 5000; // 5秒无数据视为断线
 
-  constructor(gamepadIndex: number = 0, config?: PeripheralConfig) {
+  // 校准变化监听（同型号设备的校准保存后立即生效）
+  private unsubscribeCalibration: (() => void) | null = null;
+
+  /**
+   * @param gamepadIndex 未指定设备身份时按该索引连接
+   * @param deviceKey 设备身份键（vvvv:pppp 或设备名称，见 gamepadDeviceKey），指定时只连接该设备
+   * @param deviceId 设备ID（默认为 gamepad-索引）
+   */
+  constructor(gamepadIndex: number = 0, config?: PeripheralConfig, deviceKey?: string, deviceId?: string) {
     super(
-      `gamepad-${gamepadIndex}`,
+      deviceId ?? `gamepad-${gamepadIndex}`,
       PeripheralType.GAMEPAD,
       'Gamepad Device',
       config
     );
     this.gamepadIndex = gamepadIndex;
+    this.deviceKey = deviceKey ?? null;
+    this.configuredMapping = { axisMapping: config?.axisMapping, buttonMapping: config?.buttonMapping };
+  }
+
+  /**
+   * 已连接设备的 Gamepad.id（未连接时为null）
+   */
+  getGamepadId(): string | null {
+    return this._status === PeripheralStatus.CONNECTED ? this.identity?.rawId ?? null : null;
+  }
+
+  /**
+   * 最近一次连接的设备身份（未连接过时为null）
+   */
+  getIdentity(): GamepadIdentity | null {
+    return this.identity;
+  }
+
+  getDeviceKey(): string | null {
+    return this.deviceKey;
+  }
+
+  getLayout(): GamepadLayout | null {
+    return this.layout;
+  }
+
+  /**
+   * 当前的轴、按钮名称（布局目录与显式配置合并后）
+   */
+  getInputNames(): { axes: Record<number, string>; buttons: Record<number, string> } {
+    return { axes: this._config.axisMapping ?? {}, buttons: this._config.buttonMapping ?? {} };
+  }
+
+  /**
+   * 运行中指定的轴/按钮名称同样优先于布局目录（重连后保留）
+   */
+  protected onConfigChange(config: Partial<PeripheralConfig>): void {
+    if (config.axisMapping) this.configuredMapping.axisMapping = config.axisMapping;
+    if (config.buttonMapping) this.configuredMapping.buttonMapping = config.buttonMapping;
+  }
+
+  /**
+   * 按身份（未锁定身份时按索引）查找设备；同型号有多台时优先上次的索引
+   */
+  private findGamepad(): Gamepad | null {
+    const gamepads = navigator.getGamepads();
+    if (!this.deviceKey) {
+      const gamepad = gamepads[this.gamepadIndex] ?? null;
+      return gamepad && !this.isClaimedByOther(gamepad.index) ? gamepad : null;
+    }
+
+    const candidates = Array.from(gamepads).filter((gamepad): gamepad is Gamepad =>
+      !!gamepad && this.matchesGamepad(gamepad) && !this.isClaimedByOther(gamepad.index)
+    );
+    return candidates.find(gamepad => gamepad.index === this.gamepadIndex) ?? candidates[0] ?? null;
+  }
+
+  /**
+   * 当前使用的索引（未连接时为-1）
+   */
+  getGamepadIndex(): number {
+    return this.gamepad ? this.gamepad.index : -1;
+  }
+
+  private isClaimedByOther(index: number): boolean {
+    const owner = GamepadDevice.claimedIndices.get(index);
+    return !!owner && owner !== this;
+  }
+
+  private claimIndex(index: number): void {
+    this.releaseIndex();
+    GamepadDevice.claimedIndices.set(index, this);
+  }
+
+  private releaseIndex(): void {
+    GamepadDevice.claimedIndices.forEach((owner, index) => {
+      if (owner === this) GamepadDevice.claimedIndices.delete(index);
+    });
+  }
+
+  private matchesGamepad(gamepad: Gamepad): boolean {
+    return this.deviceKey
+      ? gamepadDeviceKey(parseGamepadId(gamepad.id)) === this.deviceKey
+      : gamepad.index === this.gamepadIndex;
   }
 
   async connect(): Promise<void> {
+    this.unsubscribeCalibration?.();
+    this.unsubscribeCalibration = onGamepadCalibrationChange((gamepadId, profile) => {
+      if (gamepadId === this.getGamepadId()) {
+        this.setAxisCalibration(profile?.axes ?? null);
+        this.previousAxisValues = [];
+      }
+    });
+
     return new Promise((resolve) => {
       this.updateStatus(PeripheralStatus.CONNECTING);
 
       // 监听手柄连接
       const onConnected = (e: GamepadEvent) => {
-        if (e.gamepad.index === this.gamepadIndex) {
+        if (this.matchesGamepad(e.gamepad) && !this.isClaimedByOther(e.gamepad.index)) {
           this.handleConnection(e.gamepad);
           window.removeEventListener('gamepadconnected', onConnected);
           resolve();
@@ -62,7 +176,7 @@ export class GamepadDevice extends BasePeripheralDevice {
 
       // 持久监听断开事件（不要在这里移除监听器）
       const onDisconnected = (e: GamepadEvent) => {
-        if (e.gamepad.index === this.gamepadIndex) {
+        if (this.gamepad?.index === e.gamepad.index) {
           this.handleDisconnect();
         }
       };
@@ -73,8 +187,7 @@ export class GamepadDevice extends BasePeripheralDevice {
       // 持续轮询检测手柄（不依赖用户激活）
       let pollCount = 0;
       const pollInterval = setInterval(() => {
-        const gamepads = navigator.getGamepads();
-        const existingGamepad = gamepads[this.gamepadIndex];
+        const existingGamepad = this.findGamepad();
         
         if (existingGamepad) {
           console.log('✅ [Gamepad] 检测到手柄连接:', existingGamepad.id);
@@ -92,8 +205,7 @@ export class GamepadDevice extends BasePeripheralDevice {
             clearInterval(pollInterval);
             // 改为每秒检测一次
             const slowPoll = setInterval(() => {
-              const gamepads = navigator.getGamepads();
-              const gp = gamepads[this.gamepadIndex];
+              const gp = this.findGamepad();
               if (gp) {
                 console.log('✅ [Gamepad] 检测到手柄连接:', gp.id);
                 clearInterval(slowPoll);
@@ -112,6 +224,9 @@ export class GamepadDevice extends BasePeripheralDevice {
   async disconnect(): Promise<void> {
     this.stopPolling();
     this.stopReconnect();
+    this.unsubscribeCalibration?.();
+    this.unsubscribeCalibration = null;
+    this.releaseIndex();
     this.gamepad = null;
     this.updateStatus(PeripheralStatus.DISCONNECTED);
     console.log('❌ [Gamepad] 已主动断开');
@@ -122,17 +237,36 @@ export class GamepadDevice extends BasePeripheralDevice {
    */
   private handleConnection(gamepad: Gamepad): void {
     this.gamepad = gamepad;
-    this._name = gamepad.id;
+    this.gamepadIndex = gamepad.index;
+    this.claimIndex(gamepad.index);
+    this.identity = parseGamepadId(gamepad.id);
+    this.deviceKey = gamepadDeviceKey(this.identity);
+    this.layout = matchGamepadLayout(this.identity, gamepad.mapping);
+    this._name = this.identity.name;
+    this._config = {
+      ...this._config,
+      axisMapping: { ...this.layout.axisMapping, ...this.configuredMapping.axisMapping },
+      buttonMapping: { ...this.layout.buttonMapping, ...this.configuredMapping.buttonMapping },
+    };
     this.lastSeenTimestamp = Date.now();
     this.reconnectAttempts = 0; // 重置重连计数
     this.isReconnecting = false;
+
+    // 按设备型号加载校准（每次重连都重新读取）
+    const calibration = loadGamepadCalibration(gamepad.id);
+    this.setAxisCalibration(calibration?.axes ?? null);
+    this.previousAxisValues = [];
     
     this.updateStatus(PeripheralStatus.CONNECTED);
     this.startPolling();
     
     console.log(`✅ [Gamepad] 已连接: ${this._name}`);
+    console.log(`   - 身份: ${this.deviceKey}（索引 ${gamepad.index}，布局: ${this.layout.label}）`);
     console.log(`   - 轴数量: ${gamepad.axes.length}`);
     console.log(`   - 按钮数量: ${gamepad.buttons.length}`);
+    if (calibration) {
+      console.log(`   - 已应用校准（${new Date(calibration.calibratedAt).toLocaleString()}）`);
+    }
   }
 
   /**
@@ -145,6 +279,7 @@ export class GamepadDevice extends BasePeripheralDevice {
     
     console.warn('⚠️ [Gamepad] 设备断开，尝试自动重连...');
     this.stopPolling();
+    this.releaseIndex();
     this.updateStatus(PeripheralStatus.DISCONNECTED);
     this.gamepad = null;
     
@@ -191,8 +326,7 @@ export class GamepadDevice extends BasePeripheralDevice {
 
     this.reconnectTimeoutId = setTimeout(() => {
       // 检查是否已重新连接
-      const gamepads = navigator.getGamepads();
-      const reconnectedGamepad = gamepads[this.gamepadIndex];
+      const reconnectedGamepad = this.findGamepad();
 
       if (reconnectedGamepad) {
         console.log('✅ [Gamepad] 重连成功！');
@@ -217,8 +351,7 @@ export class GamepadDevice extends BasePeripheralDevice {
   }
 
   getState(): PeripheralState {
-    const gamepads = navigator.getGamepads();
-    this.gamepad = gamepads[this.gamepadIndex];
+    this.gamepad = this.findGamepad();
 
     if (!this.gamepad) {
       return {
@@ -236,7 +369,7 @@ export class GamepadDevice extends BasePeripheralDevice {
     const axes: AxisInput[] = this.gamepad.axes.map((rawValue, index) => ({
       index,
       rawValue,
-      value: this.applyDeadzone(rawValue),
+      value: this.applyDeadzone(rawValue, undefined, index),
       name: this._config.axisMapping?.[index],
     }));
 
@@ -253,6 +386,13 @@ export class GamepadDevice extends BasePeripheralDevice {
       deviceId: this.id,
       deviceType: this.type,
       deviceName: this.name,
+      deviceInfo: this.identity ? {
+        rawId: this.identity.rawId,
+        deviceKey: gamepadDeviceKey(this.identity),
+        vendorId: this.identity.vendorId,
+        productId: this.identity.productId,
+        layout: this.layout?.label,
+      } : undefined,
       status: this._status,
       timestamp: this.gamepad.timestamp || Date.now(),
       axes,
@@ -270,10 +410,15 @@ export class GamepadDevice extends BasePeripheralDevice {
       }
 
       // 更新手柄引用（必须每帧重新获取）
-      const gamepads = navigator.getGamepads();
-      this.gamepad = gamepads[this.gamepadIndex];
+      this.gamepad = this.findGamepad();
 
       if (this.gamepad) {
+        // 换USB口后浏览器可能分配新索引
+        if (this.gamepad.index !== this.gamepadIndex) {
+          this.gamepadIndex = this.gamepad.index;
+          this.claimIndex(this.gamepad.index);
+        }
+
         // 检查是否有新数据（某些浏览器/手柄 timestamp 不更新）
         const now = Date.now();
         if (this.gamepad.timestamp > 0) {
@@ -326,7 +471,7 @@ export class GamepadDevice extends BasePeripheralDevice {
 
     // 处理轴输入
     this.gamepad.axes.forEach((rawValue, index) => {
-      const value = this.applyDeadzone(rawValue);
+      const value = this.applyDeadzone(rawValue, undefined, index);
       const prevValue = this.previousAxisValues[index] || 0;
 
       // 只有变化时才发送事件
@@ -0,0 +1,234 @@
+/**
+ * 手柄识别与布局目录
+ * 从 Gamepad.id 解析厂商/产品ID，按目录匹配已知设备的布局（轴、按钮名称），
+ * 设备按身份（厂商:产品）绑定，不依赖浏览器分配的索引，换USB口后仍能对应到同一设备
+ *
+ * Gamepad.id 格式因浏览器而异：
+ * - Chrome/Edge：Xbox 360 Controller (XInput STANDARD GAMEPAD Vendor: 045e Product: 028e)
+ * - Firefox：045e-028e-Xbox 360 Controller
+ * - Safari等：只有设备名称
+ *
+ * 非标准映射设备（飞行摇杆、街机编码器）的索引按 Chrome/Windows 的常见上报顺序，
+ * 其他平台可能不同，可用 registerGamepadLayout 注册覆盖
+ */
+
+export interface GamepadIdentity {
+  rawId: string;              // Gamepad.id
+  name: string;               // 设备名称（去掉厂商/产品ID）
+  vendorId: string | null;    // 4位小写十六进制
+  productId: string | null;
+}
+
+export interface GamepadLayout {
+  id: string;
+  label: string;
+  // 匹配条件：厂商+产品ID、仅厂商ID或名称，满足任一即可
+  products?: [string, string][];
+  vendors?: string[];
+  namePattern?: RegExp;
+  axisMapping: Record<number, string>;
+  buttonMapping: Record<number, string>;
+}
+
+// 标准映射（W3C standard gamepad）的轴
+const STANDARD_AXES: Record<number, string> = {
+  0: 'leftStickX',
+  1: 'leftStickY',
+  2: 'rightStickX',
+  3: 'rightStickY',
+};
+
+// 标准映射的按钮位置（按各厂商印字命名）
+function standardButtons(face: [string, string, string, string], shoulders: [string, string, string, string], select: string, start: string, home: string): Record<number, string> {
+  return {
+    0: face[0],
+    1: face[1],
+    2: face[2],
+    3: face[3],
+    4: shoulders[0],
+    5: shoulders[1],
+    6: shoulders[2],
+    7: shoulders[3],
+    8: select,
+    9: start,
+    10: 'LS',
+    11: 'RS',
+    12: 'DPadUp',
+    13: 'DPadDown',
+    14: 'DPadLeft',
+    15: 'DPadRight',
+    16: home,
+  };
+}
+
+// 按编号命名的按钮（1起）
+function numberedButtons(count: number, names: Record<number, string> = {}): Record<number, string> {
+  const buttons: Record<number, string> = {};
+  for (let index = 0; index < count; index++) {
+    buttons[index] = names[index] ?? `Button${index + 1}`;
+  }
+  return buttons;
+}
+
+export const STANDARD_LAYOUT: GamepadLayout = {
+  id: 'standard',
+  label: '标准手柄',
+  axisMapping: STANDARD_AXES,
+  buttonMapping: standardButtons(['A', 'B', 'X', 'Y'], ['LB', 'RB', 'LT', 'RT'], 'Select', 'Start', 'Home'),
+};
+
+export const GENERIC_LAYOUT: GamepadLayout = {
+  id: 'generic',
+  label: '通用设备',
+  axisMapping: {},
+  buttonMapping: {},
+};
+
+const BUILTIN_LAYOUTS: GamepadLayout[] = [
+  {
+    id: 'xbox',
+    label: 'Xbox 手柄',
+    vendors: ['045e'],
+    namePattern: /xbox|xinput/i,
+    axisMapping: STANDARD_AXES,
+    buttonMapping: standardButtons(['A', 'B', 'X', 'Y'], ['LB', 'RB', 'LT', 'RT'], 'View', 'Menu', 'Xbox'),
+  },
+  {
+    id: 'ps5',
+    label: 'DualSense (PS5)',
+    products: [['054c', '0ce6'], ['054c', '0df2']],
+    namePattern: /dualsense/i,
+    axisMapping: STANDARD_AXES,
+    buttonMapping: {
+      ...standardButtons(['Cross', 'Circle', 'Square', 'Triangle'], ['L1', 'R1', 'L2', 'R2'], 'Create', 'Options', 'PS'),
+      10: 'L3',
+      11: 'R3',
+      17: 'Touchpad',
+    },
+  },
+  {
+    id: 'ps4',
+    label: 'DualShock 4 (PS4)',
+    vendors: ['054c'],
+    namePattern: /dualshock|wireless controller/i,
+    axisMapping: STANDARD_AXES,
+    buttonMapping: {
+      ...standardButtons(['Cross', 'Circle', 'Square', 'Triangle'], ['L1', 'R1', 'L2', 'R2'], 'Share', 'Options', 'PS'),
+      10: 'L3',
+      11: 'R3',
+      17: 'Touchpad',
+    },
+  },
+  {
+    id: 'logitech-extreme-3d',
+    label: 'Logitech Extreme 3D Pro',
+    products: [['046d', 'c215']],
+    namePattern: /extreme 3d/i,
+    axisMapping: {
+      0: 'stickX',
+      1: 'stickY',
+      5: 'twist',
+      6: 'throttle',
+      9: 'hat',
+    },
+    buttonMapping: numberedButtons(12, { 0: 'Trigger', 1: 'Thumb' }),
+  },
+  {
+    id: 'thrustmaster-hotas',
+    label: 'Thrustmaster HOTAS',
+    // T.Flight HOTAS X、HOTAS 4（PS/PC）、T.16000M、TWCS 油门
+    products: [['044f', 'b108'], ['044f', 'b67b'], ['044f', 'b67c'], ['044f', 'b10a'], ['044f', 'b687']],
+    namePattern: /hotas|t\.16000m|twcs/i,
+    axisMapping: {
+      0: 'stickX',
+      1: 'stickY',
+      2: 'throttle',
+      5: 'rudder',
+      9: 'hat',
+    },
+    buttonMapping: numberedButtons(16, { 0: 'Trigger' }),
+  },
+  {
+    id: 'arcade-encoder',
+    label: '街机编码器',
+    // DragonRise（Zero Delay）、Xin-Mo
+    products: [['0079', '0006'], ['16c0', '05e1']],
+    namePattern: /arcade|zero ?delay|dragonrise|xin-?mo|encoder/i,
+    axisMapping: {
+      0: 'joystickX',
+      1: 'joystickY',
+    },
+    buttonMapping: numberedButtons(12),
+  },
+];
+
+// 后注册的布局优先匹配
+let customLayouts: GamepadLayout[] = [];
+
+/**
+ * 注册布局（同id覆盖内置布局），优先于内置目录匹配
+ */
+export function registerGamepadLayout(layout: GamepadLayout): void {
+  customLayouts = [layout, ...customLayouts.filter(existing => existing.id !== layout.id)];
+}
+
+export function getGamepadLayouts(): GamepadLayout[] {
+  const customIds = new Set(customLayouts.map(layout => layout.id));
+  return [...customLayouts, ...BUILTIN_LAYOUTS.filter(layout => !customIds.has(layout.id))];
+}
+
+/**
+ * 从 Gamepad.id 解析设备身份
+ */
+export function parseGamepadId(rawId: string): GamepadIdentity {
+  // Chrome/Edge
+  const chrome = rawId.match(/^(.*?)\s*\(.*Vendor:\s*([0-9a-f]{1,4})\s+Product:\s*([0-9a-f]{1,4})\s*\)\s*$/i);
+  if (chrome) {
+    return { rawId, name: chrome[1] || rawId, vendorId: normalizeHexId(chrome[2]), productId: normalizeHexId(chrome[3]) };
+  }
+
+  // Firefox
+  const firefox = rawId.match(/^([0-9a-f]{1,4})-([0-9a-f]{1,4})-(.*)$/i);
+  if (firefox) {
+    return { rawId, name: firefox[3] || rawId, vendorId: normalizeHexId(firefox[1]), productId: normalizeHexId(firefox[2]) };
+  }
+
+  // 没有厂商/产品ID时去掉括号中的驱动说明，如 Xbox 360 Controller (XInput STANDARD GAMEPAD)
+  return { rawId, name: rawId.replace(/\s*\(.*\)\s*$/, '') || rawId, vendorId: null, productId: null };
+}
+
+function normalizeHexId(value: string): string {
+  return value.toLowerCase().padStart(4, '0');
+}
+
+/**
+ * 设备身份键：有厂商/产品ID时为 vvvv:pppp，否则为设备名称
+ * 同型号的多台设备身份键相同
+ */
+export function gamepadDeviceKey(identity: GamepadIdentity): string {
+  return identity.vendorId && identity.productId
+    ? `${identity.vendorId}:${identity.productId}`
+    : identity.name.trim().toLowerCase();
+}
+
+/**
+ * 匹配设备布局：厂商+产品ID > 仅厂商ID > 名称；都不匹配时按浏览器是否报告标准映射选择标准/通用布局
+ */
+export function matchGamepadLayout(identity: GamepadIdentity, mapping: GamepadMappingType | string = ''): GamepadLayout {
+  const layouts = getGamepadLayouts();
+  const { vendorId, productId, rawId } = identity;
+
+  const byProduct = layouts.find(layout =>
+    layout.products?.some(([vendor, product]) => vendor === vendorId && product === productId)
+  );
+  if (byProduct) return byProduct;
+
+  const byVendor = layouts.find(layout => vendorId && layout.vendors?.includes(vendorId));
+  if (byVendor) return byVendor;
+
+  // 名称匹配使用完整的 Gamepad.id（包括驱动说明）
+  const byName = layouts.find(layout => layout.namePattern?.test(rawId));
+  if (byName) return byName;
+
+  return mapping === 'standard' ? STANDARD_LAYOUT : GENERIC_LAYOUT;
+}
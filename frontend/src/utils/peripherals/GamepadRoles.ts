@@ -0,0 +1,135 @@
+/**
+ * 多手柄角色分配
+ * 多台手柄同时连接时，操作员为每台设备分配角色：
+ * - 底盘驾驶：摇杆驾驶、死人开关、档位切换，以及映射方案中的规则
+ * - 手臂/头部：只触发映射方案中的规则（可用 trigger.role 限定只由该角色触发）
+ * - 速度踏板：指定轴调节整体速度比例，按钮同样走映射方案
+ * - 通用：只触发映射方案中的规则
+ *
+ * 角色按设备ID（含设备身份，见 PeripheralManager 的手柄自动发现）保存在浏览器中，设备重连后保持。
+ * 没有设备被分配为底盘驾驶时，第一台未分配的手柄按底盘驾驶处理（单手柄时与原来一致）
+ */
+
+export type GamepadRole = 'drive' | 'manipulator' | 'speed' | 'general';
+
+export const GAMEPAD_ROLE_LABELS: Record<GamepadRole, string> = {
+  drive: '底盘驾驶',
+  manipulator: '手臂/头部',
+  speed: '速度踏板',
+  general: '通用',
+};
+
+export interface GamepadRoleConfig {
+  speedAxis: number;   // 速度踏板使用的轴（未校准时全行程 [-1, 1] 对应 0~1，已校准时 [0, 1] 对应 0~1）
+}
+
+let config: GamepadRoleConfig = {
+  speedAxis: 0,
+};
+
+/**
+ * 修改角色配置（未指定的字段保持不变）
+ */
+export function setGamepadRoleConfig(partial: Partial<GamepadRoleConfig>): void {
+  config = { ...config, ...partial };
+}
+
+export function getGamepadRoleConfig(): GamepadRoleConfig {
+  return { ...config };
+}
+
+// ========== 分配 ==========
+
+const STORAGE_KEY = 'robot_cockpit_gamepad_roles';
+const ROLES = Object.keys(GAMEPAD_ROLE_LABELS) as GamepadRole[];
+
+type RoleListener = (assignments: Record<string, GamepadRole>) => void;
+
+let assignments: Record<string, GamepadRole> | null = null;
+const listeners = new Set<RoleListener>();
+
+function readAssignments(): Record<string, GamepadRole> {
+  if (assignments) return assignments;
+
+  assignments = {};
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved) {
+    try {
+      const parsed = JSON.parse(saved);
+      Object.entries(parsed ?? {}).forEach(([deviceId, role]) => {
+        if (ROLES.includes(role as GamepadRole)) {
+          assignments![deviceId] = role as GamepadRole;
+        }
+      });
+    } catch (error) {
+      console.warn('[GamepadRoles] 角色分配无法解析:', error);
+    }
+  }
+  return assignments;
+}
+
+/**
+ * 已保存的角色分配（设备ID → 角色）
+ */
+export function getGamepadRoleAssignments(): Record<string, GamepadRole> {
+  return { ...readAssignments() };
+}
+
+/**
+ * 分配角色（null为取消分配）
+ */
+export function setGamepadRole(deviceId: string, role: GamepadRole | null): void {
+  const next = { ...readAssignments() };
+  if (role) {
+    next[deviceId] = role;
+  } else {
+    delete next[deviceId];
+  }
+  assignments = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  console.log(`[GamepadRoles] ${deviceId} → ${role ? GAMEPAD_ROLE_LABELS[role] : '未分配'}`);
+
+  listeners.forEach(listener => {
+    try {
+      listener({ ...next });
+    } catch (error) {
+      console.error('[GamepadRoles] Listener error:', error);
+    }
+  });
+}
+
+/**
+ * 监听角色分配变化
+ * @returns 取消监听的函数
+ */
+export function onGamepadRoleChange(listener: RoleListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * 已连接手柄的实际角色：已分配的按分配；没有底盘驾驶设备时第一台未分配的手柄为底盘驾驶，其余为通用
+ * @param deviceIds 已连接手柄的设备ID（按连接顺序）
+ */
+export function resolveGamepadRoles(deviceIds: string[]): Record<string, GamepadRole> {
+  const saved = readAssignments();
+  const roles: Record<string, GamepadRole> = {};
+  deviceIds.forEach(deviceId => {
+    if (saved[deviceId]) roles[deviceId] = saved[deviceId];
+  });
+
+  const hasDrive = Object.values(roles).includes('drive');
+  deviceIds.filter(deviceId => !roles[deviceId]).forEach((deviceId, index) => {
+    roles[deviceId] = !hasDrive && index === 0 ? 'drive' : 'general';
+  });
+  return roles;
+}
+
+/**
+ * 速度踏板轴值换算为速度比例 [0, 1]
+ * @param calibrated 该轴是否已校准（校准后踏板静止为0、踩到底为1）
+ */
+export function speedScaleFromAxis(value: number, calibrated: boolean): number {
+  const scale = calibrated ? value : (value + 1) / 2;
+  return Math.max(0, Math.min(1, scale));
+}
@@ -1,19 +1,24 @@
 /**
  * 输入映射器
- * 将外设输入事件映射为机器人控制命令
+ * 将外设输入事件映射为机器人控制命令和3D模型动作
  */
 
 import {
   InputEvent,
   InputEventType,
+  InputMappingProfile,
   InputMappingRule,
   RobotCommand,
-  RobotCommandType,
 } from '../../types/peripheral.types';
+import { getDefaultMappingProfile } from './MappingProfile';
 
 export class InputMapper {
   private rules: Map<string, InputMappingRule> = new Map();
   private commandCallback: ((command: RobotCommand) => void) | null = null;
+  private animationCallback: ((animation: string, event: InputEvent) => void) | null = null;
+  // 规则最近一次触发的时间（防抖）
+  private lastTriggered: Map<string, number> = new Map();
+  private profile: InputMappingProfile | null = null;
 
   /**
    * 添加映射规则
@@ -54,6 +59,24 @@ export class InputMapper {
    */
   clearRules(): void {
     this.rules.clear();
+    this.lastTriggered.clear();
+  }
+
+  /**
+   * 加载映射方案（替换现有规则）
+   */
+  loadProfile(profile: InputMappingProfile): void {
+    this.clearRules();
+    profile.rules.forEach(rule => this.addRule({ ...rule, trigger: { ...rule.trigger } }));
+    this.profile = profile;
+    console.log(`[InputMapper] 已加载映射方案：${profile.name}（${profile.rules.length} 条规则）`);
+  }
+
+  /**
+   * 当前加载的映射方案（未通过方案加载时为null）
+   */
+  getProfile(): InputMappingProfile | null {
+    return this.profile;
   }
 
   /**
@@ -63,10 +86,20 @@ export class InputMapper {
     this.commandCallback = callback;
   }
 
+  /**
+   * 设置3D动作回调（规则带有animation时调用）
+   */
+  setAnimationCallback(callback: (animation: string, event: InputEvent) => void): void {
+    this.animationCallback = callback;
+  }
+
   /**
    * 处理输入事件
+   * @returns 是否有规则匹配
    */
-  processInput(event: InputEvent): void {
+  processInput(event: InputEvent): boolean {
+    let matched = false;
+
     // 遍历所有规则，找到匹配的
     this.rules.forEach(rule => {
       if (!rule.enabled) {
@@ -74,14 +107,33 @@ export class InputMapper {
       }
 
       if (this.matchesTrigger(event, rule)) {
-        // 生成命令
+        matched = true;
+
+        // 防抖：距离上次触发时间太短时忽略
+        // （手柄事件的timestamp基于performance.now()，统一使用Date.now()计时）
+        if (rule.debounceMs) {
+          const now = Date.now();
+          const last = this.lastTriggered.get(rule.id);
+          if (last !== undefined && now - last < rule.debounceMs) {
+            return;
+          }
+          this.lastTriggered.set(rule.id, now);
+        }
+
+        // 生成命令（未指定来源时以触发的设备类型作为来源）
         const command = this.generateCommand(event, rule);
         
         if (command && this.commandCallback) {
-          this.commandCallback(command);
+          this.commandCallback({ ...command, source: command.source ?? event.deviceType });
+        }
+
+        if (rule.animation && this.animationCallback) {
+          this.animationCallback(rule.animation, event);
         }
       }
     });
+
+    return matched;
   }
 
   /**
@@ -100,6 +152,14 @@ export class InputMapper {
       return false;
     }
 
+    // 检查设备和设备角色（可选，多手柄时按设备或角色区分同一按钮）
+    if (trigger.deviceId && trigger.deviceId !== event.deviceId) {
+      return false;
+    }
+    if (trigger.role && trigger.role !== event.role) {
+      return false;
+    }
+
     // 根据事件类型检查具体条件
     switch (event.type) {
       case InputEventType.AXIS_CHANGE:
@@ -137,7 +197,9 @@ export class InputMapper {
    * 生成机器人命令
    */
   private generateCommand(event: InputEvent, rule: InputMappingRule): RobotCommand | null {
-    if (typeof rule.command === 'function') {
+    if (!rule.command) {
+      return null;
+    } else if (typeof rule.command === 'function') {
       // 动态命令生成
       try {
         return rule.command(event);
@@ -153,286 +215,18 @@ export class InputMapper {
 }
 
 /**
- * 创建默认的输入映射配置
+ * 按映射方案创建输入映射器
  */
-export function createDefaultInputMapping(): InputMapper {
+export function createInputMapper(profile: InputMappingProfile): InputMapper {
   const mapper = new InputMapper();
-
-  // ===== 摇杆控制机器人移动 =====
-  mapper.addRule({
-    id: 'joystick-move',
-    name: '摇杆控制移动',
-    description: '左摇杆控制机器人前后左右移动和转向',
-    trigger: {
-      type: InputEventType.AXIS_CHANGE,
-    },
-    command: (event: InputEvent) => {
-      // 需要获取当前所有轴的状态
-      // 这里简化处理，实际应该从设备状态获取
-      const axisValue = event.axis?.value || 0;
-      const axisIndex = event.axis?.index || 0;
-
-      let linearX = 0;
-      let angularZ = 0;
-
-      // 左摇杆Y轴 → 前后移动
-      if (axisIndex === 1) {
-        linearX = -axisValue * 0.5; // 前后速度（反向）
-      }
-
-      // 左摇杆X轴 → 转向
-      if (axisIndex === 0) {
-        angularZ = axisValue * 1.0; // 转向速度
-      }
-
-      return {
-        type: RobotCommandType.VELOCITY,
-        topic: '/cmd_vel',
-        messageType: 'geometry_msgs/Twist',
-        payload: {
-          linear: { x: linearX, y: 0, z: 0 },
-          angular: { x: 0, y: 0, z: angularZ },
-        },
-        priority: 5,
-      };
-    },
-  });
-
-  // ===== 按钮A：抬左腿 =====
-  mapper.addRule({
-    id: 'button-a-jump',
-    name: 'A按钮抬左腿',
-    description: '按下A按钮机器人抬左腿',
-    trigger: {
-      type: InputEventType.BUTTON_DOWN,
-      buttonIndex: 0,
-    },
-    command: {
-      type: RobotCommandType.ACTION,
-      topic: '/robot/action',
-      messageType: 'std_msgs/String',
-      payload: { data: 'Jump' },
-      priority: 8,
-    },
-  });
-
-  // ===== 按钮B：抬右腿 =====
-  mapper.addRule({
-    id: 'button-b-walk-jump',
-    name: 'B按钮抬右腿',
-    description: '按下B按钮机器人抬右腿',
-    trigger: {
-      type: InputEventType.BUTTON_DOWN,
-      buttonIndex: 1,
-    },
-    command: {
-      type: RobotCommandType.ACTION,
-      topic: '/robot/action',
-      messageType: 'std_msgs/String',
-      payload: { data: 'WalkJump' },
-      priority: 8,
-    },
-  });
-  
-  // ===== 按钮C：右臂平举 =====
-  mapper.addRule({
-    id: 'button-c-raise-right-arm',
-    name: 'C按钮右臂平举',
-    description: '按下C按钮机器人右臂平举',
-    trigger: {
-      type: InputEventType.BUTTON_DOWN,
-      buttonIndex: 2,
-    },
-    command: {
-      type: RobotCommandType.ACTION,
-      topic: '/robot/action',
-      messageType: 'std_msgs/String',
-      payload: { data: 'RaiseRightArm' },
-      priority: 8,
-    },
-  });
-  
-  // ===== 按钮D：点赞 =====
-  mapper.addRule({
-    id: 'button-d-thumbs-up',
-    name: 'D按钮点赞',
-    description: '按下D按钮机器人点赞',
-    trigger: {
-      type: InputEventType.BUTTON_DOWN,
-      buttonIndex: 3,
-    },
-    command: {
-      type: RobotCommandType.ACTION,
-      topic: '/robot/action',
-      messageType: 'std_msgs/String',
-      payload: { data: 'ThumbsUp' },
-      priority: 8,
-    },
-  });
-
-  // ===== LB按钮（button 4）：左转 =====
-  mapper.addRule({
-    id: 'button-lb-turn-left',
-    name: 'LB按钮左转',
-    description: '按下LB按钮机器人左转',
-    trigger: {
-      type: InputEventType.BUTTON_DOWN,
-      buttonIndex: 4,
-    },
-    command: {
-      type: RobotCommandType.ACTION,
-      topic: '/robot/action',
-      messageType: 'std_msgs/String',
-      payload: { data: 'left' },
-      priority: 8,
-    },
-  });
-
-  // ===== RB按钮（button 5）：右转 =====
-  mapper.addRule({
-    id: 'button-rb-turn-right',
-    name: 'RB按钮右转',
-    description: '按下RB按钮机器人右转',
-    trigger: {
-      type: InputEventType.BUTTON_DOWN,
-      buttonIndex: 5,
-    },
-    command: {
-      type: RobotCommandType.ACTION,
-      topic: '/robot/action',
-      messageType: 'std_msgs/String',
-      payload: { data: 'right' },
-      priority: 8,
-    },
-  });
-
-  // ===== 键盘W：前进 =====
-  mapper.addRule({
-    id: 'key-w-forward',
-    name: 'W键前进',
-    description: '按下W键机器人前进',
-    trigger: {
-      type: InputEventType.KEY_DOWN,
-      key: 'w',
-    },
-    command: {
-      type: RobotCommandType.VELOCITY,
-      topic: '/cmd_vel',
-      messageType: 'geometry_msgs/Twist',
-      payload: {
-        linear: { x: 0.5, y: 0, z: 0 },
-        angular: { x: 0, y: 0, z: 0 },
-      },
-      priority: 5,
-    },
-  });
-
-  // ===== 键盘S：后退 =====
-  mapper.addRule({
-    id: 'key-s-backward',
-    name: 'S键后退',
-    description: '按下S键机器人后退',
-    trigger: {
-      type: InputEventType.KEY_DOWN,
-      key: 's',
-    },
-    command: {
-      type: RobotCommandType.VELOCITY,
-      topic: '/cmd_vel',
-      messageType: 'geometry_msgs/Twist',
-      payload: {
-        linear: { x: -0.5, y: 0, z: 0 },
-        angular: { x: 0, y: 0, z: 0 },
-      },
-      priority: 5,
-    },
-  });
-
-  // ===== 键盘A：左转 =====
-  mapper.addRule({
-    id: 'key-a-left',
-    name: 'A键左转',
-    description: '按下A键机器人左转',
-    trigger: {
-      type: InputEventType.KEY_DOWN,
-      key: 'a',
-    },
-    command: {
-      type: RobotCommandType.VELOCITY,
-      topic: '/cmd_vel',
-      messageType: 'geometry_msgs/Twist',
-      payload: {
-        linear: { x: 0, y: 0, z: 0 },
-        angular: { x: 0, y: 0, z: 0.5 },
-      },
-      priority: 5,
-    },
-  });
-
-  // ===== 键盘D：右转 =====
-  mapper.addRule({
-    id: 'key-d-right',
-    name: 'D键右转',
-    description: '按下D键机器人右转',
-    trigger: {
-      type: InputEventType.KEY_DOWN,
-      key: 'd',
-    },
-    command: {
-      type: RobotCommandType.VELOCITY,
-      topic: '/cmd_vel',
-      messageType: 'geometry_msgs/Twist',
-      payload: {
-        linear: { x: 0, y: 0, z: 0 },
-        angular: { x: 0, y: 0, z: -0.5 },
-      },
-      priority: 5,
-    },
-  });
-
-  // ===== 键盘松开：停止 =====
-  const stopCommand = {
-    type: RobotCommandType.VELOCITY,
-    topic: '/cmd_vel',
-    messageType: 'geometry_msgs/Twist',
-    payload: {
-      linear: { x: 0, y: 0, z: 0 },
-      angular: { x: 0, y: 0, z: 0 },
-    },
-    priority: 5,
-  };
-
-  ['w', 's', 'a', 'd'].forEach(key => {
-    mapper.addRule({
-      id: `key-${key}-stop`,
-      name: `${key.toUpperCase()}键松开停止`,
-      description: `松开${key.toUpperCase()}键停止移动`,
-      trigger: {
-        type: InputEventType.KEY_UP,
-        key,
-      },
-      command: stopCommand,
-    });
-  });
-
-  // ===== 键盘空格：急停 =====
-  mapper.addRule({
-    id: 'key-space-emergency',
-    name: '空格键急停',
-    description: '按下空格键触发急停',
-    trigger: {
-      type: InputEventType.KEY_DOWN,
-      key: ' ',
-    },
-    command: {
-      type: RobotCommandType.EMERGENCY_STOP,
-      topic: '/emergency_stop',
-      messageType: 'std_msgs/Bool',
-      payload: { data: true },
-      priority: 10,
-    },
-  });
-
+  mapper.loadProfile(profile);
   return mapper;
 }
 
+/**
+ * 创建默认的输入映射配置（内置默认方案，见 config/mappings/default.json）
+ * 摇杆驾驶由驾驶模式处理，急停（空格键、手柄Select）由急停通道全局监听，见 services/emergencyStop.ts
+ */
+export function createDefaultInputMapping(): InputMapper {
+  return createInputMapper(getDefaultMappingProfile());
+}
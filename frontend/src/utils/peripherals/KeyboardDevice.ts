@@ -13,10 +13,27 @@ import {
   InputEventType,
 } from '../../types/peripheral.types';
 
+/**
+ * 字母键统一为小写：按住Shift（死人开关）时e.key为大写，否则松开时对不上按下的键
+ */
+function normalizeKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+/**
+ * 事件目标是否为可编辑控件（输入框、文本框、下拉框、contentEditable）
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  if (!element) return false;
+  return element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName);
+}
+
 export class KeyboardDevice extends BasePeripheralDevice {
   private pressedKeys: Set<string> = new Set();
   private keyDownHandler: ((e: KeyboardEvent) => void) | null = null;
   private keyUpHandler: ((e: KeyboardEvent) => void) | null = null;
+  private blurHandler: (() => void) | null = null;
 
   constructor(config?: PeripheralConfig) {
     super('keyboard', PeripheralType.KEYBOARD, 'Keyboard', config);
@@ -27,41 +44,65 @@ export class KeyboardDevice extends BasePeripheralDevice {
 
     // 键盘按下
     this.keyDownHandler = (e: KeyboardEvent) => {
+      // 在输入框中打字不驾驶（如话题浏览器的过滤框，Shift+字母会同时按下死人开关）
+      if (isEditableTarget(e.target)) {
+        return;
+      }
+
+      const key = normalizeKey(e.key);
+
       // 避免重复触发（长按）
-      if (this.pressedKeys.has(e.key)) {
+      if (this.pressedKeys.has(key)) {
         return;
       }
 
-      this.pressedKeys.add(e.key);
+      this.pressedKeys.add(key);
 
       const event: InputEvent = {
         type: InputEventType.KEY_DOWN,
         timestamp: Date.now(),
         deviceId: this.id,
         deviceType: this.type,
-        key: e.key,
+        key,
       };
 
       this.emitInputEvent(event);
     };
 
-    // 键盘松开
+    // 键盘松开（输入框中的松开也转发，焦点移入输入框前按下的键能正常释放）
     this.keyUpHandler = (e: KeyboardEvent) => {
-      this.pressedKeys.delete(e.key);
+      const key = normalizeKey(e.key);
+      this.pressedKeys.delete(key);
 
       const event: InputEvent = {
         type: InputEventType.KEY_UP,
         timestamp: Date.now(),
         deviceId: this.id,
         deviceType: this.type,
-        key: e.key,
+        key,
       };
 
       this.emitInputEvent(event);
     };
 
+    // 失焦后收不到keyup，视为全部松开（否则再次按下会被当作长按忽略）
+    this.blurHandler = () => {
+      const keys = Array.from(this.pressedKeys);
+      this.pressedKeys.clear();
+      keys.forEach(key => {
+        this.emitInputEvent({
+          type: InputEventType.KEY_UP,
+          timestamp: Date.now(),
+          deviceId: this.id,
+          deviceType: this.type,
+          key,
+        });
+      });
+    };
+
     window.addEventListener('keydown', this.keyDownHandler);
     window.addEventListener('keyup', this.keyUpHandler);
+    window.addEventListener('blur', this.blurHandler);
 
     this.updateStatus(PeripheralStatus.CONNECTED);
     console.log('✅ [Keyboard] 键盘控制已启用');
@@ -78,6 +119,11 @@ export class KeyboardDevice extends BasePeripheralDevice {
       this.keyUpHandler = null;
     }
 
+    if (this.blurHandler) {
+      window.removeEventListener('blur', this.blurHandler);
+      this.blurHandler = null;
+    }
+
     this.pressedKeys.clear();
     this.updateStatus(PeripheralStatus.DISCONNECTED);
     console.log('❌ [Keyboard] 键盘控制已禁用');
@@ -0,0 +1,337 @@
+/**
+ * 可绑定动作
+ * 映射编辑界面中可以绑定到按钮、按键或摇杆轴的动作，以及在映射方案上增删绑定、检查冲突的工具函数
+ * - 数字动作（按钮/按键）：生成按下规则，需要时生成松开规则（停止、3D动作复位），规则以action字段归属动作
+ * - 摇杆轴动作：写入方案的driveAxes，含义由驾驶模式决定
+ * - 多手柄时非底盘驾驶角色设备上的按钮绑定限定该角色（trigger.role），不限定角色的规则对所有设备生效
+ */
+
+import {
+  DriveAxisName,
+  InputEventType,
+  InputMappingProfile,
+  RobotCommand,
+  RobotCommandType,
+  SerializableMappingRule,
+} from '../../types/peripheral.types';
+import { DEFAULT_DRIVE_AXES } from './DriveModes';
+import { getDeadmanConfig } from './DeadmanSwitch';
+import { getVelocityShaperConfig } from './VelocityShaper';
+import { getEmergencyStopConfig } from '../../services/emergencyStop';
+import { GAMEPAD_ROLE_LABELS, GamepadRole } from './GamepadRoles';
+
+export type MappingActionCategory = 'drive' | 'safety' | 'gesture';
+
+export interface MappingAction {
+  id: string;
+  label: string;
+  category: MappingActionCategory;
+  driveAxis?: DriveAxisName;      // 摇杆轴动作对应的逻辑轴
+  axisHint?: string;              // 绑定摇杆轴时提示的推动方向
+  command?: RobotCommand;         // 按下时发送
+  releaseCommand?: RobotCommand;  // 松开时发送
+  animation?: string;             // 按下时同步的3D动作
+  releaseAnimation?: string;      // 松开时同步的3D动作
+  debounceMs?: number;
+}
+
+export type InputBinding =
+  | { kind: 'button'; index: number; role?: string }   // role：限定设备角色
+  | { kind: 'key'; key: string }
+  | { kind: 'axis'; index: number; invert: boolean };
+
+export const MAPPING_ACTION_CATEGORY_LABELS: Record<MappingActionCategory, string> = {
+  drive: '移动',
+  safety: '安全',
+  gesture: '动作',
+};
+
+const GESTURE_DEBOUNCE_MS = 300;
+
+function robotAction(data: string): RobotCommand {
+  return {
+    type: RobotCommandType.ACTION,
+    topic: '/robot/action',
+    messageType: 'std_msgs/String',
+    payload: { data },
+    priority: 8,
+  };
+}
+
+function twist(linearX: number, angularZ: number): RobotCommand {
+  return {
+    type: RobotCommandType.VELOCITY,
+    topic: '/cmd_vel',
+    messageType: 'geometry_msgs/Twist',
+    payload: {
+      linear: { x: linearX, y: 0, z: 0 },
+      angular: { x: 0, y: 0, z: angularZ },
+    },
+    priority: 5,
+  };
+}
+
+export const MAPPING_ACTIONS: MappingAction[] = [
+  // 摇杆轴（模拟量）
+  { id: 'axis_left_y', label: '左摇杆前后（前进/后退）', category: 'drive', driveAxis: 'leftY', axisHint: '向前推' },
+  { id: 'axis_left_x', label: '左摇杆左右（转向/横移）', category: 'drive', driveAxis: 'leftX', axisHint: '向右推' },
+  { id: 'axis_right_x', label: '右摇杆左右（全向模式转向）', category: 'drive', driveAxis: 'rightX', axisHint: '向右推' },
+  { id: 'axis_right_y', label: '右摇杆前后（坦克模式右侧）', category: 'drive', driveAxis: 'rightY', axisHint: '向前推' },
+  // 按键移动（固定速度，松开停止）
+  { id: 'move_forward', label: '前进', category: 'drive', command: twist(0.5, 0), releaseCommand: twist(0, 0) },
+  { id: 'move_backward', label: '后退', category: 'drive', command: twist(-0.5, 0), releaseCommand: twist(0, 0) },
+  { id: 'turn_left', label: '左转', category: 'drive', command: twist(0, 0.5), releaseCommand: twist(0, 0) },
+  { id: 'turn_right', label: '右转', category: 'drive', command: twist(0, -0.5), releaseCommand: twist(0, 0) },
+  // 急停（另有急停通道全局监听的按钮/按键）；映射器回调把急停命令交给急停通道，不直接发布
+  {
+    id: 'emergency_stop',
+    label: '急停',
+    category: 'safety',
+    command: {
+      type: RobotCommandType.EMERGENCY_STOP,
+      topic: '/emergency_stop',
+      messageType: 'std_msgs/Bool',
+      payload: { data: true },
+      priority: 10,
+    },
+  },
+  // 3D动作
+  { id: 'jump', label: '抬左腿', category: 'gesture', command: robotAction('Jump'), animation: 'Jump', releaseAnimation: 'Jump_release', debounceMs: GESTURE_DEBOUNCE_MS },
+  { id: 'walk_jump', label: '抬右腿', category: 'gesture', command: robotAction('WalkJump'), animation: 'WalkJump', releaseAnimation: 'WalkJump_release', debounceMs: GESTURE_DEBOUNCE_MS },
+  { id: 'raise_right_arm', label: '右臂平举', category: 'gesture', command: robotAction('RaiseRightArm'), animation: 'RaiseRightArm', releaseAnimation: 'RaiseRightArm_release', debounceMs: GESTURE_DEBOUNCE_MS },
+  { id: 'thumbs_up', label: '点赞', category: 'gesture', command: robotAction('ThumbsUp'), animation: 'ThumbsUp', releaseAnimation: 'ThumbsUp_release', debounceMs: GESTURE_DEBOUNCE_MS },
+  { id: 'turn_head', label: '摇头', category: 'gesture', animation: 'TurnHead', releaseAnimation: 'TurnHead_release', debounceMs: GESTURE_DEBOUNCE_MS },
+  { id: 'turn_left_45', label: '左转45°', category: 'gesture', command: robotAction('left'), animation: 'left', debounceMs: GESTURE_DEBOUNCE_MS },
+  { id: 'turn_right_45', label: '右转45°', category: 'gesture', command: robotAction('right'), animation: 'right', debounceMs: GESTURE_DEBOUNCE_MS },
+];
+
+export function getMappingAction(actionId: string): MappingAction | undefined {
+  return MAPPING_ACTIONS.find(action => action.id === actionId);
+}
+
+// ========== 绑定 ==========
+
+// 当前设备布局中的轴、按钮名称（用于显示）
+export interface InputNames {
+  axes?: Record<number, string>;
+  buttons?: Record<number, string>;
+}
+
+/**
+ * 绑定的唯一键（用于冲突检查）
+ */
+export function bindingKey(binding: InputBinding): string {
+  switch (binding.kind) {
+    case 'button': return `button${binding.role ? `@${binding.role}` : ''}:${binding.index}`;
+    case 'key': return `key:${binding.key.length === 1 ? binding.key.toLowerCase() : binding.key}`;
+    case 'axis': return `axis:${binding.index}`;
+  }
+}
+
+/**
+ * 输入是否触发该绑定：不限定角色的按钮绑定对所有角色的设备生效
+ */
+export function bindingMatchesInput(binding: InputBinding, input: InputBinding): boolean {
+  if (bindingKey(binding) === bindingKey(input)) return true;
+  return binding.kind === 'button' && input.kind === 'button' && !binding.role && binding.index === input.index;
+}
+
+export function describeBinding(binding: InputBinding, names: InputNames = {}): string {
+  switch (binding.kind) {
+    case 'button':
+      // 限定角色的绑定来自其他设备，不使用当前设备的按钮名称
+      return binding.role
+        ? `按钮 ${binding.index}［${GAMEPAD_ROLE_LABELS[binding.role as GamepadRole] ?? binding.role}］`
+        : `按钮 ${binding.index}${names.buttons?.[binding.index] ? ` (${names.buttons[binding.index]})` : ''}`;
+    case 'key': return `按键 ${binding.key === ' ' ? 'Space' : binding.key.toUpperCase()}`;
+    case 'axis': return `轴 ${binding.index}${names.axes?.[binding.index] ? ` (${names.axes[binding.index]})` : ''}${binding.invert ? '（反向）' : ''}`;
+  }
+}
+
+/**
+ * 绑定键的显示名称
+ */
+export function describeBindingKey(key: string, names: InputNames = {}): string {
+  const [kind, value] = [key.slice(0, key.indexOf(':')), key.slice(key.indexOf(':') + 1)];
+  if (kind.startsWith('button@')) {
+    return describeBinding({ kind: 'button', index: Number(value), role: kind.slice('button@'.length) }, names);
+  }
+  switch (kind) {
+    case 'button': return describeBinding({ kind: 'button', index: Number(value) }, names);
+    case 'key': return describeBinding({ kind: 'key', key: value }, names);
+    default: return describeBinding({ kind: 'axis', index: Number(value), invert: false }, names);
+  }
+}
+
+/**
+ * 规则按下触发条件对应的绑定（松开规则返回null）
+ */
+function ruleBinding(rule: SerializableMappingRule): InputBinding | null {
+  const { type, buttonIndex, key, role } = rule.trigger;
+  if (type === InputEventType.BUTTON_DOWN && buttonIndex !== undefined) return { kind: 'button', index: buttonIndex, ...(role ? { role } : {}) };
+  if (type === InputEventType.KEY_DOWN && key !== undefined) return { kind: 'key', key };
+  return null;
+}
+
+/**
+ * 规则触发条件（按下或松开）对应的绑定键
+ */
+function ruleTriggerKey(rule: SerializableMappingRule): string | null {
+  const { type, buttonIndex, key, axisIndex, role } = rule.trigger;
+  if (buttonIndex !== undefined && (type === InputEventType.BUTTON_DOWN || type === InputEventType.BUTTON_UP)) {
+    return bindingKey({ kind: 'button', index: buttonIndex, role });
+  }
+  if (key !== undefined && (type === InputEventType.KEY_DOWN || type === InputEventType.KEY_UP)) {
+    return bindingKey({ kind: 'key', key });
+  }
+  if (axisIndex !== undefined && type === InputEventType.AXIS_CHANGE) {
+    return bindingKey({ kind: 'axis', index: axisIndex, invert: false });
+  }
+  return null;
+}
+
+/**
+ * 动作当前的绑定
+ */
+export function getActionBindings(profile: InputMappingProfile, actionId: string): InputBinding[] {
+  const action = getMappingAction(actionId);
+  if (action?.driveAxis) {
+    const binding = profile.driveAxes?.[action.driveAxis] ?? DEFAULT_DRIVE_AXES[action.driveAxis];
+    return [{ kind: 'axis', index: binding.index, invert: !!binding.invert }];
+  }
+
+  return profile.rules
+    .filter(rule => rule.action === actionId)
+    .map(ruleBinding)
+    .filter((binding): binding is InputBinding => !!binding);
+}
+
+/**
+ * 为动作增加绑定（摇杆轴动作替换原有绑定），返回新的方案
+ */
+export function bindAction(profile: InputMappingProfile, actionId: string, binding: InputBinding): InputMappingProfile {
+  const action = getMappingAction(actionId);
+  if (!action) {
+    console.warn(`[MappingActions] 未知动作: ${actionId}`);
+    return profile;
+  }
+
+  if (action.driveAxis) {
+    if (binding.kind !== 'axis') return profile;
+    return {
+      ...profile,
+      driveAxes: { ...profile.driveAxes, [action.driveAxis]: { index: binding.index, invert: binding.invert } },
+    };
+  }
+  if (binding.kind === 'axis') return profile;
+
+  const key = bindingKey(binding);
+  if (getActionBindings(profile, actionId).some(existing => bindingKey(existing) === key)) {
+    return profile;
+  }
+
+  const trigger = (type: 'down' | 'up') => binding.kind === 'button'
+    ? { type: type === 'down' ? InputEventType.BUTTON_DOWN : InputEventType.BUTTON_UP, buttonIndex: binding.index, ...(binding.role ? { role: binding.role } : {}) }
+    : { type: type === 'down' ? InputEventType.KEY_DOWN : InputEventType.KEY_UP, key: binding.key.length === 1 ? binding.key.toLowerCase() : binding.key };
+  const id = `${action.id}-${key.replace(':', '-')}`;
+  const rules: SerializableMappingRule[] = [{
+    id,
+    name: `${describeBinding(binding)} ${action.label}`,
+    action: action.id,
+    trigger: trigger('down'),
+    ...(action.command ? { command: action.command } : {}),
+    ...(action.animation ? { animation: action.animation } : {}),
+    ...(action.debounceMs ? { debounceMs: action.debounceMs } : {}),
+  }];
+  if (action.releaseCommand || action.releaseAnimation) {
+    rules.push({
+      id: `${id}-release`,
+      name: `${describeBinding(binding)} 松开`,
+      action: action.id,
+      trigger: trigger('up'),
+      ...(action.releaseCommand ? { command: action.releaseCommand } : {}),
+      ...(action.releaseAnimation ? { animation: action.releaseAnimation } : {}),
+    });
+  }
+
+  return { ...profile, rules: [...profile.rules, ...rules] };
+}
+
+/**
+ * 移除动作的某个绑定（包括对应的松开规则），返回新的方案
+ * 摇杆轴动作恢复为标准布局
+ */
+export function unbindAction(profile: InputMappingProfile, actionId: string, binding: InputBinding): InputMappingProfile {
+  const action = getMappingAction(actionId);
+  if (action?.driveAxis) {
+    const driveAxes = { ...profile.driveAxes };
+    delete driveAxes[action.driveAxis];
+    return { ...profile, driveAxes };
+  }
+
+  const key = bindingKey(binding);
+  return {
+    ...profile,
+    rules: profile.rules.filter(rule => rule.action !== actionId || ruleTriggerKey(rule) !== key),
+  };
+}
+
+// ========== 冲突 ==========
+
+/**
+ * 其他功能占用的输入（死人开关、档位切换、全局急停）
+ */
+export function getReservedBindings(): { key: string; label: string }[] {
+  const deadman = getDeadmanConfig();
+  const shaper = getVelocityShaperConfig();
+  const emergencyStop = getEmergencyStopConfig();
+  const reserved: { key: string; label: string }[] = [];
+  const add = (bindings: InputBinding[], label: string) => {
+    bindings.forEach(binding => reserved.push({ key: bindingKey(binding), label }));
+  };
+
+  if (deadman.enabled) {
+    add(deadman.gamepadButtons.map(index => ({ kind: 'button', index })), '死人开关');
+    add(deadman.keys.map(key => ({ kind: 'key', key })), '死人开关');
+  }
+  add(shaper.precisionButtons.map(index => ({ kind: 'button', index })), '精细档');
+  add(shaper.precisionKeys.map(key => ({ kind: 'key', key })), '精细档');
+  add(shaper.turboButtons.map(index => ({ kind: 'button', index })), '加速档');
+  add(shaper.turboKeys.map(key => ({ kind: 'key', key })), '加速档');
+  add(emergencyStop.gamepadButtons.map(index => ({ kind: 'button', index })), '全局急停');
+  add(emergencyStop.keys.map(key => ({ kind: 'key', key })), '全局急停');
+  return reserved;
+}
+
+/**
+ * 绑定冲突：同一输入被多个动作（或其他功能）使用
+ * @returns 绑定键 → 使用该输入的动作/功能名称（两个及以上时为冲突）
+ */
+export function findBindingConflicts(profile: InputMappingProfile): Map<string, string[]> {
+  const users = new Map<string, Set<string>>();
+  const add = (key: string, label: string) => {
+    if (!users.has(key)) users.set(key, new Set());
+    users.get(key)!.add(label);
+  };
+
+  MAPPING_ACTIONS.forEach(action => {
+    getActionBindings(profile, action.id).forEach(binding => add(bindingKey(binding), action.label));
+  });
+  // 未归属可绑定动作的规则（如下发方案中的自定义规则）
+  profile.rules.forEach(rule => {
+    if (rule.action && getMappingAction(rule.action)) return;
+    const key = ruleTriggerKey(rule);
+    if (key) add(key, rule.name);
+  });
+  // 不限定角色的规则对所有设备生效，与限定角色的同一按钮冲突（保留功能只用于底盘驾驶设备，不参与）
+  Array.from(users.keys()).filter(key => key.startsWith('button@')).forEach(key => {
+    users.get(`button:${key.slice(key.indexOf(':') + 1)}`)?.forEach(label => add(key, label));
+  });
+  getReservedBindings().forEach(({ key, label }) => add(key, label));
+
+  const conflicts = new Map<string, string[]>();
+  users.forEach((labels, key) => {
+    if (labels.size > 1) conflicts.set(key, Array.from(labels));
+  });
+  return conflicts;
+}
@@ -0,0 +1,277 @@
+/**
+ * 输入映射方案
+ * 按钮、按键、非驾驶轴的绑定全部用JSON方案描述（触发条件、ROS命令、3D动作同步、防抖），
+ * 新的映射只需下发JSON，无需修改代码
+ *
+ * 方案来源优先级：当前用户为该机器人选用的方案 > 部署下发的方案（VITE_INPUT_MAPPING_URL） > 内置默认方案
+ * 每个用户在每台机器人上可保存多个命名方案，其中一个为当前方案
+ */
+
+import {
+  DriveAxisName,
+  InputEventType,
+  InputMappingProfile,
+  RobotCommandType,
+  SerializableMappingRule,
+} from '../../types/peripheral.types';
+import { getTopicType, normalizeMessageType, validateMessage } from '../../services/messageRegistry';
+import defaultProfileJson from '../../config/mappings/default.json';
+
+// 当前支持的方案格式版本
+export const MAPPING_PROFILE_VERSION = 1;
+
+export interface MappingProfileConfig {
+  profileUrl: string | null;  // 部署下发的方案地址（如 /mappings/team.json），null为不下发
+}
+
+let config: MappingProfileConfig = {
+  profileUrl: import.meta.env.VITE_INPUT_MAPPING_URL || null,
+};
+
+/**
+ * 修改映射方案配置（未指定的字段保持不变）
+ */
+export function setMappingProfileConfig(partial: Partial<MappingProfileConfig>): void {
+  config = { ...config, ...partial };
+}
+
+export function getMappingProfileConfig(): MappingProfileConfig {
+  return { ...config };
+}
+
+// ========== 解析 ==========
+
+const EVENT_TYPES = Object.values(InputEventType) as string[];
+const COMMAND_TYPES = Object.values(RobotCommandType) as string[];
+
+/**
+ * 校验单条规则，返回不合法的原因（合法时为null）
+ */
+function validateRule(rule: any): string | null {
+  if (!rule || typeof rule !== 'object') return '不是对象';
+  if (typeof rule.id !== 'string' || !rule.id) return '缺少id';
+  if (!rule.trigger || !EVENT_TYPES.includes(rule.trigger.type)) return `触发类型无效: ${rule.trigger?.type}`;
+
+  const { buttonIndex, axisIndex, key, threshold } = rule.trigger;
+  if (buttonIndex !== undefined && !Number.isInteger(buttonIndex)) return 'buttonIndex必须为整数';
+  if (axisIndex !== undefined && !Number.isInteger(axisIndex)) return 'axisIndex必须为整数';
+  if (key !== undefined && typeof key !== 'string') return 'key必须为字符串';
+  if (threshold !== undefined && typeof threshold !== 'number') return 'threshold必须为数字';
+  if (rule.trigger.deviceId !== undefined && typeof rule.trigger.deviceId !== 'string') return 'deviceId必须为字符串';
+  if (rule.trigger.role !== undefined && typeof rule.trigger.role !== 'string') return 'role必须为字符串';
+
+  if (rule.command !== undefined) {
+    const { type, topic, messageType, payload } = rule.command ?? {};
+    if (!COMMAND_TYPES.includes(type)) return `命令类型无效: ${type}`;
+    if (typeof topic !== 'string' || typeof messageType !== 'string') return '命令缺少topic或messageType';
+
+    // 按消息注册表校验payload（如绑定/cmd_vel却缺少linear/angular）
+    const topicType = getTopicType(topic);
+    if (topicType && normalizeMessageType(messageType) !== topicType) return `${topic} 的消息类型应为 ${topicType}`;
+    const errors = validateMessage(messageType, payload);
+    if (errors.length > 0) return `payload不符合 ${messageType}：${errors.join('；')}`;
+  }
+  if (rule.animation !== undefined && typeof rule.animation !== 'string') return 'animation必须为字符串';
+  if (rule.command === undefined && rule.animation === undefined) return '既没有命令也没有3D动作';
+  if (rule.debounceMs !== undefined && !(rule.debounceMs >= 0)) return 'debounceMs必须为非负数';
+  return null;
+}
+
+const DRIVE_AXIS_NAMES: DriveAxisName[] = ['leftX', 'leftY', 'rightX', 'rightY'];
+
+/**
+ * 解析映射方案：格式错误时返回null，个别规则不合法时跳过该规则
+ */
+export function parseMappingProfile(data: unknown, sourceName: string = '映射方案'): InputMappingProfile | null {
+  const profile = data as Partial<InputMappingProfile> | null;
+  if (!profile || typeof profile !== 'object' || typeof profile.id !== 'string' || !Array.isArray(profile.rules)) {
+    console.warn(`[MappingProfile] ${sourceName} 格式无效`);
+    return null;
+  }
+  if (typeof profile.version === 'number' && profile.version > MAPPING_PROFILE_VERSION) {
+    console.warn(`[MappingProfile] ${sourceName} 版本 ${profile.version} 高于支持的版本 ${MAPPING_PROFILE_VERSION}`);
+    return null;
+  }
+
+  const ids = new Set<string>();
+  const rules: SerializableMappingRule[] = [];
+  profile.rules.forEach((rule, index) => {
+    const reason = validateRule(rule) ?? (ids.has(rule.id) ? `id重复: ${rule.id}` : null);
+    if (reason) {
+      console.warn(`[MappingProfile] ${sourceName} 第 ${index + 1} 条规则已跳过：${reason}`);
+      return;
+    }
+    ids.add(rule.id);
+    rules.push({ ...rule, name: rule.name || rule.id });
+  });
+
+  const driveAxes: InputMappingProfile['driveAxes'] = {};
+  DRIVE_AXIS_NAMES.forEach(name => {
+    const binding = profile.driveAxes?.[name];
+    if (binding === undefined) return;
+    if (!Number.isInteger(binding?.index) || binding.index < 0) {
+      console.warn(`[MappingProfile] ${sourceName} 摇杆轴 ${name} 的绑定无效，使用标准布局`);
+      return;
+    }
+    driveAxes[name] = { index: binding.index, invert: !!binding.invert };
+  });
+
+  return {
+    id: profile.id,
+    name: profile.name || profile.id,
+    description: profile.description,
+    version: profile.version ?? MAPPING_PROFILE_VERSION,
+    rules,
+    ...(Object.keys(driveAxes).length > 0 ? { driveAxes } : {}),
+  };
+}
+
+/**
+ * 内置默认方案
+ */
+export function getDefaultMappingProfile(): InputMappingProfile {
+  // 每次解析一份新的副本，避免调用方修改内置方案
+  return parseMappingProfile(JSON.parse(JSON.stringify(defaultProfileJson)), '内置默认方案')!;
+}
+
+/**
+ * 从URL读取方案（失败时返回null）
+ */
+export async function fetchMappingProfile(url: string): Promise<InputMappingProfile | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return parseMappingProfile(await response.json(), url);
+  } catch (error) {
+    console.warn(`[MappingProfile] 读取映射方案失败 (${url}):`, error);
+    return null;
+  }
+}
+
+// ========== 按用户、机器人保存的方案 ==========
+
+const PROFILE_STORAGE_PREFIX = 'robot_cockpit_mapping_profiles_';
+
+interface SavedMappingProfiles {
+  activeId: string | null;          // 当前方案，null为使用下发/内置方案
+  profiles: InputMappingProfile[];
+}
+
+/**
+ * 当前登录的用户（未登录时为guest）
+ */
+export function getCurrentUserId(): string {
+  return localStorage.getItem('robot_cockpit_username') || 'guest';
+}
+
+function storageKey(robotId: string, userId: string): string {
+  return `${PROFILE_STORAGE_PREFIX}${userId}_${robotId}`;
+}
+
+function readSaved(robotId: string, userId: string): SavedMappingProfiles {
+  const saved = localStorage.getItem(storageKey(robotId, userId));
+  if (!saved) return { activeId: null, profiles: [] };
+
+  try {
+    const parsed = JSON.parse(saved) as SavedMappingProfiles;
+    const profiles = (Array.isArray(parsed.profiles) ? parsed.profiles : [])
+      .map(profile => parseMappingProfile(profile, `用户 ${userId} 在机器人 ${robotId} 上的映射方案`))
+      .filter((profile): profile is InputMappingProfile => !!profile);
+    const activeId = profiles.some(profile => profile.id === parsed.activeId) ? parsed.activeId : null;
+    return { activeId, profiles };
+  } catch (error) {
+    console.warn(`[MappingProfile] 用户 ${userId} 在机器人 ${robotId} 上的映射方案无法解析:`, error);
+    return { activeId: null, profiles: [] };
+  }
+}
+
+function writeSaved(robotId: string, userId: string, saved: SavedMappingProfiles): void {
+  localStorage.setItem(storageKey(robotId, userId), JSON.stringify(saved));
+}
+
+/**
+ * 用户在机器人上保存的所有方案
+ */
+export function listMappingProfiles(robotId: string, userId: string = getCurrentUserId()): InputMappingProfile[] {
+  return readSaved(robotId, userId).profiles;
+}
+
+/**
+ * 用户在机器人上选用的方案id（未选用时为null）
+ */
+export function getActiveMappingProfileId(robotId: string, userId: string = getCurrentUserId()): string | null {
+  return readSaved(robotId, userId).activeId;
+}
+
+/**
+ * 读取用户在机器人上选用的方案（未选用时返回null）
+ */
+export function loadSavedMappingProfile(robotId: string, userId: string = getCurrentUserId()): InputMappingProfile | null {
+  const { activeId, profiles } = readSaved(robotId, userId);
+  return profiles.find(profile => profile.id === activeId) ?? null;
+}
+
+/**
+ * 保存方案（同id覆盖）并设为当前方案
+ */
+export function saveMappingProfile(
+  profile: InputMappingProfile,
+  robotId: string,
+  userId: string = getCurrentUserId()
+): void {
+  const saved = readSaved(robotId, userId);
+  const profiles = saved.profiles.filter(existing => existing.id !== profile.id);
+  profiles.push(profile);
+  writeSaved(robotId, userId, { activeId: profile.id, profiles });
+}
+
+export function deleteMappingProfile(profileId: string, robotId: string, userId: string = getCurrentUserId()): void {
+  const saved = readSaved(robotId, userId);
+  writeSaved(robotId, userId, {
+    activeId: saved.activeId === profileId ? null : saved.activeId,
+    profiles: saved.profiles.filter(profile => profile.id !== profileId),
+  });
+}
+
+/**
+ * 选用已保存的方案（null为恢复使用下发/内置方案）
+ */
+export function setActiveMappingProfile(profileId: string | null, robotId: string, userId: string = getCurrentUserId()): void {
+  const saved = readSaved(robotId, userId);
+  if (profileId !== null && !saved.profiles.some(profile => profile.id === profileId)) {
+    console.warn(`[MappingProfile] 方案 ${profileId} 不存在`);
+    return;
+  }
+  writeSaved(robotId, userId, { ...saved, activeId: profileId });
+}
+
+export function resetMappingProfile(robotId: string, userId: string = getCurrentUserId()): void {
+  setActiveMappingProfile(null, robotId, userId);
+}
+
+/**
+ * 导出为JSON文本（可导入其他浏览器或随部署下发）
+ */
+export function exportMappingProfile(profile: InputMappingProfile): string {
+  return JSON.stringify(profile, null, 2);
+}
+
+/**
+ * 读取不含用户方案时使用的方案（下发的方案或内置默认方案）
+ */
+export async function resolveBaseMappingProfile(): Promise<InputMappingProfile> {
+  if (config.profileUrl) {
+    const deployed = await fetchMappingProfile(config.profileUrl);
+    if (deployed) return deployed;
+  }
+  return getDefaultMappingProfile();
+}
+
+/**
+ * 按优先级读取当前用户在机器人上使用的方案
+ */
+export async function resolveMappingProfile(robotId: string, userId: string = getCurrentUserId()): Promise<InputMappingProfile> {
+  return loadSavedMappingProfile(robotId, userId) ?? resolveBaseMappingProfile();
+}
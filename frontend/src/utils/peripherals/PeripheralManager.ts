@@ -1,16 +1,21 @@
 /**
  * 外设管理器
  * 统一管理多个外设设备，协调输入事件
+ * 启用手柄自动发现后，每台新连接的手柄（gamepadconnected 或定时扫描发现）都会创建一个 GamepadDevice，
+ * 设备ID为 gamepad-身份键（同型号的第二台起加 #2、#3），按身份绑定，重连后仍是同一设备
  */
 
 import {
   IPeripheralDevice,
   PeripheralType,
+  PeripheralStatus,
   InputEvent,
   PeripheralState,
+  PeripheralConfig,
 } from '../../types/peripheral.types';
 import { GamepadDevice } from './GamepadDevice';
 import { KeyboardDevice } from './KeyboardDevice';
+import { gamepadDeviceKey, parseGamepadId } from './GamepadLayouts';
 
 export class PeripheralManager {
   private devices: Map<string, IPeripheralDevice> = new Map();
@@ -19,6 +24,12 @@ export class PeripheralManager {
   
   // 设备健康检查
   private healthCheckInterval: ReturnType<typeof setInterval> | null = null;
+  // 各设备最近一次的连接状态（用于发现断开）
+  private deviceStatuses: Map<string, PeripheralStatus> = new Map();
+
+  // 手柄自动发现（null为未启用）
+  private gamepadDiscovery: { config?: PeripheralConfig } | null = null;
+  private onGamepadConnected = () => this.discoverGamepads();
 
   /**
    * 添加设备
@@ -42,6 +53,7 @@ export class PeripheralManager {
       
       // 通知外部
       this.emit('deviceStateChange', { deviceId: device.id, state });
+      this.checkDeviceStatus(device.id, state);
       
       // 记录关键状态变化
       if (status === 'error') {
@@ -70,6 +82,53 @@ export class PeripheralManager {
     this.devices.delete(deviceId);
   }
 
+  /**
+   * 启用手柄自动发现：为每台连接的手柄创建设备
+   * @param config 新建手柄设备使用的配置
+   */
+  enableGamepadDiscovery(config?: PeripheralConfig): void {
+    this.gamepadDiscovery = { config };
+    if (this.isRunning) {
+      window.addEventListener('gamepadconnected', this.onGamepadConnected);
+      this.discoverGamepads();
+    }
+  }
+
+  /**
+   * 扫描已连接的手柄，为没有对应设备的手柄创建设备
+   * 同型号设备正在等待重连（或连接中）时交给它自己认领，不重复创建
+   */
+  private discoverGamepads(): void {
+    if (!this.gamepadDiscovery || !this.isRunning) return;
+
+    const gamepadDevices = this.getAllDevices().filter((device): device is GamepadDevice => device instanceof GamepadDevice);
+    const claimed = new Set(gamepadDevices.map(device => device.getGamepadIndex()));
+
+    Array.from(navigator.getGamepads()).forEach(gamepad => {
+      if (!gamepad || claimed.has(gamepad.index)) return;
+
+      const key = gamepadDeviceKey(parseGamepadId(gamepad.id));
+      const sameModel = gamepadDevices.filter(device => device.getDeviceKey() === key);
+      const waiting = sameModel.find(device => device.status !== PeripheralStatus.CONNECTED);
+      if (waiting) {
+        // 重连次数用尽的设备重新开始连接
+        if (waiting.status === PeripheralStatus.ERROR) {
+          waiting.connect().catch(error => console.error(`[PeripheralManager] 设备重连失败: ${waiting.id}`, error));
+        }
+        return;
+      }
+
+      const deviceId = sameModel.length > 0 ? `gamepad-${key}#${sameModel.length + 1}` : `gamepad-${key}`;
+      const device = new GamepadDevice(gamepad.index, this.gamepadDiscovery!.config, key, deviceId);
+      console.log(`[PeripheralManager] 发现手柄: ${gamepad.id} → ${deviceId}`);
+      this.addDevice(device);
+      gamepadDevices.push(device);
+      claimed.add(gamepad.index);
+      this.emit('deviceAdded', { deviceId });
+      device.connect().catch(error => console.error(`[PeripheralManager] 设备连接失败: ${deviceId}`, error));
+    });
+  }
+
   /**
    * 获取设备
    */
@@ -109,6 +168,11 @@ export class PeripheralManager {
 
     await Promise.all(connectPromises);
     this.isRunning = true;
+
+    if (this.gamepadDiscovery) {
+      window.addEventListener('gamepadconnected', this.onGamepadConnected);
+      this.discoverGamepads();
+    }
     
     // 启动健康检查
     this.startHealthCheck();
@@ -126,6 +190,7 @@ export class PeripheralManager {
 
     // 停止健康检查
     this.stopHealthCheck();
+    window.removeEventListener('gamepadconnected', this.onGamepadConnected);
 
     const disconnectPromises = Array.from(this.devices.values()).map(device =>
       device.disconnect().catch(error => {
@@ -136,6 +201,7 @@ export class PeripheralManager {
 
     await Promise.all(disconnectPromises);
     this.isRunning = false;
+    this.deviceStatuses.clear();
 
     this.emit('stopped', {});
   }
@@ -205,7 +271,21 @@ export class PeripheralManager {
   }
 
   /**
-   * 启动健康检查（每10秒检查一次）
+   * 设备从已连接变为断开或出错时发出deviceLost（遥操作据此立即停车）
+   */
+  private checkDeviceStatus(deviceId: string, state: PeripheralState): void {
+    const previous = this.deviceStatuses.get(deviceId);
+    this.deviceStatuses.set(deviceId, state.status);
+
+    if (previous === PeripheralStatus.CONNECTED && state.status !== PeripheralStatus.CONNECTED) {
+      console.warn(`[PeripheralManager] 设备 ${deviceId} 已断开 (${state.status})`);
+      this.emit('deviceLost', { deviceId, state });
+    }
+  }
+
+  /**
+   * 启动健康检查（每秒检查一次）
+   * 作为设备状态事件的兜底：手柄无响应但浏览器未报告断开时也能发现
    */
   private startHealthCheck(): void {
     this.healthCheckInterval = setInterval(() => {
@@ -215,8 +295,12 @@ export class PeripheralManager {
         if (state.status === 'error') {
           console.warn(`[PeripheralManager] 设备 ${deviceId} 状态异常`);
         }
+        this.checkDeviceStatus(deviceId, state);
       });
-    }, 10000);
+
+      // gamepadconnected 事件并不可靠（部分浏览器需要先按键），定时扫描兜底
+      this.discoverGamepads();
+    }, 1000);
   }
 
   /**
@@ -237,38 +321,11 @@ export class PeripheralManager {
 export function createDefaultPeripheralManager(): PeripheralManager {
   const manager = new PeripheralManager();
 
-  // 添加Gamepad设备（索引0）
-  const gamepad = new GamepadDevice(0, {
+  // 自动发现所有手柄（每台一个设备，按设备身份绑定，轴/按钮名称来自布局目录）
+  manager.enableGamepadDiscovery({
     deadzone: 0.15,
     sampleRate: 60,
-    axisMapping: {
-      0: 'leftStickX',
-      1: 'leftStickY',
-      2: 'rightStickX',
-      3: 'rightStickY',
-      4: 'gasPedal',
-      5: 'brakePedal',
-    },
-    buttonMapping: {
-      0: 'A',
-      1: 'B',
-      2: 'X',
-      3: 'Y',
-      4: 'LB',
-      5: 'RB',
-      6: 'LT',
-      7: 'RT',
-      8: 'Select',
-      9: 'Start',
-      10: 'LS',
-      11: 'RS',
-      12: 'DPadUp',
-      13: 'DPadDown',
-      14: 'DPadLeft',
-      15: 'DPadRight',
-    },
   });
-  manager.addDevice(gamepad);
 
   // 添加键盘设备（备用）
   const keyboard = new KeyboardDevice();
@@ -0,0 +1,449 @@
+/**
+ * 速度整形
+ * 位于摇杆输入和/cmd_vel之间：
+ * - 死区：径向（按摇杆偏移距离）或轴向（各轴独立），死区外重新映射到[0, 1]，避免出现速度突跳
+ * - 响应曲线：各轴独立的expo曲线，中间区域更细腻
+ * - 档位：精细/标准/加速，按按钮切换，按档位比例缩放当前限速
+ * - 加速度和加加速度限制：按固定周期逼近目标速度，输出平滑（安全停车不经过整形，立即生效）；横移使用线速度的限制
+ * 整形参数（含驾驶模式）按机器人保存
+ */
+
+import { InputEvent, InputEventType } from '../../types/peripheral.types';
+import type { DriveMode, SteeringFrame } from './DriveModes';
+
+export type DeadzoneMode = 'radial' | 'axial';
+
+export type VelocityMode = 'precision' | 'normal' | 'turbo';
+
+export interface AxisShaping {
+  expo: number;       // 响应曲线 [0, 1]：0为线性，越大摇杆中段输出越小
+  maxAccel: number;   // 加速时的最大加速度（m/s² 或 rad/s²），0为不限制
+  maxDecel: number;   // 减速时的最大加速度，0为不限制
+  maxJerk: number;    // 最大加加速度（m/s³ 或 rad/s³），0为不限制
+}
+
+export interface VelocityProfile {
+  deadzone: number;                          // 死区 [0, 1)
+  deadzoneMode: DeadzoneMode;
+  linear: AxisShaping;
+  angular: AxisShaping;
+  smoothingMs: number;                       // 目标速度低通滤波时间常数，0为不滤波
+  modeScales: Record<VelocityMode, number>;  // 各档位占当前限速的比例
+  driveMode: DriveMode;
+  steeringFrame: SteeringFrame;              // 平移方向相对机体还是相机
+}
+
+export interface ShapedVelocity {
+  linearX: number;
+  linearY: number;   // 横移，向左为正
+  angularZ: number;
+}
+
+export interface VelocityShaperConfig {
+  updateIntervalMs: number;   // 整形输出周期
+  precisionButtons: number[]; // 切换精细档的手柄按钮
+  turboButtons: number[];     // 切换加速档的手柄按钮
+  precisionKeys: string[];    // 切换精细档的按键（KeyboardEvent.key，不区分大小写）
+  turboKeys: string[];
+}
+
+export const VELOCITY_MODE_LABELS: Record<VelocityMode, string> = {
+  precision: '精细',
+  normal: '标准',
+  turbo: '加速',
+};
+
+export const DEFAULT_VELOCITY_PROFILE: VelocityProfile = {
+  deadzone: 0.05,
+  deadzoneMode: 'axial',
+  linear: { expo: 0.3, maxAccel: 1.0, maxDecel: 2.0, maxJerk: 6.0 },
+  angular: { expo: 0.3, maxAccel: 3.0, maxDecel: 6.0, maxJerk: 20.0 },
+  smoothingMs: 0,
+  modeScales: { precision: 0.3, normal: 0.7, turbo: 1.0 },
+  driveMode: 'differential',
+  steeringFrame: 'body',
+};
+
+const DEFAULT_CONFIG: VelocityShaperConfig = {
+  updateIntervalMs: 50,
+  precisionButtons: [10],  // 左摇杆按下（L3）
+  turboButtons: [11],      // 右摇杆按下（R3）
+  precisionKeys: ['q'],
+  turboKeys: ['e'],
+};
+
+let config: VelocityShaperConfig = { ...DEFAULT_CONFIG };
+
+/**
+ * 修改速度整形配置（未指定的字段保持不变）
+ */
+export function setVelocityShaperConfig(partial: Partial<VelocityShaperConfig>): void {
+  config = { ...config, ...partial };
+}
+
+export function getVelocityShaperConfig(): VelocityShaperConfig {
+  return { ...config };
+}
+
+// ========== 按机器人保存的整形参数 ==========
+
+const PROFILE_STORAGE_PREFIX = 'robot_cockpit_velocity_profile_';
+
+/**
+ * 当前选择的机器人（未选择时为default）
+ */
+export function getCurrentRobotId(): string {
+  return localStorage.getItem('robot_cockpit_selected_robot') || 'default';
+}
+
+/**
+ * 读取机器人的整形参数（未保存过时使用默认参数，缺少的字段用默认值补齐）
+ */
+export function loadVelocityProfile(robotId: string = getCurrentRobotId()): VelocityProfile {
+  const saved = localStorage.getItem(PROFILE_STORAGE_PREFIX + robotId);
+  if (!saved) {
+    return cloneProfile(DEFAULT_VELOCITY_PROFILE);
+  }
+
+  try {
+    const parsed = JSON.parse(saved) as Partial<VelocityProfile>;
+    return {
+      ...DEFAULT_VELOCITY_PROFILE,
+      ...parsed,
+      linear: { ...DEFAULT_VELOCITY_PROFILE.linear, ...parsed.linear },
+      angular: { ...DEFAULT_VELOCITY_PROFILE.angular, ...parsed.angular },
+      modeScales: { ...DEFAULT_VELOCITY_PROFILE.modeScales, ...parsed.modeScales },
+    };
+  } catch (error) {
+    console.warn(`[VelocityShaper] 机器人 ${robotId} 的整形参数无法解析，使用默认参数:`, error);
+    return cloneProfile(DEFAULT_VELOCITY_PROFILE);
+  }
+}
+
+export function saveVelocityProfile(profile: VelocityProfile, robotId: string = getCurrentRobotId()): void {
+  localStorage.setItem(PROFILE_STORAGE_PREFIX + robotId, JSON.stringify(profile));
+}
+
+export function resetVelocityProfile(robotId: string = getCurrentRobotId()): void {
+  localStorage.removeItem(PROFILE_STORAGE_PREFIX + robotId);
+}
+
+function cloneProfile(profile: VelocityProfile): VelocityProfile {
+  return {
+    ...profile,
+    linear: { ...profile.linear },
+    angular: { ...profile.angular },
+    modeScales: { ...profile.modeScales },
+  };
+}
+
+// ========== 输入整形 ==========
+
+/**
+ * 应用死区，死区外重新映射到[0, 1]
+ */
+export function applyDeadzone(x: number, y: number, deadzone: number, mode: DeadzoneMode): [number, number] {
+  if (deadzone <= 0) return [x, y];
+
+  if (mode === 'radial') {
+    const magnitude = Math.hypot(x, y);
+    if (magnitude <= deadzone) return [0, 0];
+    const scale = (Math.min(magnitude, 1) - deadzone) / (1 - deadzone) / magnitude;
+    return [x * scale, y * scale];
+  }
+
+  const axial = (value: number) => {
+    const abs = Math.abs(value);
+    if (abs <= deadzone) return 0;
+    return Math.sign(value) * (Math.min(abs, 1) - deadzone) / (1 - deadzone);
+  };
+  return [axial(x), axial(y)];
+}
+
+/**
+ * expo响应曲线：out = (1 - expo)·v + expo·v³
+ */
+export function applyExpo(value: number, expo: number): number {
+  const e = Math.min(Math.max(expo, 0), 1);
+  return (1 - e) * value + e * value * value * value;
+}
+
+/**
+ * 摇杆位置 → 归一化的前进和转向量 [-1, 1]
+ * Gamepad API中Y轴向下为正，前推为前进
+ */
+export function shapeStick(x: number, y: number, profile: VelocityProfile): { forward: number; turn: number } {
+  const [dx, dy] = applyDeadzone(x, y, profile.deadzone, profile.deadzoneMode);
+  return {
+    forward: applyExpo(-dy, profile.linear.expo),
+    turn: applyExpo(dx, profile.angular.expo),
+  };
+}
+
+// ========== 加速度限制 ==========
+
+interface AxisState {
+  value: number;
+  accel: number;
+}
+
+/**
+ * 单轴按加速度/加加速度限制逼近目标
+ */
+function stepAxis(state: AxisState, target: number, shaping: AxisShaping, dt: number): void {
+  const error = target - state.value;
+  if (Math.abs(error) < 1e-6) {
+    state.value = target;
+    state.accel = 0;
+    return;
+  }
+
+  // 远离零为加速，接近零（含反向）为减速
+  const speedingUp = Math.abs(target) > Math.abs(state.value) && Math.sign(target) !== -Math.sign(state.value);
+  const limit = speedingUp ? shaping.maxAccel : shaping.maxDecel;
+
+  let accel = error / dt;
+  if (limit > 0) {
+    accel = Math.min(Math.max(accel, -limit), limit);
+  }
+  if (shaping.maxJerk > 0) {
+    const maxChange = shaping.maxJerk * dt;
+    accel = Math.min(Math.max(accel, state.accel - maxChange), state.accel + maxChange);
+  }
+
+  const next = state.value + accel * dt;
+  // 越过目标时直接到达
+  if (Math.sign(target - next) !== Math.sign(error)) {
+    state.value = target;
+    state.accel = 0;
+  } else {
+    state.value = next;
+    state.accel = accel;
+  }
+}
+
+export class VelocityShaper {
+  private profile: VelocityProfile;
+  private mode: VelocityMode = 'normal';
+  private target: ShapedVelocity = { linearX: 0, linearY: 0, angularZ: 0 };
+  private filtered: ShapedVelocity = { linearX: 0, linearY: 0, angularZ: 0 };
+  private linear: AxisState = { value: 0, accel: 0 };
+  private lateral: AxisState = { value: 0, accel: 0 };
+  private angular: AxisState = { value: 0, accel: 0 };
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastStepAt: number = 0;
+  private outputCallback: ((velocity: ShapedVelocity) => void) | null = null;
+  private modeListeners: Set<(mode: VelocityMode) => void> = new Set();
+
+  constructor(profile: VelocityProfile = loadVelocityProfile()) {
+    this.profile = cloneProfile(profile);
+  }
+
+  getProfile(): VelocityProfile {
+    return cloneProfile(this.profile);
+  }
+
+  setProfile(profile: VelocityProfile): void {
+    this.profile = cloneProfile(profile);
+  }
+
+  getMode(): VelocityMode {
+    return this.mode;
+  }
+
+  /**
+   * 当前档位占限速的比例
+   */
+  getModeScale(): number {
+    return this.profile.modeScales[this.mode];
+  }
+
+  /**
+   * 切换档位：再次选择同一档位时回到标准档
+   */
+  toggleMode(mode: VelocityMode): void {
+    this.setMode(this.mode === mode ? 'normal' : mode);
+  }
+
+  setMode(mode: VelocityMode): void {
+    if (mode === this.mode) return;
+    this.mode = mode;
+    console.log(`[VelocityShaper] 切换到${VELOCITY_MODE_LABELS[mode]}档`);
+    this.modeListeners.forEach(listener => {
+      try {
+        listener(mode);
+      } catch (error) {
+        console.error('[VelocityShaper] Mode listener error:', error);
+      }
+    });
+  }
+
+  /**
+   * 监听档位变化
+   * @returns 取消监听的函数
+   */
+  onModeChange(callback: (mode: VelocityMode) => void): () => void {
+    this.modeListeners.add(callback);
+    return () => {
+      this.modeListeners.delete(callback);
+    };
+  }
+
+  /**
+   * 处理外设输入（档位切换按钮/按键按下时切换）
+   * @returns 该输入是否为档位切换输入
+   */
+  handleInput(event: InputEvent): boolean {
+    const mode = this.getModeInput(event);
+    if (!mode) {
+      return false;
+    }
+
+    if (event.type === InputEventType.BUTTON_DOWN || event.type === InputEventType.KEY_DOWN) {
+      this.toggleMode(mode);
+    }
+    return true;
+  }
+
+  /**
+   * 设置整形输出回调（按updateIntervalMs周期调用，直到速度回到零）
+   */
+  setOutputCallback(callback: (velocity: ShapedVelocity) => void): void {
+    this.outputCallback = callback;
+  }
+
+  /**
+   * 设置目标速度，输出按加速度限制逐步逼近
+   */
+  setTarget(velocity: ShapedVelocity): void {
+    this.target = { ...velocity };
+    if (!this.isIdle()) {
+      this.startLoop();
+    }
+  }
+
+  /**
+   * 限速降低时立即把输出裁剪到新的限速内（不经过减速过程）
+   */
+  clampOutput(maxLinear: number, maxAngular: number): void {
+    const clamp = (state: AxisState, max: number) => {
+      if (Math.abs(state.value) <= max) return false;
+      state.value = Math.sign(state.value) * max;
+      state.accel = 0;
+      return true;
+    };
+    const limit = (value: number, max: number) => Math.min(Math.max(value, -max), max);
+    const linearClamped = clamp(this.linear, maxLinear);
+    const lateralClamped = clamp(this.lateral, maxLinear);
+    const angularClamped = clamp(this.angular, maxAngular);
+    this.filtered = {
+      linearX: limit(this.filtered.linearX, maxLinear),
+      linearY: limit(this.filtered.linearY, maxLinear),
+      angularZ: limit(this.filtered.angularZ, maxAngular),
+    };
+
+    if (linearClamped || lateralClamped || angularClamped) {
+      this.outputCallback?.(this.getOutput());
+    }
+  }
+
+  /**
+   * 立即归零（安全停车，由调用方发布零速度）
+   */
+  reset(): void {
+    this.stopLoop();
+    this.target = { linearX: 0, linearY: 0, angularZ: 0 };
+    this.filtered = { linearX: 0, linearY: 0, angularZ: 0 };
+    this.linear = { value: 0, accel: 0 };
+    this.lateral = { value: 0, accel: 0 };
+    this.angular = { value: 0, accel: 0 };
+  }
+
+  getOutput(): ShapedVelocity {
+    return { linearX: this.linear.value, linearY: this.lateral.value, angularZ: this.angular.value };
+  }
+
+  /**
+   * 清理所有资源
+   */
+  cleanup(): void {
+    this.reset();
+    this.outputCallback = null;
+    this.modeListeners.clear();
+  }
+
+  /**
+   * 推进一个周期（dt：秒）
+   */
+  step(dt: number): ShapedVelocity {
+    // 目标低通滤波
+    const alpha = this.profile.smoothingMs > 0 ? 1 - Math.exp(-(dt * 1000) / this.profile.smoothingMs) : 1;
+    const filter = (filtered: number, target: number) => {
+      const next = filtered + (target - filtered) * alpha;
+      return Math.abs(next - target) < 1e-4 ? target : next;
+    };
+    this.filtered = {
+      linearX: filter(this.filtered.linearX, this.target.linearX),
+      linearY: filter(this.filtered.linearY, this.target.linearY),
+      angularZ: filter(this.filtered.angularZ, this.target.angularZ),
+    };
+
+    stepAxis(this.linear, this.filtered.linearX, this.profile.linear, dt);
+    stepAxis(this.lateral, this.filtered.linearY, this.profile.linear, dt);
+    stepAxis(this.angular, this.filtered.angularZ, this.profile.angular, dt);
+    return this.getOutput();
+  }
+
+  private isIdle(): boolean {
+    const zero = (velocity: ShapedVelocity) =>
+      velocity.linearX === 0 && velocity.linearY === 0 && velocity.angularZ === 0;
+    return zero(this.target) && zero(this.filtered) && zero(this.getOutput());
+  }
+
+  private startLoop(): void {
+    if (this.timer) return;
+
+    this.lastStepAt = Date.now();
+    this.timer = setInterval(() => {
+      const now = Date.now();
+      // 页面卡顿后不一次性跳到目标
+      const dt = Math.min((now - this.lastStepAt) / 1000, 0.2);
+      this.lastStepAt = now;
+
+      this.outputCallback?.(this.step(dt));
+
+      // 回到零后发出最后一次零速度即停止
+      if (this.isIdle()) {
+        this.stopLoop();
+      }
+    }, config.updateIntervalMs);
+  }
+
+  private stopLoop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private getModeInput(event: InputEvent): VelocityMode | null {
+    switch (event.type) {
+      case InputEventType.BUTTON_DOWN:
+      case InputEventType.BUTTON_UP:
+        if (!event.button) return null;
+        if (config.precisionButtons.includes(event.button.index)) return 'precision';
+        if (config.turboButtons.includes(event.button.index)) return 'turbo';
+        return null;
+      case InputEventType.KEY_DOWN:
+      case InputEventType.KEY_UP: {
+        const key = event.key?.toLowerCase();
+        if (!key) return null;
+        if (config.precisionKeys.some(configured => configured.toLowerCase() === key)) return 'precision';
+        if (config.turboKeys.some(configured => configured.toLowerCase() === key)) return 'turbo';
+        return null;
+      }
+      default:
+        return null;
+    }
+  }
+}
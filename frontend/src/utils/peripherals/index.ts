@@ -14,5 +14,128 @@ export { KeyboardDevice } from './KeyboardDevice';
 export { PeripheralManager, createDefaultPeripheralManager } from './PeripheralManager';
 
 // 输入映射
-export { InputMapper, createDefaultInputMapping } from './InputMapper';
+export { InputMapper, createInputMapper, createDefaultInputMapping } from './InputMapper';
+export {
+  MAPPING_PROFILE_VERSION,
+  setMappingProfileConfig,
+  getMappingProfileConfig,
+  parseMappingProfile,
+  getDefaultMappingProfile,
+  fetchMappingProfile,
+  getCurrentUserId,
+  listMappingProfiles,
+  getActiveMappingProfileId,
+  loadSavedMappingProfile,
+  saveMappingProfile,
+  deleteMappingProfile,
+  setActiveMappingProfile,
+  resetMappingProfile,
+  exportMappingProfile,
+  resolveBaseMappingProfile,
+  resolveMappingProfile,
+} from './MappingProfile';
+export type { MappingProfileConfig } from './MappingProfile';
+export {
+  MAPPING_ACTIONS,
+  MAPPING_ACTION_CATEGORY_LABELS,
+  getMappingAction,
+  bindingKey,
+  bindingMatchesInput,
+  describeBinding,
+  describeBindingKey,
+  getActionBindings,
+  bindAction,
+  unbindAction,
+  getReservedBindings,
+  findBindingConflicts,
+} from './MappingActions';
+export type { MappingAction, MappingActionCategory, InputBinding, InputNames } from './MappingActions';
 
+// 手柄识别与布局
+export {
+  parseGamepadId,
+  gamepadDeviceKey,
+  matchGamepadLayout,
+  registerGamepadLayout,
+  getGamepadLayouts,
+  STANDARD_LAYOUT,
+  GENERIC_LAYOUT,
+} from './GamepadLayouts';
+export type { GamepadIdentity, GamepadLayout } from './GamepadLayouts';
+
+// 手柄校准
+export {
+  GamepadCalibrationRecorder,
+  calibrateAxisValue,
+  calibratedNoiseFloor,
+  loadGamepadCalibration,
+  listGamepadCalibrations,
+  saveGamepadCalibration,
+  deleteGamepadCalibration,
+  onGamepadCalibrationChange,
+  DIRECTION_PROMPTS,
+} from './GamepadCalibration';
+export type {
+  AxisCalibration,
+  GamepadCalibrationProfile,
+  CalibrationPhase,
+  DirectionPrompt,
+} from './GamepadCalibration';
+
+// 多手柄角色
+export {
+  GAMEPAD_ROLE_LABELS,
+  setGamepadRoleConfig,
+  getGamepadRoleConfig,
+  getGamepadRoleAssignments,
+  setGamepadRole,
+  onGamepadRoleChange,
+  resolveGamepadRoles,
+  speedScaleFromAxis,
+} from './GamepadRoles';
+export type { GamepadRole, GamepadRoleConfig } from './GamepadRoles';
+
+// 死人开关
+export {
+  DeadmanSwitch,
+  setDeadmanConfig,
+  getDeadmanConfig,
+  DEADMAN_RELEASE_LABELS,
+} from './DeadmanSwitch';
+export type { DeadmanConfig, DeadmanReleaseReason } from './DeadmanSwitch';
+
+// 速度整形
+export {
+  VelocityShaper,
+  setVelocityShaperConfig,
+  getVelocityShaperConfig,
+  loadVelocityProfile,
+  saveVelocityProfile,
+  resetVelocityProfile,
+  applyDeadzone,
+  applyExpo,
+  shapeStick,
+  DEFAULT_VELOCITY_PROFILE,
+  VELOCITY_MODE_LABELS,
+} from './VelocityShaper';
+export type {
+  VelocityProfile,
+  VelocityShaperConfig,
+  VelocityMode,
+  DeadzoneMode,
+  AxisShaping,
+  ShapedVelocity,
+} from './VelocityShaper';
+
+// 驾驶模式
+export {
+  mixDrive,
+  updateDriveAxes,
+  canStrafe,
+  DEFAULT_DRIVE_AXES,
+  setCameraYawConfig,
+  getCameraYawConfig,
+  DRIVE_MODE_LABELS,
+  STEERING_FRAME_LABELS,
+} from './DriveModes';
+export type { DriveMode, SteeringFrame, DriveAxes, DriveCommand, CameraYawConfig } from './DriveModes';